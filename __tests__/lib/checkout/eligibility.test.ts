@@ -0,0 +1,60 @@
+/**
+ * Tests for Checkout Eligibility
+ *
+ * Covers the price a buyer pays and the reasons a purchase is refused
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { resolveCheckoutPrice, CheckoutListingSnapshot } from '@/lib/checkout/eligibility'
+import { CHECKOUT_ERROR_CODES, CheckoutError } from '@/lib/checkout/errors'
+
+const expectCheckoutError = (fn: () => unknown, code: string) => {
+  try {
+    fn()
+  } catch (error) {
+    expect(error).toBeInstanceOf(CheckoutError)
+    expect((error as CheckoutError).code).toBe(code)
+    return
+  }
+  throw new Error(`Expected CheckoutError ${code}`)
+}
+
+describe('Checkout Eligibility', () => {
+  const fixed: CheckoutListingSnapshot = {
+    sellerId: 'seller-1',
+    status: 'APPROVED',
+    pricingType: 'FIXED',
+    price: 1500,
+  }
+  const offers: CheckoutListingSnapshot = { ...fixed, pricingType: 'OFFERS', price: null }
+
+  it('charges the asking price on FIXED listings', () => {
+    expect(resolveCheckoutPrice(fixed, 'buyer-1', null)).toBe(1500)
+  })
+
+  it('charges the agreed amount on OFFERS listings', () => {
+    expect(resolveCheckoutPrice(offers, 'buyer-1', 1200)).toBe(1200)
+  })
+
+  it('requires an accepted offer on OFFERS listings', () => {
+    expectCheckoutError(
+      () => resolveCheckoutPrice(offers, 'buyer-1', null),
+      CHECKOUT_ERROR_CODES.NO_AGREED_PRICE
+    )
+  })
+
+  it('refuses sold, unapproved and own listings', () => {
+    expectCheckoutError(
+      () => resolveCheckoutPrice({ ...fixed, status: 'SOLD' }, 'buyer-1', null),
+      CHECKOUT_ERROR_CODES.ALREADY_SOLD
+    )
+    expectCheckoutError(
+      () => resolveCheckoutPrice({ ...fixed, status: 'PAUSED' }, 'buyer-1', null),
+      CHECKOUT_ERROR_CODES.LISTING_UNAVAILABLE
+    )
+    expectCheckoutError(
+      () => resolveCheckoutPrice(fixed, 'seller-1', null),
+      CHECKOUT_ERROR_CODES.OWN_LISTING
+    )
+  })
+})
@@ -0,0 +1,29 @@
+/**
+ * Tests for Cloudinary URL helpers
+ *
+ * Covers:
+ * - Document image URLs, which the server fetches, only for Cloudinary uploads
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { getDocumentImageUrl } from '@/lib/cloudinary-utils'
+
+describe('Cloudinary URL helpers', () => {
+  describe('getDocumentImageUrl', () => {
+    it('builds a JPEG thumbnail URL for a Cloudinary upload', () => {
+      expect(
+        getDocumentImageUrl('https://res.cloudinary.com/demo/image/upload/v1700000000/listings/bike.png')
+      ).toBe(
+        'https://res.cloudinary.com/demo/image/upload/w_300,h_300,c_fill,g_auto,q_auto:good,f_jpg/v1700000000/listings/bike.png'
+      )
+    })
+
+    it('returns null for anything else, so the server never fetches it', () => {
+      expect(getDocumentImageUrl('http://169.254.169.254/latest/meta-data/')).toBeNull()
+      expect(getDocumentImageUrl('https://res.cloudinary.com.attacker.example/image/upload/bike.jpg')).toBeNull()
+      expect(getDocumentImageUrl('http://res.cloudinary.com/demo/image/upload/bike.jpg')).toBeNull()
+      expect(getDocumentImageUrl('https://res.cloudinary.com/demo/image/fetch/https://example.com/a.jpg')).toBeNull()
+      expect(getDocumentImageUrl('not a url')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,138 @@
+/**
+ * Tests for the Commission Engine
+ *
+ * Covers:
+ * - Rule precedence (promo, category, price band, default)
+ * - Price band boundaries and promo validity dates
+ * - Minimum / maximum fee clamping and the built-in fallback rate
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  calculateCommissionQuote,
+  CommissionContext,
+  CommissionRuleSnapshot,
+  DEFAULT_COMMISSION_RATE,
+  selectCommissionRule,
+} from '@/lib/commission/engine'
+
+const makeRule = (overrides: Partial<CommissionRuleSnapshot>): CommissionRuleSnapshot => ({
+  id: 'rule',
+  name: 'Rule',
+  type: 'DEFAULT',
+  rate: 0.2,
+  minFee: null,
+  maxFee: null,
+  isActive: true,
+  categoryId: null,
+  minPrice: null,
+  maxPrice: null,
+  sellerId: null,
+  validFrom: null,
+  validUntil: null,
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+  ...overrides,
+})
+
+describe('Commission Engine', () => {
+  const context: CommissionContext = {
+    price: 1000,
+    sellerId: 'seller-1',
+    categoryId: 'phones',
+    parentCategoryId: 'electronics',
+    at: new Date('2025-06-15T12:00:00Z'),
+  }
+
+  const defaultRule = makeRule({ id: 'default', rate: 0.2 })
+  const bandRule = makeRule({ id: 'band', type: 'PRICE_BAND', rate: 0.1, minPrice: 500, maxPrice: 2000 })
+  const parentRule = makeRule({ id: 'parent', type: 'CATEGORY', rate: 0.15, categoryId: 'electronics' })
+  const categoryRule = makeRule({ id: 'category', type: 'CATEGORY', rate: 0.12, categoryId: 'phones' })
+  const promoRule = makeRule({
+    id: 'promo',
+    type: 'SELLER_PROMO',
+    rate: 0.05,
+    sellerId: 'seller-1',
+    validFrom: new Date('2025-06-01T00:00:00Z'),
+    validUntil: new Date('2025-07-01T00:00:00Z'),
+  })
+
+  describe('selectCommissionRule', () => {
+    it('prefers a seller promotion over every other rule', () => {
+      const rules = [defaultRule, bandRule, parentRule, categoryRule, promoRule]
+      expect(selectCommissionRule(rules, context)?.id).toBe('promo')
+    })
+
+    it('prefers the exact category over its parent', () => {
+      expect(selectCommissionRule([parentRule, categoryRule, bandRule], context)?.id).toBe('category')
+      expect(selectCommissionRule([parentRule, bandRule], context)?.id).toBe('parent')
+    })
+
+    it('prefers a price band over the default rate', () => {
+      expect(selectCommissionRule([defaultRule, bandRule], context)?.id).toBe('band')
+    })
+
+    it('uses the newest rule when several of the same type match', () => {
+      const newer = makeRule({ id: 'newer', createdAt: new Date('2025-03-01T00:00:00Z') })
+      expect(selectCommissionRule([defaultRule, newer], context)?.id).toBe('newer')
+    })
+
+    it('ignores inactive rules', () => {
+      const inactivePromo = { ...promoRule, isActive: false }
+      expect(selectCommissionRule([defaultRule, inactivePromo], context)?.id).toBe('default')
+    })
+
+    it('treats minPrice as inclusive and maxPrice as exclusive', () => {
+      expect(selectCommissionRule([bandRule], { ...context, price: 500 })?.id).toBe('band')
+      expect(selectCommissionRule([bandRule], { ...context, price: 499.99 })).toBeNull()
+      expect(selectCommissionRule([bandRule], { ...context, price: 2000 })).toBeNull()
+    })
+
+    it('only applies promotions to their seller within the validity dates', () => {
+      expect(selectCommissionRule([promoRule], { ...context, sellerId: 'seller-2' })).toBeNull()
+      expect(
+        selectCommissionRule([promoRule], { ...context, at: new Date('2025-05-31T23:59:59Z') })
+      ).toBeNull()
+      expect(
+        selectCommissionRule([promoRule], { ...context, at: new Date('2025-07-01T00:00:00Z') })
+      ).toBeNull()
+    })
+  })
+
+  describe('calculateCommissionQuote', () => {
+    it('falls back to the built-in rate without any rules', () => {
+      const quote = calculateCommissionQuote([], context)
+      expect(quote.rule).toBeNull()
+      expect(quote.rate).toBe(DEFAULT_COMMISSION_RATE)
+      expect(quote.commission).toBe(200)
+      expect(quote.netAmount).toBe(800)
+    })
+
+    it('rounds the fee to cents', () => {
+      const quote = calculateCommissionQuote([bandRule], { ...context, price: 999.99 })
+      expect(quote.commission).toBe(100)
+      expect(quote.netAmount).toBe(899.99)
+    })
+
+    it('raises the fee to the minimum', () => {
+      const rule = makeRule({ rate: 0.1, minFee: 50 })
+      const quote = calculateCommissionQuote([rule], { ...context, price: 100 })
+      expect(quote.commission).toBe(50)
+      expect(quote.clampedTo).toBe('MIN_FEE')
+    })
+
+    it('caps the fee at the maximum', () => {
+      const rule = makeRule({ rate: 0.1, maxFee: 500 })
+      const quote = calculateCommissionQuote([rule], { ...context, price: 10000 })
+      expect(quote.commission).toBe(500)
+      expect(quote.netAmount).toBe(9500)
+      expect(quote.clampedTo).toBe('MAX_FEE')
+    })
+
+    it('never charges more than the sale price', () => {
+      const rule = makeRule({ rate: 0.1, minFee: 50 })
+      const quote = calculateCommissionQuote([rule], { ...context, price: 30 })
+      expect(quote.commission).toBe(30)
+      expect(quote.netAmount).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,107 @@
+/**
+ * Tests for Document Content and Numbering
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+import { buildTaxDocument, formatDocumentAmount, type DocumentTransaction } from '@/lib/documents/content'
+import { canIssueTaxDocument, formatDocumentNumber } from '@/lib/documents/numbering'
+import { getCompanyDetails } from '@/lib/documents/company'
+
+const transaction: DocumentTransaction = {
+  id: '3f2a9c1b-0000-4000-8000-000000000000',
+  amount: 1250,
+  commission: 250,
+  commissionRate: 0.2,
+  netAmount: 1000,
+  refundedAmount: 0,
+  paidAt: new Date('2025-11-01T10:00:00Z'),
+  completedAt: new Date('2025-11-04T10:00:00Z'),
+  paymentProvider: 'PAYFAST',
+  listing: { title: 'Oak dining table' },
+  buyer: { name: 'Sipho Buyer', email: 'sipho@example.com' },
+  seller: { name: 'Thandi Seller', email: 'thandi@example.com' },
+}
+
+const company = getCompanyDetails({
+  COMPANY_NAME: 'LOTOSALE (Pty) Ltd',
+  COMPANY_ADDRESS: '1 Main Road| Cape Town ',
+})
+
+describe('Document Numbering', () => {
+  it('formats sequential numbers with a prefix per type', () => {
+    expect(formatDocumentNumber('RECEIPT', 7)).toBe('RCT-000007')
+    expect(formatDocumentNumber('COMMISSION_INVOICE', 1234567)).toBe('INV-1234567')
+  })
+
+  it('issues a receipt once the buyer has paid', () => {
+    expect(canIssueTaxDocument('RECEIPT', { status: 'PENDING', paidAt: null, commission: 250 })).toBe(false)
+    expect(
+      canIssueTaxDocument('RECEIPT', { status: 'AWAITING_CONFIRMATION', paidAt: new Date(), commission: 250 })
+    ).toBe(true)
+  })
+
+  it('issues a commission invoice only for completed sales that were charged commission', () => {
+    const paidAt = new Date()
+    expect(canIssueTaxDocument('COMMISSION_INVOICE', { status: 'AWAITING_CONFIRMATION', paidAt, commission: 250 })).toBe(false)
+    expect(canIssueTaxDocument('COMMISSION_INVOICE', { status: 'COMPLETED', paidAt, commission: 250 })).toBe(true)
+    expect(canIssueTaxDocument('COMMISSION_INVOICE', { status: 'COMPLETED', paidAt, commission: 0 })).toBe(false)
+  })
+})
+
+describe('Document Content', () => {
+  it('formats amounts with two decimals', () => {
+    expect(formatDocumentAmount(1250)).toBe('R 1,250.00')
+    expect(formatDocumentAmount(32.6)).toBe('R 32.60')
+  })
+
+  it('reads company details from the environment', () => {
+    expect(company.name).toBe('LOTOSALE (Pty) Ltd')
+    expect(company.address).toEqual(['1 Main Road', 'Cape Town'])
+    expect(company.vatNumber).toBeUndefined()
+  })
+
+  it('builds a buyer receipt for the amount paid', () => {
+    const content = buildTaxDocument({ type: 'RECEIPT', number: 12, issuedAt: new Date(), company, transaction })
+
+    expect(content.title).toBe('Receipt')
+    expect(content.number).toBe('RCT-000012')
+    expect(content.billTo).toEqual(transaction.buyer)
+    expect(content.lines).toEqual([{ description: 'Oak dining table', amount: 1250 }])
+    expect(content.totals).toEqual({ exclusive: 1086.96, vat: 163.04, total: 1250 })
+    expect(content.details).toContainEqual(['Payment method', 'PayFast'])
+    expect(content.notes).toEqual([])
+  })
+
+  it('notes refunds on the receipt', () => {
+    const content = buildTaxDocument({
+      type: 'RECEIPT',
+      number: 1,
+      issuedAt: new Date(),
+      company,
+      transaction: { ...transaction, refundedAmount: 500 },
+    })
+
+    expect(content.notes).toEqual(['R 500.00 of this payment was refunded to you.'])
+  })
+
+  it('builds a seller tax invoice for the commission', () => {
+    const content = buildTaxDocument({
+      type: 'COMMISSION_INVOICE',
+      number: 3,
+      issuedAt: new Date(),
+      company,
+      transaction,
+    })
+
+    expect(content.title).toBe('Tax Invoice')
+    expect(content.number).toBe('INV-000003')
+    expect(content.billTo).toEqual(transaction.seller)
+    expect(content.lines[0].description).toBe('Marketplace commission (20%) on the sale of "Oak dining table"')
+    expect(content.lines[0].amount).toBe(250)
+    expect(content.totals).toEqual({ exclusive: 217.39, vat: 32.61, total: 250 })
+    expect(content.notes).toContain('Paid to you: R 1,000.00')
+  })
+})
@@ -0,0 +1,26 @@
+/**
+ * Tests for VAT
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { splitInclusiveVat, VAT_RATE } from '@/lib/documents/vat'
+
+describe('VAT', () => {
+  it('splits a VAT-inclusive amount at 15%', () => {
+    expect(VAT_RATE).toBe(0.15)
+    expect(splitInclusiveVat(115)).toEqual({ exclusive: 100, vat: 15, total: 115 })
+  })
+
+  it('rounds VAT to the cent and keeps the parts summing to the total', () => {
+    const breakdown = splitInclusiveVat(250)
+
+    expect(breakdown.vat).toBe(32.61)
+    expect(breakdown.exclusive).toBe(217.39)
+    expect(Math.round((breakdown.exclusive + breakdown.vat) * 100)).toBe(25000)
+  })
+
+  it('handles zero and custom rates', () => {
+    expect(splitInclusiveVat(0)).toEqual({ exclusive: 0, vat: 0, total: 0 })
+    expect(splitInclusiveVat(110, 0.1)).toEqual({ exclusive: 100, vat: 10, total: 110 })
+  })
+})
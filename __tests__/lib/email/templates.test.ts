@@ -0,0 +1,85 @@
+/**
+ * Tests for Email Templates
+ *
+ * Covers:
+ * - Rendering every template from its sample data
+ * - Escaping user-supplied text in the HTML body
+ * - Offer outcomes and optional amounts
+ * - The unsubscribe footer
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  EMAIL_TEMPLATES,
+  isEmailTemplateId,
+  renderEmailTemplate,
+  type TemplateEmail,
+} from '@/lib/email/templates'
+
+describe('Email Templates', () => {
+  it.each(Object.keys(EMAIL_TEMPLATES))('renders %s from its sample data', (id) => {
+    const template = EMAIL_TEMPLATES[id as keyof typeof EMAIL_TEMPLATES]
+    const email = renderEmailTemplate({ template: id, data: template.sample } as TemplateEmail)
+
+    expect(email.subject).not.toBe('')
+    expect(email.html).toContain('<!DOCTYPE html>')
+    expect(email.text).not.toContain('<')
+  })
+
+  it('escapes user-supplied text in the HTML body but not the text body', () => {
+    const email = renderEmailTemplate({
+      template: 'new-message',
+      data: {
+        name: 'Sipho',
+        senderName: 'Thandi',
+        preview: '<script>alert("hi")</script> & more',
+        url: 'http://localhost:3000/account/messages/c1',
+      },
+    })
+
+    expect(email.html).not.toContain('<script>')
+    expect(email.html).toContain('&lt;script&gt;alert(&quot;hi&quot;)&lt;/script&gt; &amp; more')
+    expect(email.text).toContain('<script>alert("hi")</script> & more')
+  })
+
+  it('links the action in both bodies', () => {
+    const email = renderEmailTemplate({
+      template: 'listing-approved',
+      data: { name: 'Sipho', title: 'Road bike', url: 'http://localhost:3000/listings/l1' },
+    })
+
+    expect(email.subject).toContain('Road bike')
+    expect(email.html).toContain('href="http://localhost:3000/listings/l1"')
+    expect(email.text).toContain('http://localhost:3000/listings/l1')
+  })
+
+  it('describes each offer outcome', () => {
+    const render = (outcome: 'ACCEPTED' | 'REJECTED' | 'COUNTERED', amount?: number) =>
+      renderEmailTemplate({
+        template: 'offer-answered',
+        data: { name: 'Sipho', title: 'Road bike', outcome, amount, url: 'http://localhost:3000' },
+      })
+
+    const accepted = render('ACCEPTED')
+    const rejected = render('REJECTED')
+    const countered = render('COUNTERED', 4500)
+
+    expect(new Set([accepted.subject, rejected.subject, countered.subject]).size).toBe(3)
+    expect(countered.text).toMatch(/4[\s,]?500/)
+  })
+
+  it('adds an unsubscribe link to the footer when given one', () => {
+    const email = { template: 'listing-approved', data: EMAIL_TEMPLATES['listing-approved'].sample } as const
+    const url = 'http://localhost:3000/unsubscribe?token=abc'
+
+    expect(renderEmailTemplate(email).html).not.toContain('Unsubscribe')
+    expect(renderEmailTemplate(email, { unsubscribeUrl: url }).html).toContain(`href="${url}"`)
+    expect(renderEmailTemplate(email, { unsubscribeUrl: url }).text).toContain(`Unsubscribe: ${url}`)
+  })
+
+  it('recognises template IDs', () => {
+    expect(isEmailTemplateId('verify-email')).toBe(true)
+    expect(isEmailTemplateId('toString')).toBe(false)
+    expect(isEmailTemplateId('unknown')).toBe(false)
+  })
+})
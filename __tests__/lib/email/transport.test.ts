@@ -0,0 +1,60 @@
+/**
+ * Tests for Email Transport Selection
+ *
+ * Covers:
+ * - Choosing a transport from EMAIL_TRANSPORT and RESEND_API_KEY
+ * - Refusing to fall back to the file transport in production
+ * - Logging emails from the console transport
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+import { getEmailFrom, getEmailTransport } from '@/lib/email/transport'
+import { createFileTransport } from '@/lib/email/transports/file'
+
+describe('Email Transport Selection', () => {
+  it('uses the named transport', () => {
+    expect(getEmailTransport({ EMAIL_TRANSPORT: 'console' }).name).toBe('console')
+    expect(getEmailTransport({ EMAIL_TRANSPORT: 'FILE' }).name).toBe('file')
+    expect(getEmailTransport({ EMAIL_TRANSPORT: 'smtp', SMTP_HOST: 'localhost' }).name).toBe('smtp')
+    expect(getEmailTransport({ EMAIL_TRANSPORT: 'resend', RESEND_API_KEY: 're_test' }).name).toBe('resend')
+  })
+
+  it('defaults to Resend when an API key is set', () => {
+    expect(getEmailTransport({ RESEND_API_KEY: 're_test', NODE_ENV: 'production' }).name).toBe('resend')
+  })
+
+  it('falls back to the file transport outside production only', () => {
+    expect(getEmailTransport({ NODE_ENV: 'development' }).name).toBe('file')
+    expect(() => getEmailTransport({ NODE_ENV: 'production' })).toThrow('Email is not configured')
+  })
+
+  it('rejects unknown or incomplete configuration', () => {
+    expect(() => getEmailTransport({ EMAIL_TRANSPORT: 'pigeon' })).toThrow('Unknown EMAIL_TRANSPORT')
+    expect(() => getEmailTransport({ EMAIL_TRANSPORT: 'smtp' })).toThrow('SMTP_HOST')
+    expect(() => getEmailTransport({ EMAIL_TRANSPORT: 'resend' })).toThrow('RESEND_API_KEY')
+  })
+
+  it('reads the sender address', () => {
+    expect(getEmailFrom({ EMAIL_FROM: 'hello@lotosale.co.za' })).toBe('hello@lotosale.co.za')
+    expect(getEmailFrom({})).toBe('noreply@example.com')
+  })
+})
+
+describe('Console Transport', () => {
+  it('logs the email instead of sending it', async () => {
+    const log = jest.fn<(line: string) => void>()
+    const transport = createFileTransport({ directory: null, log })
+
+    const sent = await transport.send({
+      from: 'noreply@example.com',
+      to: 'sipho@example.com',
+      subject: 'Hello',
+      html: '<p>Hi</p>',
+      text: 'Hi',
+    })
+
+    expect(sent).toEqual({ id: null })
+    expect(log).toHaveBeenCalledWith(expect.stringContaining('to sipho@example.com: Hello'))
+    expect(log).toHaveBeenCalledWith(expect.stringContaining('Hi'))
+  })
+})
@@ -0,0 +1,60 @@
+/**
+ * Tests for Escrow Notifications
+ *
+ * Covers:
+ * - Notifying the seller of each completed sale
+ * - Logging failures instead of throwing
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals'
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { notify } from '@/lib/notifications/service'
+import { notifySalesCompleted } from '@/lib/escrow/notifications'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: { transaction: { findMany: jest.fn() } },
+}))
+jest.mock('@/lib/notifications/service', () => ({ notify: jest.fn() }))
+
+const notifyMock = notify as jest.MockedFunction<typeof notify>
+const findSales = prisma.transaction.findMany as unknown as jest.Mock<
+  (args: Prisma.TransactionFindManyArgs) => Promise<unknown[]>
+>
+
+describe('Escrow Notifications', () => {
+  beforeEach(() => {
+    notifyMock.mockReset()
+    findSales.mockReset()
+  })
+
+  it('notifies the seller of each completed sale', async () => {
+    findSales.mockResolvedValue([
+      { id: 'tx-1', sellerId: 'seller-1', netAmount: new Prisma.Decimal(950), listing: { title: 'Road bike' } },
+      { id: 'tx-2', sellerId: 'seller-2', netAmount: new Prisma.Decimal(190), listing: { title: 'Helmet' } },
+    ])
+
+    await notifySalesCompleted(['tx-1', 'tx-2'])
+
+    expect(findSales).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: { in: ['tx-1', 'tx-2'] }, status: 'COMPLETED' } })
+    )
+    expect(notifyMock).toHaveBeenCalledWith('seller-1', 'SALE_COMPLETED', {
+      transactionId: 'tx-1',
+      title: 'Road bike',
+      amount: 950,
+    })
+    expect(notifyMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('skips the query without sales and logs failures instead of throwing', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    await notifySalesCompleted([])
+    expect(findSales).not.toHaveBeenCalled()
+
+    findSales.mockRejectedValue(new Error('database down'))
+    await expect(notifySalesCompleted(['tx-1'])).resolves.toBeUndefined()
+    expect(console.error).toHaveBeenCalledWith('Sale completed notification error:', expect.any(Error))
+  })
+})
@@ -0,0 +1,62 @@
+/**
+ * Tests for Escrow Policy
+ *
+ * Covers the hold period, the release date and when a problem can be reported
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  canReportProblem,
+  DEFAULT_ESCROW_RELEASE_DAYS,
+  getEscrowReleaseDays,
+  getReleaseAt,
+} from '@/lib/escrow/policy'
+
+describe('Escrow Policy', () => {
+  describe('getEscrowReleaseDays', () => {
+    it('uses the configured number of days', () => {
+      expect(getEscrowReleaseDays('14')).toBe(14)
+    })
+
+    it('falls back to the default when unset', () => {
+      expect(getEscrowReleaseDays(undefined)).toBe(DEFAULT_ESCROW_RELEASE_DAYS)
+      expect(getEscrowReleaseDays('')).toBe(DEFAULT_ESCROW_RELEASE_DAYS)
+    })
+
+    it('falls back to the default for invalid values', () => {
+      expect(getEscrowReleaseDays('abc')).toBe(DEFAULT_ESCROW_RELEASE_DAYS)
+      expect(getEscrowReleaseDays('2.5')).toBe(DEFAULT_ESCROW_RELEASE_DAYS)
+      expect(getEscrowReleaseDays('0')).toBe(DEFAULT_ESCROW_RELEASE_DAYS)
+      expect(getEscrowReleaseDays('365')).toBe(DEFAULT_ESCROW_RELEASE_DAYS)
+    })
+  })
+
+  describe('getReleaseAt', () => {
+    it('adds the hold period to the payment time', () => {
+      const paidAt = new Date('2025-11-01T10:00:00Z')
+      expect(getReleaseAt(paidAt, 7)).toEqual(new Date('2025-11-08T10:00:00Z'))
+    })
+  })
+
+  describe('canReportProblem', () => {
+    const now = new Date('2025-11-05T10:00:00Z')
+    const releaseAt = new Date('2025-11-08T10:00:00Z')
+
+    it('allows a report while awaiting confirmation', () => {
+      expect(canReportProblem({ status: 'AWAITING_CONFIRMATION', releaseAt }, now)).toBe(true)
+    })
+
+    it('refuses once the release is due', () => {
+      expect(canReportProblem({ status: 'AWAITING_CONFIRMATION', releaseAt: now }, now)).toBe(false)
+    })
+
+    it('refuses a second report', () => {
+      expect(canReportProblem({ status: 'DISPUTED', releaseAt }, now)).toBe(false)
+    })
+
+    it('refuses unpaid or finished orders', () => {
+      expect(canReportProblem({ status: 'PENDING', releaseAt: null }, now)).toBe(false)
+      expect(canReportProblem({ status: 'COMPLETED', releaseAt }, now)).toBe(false)
+    })
+  })
+})
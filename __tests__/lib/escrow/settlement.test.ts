@@ -0,0 +1,67 @@
+/**
+ * Tests for Dispute Settlement
+ *
+ * Covers the status and amounts after each kind of admin decision
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { calculateDisputeSettlement, isValidPartialRefund } from '@/lib/escrow/settlement'
+
+describe('Dispute Settlement', () => {
+  const transaction = { amount: 1000, commission: 200 }
+
+  it('refunds everything and charges no commission on a full refund', () => {
+    expect(calculateDisputeSettlement(transaction, 'FULL_REFUND')).toEqual({
+      status: 'REFUNDED',
+      refundedAmount: 1000,
+      commission: 0,
+      netAmount: 0,
+    })
+  })
+
+  it('pays the seller as normal on release', () => {
+    expect(calculateDisputeSettlement(transaction, 'RELEASE_TO_SELLER')).toEqual({
+      status: 'COMPLETED',
+      refundedAmount: 0,
+      commission: 200,
+      netAmount: 800,
+    })
+  })
+
+  it('scales commission with the amount kept on a partial refund', () => {
+    expect(calculateDisputeSettlement(transaction, 'PARTIAL_REFUND', 250)).toEqual({
+      status: 'COMPLETED',
+      refundedAmount: 250,
+      commission: 150,
+      netAmount: 600,
+    })
+  })
+
+  it('rounds partial refund amounts to cents', () => {
+    const settlement = calculateDisputeSettlement({ amount: 999, commission: 149.85 }, 'PARTIAL_REFUND', 333)
+    expect(settlement).toEqual({
+      status: 'COMPLETED',
+      refundedAmount: 333,
+      commission: 99.9,
+      netAmount: 566.1,
+    })
+  })
+
+  it('rejects partial refunds without a valid amount', () => {
+    expect(calculateDisputeSettlement(transaction, 'PARTIAL_REFUND')).toBeNull()
+    expect(calculateDisputeSettlement(transaction, 'PARTIAL_REFUND', 0)).toBeNull()
+    expect(calculateDisputeSettlement(transaction, 'PARTIAL_REFUND', 1000)).toBeNull()
+    expect(calculateDisputeSettlement(transaction, 'PARTIAL_REFUND', 1200)).toBeNull()
+  })
+
+  describe('isValidPartialRefund', () => {
+    it('accepts amounts between zero and the amount paid', () => {
+      expect(isValidPartialRefund(1000, 0.01)).toBe(true)
+      expect(isValidPartialRefund(1000, 999.99)).toBe(true)
+    })
+
+    it('rejects fractions of a cent', () => {
+      expect(isValidPartialRefund(1000, 10.005)).toBe(false)
+    })
+  })
+})
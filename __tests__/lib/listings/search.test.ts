@@ -0,0 +1,98 @@
+/**
+ * Tests for Listing Search
+ *
+ * Covers:
+ * - Turning what the user typed into a safe prefix tsquery
+ * - Skipping the database when there is nothing to search for
+ * - Filtering and paging in the search query, and the total count
+ * - Falling back to relevance for an unknown sort
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+import { Prisma } from '@prisma/client'
+import { findSearchMatches, toSearchTsQuery, type SearchSort } from '@/lib/listings/search'
+
+// Transaction client whose raw query returns the given rows
+const fakeDb = (rows: { id: string | null; rank: number | null; total: number }[] = []) => {
+  const queryRaw = jest.fn<(query: TemplateStringsArray, ...values: unknown[]) => Promise<unknown>>(
+    async () => rows
+  )
+  return { db: { $queryRaw: queryRaw } as unknown as Prisma.TransactionClient, queryRaw }
+}
+
+describe('Listing Search', () => {
+  describe('toSearchTsQuery', () => {
+    it('matches every word as a prefix', () => {
+      expect(toSearchTsQuery('Mountain bik')).toBe('mountain:* & bik:*')
+    })
+
+    it('drops tsquery operators and punctuation', () => {
+      expect(toSearchTsQuery("bike's & (helmet | !lock):*")).toBe('bike:* & s:* & helmet:* & lock:*')
+      expect(toSearchTsQuery('Café 26"')).toBe('café:* & 26:*')
+    })
+
+    it('returns null without letters or digits', () => {
+      expect(toSearchTsQuery('')).toBeNull()
+      expect(toSearchTsQuery('  &|!  ')).toBeNull()
+    })
+
+    it('uses at most eight words', () => {
+      expect(toSearchTsQuery('a b c d e f g h i j')).toBe('a:* & b:* & c:* & d:* & e:* & f:* & g:* & h:*')
+    })
+  })
+
+  describe('findSearchMatches', () => {
+    it('returns null without querying when there is nothing to search for', async () => {
+      const { db, queryRaw } = fakeDb()
+
+      expect(await findSearchMatches(db, '!!', {})).toBeNull()
+      expect(queryRaw).not.toHaveBeenCalled()
+    })
+
+    it('applies the filters and cursor in the query that cuts the page', async () => {
+      const { db, queryRaw } = fakeDb([
+        { id: 'listing-2', rank: 0.6, total: 40 },
+        { id: 'listing-3', rank: 0.4, total: 40 },
+      ])
+
+      const page = await findSearchMatches(
+        db,
+        'road bike',
+        { category: 'SPORTS', province: 'Gauteng' },
+        { cursor: 'listing-1', limit: 2 }
+      )
+
+      expect(page).toEqual({
+        matches: [
+          { id: 'listing-2', rank: 0.6 },
+          { id: 'listing-3', rank: 0.4 },
+        ],
+        totalCount: 40,
+      })
+      const [strings, ...values] = queryRaw.mock.calls[0]
+      const sql = Prisma.sql(strings, ...(values as Prisma.Sql[]))
+      expect(sql.values).toEqual(
+        expect.arrayContaining(['road:* & bike:*', 'SPORTS', 'Gauteng', 'listing-1', 2])
+      )
+    })
+
+    it('ranks by relevance when the sort option is unknown', async () => {
+      const { db, queryRaw } = fakeDb()
+
+      await findSearchMatches(db, 'bike', {}, { sortBy: 'cheapest' as SearchSort })
+
+      const [strings, ...values] = queryRaw.mock.calls[0]
+      const sql = Prisma.sql(strings, ...(values as Prisma.Sql[]))
+      expect(sql.sql).toContain('ORDER BY ts_rank(l."searchVector", q.query) DESC')
+    })
+
+    it('returns an empty page with the total when no match is after the cursor', async () => {
+      const { db } = fakeDb([{ id: null, rank: null, total: 40 }])
+
+      expect(await findSearchMatches(db, 'bike', {}, { cursor: 'unknown' })).toEqual({
+        matches: [],
+        totalCount: 40,
+      })
+    })
+  })
+})
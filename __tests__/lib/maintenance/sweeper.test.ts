@@ -0,0 +1,100 @@
+/**
+ * Tests for the Maintenance Sweeper
+ *
+ * Covers:
+ * - Running every task with the same reference time
+ * - Skipping the pass when another one holds the advisory lock
+ * - Follow-up work running once the pass has committed
+ * - The logged summary line
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals'
+import type { PrismaClient } from '@prisma/client'
+import {
+  formatMaintenanceSummary,
+  runMaintenance,
+  type MaintenanceTask,
+} from '@/lib/maintenance/sweeper'
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+// Minimal client whose transaction reports whether the advisory lock was acquired
+const fakeClient = (locked: boolean) => {
+  const tx = {
+    $queryRaw: jest.fn(async () => [{ locked }]),
+  }
+  return {
+    $transaction: jest.fn(async (fn: (tx: unknown) => unknown) => fn(tx)),
+  } as unknown as PrismaClient
+}
+
+describe('Maintenance Sweeper', () => {
+  const now = new Date('2025-10-29T08:00:00Z')
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('runs every task with the reference time and reports counts', async () => {
+    const seen: Date[] = []
+    const tasks: MaintenanceTask[] = [
+      { name: 'first', run: async (_tx, at) => (seen.push(at), 3) },
+      { name: 'second', run: async (_tx, at) => (seen.push(at), 0) },
+    ]
+
+    const summary = await runMaintenance({ now, client: fakeClient(true), tasks })
+
+    expect(summary.ran).toBe(true)
+    expect(summary.results).toEqual({ first: 3, second: 0 })
+    expect(seen).toEqual([now, now])
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining('first=3 second=0'))
+  })
+
+  it('skips the pass when another run holds the lock', async () => {
+    const run = jest.fn(async () => 1)
+
+    const summary = await runMaintenance({
+      now,
+      client: fakeClient(false),
+      tasks: [{ name: 'task', run }],
+    })
+
+    expect(summary.ran).toBe(false)
+    expect(summary.results).toEqual({})
+    expect(run).not.toHaveBeenCalled()
+  })
+
+  it('runs follow-up work after the pass and logs its failures', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    const order: string[] = []
+    const tasks: MaintenanceTask[] = [
+      {
+        name: 'first',
+        run: async (_tx, _at, afterCommit) => {
+          afterCommit(async () => {
+            order.push('follow-up')
+            throw new Error('email down')
+          })
+          afterCommit(async () => {
+            order.push('second follow-up')
+          })
+          order.push('task')
+          return 1
+        },
+      },
+      { name: 'second', run: async () => (order.push('next task'), 0) },
+    ]
+
+    const summary = await runMaintenance({ now, client: fakeClient(true), tasks })
+
+    expect(order).toEqual(['task', 'next task', 'follow-up', 'second follow-up'])
+    expect(summary.results).toEqual({ first: 1, second: 0 })
+    expect(console.error).toHaveBeenCalledWith('Maintenance follow-up error:', expect.any(Error))
+  })
+
+  it('formats skipped passes distinctly', () => {
+    expect(
+      formatMaintenanceSummary({ ran: false, startedAt: now, durationMs: 1, results: {} })
+    ).toContain('skipped')
+  })
+})
@@ -0,0 +1,40 @@
+/**
+ * Tests for Conversation Access
+ *
+ * Covers:
+ * - Buyer and seller take part in their own conversations
+ * - Admins may read but are not participants
+ * - Everyone else is shut out
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { getConversationRole, isParticipant } from '@/lib/messaging/access'
+
+const conversation = { buyerId: 'buyer', sellerId: 'seller' }
+
+describe('Conversation Access', () => {
+  it('identifies the buyer and seller as participants', () => {
+    expect(getConversationRole(conversation, { id: 'buyer', role: 'BUYER' })).toBe('BUYER')
+    expect(getConversationRole(conversation, { id: 'seller', role: 'SELLER' })).toBe('SELLER')
+    expect(isParticipant('BUYER')).toBe(true)
+    expect(isParticipant('SELLER')).toBe(true)
+  })
+
+  it('lets admins read without taking part', () => {
+    const role = getConversationRole(conversation, { id: 'admin', role: 'ADMIN' })
+
+    expect(role).toBe('ADMIN')
+    expect(isParticipant(role)).toBe(false)
+  })
+
+  it('treats an admin who is a participant as that participant', () => {
+    expect(getConversationRole(conversation, { id: 'seller', role: 'ADMIN' })).toBe('SELLER')
+  })
+
+  it('shuts out other users', () => {
+    const role = getConversationRole(conversation, { id: 'stranger', role: 'SELLER' })
+
+    expect(role).toBeNull()
+    expect(isParticipant(role)).toBe(false)
+  })
+})
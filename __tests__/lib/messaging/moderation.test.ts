@@ -0,0 +1,115 @@
+/**
+ * Tests for Message Moderation
+ *
+ * Covers:
+ * - Releasing and blocking held messages
+ * - Dismissing flags on delivered messages
+ * - Refusing decisions that do not apply or were already made
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+import type { MessageScanAction, MessageStatus, Prisma } from '@prisma/client'
+import { moderateMessage } from '@/lib/messaging/moderation'
+
+type MessageRow = {
+  id: string
+  conversationId: string
+  status: MessageStatus
+  scanAction: MessageScanAction
+  reviewedAt: Date | null
+  reviewedById: string | null
+}
+
+const now = new Date('2025-11-08T10:00:00Z')
+
+const fakeDatabase = (status: MessageStatus, scanAction: MessageScanAction = 'HOLD') => {
+  const message: MessageRow = {
+    id: 'm1',
+    conversationId: 'c1',
+    status,
+    scanAction,
+    reviewedAt: null,
+    reviewedById: null,
+  }
+  const conversation = { id: 'c1', lastMessageAt: new Date('2025-11-01T00:00:00Z') }
+
+  const tx = {
+    message: {
+      updateMany: jest.fn(
+        async ({
+          where,
+          data,
+        }: {
+          where: { id: string; status: MessageStatus; scanAction: { not: MessageScanAction }; reviewedAt: null }
+          data: Partial<MessageRow>
+        }) => {
+          const matches =
+            message.id === where.id &&
+            message.status === where.status &&
+            message.scanAction !== where.scanAction.not &&
+            message.reviewedAt === where.reviewedAt
+          if (matches) Object.assign(message, data)
+          return { count: matches ? 1 : 0 }
+        }
+      ),
+      findUniqueOrThrow: jest.fn(async () => ({
+        conversationId: message.conversationId,
+        senderId: 'buyer',
+        conversation: { buyerId: 'buyer', sellerId: 'seller' },
+      })),
+    },
+    conversation: {
+      update: jest.fn(async ({ data }: { data: { lastMessageAt: Date } }) => Object.assign(conversation, data)),
+    },
+  }
+
+  return { message, conversation, tx: tx as unknown as Prisma.TransactionClient }
+}
+
+describe('Message Moderation', () => {
+  it('releases a held message and surfaces the thread', async () => {
+    const { tx, message, conversation } = fakeDatabase('HELD')
+
+    expect(await moderateMessage(tx, { messageId: 'm1', action: 'RELEASE', moderatorId: 'admin' }, now)).toEqual({
+      conversationId: 'c1',
+      status: 'SENT',
+      recipientId: 'seller',
+    })
+    expect(message).toMatchObject({ status: 'SENT', reviewedAt: now, reviewedById: 'admin' })
+    expect(conversation.lastMessageAt).toBe(now)
+  })
+
+  it('blocks a held message without touching the thread', async () => {
+    const { tx, message, conversation } = fakeDatabase('HELD')
+
+    await moderateMessage(tx, { messageId: 'm1', action: 'BLOCK', moderatorId: 'admin' }, now)
+
+    expect(message.status).toBe('BLOCKED')
+    expect(conversation.lastMessageAt).not.toBe(now)
+  })
+
+  it('dismisses flags on a delivered message', async () => {
+    const { tx, message } = fakeDatabase('SENT', 'WARN')
+
+    expect(await moderateMessage(tx, { messageId: 'm1', action: 'DISMISS', moderatorId: 'admin' }, now)).toMatchObject({
+      conversationId: 'c1',
+      status: 'SENT',
+    })
+    expect(message.reviewedAt).toBe(now)
+  })
+
+  it('refuses actions that do not apply or were already taken', async () => {
+    const error = { error: 'This message has already been reviewed or the action does not apply to it' }
+
+    expect(
+      await moderateMessage(fakeDatabase('SENT', 'WARN').tx, { messageId: 'm1', action: 'RELEASE', moderatorId: 'admin' }, now)
+    ).toEqual(error)
+    expect(
+      await moderateMessage(fakeDatabase('SENT', 'NONE').tx, { messageId: 'm1', action: 'DISMISS', moderatorId: 'admin' }, now)
+    ).toEqual(error)
+
+    const { tx } = fakeDatabase('HELD')
+    await moderateMessage(tx, { messageId: 'm1', action: 'BLOCK', moderatorId: 'admin' }, now)
+    expect(await moderateMessage(tx, { messageId: 'm1', action: 'RELEASE', moderatorId: 'admin' }, now)).toEqual(error)
+  })
+})
@@ -0,0 +1,98 @@
+/**
+ * Tests for Scam Detection
+ *
+ * Covers:
+ * - Detecting phone numbers, emails, bank accounts, payment links and scam phrases
+ * - Masking matches and picking the strictest action
+ * - Parsing the policy from the environment
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  DEFAULT_MESSAGE_SCAN_POLICY,
+  findScanMatches,
+  getMessageScanPolicy,
+  scanMessage,
+} from '@/lib/messaging/scam-detection'
+
+const rulesIn = (body: string) => findScanMatches(body).map((match) => match.rule)
+
+describe('Scam Detection', () => {
+  describe('findScanMatches', () => {
+    it('finds South African and international phone numbers', () => {
+      expect(rulesIn('Call 082 123 4567')).toEqual(['PHONE'])
+      expect(rulesIn('Call +27 82 123 4567')).toEqual(['PHONE'])
+      expect(rulesIn('Call 0821234567 or +44 7911 123456')).toEqual(['PHONE', 'PHONE'])
+    })
+
+    it('finds plain and spelled-out email addresses', () => {
+      expect(rulesIn('Mail me at jane.doe@example.co.za')).toEqual(['EMAIL'])
+      expect(rulesIn('jane (at) gmail dot com')).toEqual(['EMAIL'])
+    })
+
+    it('finds bank account numbers that are not phone numbers', () => {
+      expect(rulesIn('Account 62 1234 5678 9')).toEqual(['BANK_ACCOUNT'])
+    })
+
+    it('finds payment links with or without a scheme', () => {
+      expect(findScanMatches('Pay here https://paypal.me/jane/500 thanks')).toEqual([
+        { rule: 'PAYMENT_LINK', start: 9, end: 35, text: 'https://paypal.me/jane/500' },
+      ])
+      expect(rulesIn('use pay.yoco.com/shop')).toEqual(['PAYMENT_LINK'])
+    })
+
+    it('finds scam phrases regardless of case', () => {
+      expect(rulesIn('Please pay the deposit, proof of payment to follow')).toEqual(['SCAM_PHRASE', 'SCAM_PHRASE'])
+      expect(rulesIn('WhatsApp me, I am overseas')).toEqual(['SCAM_PHRASE', 'SCAM_PHRASE'])
+    })
+
+    it('leaves ordinary messages and prices alone', () => {
+      expect(findScanMatches('Is it still available? Would you take R1500 for it?')).toEqual([])
+      expect(findScanMatches('I can collect on 12 March at 10:30')).toEqual([])
+    })
+  })
+
+  describe('scanMessage', () => {
+    it('masks matches the policy masks', () => {
+      expect(scanMessage('Call 082 123 4567 or mail jane@example.com', DEFAULT_MESSAGE_SCAN_POLICY)).toEqual({
+        action: 'MASK',
+        rules: ['PHONE', 'EMAIL'],
+        body: 'Call [phone number hidden] or mail [email hidden]',
+      })
+    })
+
+    it('uses the strictest action of the matched rules', () => {
+      const result = scanMessage('Banking details: 62 1234 5678 9, call 082 123 4567')
+
+      expect(result.action).toBe('HOLD')
+      expect(result.rules).toEqual(['SCAM_PHRASE', 'BANK_ACCOUNT', 'PHONE'])
+      // Held messages still mask, so a released message never leaks the number
+      expect(result.body).toBe('Banking details: 62 1234 5678 9, call [phone number hidden]')
+    })
+
+    it('ignores rules the policy turns off', () => {
+      const policy = { ...DEFAULT_MESSAGE_SCAN_POLICY, PHONE: 'NONE' as const }
+
+      expect(scanMessage('Call 082 123 4567', policy)).toEqual({
+        action: 'NONE',
+        rules: [],
+        body: 'Call 082 123 4567',
+      })
+    })
+  })
+
+  describe('getMessageScanPolicy', () => {
+    it('applies overrides on top of the defaults', () => {
+      expect(getMessageScanPolicy(' phone=warn, SCAM_PHRASE=HOLD ')).toEqual({
+        ...DEFAULT_MESSAGE_SCAN_POLICY,
+        PHONE: 'WARN',
+        SCAM_PHRASE: 'HOLD',
+      })
+    })
+
+    it('ignores unknown rules and actions', () => {
+      expect(getMessageScanPolicy('FAX=HOLD,PHONE=DELETE,EMAIL')).toEqual(DEFAULT_MESSAGE_SCAN_POLICY)
+      expect(getMessageScanPolicy(undefined)).toEqual(DEFAULT_MESSAGE_SCAN_POLICY)
+    })
+  })
+})
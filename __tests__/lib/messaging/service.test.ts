@@ -0,0 +1,181 @@
+/**
+ * Tests for the Messaging Service
+ *
+ * Covers:
+ * - One conversation per listing and buyer
+ * - Only participants can post
+ * - Marking the other participant's messages as read
+ * - Holding and masking messages the scam scan flags
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+import type { ListingStatus, Prisma } from '@prisma/client'
+import { markConversationRead, sendMessage, startConversation } from '@/lib/messaging/service'
+import { DEFAULT_MESSAGE_SCAN_POLICY } from '@/lib/messaging/scam-detection'
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+type ConversationRow = { id: string; listingId: string; buyerId: string; sellerId: string; lastMessageAt: Date }
+type MessageRow = {
+  id: string
+  conversationId: string
+  senderId: string
+  body: string
+  createdAt: Date
+  readAt: Date | null
+  status: 'SENT' | 'HELD'
+  originalBody: string | null
+}
+
+const now = new Date('2025-11-07T10:00:00Z')
+const later = new Date('2025-11-07T11:00:00Z')
+
+// A listing sold by "seller" in the given status. Conversations are unique per
+// listing and buyer, as the upsert's compound key is; marking read only touches
+// SENT messages from the other party that are still unread
+const fakeDatabase = (listingStatus: ListingStatus = 'APPROVED') => {
+  const conversations: ConversationRow[] = []
+  const messages: MessageRow[] = []
+
+  const tx = {
+    listing: {
+      findUnique: jest.fn(async () => ({ sellerId: 'seller', status: listingStatus })),
+    },
+    conversation: {
+      upsert: jest.fn(
+        async ({
+          where,
+          create,
+          update,
+        }: {
+          where: { listingId_buyerId: { listingId: string; buyerId: string } }
+          create: Omit<ConversationRow, 'id'>
+          update: Partial<ConversationRow>
+        }) => {
+          const existing = conversations.find(
+            (row) =>
+              row.listingId === where.listingId_buyerId.listingId && row.buyerId === where.listingId_buyerId.buyerId
+          )
+          if (existing) {
+            Object.assign(existing, update)
+            return existing
+          }
+          const conversation = { ...create, id: `conversation-${conversations.length + 1}` }
+          conversations.push(conversation)
+          return conversation
+        }
+      ),
+      findFirst: jest.fn(
+        async ({ where }: { where: { id: string; OR: [{ buyerId: string }, { sellerId: string }] } }) =>
+          conversations.find(
+            (row) => row.id === where.id && (row.buyerId === where.OR[0].buyerId || row.sellerId === where.OR[1].sellerId)
+          ) ?? null
+      ),
+      update: jest.fn(async ({ where, data }: { where: { id: string }; data: { lastMessageAt: Date } }) => {
+        const conversation = conversations.find((row) => row.id === where.id)!
+        Object.assign(conversation, data)
+        return conversation
+      }),
+    },
+    message: {
+      create: jest.fn(async ({ data }: { data: Omit<MessageRow, 'id' | 'readAt'> }) => {
+        const message = { ...data, id: `message-${messages.length + 1}`, readAt: null }
+        messages.push(message)
+        return message
+      }),
+      updateMany: jest.fn(
+        async ({
+          where,
+          data,
+        }: {
+          where: { conversationId: string; senderId: { not: string }; status: string }
+          data: { readAt: Date }
+        }) => {
+          const unread = messages.filter(
+            (message) =>
+              message.conversationId === where.conversationId &&
+              message.senderId !== where.senderId.not &&
+              message.status === where.status &&
+              message.readAt === null
+          )
+          unread.forEach((message) => (message.readAt = data.readAt))
+          return { count: unread.length }
+        }
+      ),
+    },
+  }
+
+  return { conversations, messages, tx: tx as unknown as Prisma.TransactionClient }
+}
+
+describe('Messaging Service', () => {
+  it('starts one conversation per listing and buyer', async () => {
+    const { tx, conversations, messages } = fakeDatabase()
+
+    const first = await startConversation(tx, { listingId: 'l1', buyerId: 'buyer', body: 'Still available?' }, now)
+    const second = await startConversation(tx, { listingId: 'l1', buyerId: 'buyer', body: 'Hello?' }, later)
+
+    expect('conversationId' in first && first.conversationId).toBe('conversation-1')
+    expect('conversationId' in second && second.conversationId).toBe('conversation-1')
+    expect(conversations).toHaveLength(1)
+    expect(conversations[0]).toMatchObject({ sellerId: 'seller', lastMessageAt: later })
+    expect(messages).toHaveLength(2)
+  })
+
+  it('refuses to message yourself or about unlisted items', async () => {
+    expect(
+      await startConversation(fakeDatabase().tx, { listingId: 'l1', buyerId: 'seller', body: 'Hi' }, now)
+    ).toEqual({ error: 'You cannot message yourself about your own listing' })
+
+    expect(
+      await startConversation(fakeDatabase('PENDING').tx, { listingId: 'l1', buyerId: 'buyer', body: 'Hi' }, now)
+    ).toEqual({ error: 'Listing not found' })
+  })
+
+  it('lets only participants post', async () => {
+    const { tx, conversations } = fakeDatabase()
+    await startConversation(tx, { listingId: 'l1', buyerId: 'buyer', body: 'Still available?' }, now)
+
+    const reply = await sendMessage(tx, { conversationId: 'conversation-1', senderId: 'seller', body: 'Yes' }, later)
+    expect('message' in reply && reply.message.senderId).toBe('seller')
+    expect('recipientId' in reply && reply.recipientId).toBe('buyer')
+    expect(conversations[0].lastMessageAt).toBe(later)
+
+    expect(
+      await sendMessage(tx, { conversationId: 'conversation-1', senderId: 'stranger', body: 'Me too' }, later)
+    ).toEqual({ error: 'Conversation not found' })
+  })
+
+  it('marks only the other participant\'s messages as read', async () => {
+    const { tx, messages } = fakeDatabase()
+    await startConversation(tx, { listingId: 'l1', buyerId: 'buyer', body: 'Still available?' }, now)
+    await sendMessage(tx, { conversationId: 'conversation-1', senderId: 'seller', body: 'Yes' }, now)
+
+    expect(await markConversationRead(tx, 'conversation-1', 'seller', later)).toBe(1)
+    expect(messages.map((message) => message.readAt)).toEqual([later, null])
+    expect(await markConversationRead(tx, 'conversation-1', 'seller', later)).toBe(0)
+  })
+
+  it('masks contact details and holds payment requests until reviewed', async () => {
+    const { tx, conversations, messages } = fakeDatabase()
+    await startConversation(tx, { listingId: 'l1', buyerId: 'buyer', body: 'Call me on 082 123 4567' }, now)
+
+    expect(messages[0]).toMatchObject({
+      body: 'Call me on [phone number hidden]',
+      originalBody: 'Call me on 082 123 4567',
+      status: 'SENT',
+    })
+
+    const held = await sendMessage(
+      tx,
+      { conversationId: 'conversation-1', senderId: 'seller', body: 'Pay at https://paypal.me/seller' },
+      later,
+      DEFAULT_MESSAGE_SCAN_POLICY
+    )
+    expect('message' in held && held.message).toMatchObject({ status: 'HELD', scanAction: 'HOLD' })
+    expect(conversations[0].lastMessageAt).toBe(now)
+
+    // The buyer cannot read a message that has not been delivered
+    expect(await markConversationRead(tx, 'conversation-1', 'buyer', later)).toBe(0)
+  })
+})
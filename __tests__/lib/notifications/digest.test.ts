@@ -0,0 +1,112 @@
+/**
+ * Tests for the Notification Digest
+ *
+ * Covers:
+ * - Listing entries with links in the digest email
+ * - Marking entries as sent, and releasing them when the email fails
+ * - Dropping kinds the user switched off after they were queued
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals'
+import type { PrismaClient } from '@prisma/client'
+import { sendTemplateEmail } from '@/lib/email'
+import { buildDigestEmail, sendDigests } from '@/lib/notifications/digest'
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }))
+jest.mock('@/lib/email', () => ({ sendTemplateEmail: jest.fn() }))
+
+const sendEmail = sendTemplateEmail as jest.MockedFunction<typeof sendTemplateEmail>
+
+const ENTRIES = [
+  { id: 'd1', type: 'LISTING_APPROVED', payload: { listingId: 'l1', title: 'Road bike' } },
+  {
+    id: 'd2',
+    type: 'SALE_COMPLETED',
+    payload: { transactionId: 't1', title: 'Drill', amount: 900 },
+  },
+] as const
+
+// Client with one user whose entries are pending
+const fakeClient = (preferences: { type: string; channel: string; enabled: boolean }[] = []) => {
+  const updateMany = jest.fn<(args: unknown) => Promise<{ count: number }>>(async () => ({
+    count: ENTRIES.length,
+  }))
+  const client = {
+    digestEntry: {
+      findMany: jest.fn(async (args: { distinct?: string[] }) =>
+        args.distinct ? [{ userId: 'user-1' }] : ENTRIES
+      ),
+      updateMany,
+    },
+    user: {
+      findUnique: jest.fn(async (args: { select: Record<string, unknown> }) =>
+        args.select.notificationPreferences
+          ? { emailDigest: true, notificationPreferences: preferences }
+          : { email: 'sipho@example.com', name: 'Sipho' }
+      ),
+    },
+  }
+  return { client: client as unknown as PrismaClient, updateMany }
+}
+
+describe('Notification Digest', () => {
+  const now = new Date('2025-11-11T06:00:00Z')
+
+  beforeEach(() => {
+    process.env.AUTH_SECRET = 'test-secret'
+    sendEmail.mockReset()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('lists every entry with a link to its page', () => {
+    const email = buildDigestEmail([...ENTRIES], 'Sipho', 'https://lotosale.co.za')
+
+    expect(email.template).toBe('notification-digest')
+    expect(email.data).toMatchObject({
+      name: 'Sipho',
+      url: 'https://lotosale.co.za/account/settings',
+    })
+    expect(email.template === 'notification-digest' && email.data.items).toEqual([
+      expect.objectContaining({ title: 'Listing approved', url: 'https://lotosale.co.za/listings/l1' }),
+      expect.objectContaining({ title: 'Sale completed', url: 'https://lotosale.co.za/dashboard/payouts' }),
+    ])
+  })
+
+  it('claims the entries and emails them once', async () => {
+    const { client, updateMany } = fakeClient()
+    sendEmail.mockResolvedValue({ id: 'email-1' })
+
+    const summary = await sendDigests({ now, client })
+
+    expect(summary).toMatchObject({ sent: 1, entries: 2, failed: 0 })
+    expect(sendEmail).toHaveBeenCalledTimes(1)
+    expect(sendEmail.mock.calls[0][0]).toBe('sipho@example.com')
+    expect(updateMany).toHaveBeenCalledTimes(1)
+    expect(updateMany.mock.calls[0][0]).toMatchObject({ data: { sentAt: now } })
+  })
+
+  it('releases the entries when the email fails', async () => {
+    const { client, updateMany } = fakeClient()
+    sendEmail.mockRejectedValue(new Error('SMTP down'))
+
+    const summary = await sendDigests({ now, client })
+
+    expect(summary).toMatchObject({ sent: 0, failed: 1 })
+    expect(updateMany).toHaveBeenLastCalledWith({
+      where: { id: { in: ['d1', 'd2'] } },
+      data: { sentAt: null },
+    })
+  })
+
+  it('drops kinds whose email was switched off after queueing', async () => {
+    const { client } = fakeClient([{ type: 'SALE_COMPLETED', channel: 'EMAIL', enabled: false }])
+    sendEmail.mockResolvedValue({ id: 'email-1' })
+
+    const summary = await sendDigests({ now, client })
+
+    expect(summary.entries).toBe(1)
+    const [, email] = sendEmail.mock.calls[0]
+    expect(email.template === 'notification-digest' && email.data.items).toHaveLength(1)
+  })
+})
@@ -0,0 +1,76 @@
+/**
+ * Tests for Notification Kinds
+ *
+ * Covers:
+ * - Rendering each kind from its stored payload
+ * - Linking offers to the page of the party being notified
+ * - Shortening message previews
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  MESSAGE_PREVIEW_LENGTH,
+  NOTIFICATION_KINDS,
+  renderNotification,
+  toMessagePreview,
+} from '@/lib/notifications/kinds'
+
+describe('Notification Kinds', () => {
+  it('renders listing moderation results', () => {
+    expect(
+      renderNotification({ type: 'LISTING_APPROVED', payload: { listingId: 'l1', title: 'Road bike' } })
+    ).toEqual({ title: 'Listing approved', body: '"Road bike" is now live', href: '/listings/l1' })
+
+    expect(
+      renderNotification({
+        type: 'LISTING_REJECTED',
+        payload: { listingId: 'l1', title: 'Road bike', reason: 'Photos are missing' },
+      })
+    ).toEqual({
+      title: 'Listing not approved',
+      body: '"Road bike": Photos are missing',
+      href: '/listings/l1/edit',
+    })
+  })
+
+  it('links offers to the dashboard for sellers and purchases for buyers', () => {
+    const offer = { offerId: 'o1', listingId: 'l1', title: 'Road bike' }
+
+    expect(
+      renderNotification({ type: 'OFFER_RECEIVED', payload: { ...offer, amount: 1500 } }).href
+    ).toBe('/dashboard/offers')
+    expect(
+      renderNotification({ type: 'OFFER_COUNTERED', payload: { ...offer, amount: 1800, party: 'BUYER' } })
+    ).toMatchObject({ title: 'Counter-offer', href: '/account/purchases' })
+    expect(renderNotification({ type: 'OFFER_ACCEPTED', payload: { ...offer, party: 'SELLER' } }).href).toBe(
+      '/dashboard/offers'
+    )
+  })
+
+  it('renders messages with the sender and a preview', () => {
+    expect(
+      renderNotification({
+        type: 'MESSAGE_RECEIVED',
+        payload: { conversationId: 'c1', senderName: 'Thandi', preview: 'Still available?' },
+      })
+    ).toEqual({
+      title: 'New message from Thandi',
+      body: 'Still available?',
+      href: '/account/messages/c1',
+    })
+  })
+
+  it('gives every kind a label', () => {
+    for (const kind of Object.values(NOTIFICATION_KINDS)) {
+      expect(kind.label.length).toBeGreaterThan(0)
+    }
+  })
+
+  it('collapses whitespace and shortens long message previews', () => {
+    expect(toMessagePreview('  Hi there,\n\nis it still   available? ')).toBe('Hi there, is it still available?')
+
+    const preview = toMessagePreview('a'.repeat(500))
+    expect(preview).toHaveLength(MESSAGE_PREVIEW_LENGTH)
+    expect(preview.endsWith('…')).toBe(true)
+  })
+})
@@ -0,0 +1,74 @@
+/**
+ * Tests for Notification Preferences
+ *
+ * Covers:
+ * - Defaulting every channel to on
+ * - Applying stored preferences
+ * - Routing low-priority emails to the digest
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  NOTIFICATION_TYPES,
+  getNotificationDelivery,
+  resolveNotificationSettings,
+} from '@/lib/notifications/preferences'
+
+describe('Notification Preferences', () => {
+  it('turns every channel on by default', () => {
+    const settings = resolveNotificationSettings([], false)
+
+    for (const type of NOTIFICATION_TYPES) {
+      expect(settings.channels[type]).toEqual({ IN_APP: true, EMAIL: true })
+    }
+    expect(settings.emailDigest).toBe(false)
+  })
+
+  it('applies stored preferences over the defaults', () => {
+    const settings = resolveNotificationSettings(
+      [
+        { type: 'MESSAGE_RECEIVED', channel: 'EMAIL', enabled: false },
+        { type: 'OFFER_RECEIVED', channel: 'IN_APP', enabled: false },
+      ],
+      true
+    )
+
+    expect(settings.channels.MESSAGE_RECEIVED).toEqual({ IN_APP: true, EMAIL: false })
+    expect(settings.channels.OFFER_RECEIVED).toEqual({ IN_APP: false, EMAIL: true })
+    expect(settings.channels.LISTING_APPROVED).toEqual({ IN_APP: true, EMAIL: true })
+    expect(settings.emailDigest).toBe(true)
+  })
+
+  it('emails straight away unless the digest is on', () => {
+    const settings = resolveNotificationSettings([], false)
+
+    expect(getNotificationDelivery(settings, 'LISTING_APPROVED')).toEqual({
+      inApp: true,
+      email: 'IMMEDIATE',
+    })
+  })
+
+  it('sends only low-priority kinds to the digest', () => {
+    const settings = resolveNotificationSettings([], true)
+
+    expect(getNotificationDelivery(settings, 'LISTING_APPROVED').email).toBe('DIGEST')
+    expect(getNotificationDelivery(settings, 'SALE_COMPLETED').email).toBe('DIGEST')
+    expect(getNotificationDelivery(settings, 'OFFER_RECEIVED').email).toBe('IMMEDIATE')
+    expect(getNotificationDelivery(settings, 'MESSAGE_RECEIVED').email).toBe('IMMEDIATE')
+  })
+
+  it('skips channels the user switched off', () => {
+    const settings = resolveNotificationSettings(
+      [
+        { type: 'LISTING_APPROVED', channel: 'EMAIL', enabled: false },
+        { type: 'LISTING_APPROVED', channel: 'IN_APP', enabled: false },
+      ],
+      true
+    )
+
+    expect(getNotificationDelivery(settings, 'LISTING_APPROVED')).toEqual({
+      inApp: false,
+      email: null,
+    })
+  })
+})
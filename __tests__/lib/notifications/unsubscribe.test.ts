@@ -0,0 +1,46 @@
+/**
+ * Tests for Unsubscribe Tokens
+ *
+ * Covers:
+ * - Reading back a signed token
+ * - Rejecting tampered, foreign and malformed tokens
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { createUnsubscribeToken, verifyUnsubscribeToken } from '@/lib/notifications/unsubscribe'
+
+const SECRET = 'test-secret'
+
+describe('Unsubscribe Tokens', () => {
+  it('reads back the user and scope', () => {
+    const token = createUnsubscribeToken('user-1', 'MESSAGE_RECEIVED', SECRET)
+
+    expect(verifyUnsubscribeToken(token, SECRET)).toEqual({
+      userId: 'user-1',
+      scope: 'MESSAGE_RECEIVED',
+    })
+    expect(
+      verifyUnsubscribeToken(createUnsubscribeToken('user-1', 'DIGEST', SECRET), SECRET)
+    ).toEqual({ userId: 'user-1', scope: 'DIGEST' })
+  })
+
+  it('rejects a token signed with another secret', () => {
+    const token = createUnsubscribeToken('user-1', 'MESSAGE_RECEIVED', 'other-secret')
+
+    expect(verifyUnsubscribeToken(token, SECRET)).toBeNull()
+  })
+
+  it('rejects a token whose payload was changed', () => {
+    const token = createUnsubscribeToken('user-1', 'MESSAGE_RECEIVED', SECRET)
+    const [, signature] = token.split('.')
+    const forged = `${Buffer.from('user-2:MESSAGE_RECEIVED').toString('base64url')}.${signature}`
+
+    expect(verifyUnsubscribeToken(forged, SECRET)).toBeNull()
+  })
+
+  it('rejects malformed tokens', () => {
+    expect(verifyUnsubscribeToken('', SECRET)).toBeNull()
+    expect(verifyUnsubscribeToken('abc', SECRET)).toBeNull()
+    expect(verifyUnsubscribeToken('a.b.c', SECRET)).toBeNull()
+  })
+})
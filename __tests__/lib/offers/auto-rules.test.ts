@@ -0,0 +1,67 @@
+/**
+ * Tests for Automatic Offer Rules
+ *
+ * Covers:
+ * - Which response a new offer gets (accept, decline, counter or none)
+ * - Consistency checks between rules and listing pricing
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { checkOfferRules, evaluateOfferRules, hasOfferRules, OfferRules } from '@/lib/offers/auto-rules'
+
+describe('Automatic Offer Rules', () => {
+  const noRules: OfferRules = { autoDeclineBelow: null, autoCounterAt: null, autoAcceptAt: null }
+  const rules: OfferRules = { autoDeclineBelow: 700, autoCounterAt: 900, autoAcceptAt: 950 }
+  const listing = { pricingType: 'OFFERS' as const, price: 1000, minOffer: 600 }
+
+  describe('evaluateOfferRules', () => {
+    it('leaves offers alone when no rules are set', () => {
+      expect(hasOfferRules(noRules)).toBe(false)
+      expect(evaluateOfferRules(noRules, 800)).toBeNull()
+    })
+
+    it('accepts offers at or above the auto-accept amount', () => {
+      expect(evaluateOfferRules(rules, 950)).toEqual({ type: 'ACCEPT' })
+      expect(evaluateOfferRules(rules, 1000)).toEqual({ type: 'ACCEPT' })
+    })
+
+    it('declines offers below the auto-decline threshold', () => {
+      expect(evaluateOfferRules(rules, 699.99)).toEqual({ type: 'REJECT' })
+    })
+
+    it('counters offers between the thresholds at the auto-counter amount', () => {
+      expect(evaluateOfferRules(rules, 700)).toEqual({ type: 'COUNTER', amount: 900 })
+      expect(evaluateOfferRules(rules, 899)).toEqual({ type: 'COUNTER', amount: 900 })
+    })
+
+    it('leaves offers between the counter and accept amounts for the seller', () => {
+      expect(evaluateOfferRules(rules, 920)).toBeNull()
+    })
+  })
+
+  describe('checkOfferRules', () => {
+    it('accepts consistent rules', () => {
+      expect(checkOfferRules(rules, listing)).toEqual({ eligible: true })
+      expect(checkOfferRules(noRules, { ...listing, pricingType: 'FIXED' })).toEqual({ eligible: true })
+    })
+
+    it('rejects rules on fixed-price listings', () => {
+      expect(checkOfferRules(rules, { ...listing, pricingType: 'FIXED' }).eligible).toBe(false)
+    })
+
+    it('keeps amounts within the asking price and above the minimum offer', () => {
+      expect(checkOfferRules({ ...noRules, autoAcceptAt: 1200 }, listing).eligible).toBe(false)
+      expect(checkOfferRules({ ...noRules, autoCounterAt: 1200 }, listing).eligible).toBe(false)
+      expect(checkOfferRules({ ...noRules, autoDeclineBelow: 600 }, listing).eligible).toBe(false)
+    })
+
+    it('requires decline < counter < accept', () => {
+      const result = checkOfferRules({ ...rules, autoCounterAt: 950 }, listing)
+
+      expect(result.eligible).toBe(false)
+      expect(!result.eligible && result.error).toContain('below the auto-accept')
+      expect(checkOfferRules({ ...rules, autoCounterAt: 650 }, listing).eligible).toBe(false)
+      expect(checkOfferRules({ ...noRules, autoDeclineBelow: 900, autoAcceptAt: 800 }, listing).eligible).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,154 @@
+/**
+ * Tests for Offer Eligibility Rules
+ *
+ * Covers the checks run before an offer is created:
+ * - Own listing / listing status / pricing type
+ * - Duplicate open offers
+ * - Amount against minOffer and asking price
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  checkCanMakeOffer,
+  checkOfferAmount,
+  checkOfferEligibility,
+  checkCounterAmount,
+  getOfferExpiry,
+  isOfferExpired,
+  OfferListingSnapshot,
+} from '@/lib/offers/eligibility'
+
+describe('Offer Eligibility', () => {
+  const listing: OfferListingSnapshot = {
+    sellerId: 'seller-1',
+    status: 'APPROVED',
+    pricingType: 'OFFERS',
+    price: 1000,
+    minOffer: 600,
+  }
+
+  describe('checkCanMakeOffer', () => {
+    it('allows a buyer on an approved OFFERS listing', () => {
+      expect(checkCanMakeOffer(listing, 'buyer-1', false)).toEqual({ eligible: true })
+    })
+
+    it('blocks offers on your own listing', () => {
+      const result = checkCanMakeOffer(listing, 'seller-1', false)
+
+      expect(result.eligible).toBe(false)
+      expect(!result.eligible && result.error).toContain('your own listing')
+    })
+
+    it.each(['PENDING', 'REJECTED', 'SOLD', 'PAUSED'] as const)(
+      'blocks offers on %s listings',
+      (status) => {
+        const result = checkCanMakeOffer({ ...listing, status }, 'buyer-1', false)
+
+        expect(result.eligible).toBe(false)
+        expect(!result.eligible && result.error).toContain('no longer accepting offers')
+      }
+    )
+
+    it('blocks offers on FIXED-price listings', () => {
+      const result = checkCanMakeOffer({ ...listing, pricingType: 'FIXED' }, 'buyer-1', false)
+
+      expect(result.eligible).toBe(false)
+      expect(!result.eligible && result.error).toContain('fixed price')
+    })
+
+    it('blocks offers once the seller has accepted another offer', () => {
+      const result = checkCanMakeOffer({ ...listing, hasAcceptedOffer: true }, 'buyer-1', false)
+
+      expect(result.eligible).toBe(false)
+      expect(!result.eligible && result.error).toContain('already accepted another offer')
+    })
+
+    it('blocks a second open offer from the same buyer', () => {
+      const result = checkCanMakeOffer(listing, 'buyer-1', true)
+
+      expect(result.eligible).toBe(false)
+      expect(!result.eligible && result.error).toContain('already have an open offer')
+    })
+  })
+
+  describe('checkOfferAmount', () => {
+    it('accepts amounts between minOffer and price', () => {
+      expect(checkOfferAmount(listing, 600).eligible).toBe(true)
+      expect(checkOfferAmount(listing, 850.5).eligible).toBe(true)
+      expect(checkOfferAmount(listing, 1000).eligible).toBe(true)
+    })
+
+    it('rejects amounts below minOffer', () => {
+      const result = checkOfferAmount(listing, 599.99)
+
+      expect(result.eligible).toBe(false)
+      expect(!result.eligible && result.error).toBe('Offer must be at least R 600')
+    })
+
+    it('rejects amounts above the asking price', () => {
+      const result = checkOfferAmount(listing, 1000.01)
+
+      expect(result.eligible).toBe(false)
+      expect(!result.eligible && result.error).toContain('cannot exceed the asking price')
+    })
+
+    it('rejects zero, negative and non-numeric amounts', () => {
+      expect(checkOfferAmount(listing, 0).eligible).toBe(false)
+      expect(checkOfferAmount(listing, -10).eligible).toBe(false)
+      expect(checkOfferAmount(listing, NaN).eligible).toBe(false)
+    })
+
+    it('accepts any positive amount when no minOffer or price is set', () => {
+      expect(checkOfferAmount({ price: null, minOffer: null }, 1).eligible).toBe(true)
+    })
+  })
+
+  describe('checkOfferEligibility', () => {
+    it('reports listing problems before amount problems', () => {
+      const result = checkOfferEligibility(listing, 'seller-1', 10, false)
+
+      expect(!result.eligible && result.error).toContain('your own listing')
+    })
+
+    it('reports amount problems for otherwise eligible offers', () => {
+      const result = checkOfferEligibility(listing, 'buyer-1', 10, false)
+
+      expect(!result.eligible && result.error).toContain('at least')
+    })
+  })
+
+  describe('checkCounterAmount', () => {
+    it('accepts a counter between the offer and the asking price', () => {
+      expect(checkCounterAmount(700, listing, 900).eligible).toBe(true)
+      expect(checkCounterAmount(700, listing, 1000).eligible).toBe(true)
+    })
+
+    it('rejects a counter at or below the buyer offer', () => {
+      const result = checkCounterAmount(700, listing, 700)
+
+      expect(result.eligible).toBe(false)
+      expect(!result.eligible && result.error).toContain('Accept the offer instead')
+    })
+
+    it('rejects a counter above the asking price', () => {
+      expect(checkCounterAmount(700, listing, 1200).eligible).toBe(false)
+    })
+  })
+
+  describe('isOfferExpired', () => {
+    it('treats offers past expiresAt as expired', () => {
+      const now = new Date('2025-01-02T00:00:00Z')
+
+      expect(isOfferExpired({ expiresAt: new Date('2025-01-01T23:59:59Z') }, now)).toBe(true)
+      expect(isOfferExpired({ expiresAt: new Date('2025-01-02T00:00:01Z') }, now)).toBe(false)
+    })
+  })
+
+  describe('getOfferExpiry', () => {
+    it('expires offers 48 hours after creation', () => {
+      const from = new Date('2025-01-01T10:00:00Z')
+
+      expect(getOfferExpiry(from).toISOString()).toBe('2025-01-03T10:00:00.000Z')
+    })
+  })
+})
@@ -0,0 +1,179 @@
+/**
+ * Tests for the Offer Negotiation State Machine
+ *
+ * Covers:
+ * - Turn-taking between buyer and seller
+ * - Counter amount bounds for each party
+ * - Summary updates and recorded moves for accept, reject and counter
+ * - The move limit
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  MAX_NEGOTIATION_MOVES,
+  applyResponse,
+  getAmountOnTable,
+  getPartyToRespond,
+  validateResponse,
+  NegotiationState,
+} from '@/lib/offers/negotiation'
+import { OFFER_EXPIRY_HOURS } from '@/lib/offers/eligibility'
+
+describe('Offer Negotiation', () => {
+  const now = new Date('2025-10-28T10:00:00Z')
+  const listing = { price: 1000, minOffer: 600 }
+
+  // Buyer offered R 700, waiting on the seller
+  const pending: NegotiationState = {
+    status: 'PENDING',
+    amount: 700,
+    counterAmount: null,
+    moveCount: 1,
+    expiresAt: new Date('2025-10-29T10:00:00Z'),
+  }
+
+  // Seller countered with R 900, waiting on the buyer
+  const countered: NegotiationState = {
+    ...pending,
+    status: 'COUNTERED',
+    counterAmount: 900,
+    moveCount: 2,
+  }
+
+  describe('getPartyToRespond', () => {
+    it('gives the seller the turn on PENDING and the buyer on COUNTERED', () => {
+      expect(getPartyToRespond('PENDING')).toBe('SELLER')
+      expect(getPartyToRespond('COUNTERED')).toBe('BUYER')
+    })
+
+    it('returns null once the thread is closed', () => {
+      expect(getPartyToRespond('ACCEPTED')).toBeNull()
+      expect(getPartyToRespond('REJECTED')).toBeNull()
+      expect(getPartyToRespond('EXPIRED')).toBeNull()
+    })
+  })
+
+  describe('getAmountOnTable', () => {
+    it('is the buyer amount for the seller and the counter amount for the buyer', () => {
+      expect(getAmountOnTable(countered, 'SELLER')).toBe(700)
+      expect(getAmountOnTable(countered, 'BUYER')).toBe(900)
+    })
+  })
+
+  describe('validateResponse', () => {
+    it('only lets the party whose turn it is respond', () => {
+      const result = validateResponse(pending, 'BUYER', { type: 'ACCEPT' }, listing, now)
+
+      expect(result.eligible).toBe(false)
+      expect(!result.eligible && result.error).toContain('Waiting for the seller')
+      expect(validateResponse(pending, 'SELLER', { type: 'ACCEPT' }, listing, now)).toEqual({
+        eligible: true,
+      })
+    })
+
+    it('blocks responses to closed threads', () => {
+      const result = validateResponse(
+        { ...pending, status: 'ACCEPTED' },
+        'SELLER',
+        { type: 'REJECT' },
+        listing,
+        now
+      )
+
+      expect(result.eligible).toBe(false)
+      expect(!result.eligible && result.error).toContain('already been accepted')
+    })
+
+    it('blocks responses after expiry', () => {
+      const later = new Date('2025-10-30T10:00:00Z')
+      const result = validateResponse(pending, 'SELLER', { type: 'ACCEPT' }, listing, later)
+
+      expect(result.eligible).toBe(false)
+      expect(!result.eligible && result.error).toContain('expired')
+    })
+
+    it('requires a seller counter above the buyer amount and within the asking price', () => {
+      expect(
+        validateResponse(pending, 'SELLER', { type: 'COUNTER', amount: 900 }, listing, now)
+      ).toEqual({ eligible: true })
+      expect(
+        validateResponse(pending, 'SELLER', { type: 'COUNTER', amount: 700 }, listing, now).eligible
+      ).toBe(false)
+      expect(
+        validateResponse(pending, 'SELLER', { type: 'COUNTER', amount: 1100 }, listing, now).eligible
+      ).toBe(false)
+    })
+
+    it('requires a buyer counter below the seller amount and at least the minimum offer', () => {
+      expect(
+        validateResponse(countered, 'BUYER', { type: 'COUNTER', amount: 800 }, listing, now)
+      ).toEqual({ eligible: true })
+
+      const tooHigh = validateResponse(countered, 'BUYER', { type: 'COUNTER', amount: 900 }, listing, now)
+      expect(tooHigh.eligible).toBe(false)
+      expect(!tooHigh.eligible && tooHigh.error).toContain('Accept the counter-offer instead')
+
+      const tooLow = validateResponse(countered, 'BUYER', { type: 'COUNTER', amount: 500 }, listing, now)
+      expect(tooLow.eligible).toBe(false)
+      expect(!tooLow.eligible && tooLow.error).toContain('at least')
+    })
+
+    it('stops further counters at the move limit but still allows accept and reject', () => {
+      const exhausted = { ...countered, moveCount: MAX_NEGOTIATION_MOVES }
+
+      const counter = validateResponse(exhausted, 'BUYER', { type: 'COUNTER', amount: 800 }, listing, now)
+      expect(counter.eligible).toBe(false)
+      expect(!counter.eligible && counter.error).toContain('limit')
+
+      expect(validateResponse(exhausted, 'BUYER', { type: 'ACCEPT' }, listing, now)).toEqual({
+        eligible: true,
+      })
+    })
+  })
+
+  describe('applyResponse', () => {
+    it('records a seller counter in counterAmount and hands the turn to the buyer', () => {
+      const { update, move } = applyResponse(
+        pending,
+        'SELLER',
+        { type: 'COUNTER', amount: 900, message: ' Firm on 900 ' },
+        now
+      )
+
+      expect(update).toEqual({
+        status: 'COUNTERED',
+        counterAmount: 900,
+        lastMoveBy: 'SELLER',
+        lastMoveAt: now,
+        respondedAt: now,
+        moveCount: 2,
+        expiresAt: new Date(now.getTime() + OFFER_EXPIRY_HOURS * 60 * 60 * 1000),
+      })
+      expect(move).toEqual({ party: 'SELLER', type: 'COUNTER', amount: 900, message: 'Firm on 900' })
+    })
+
+    it('records a buyer counter in amount and hands the turn back to the seller', () => {
+      const { update, move } = applyResponse(countered, 'BUYER', { type: 'COUNTER', amount: 800 }, now)
+
+      expect(update.status).toBe('PENDING')
+      expect(update.amount).toBe(800)
+      expect(update.counterAmount).toBeUndefined()
+      expect(update.respondedAt).toBeUndefined()
+      expect(update.moveCount).toBe(3)
+      expect(move).toEqual({ party: 'BUYER', type: 'COUNTER', amount: 800, message: null })
+    })
+
+    it('agrees on the amount from the other party when accepting', () => {
+      expect(applyResponse(pending, 'SELLER', { type: 'ACCEPT' }, now).update.agreedAmount).toBe(700)
+      expect(applyResponse(countered, 'BUYER', { type: 'ACCEPT' }, now).update.agreedAmount).toBe(900)
+    })
+
+    it('ends the thread on reject without an amount', () => {
+      const { update, move } = applyResponse(countered, 'BUYER', { type: 'REJECT' }, now)
+
+      expect(update.status).toBe('REJECTED')
+      expect(update.expiresAt).toBeUndefined()
+      expect(move.amount).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,119 @@
+/**
+ * Tests for Offer Responses
+ *
+ * Covers:
+ * - Accepting an offer and expiring the competing ones
+ * - Two accepts on the same listing racing each other
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { Prisma, type OfferStatus } from '@prisma/client'
+import { respondToOffer } from '@/lib/offers/respond'
+
+type FakeOffer = {
+  id: string
+  buyerId: string
+  status: OfferStatus
+  moveCount: number
+  amount: number
+  counterAmount: number | null
+}
+
+const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000)
+
+/**
+ * In-memory listing with its offers. Writes apply straight away; the listing
+ * row lock is held from SELECT … FOR UPDATE until the transaction ends, as in
+ * Postgres, so a second accept waits for the first one to finish.
+ */
+const fakeDatabase = (offers: FakeOffer[]) => {
+  const listing = { id: 'listing-1', sellerId: 'seller-1', title: 'Road bike', status: 'APPROVED' }
+  let lock: Promise<void> = Promise.resolve()
+
+  const matches = (offer: FakeOffer, where: Record<string, unknown>) =>
+    (where.id === undefined ||
+      (typeof where.id === 'string' ? offer.id === where.id : offer.id !== (where.id as { not: string }).not)) &&
+    (where.status === undefined ||
+      (typeof where.status === 'string'
+        ? offer.status === where.status
+        : (where.status as { in: OfferStatus[] }).in.includes(offer.status))) &&
+    (where.moveCount === undefined || offer.moveCount === where.moveCount)
+
+  const transaction = async <T,>(fn: (tx: Prisma.TransactionClient) => Promise<T>): Promise<T> => {
+    let release = () => {}
+
+    const tx = {
+      $queryRaw: async () => {
+        const previous = lock
+        lock = new Promise<void>((resolve) => (release = resolve))
+        await previous
+        return [{ status: listing.status }]
+      },
+      offer: {
+        findUnique: async ({ where }: { where: { id: string } }) => {
+          const offer = offers.find((candidate) => candidate.id === where.id)
+          return offer
+            ? {
+                ...offer,
+                listingId: listing.id,
+                amount: new Prisma.Decimal(offer.amount),
+                counterAmount: offer.counterAmount === null ? null : new Prisma.Decimal(offer.counterAmount),
+                expiresAt,
+                listing: { ...listing, price: new Prisma.Decimal(1000), minOffer: null },
+              }
+            : null
+        },
+        updateMany: async ({ where, data }: { where: Record<string, unknown>; data: Partial<FakeOffer> }) => {
+          const updated = offers.filter((offer) => matches(offer, where))
+          updated.forEach((offer) => {
+            offer.status = data.status ?? offer.status
+            offer.moveCount = data.moveCount ?? offer.moveCount
+          })
+          return { count: updated.length }
+        },
+        count: async ({ where }: { where: Record<string, unknown> }) =>
+          offers.filter((offer) => matches(offer, where)).length,
+      },
+      offerMove: { create: async () => ({}) },
+    }
+
+    try {
+      return await fn(tx as unknown as Prisma.TransactionClient)
+    } finally {
+      release()
+    }
+  }
+
+  return { transaction, offers }
+}
+
+describe('Offer Responses', () => {
+  it('accepts an offer and expires the competing ones', async () => {
+    const db = fakeDatabase([
+      { id: 'offer-a', buyerId: 'buyer-a', status: 'PENDING', moveCount: 1, amount: 900, counterAmount: null },
+      { id: 'offer-b', buyerId: 'buyer-b', status: 'PENDING', moveCount: 1, amount: 850, counterAmount: null },
+    ])
+
+    const result = await db.transaction((tx) => respondToOffer(tx, 'offer-a', 'seller-1', { type: 'ACCEPT' }))
+
+    expect(result).toMatchObject({ offerId: 'offer-a', status: 'ACCEPTED', expiredCount: 1 })
+    expect(db.offers.map((offer) => offer.status)).toEqual(['ACCEPTED', 'EXPIRED'])
+  })
+
+  it('lets only one of two concurrent accepts on a listing through', async () => {
+    // The seller accepts offer A while buyer B accepts the seller's counter on offer B
+    const db = fakeDatabase([
+      { id: 'offer-a', buyerId: 'buyer-a', status: 'PENDING', moveCount: 1, amount: 900, counterAmount: null },
+      { id: 'offer-b', buyerId: 'buyer-b', status: 'COUNTERED', moveCount: 2, amount: 850, counterAmount: 950 },
+    ])
+
+    const [sellerAccept, buyerAccept] = await Promise.all([
+      db.transaction((tx) => respondToOffer(tx, 'offer-a', 'seller-1', { type: 'ACCEPT' })),
+      db.transaction((tx) => respondToOffer(tx, 'offer-b', 'buyer-b', { type: 'ACCEPT' })),
+    ])
+
+    expect(sellerAccept).toMatchObject({ offerId: 'offer-a', status: 'ACCEPTED' })
+    expect(buyerAccept).toEqual({ error: 'Another offer on this listing has already been accepted' })
+    expect(db.offers.filter((offer) => offer.status === 'ACCEPTED')).toHaveLength(1)
+  })
+})
@@ -0,0 +1,78 @@
+/**
+ * Tests for Order Timeline
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { buildOrderTimeline, type OrderTimelineInput } from '@/lib/orders/timeline'
+
+const base: OrderTimelineInput = {
+  status: 'PENDING',
+  createdAt: new Date('2025-11-01T08:00:00Z'),
+  paidAt: null,
+  cancelledAt: null,
+  completedAt: null,
+  refundedAt: null,
+  releaseAt: null,
+  dispute: null,
+  review: null,
+}
+
+describe('Order Timeline', () => {
+  it('starts with the order being placed', () => {
+    expect(buildOrderTimeline(base)).toEqual([
+      { kind: 'PLACED', at: base.createdAt, upcoming: false },
+    ])
+  })
+
+  it('shows the scheduled auto-release while awaiting confirmation', () => {
+    const releaseAt = new Date('2025-11-08T09:00:00Z')
+    const events = buildOrderTimeline({
+      ...base,
+      status: 'AWAITING_CONFIRMATION',
+      paidAt: new Date('2025-11-01T09:00:00Z'),
+      releaseAt,
+    })
+
+    expect(events.map((event) => event.kind)).toEqual(['PLACED', 'PAID', 'AUTO_RELEASE'])
+    expect(events[2]).toEqual({ kind: 'AUTO_RELEASE', at: releaseAt, upcoming: true })
+  })
+
+  it('orders dispute, refund and completion events by date', () => {
+    const events = buildOrderTimeline({
+      ...base,
+      status: 'COMPLETED',
+      paidAt: new Date('2025-11-01T09:00:00Z'),
+      releaseAt: new Date('2025-11-08T09:00:00Z'),
+      dispute: {
+        createdAt: new Date('2025-11-03T09:00:00Z'),
+        sellerRespondedAt: new Date('2025-11-04T09:00:00Z'),
+        resolvedAt: new Date('2025-11-05T09:00:00Z'),
+      },
+      refundedAt: new Date('2025-11-05T09:00:00Z'),
+      completedAt: new Date('2025-11-05T09:00:00Z'),
+      review: { createdAt: new Date('2025-11-06T09:00:00Z') },
+    })
+
+    expect(events.map((event) => event.kind)).toEqual([
+      'PLACED',
+      'PAID',
+      'DISPUTE_OPENED',
+      'SELLER_RESPONDED',
+      'DISPUTE_RESOLVED',
+      'REFUNDED',
+      'COMPLETED',
+      'REVIEWED',
+    ])
+    expect(events.every((event) => !event.upcoming)).toBe(true)
+  })
+
+  it('ends a cancelled order at the cancellation', () => {
+    const events = buildOrderTimeline({
+      ...base,
+      status: 'CANCELLED',
+      cancelledAt: new Date('2025-11-01T10:00:00Z'),
+    })
+
+    expect(events.map((event) => event.kind)).toEqual(['PLACED', 'CANCELLED'])
+  })
+})
@@ -0,0 +1,189 @@
+/**
+ * Tests for the Payment Gateways
+ *
+ * Covers:
+ * - Mock gateway signed notifications round-trip and reject tampering
+ * - PayFast redirect signing and ITN verification
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { PaymentError } from '@/lib/payments/errors'
+import {
+  createMockGateway,
+  createMockNotification,
+  MOCK_SIGNATURE_HEADER,
+  signMockNotification,
+} from '@/lib/payments/mock'
+import { createPayFastGateway, signPayFastFields, type PayFastConfig } from '@/lib/payments/payfast'
+import type { PaymentIntentRequest } from '@/lib/payments/types'
+
+const headersOf = (values: Record<string, string>) => ({
+  get: (name: string) => values[name.toLowerCase()] ?? null,
+})
+
+const expectPaymentError = (fn: () => unknown, code: string) => {
+  try {
+    fn()
+  } catch (error) {
+    expect(error).toBeInstanceOf(PaymentError)
+    expect((error as PaymentError).code).toBe(code)
+    return
+  }
+  throw new Error(`Expected PaymentError ${code}`)
+}
+
+const request: PaymentIntentRequest = {
+  transactionId: 'a6b1c2d3-0000-4000-8000-000000000001',
+  amount: 1250.5,
+  itemName: 'Vintage bicycle',
+  buyer: { name: 'Thandi Mokoena', email: 'thandi@example.com' },
+  returnUrl: 'https://market.example/orders/1?payment=return',
+  cancelUrl: 'https://market.example/orders/1?payment=cancelled',
+  notifyUrl: 'https://market.example/api/payments/payfast/notify',
+}
+
+describe('Mock Gateway', () => {
+  const secret = 'test-secret'
+  const gateway = createMockGateway(secret)
+  const event = { transactionId: request.transactionId, outcome: 'COMPLETED' as const, amount: 1250.5 }
+
+  it('redirects to the local mock checkout page', () => {
+    const { redirectUrl } = gateway.createPaymentIntent(request)
+    expect(redirectUrl).toBe(`https://market.example/payments/mock/${request.transactionId}`)
+  })
+
+  it('parses a correctly signed notification', () => {
+    const { body, headers } = createMockNotification(secret, { ...event, eventId: 'evt-1' })
+    const notification = gateway.parseNotification(body, headersOf(headers))
+
+    expect(notification).toMatchObject({
+      provider: 'MOCK',
+      eventId: 'evt-1',
+      transactionId: request.transactionId,
+      outcome: 'COMPLETED',
+      amount: 1250.5,
+      paymentMethod: 'card',
+    })
+  })
+
+  it('rejects a tampered body', () => {
+    const { body, headers } = createMockNotification(secret, event)
+    const tampered = body.replace('1250.50', '1.00')
+    expectPaymentError(() => gateway.parseNotification(tampered, headersOf(headers)), 'INVALID_SIGNATURE')
+  })
+
+  it('rejects notifications signed with another secret or unsigned', () => {
+    const { body, headers } = createMockNotification('other-secret', event)
+    expectPaymentError(() => gateway.parseNotification(body, headersOf(headers)), 'INVALID_SIGNATURE')
+    expectPaymentError(() => gateway.parseNotification(body, headersOf({})), 'INVALID_SIGNATURE')
+    expect(headers[MOCK_SIGNATURE_HEADER]).toMatch(/^[0-9a-f]{64}$/)
+  })
+
+  it('rejects a correctly signed body that is not a JSON object', () => {
+    for (const body of ['null', '42', '"COMPLETED"', '[]']) {
+      const headers = { [MOCK_SIGNATURE_HEADER]: signMockNotification(body, secret) }
+      expectPaymentError(() => gateway.parseNotification(body, headersOf(headers)), 'INVALID_NOTIFICATION')
+    }
+  })
+})
+
+describe('PayFast Gateway', () => {
+  const config: PayFastConfig = {
+    merchantId: '10000100',
+    merchantKey: '46f0cd694581a',
+    passphrase: 'jt7NOE43FZPn',
+    sandbox: true,
+  }
+  const gateway = createPayFastGateway(config)
+
+  const itnBody = (overrides: Record<string, string> = {}, passphrase = config.passphrase) => {
+    const fields: [string, string][] = Object.entries({
+      m_payment_id: request.transactionId,
+      pf_payment_id: '1089250',
+      payment_status: 'COMPLETE',
+      item_name: 'Vintage bicycle',
+      item_description: '',
+      amount_gross: '1250.50',
+      amount_fee: '-28.76',
+      amount_net: '1221.74',
+      name_first: 'Thandi',
+      name_last: 'Mokoena',
+      email_address: 'thandi@example.com',
+      merchant_id: config.merchantId,
+      ...overrides,
+    })
+    const params = new URLSearchParams(fields)
+    params.append('signature', signPayFastFields(fields, passphrase))
+    return params.toString()
+  }
+
+  describe('createPaymentIntent', () => {
+    it('builds a signed sandbox redirect', () => {
+      const url = new URL(gateway.createPaymentIntent(request).redirectUrl)
+      expect(url.origin + url.pathname).toBe('https://sandbox.payfast.co.za/eng/process')
+
+      const entries = Array.from(url.searchParams.entries())
+      const signed = entries.filter(([name]) => name !== 'signature')
+
+      expect(url.searchParams.get('amount')).toBe('1250.50')
+      expect(url.searchParams.get('m_payment_id')).toBe(request.transactionId)
+      expect(url.searchParams.get('name_first')).toBe('Thandi')
+      expect(url.searchParams.get('signature')).toBe(signPayFastFields(signed, config.passphrase))
+    })
+
+    it('leaves out empty fields', () => {
+      const url = new URL(
+        gateway.createPaymentIntent({ ...request, buyer: { ...request.buyer, name: 'Thandi' } }).redirectUrl
+      )
+      expect(url.searchParams.has('name_last')).toBe(false)
+    })
+
+    it('uses the live host outside the sandbox', () => {
+      const live = createPayFastGateway({ ...config, sandbox: false })
+      expect(live.createPaymentIntent(request).redirectUrl).toMatch(/^https:\/\/www\.payfast\.co\.za\/eng\/process\?/)
+    })
+  })
+
+  describe('parseNotification', () => {
+    it('parses a valid ITN', () => {
+      const notification = gateway.parseNotification(itnBody(), headersOf({}))
+      expect(notification).toMatchObject({
+        provider: 'PAYFAST',
+        eventId: '1089250:COMPLETE',
+        transactionId: request.transactionId,
+        outcome: 'COMPLETED',
+        amount: 1250.5,
+        providerReference: '1089250',
+      })
+    })
+
+    it('maps cancelled payments', () => {
+      const notification = gateway.parseNotification(itnBody({ payment_status: 'CANCELLED' }), headersOf({}))
+      expect(notification.outcome).toBe('CANCELLED')
+      expect(notification.eventId).toBe('1089250:CANCELLED')
+    })
+
+    it('rejects an ITN whose fields were changed after signing', () => {
+      const tampered = itnBody().replace('amount_gross=1250.50', 'amount_gross=1.00')
+      expectPaymentError(() => gateway.parseNotification(tampered, headersOf({})), 'INVALID_SIGNATURE')
+    })
+
+    it('rejects an ITN signed without the passphrase', () => {
+      expectPaymentError(() => gateway.parseNotification(itnBody({}, null), headersOf({})), 'INVALID_SIGNATURE')
+    })
+
+    it('rejects an ITN for another merchant', () => {
+      expectPaymentError(
+        () => gateway.parseNotification(itnBody({ merchant_id: '999' }), headersOf({})),
+        'INVALID_NOTIFICATION'
+      )
+    })
+
+    it('rejects an ITN with an unknown status', () => {
+      expectPaymentError(
+        () => gateway.parseNotification(itnBody({ payment_status: 'WHATEVER' }), headersOf({})),
+        'INVALID_NOTIFICATION'
+      )
+    })
+  })
+})
@@ -0,0 +1,194 @@
+/**
+ * Tests for the Payment Service
+ *
+ * Covers:
+ * - Marking pending transactions paid or cancelled from notifications
+ * - Idempotency: redelivered events change nothing
+ * - Amount checks and late notifications for settled transactions
+ * - Signature verification through handlePaymentNotification
+ * - Reporting the sale once, so callers can tell the listing's watchers
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals'
+import { Prisma, type PrismaClient, type TransactionStatus } from '@prisma/client'
+import { createMockNotification } from '@/lib/payments/mock'
+import { applyPaymentNotification, handlePaymentNotification } from '@/lib/payments/service'
+import type { PaymentNotification } from '@/lib/payments/types'
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+const TRANSACTION_ID = 'a6b1c2d3-0000-4000-8000-000000000001'
+
+// A R500 transaction in the given status whose listing is held as SOLD.
+// Payment events are keyed by provider and event ID like their unique index,
+// so a redelivery inserts nothing; cancelling puts the listing back on sale.
+// $transaction runs the callback on the same rows, with no rollback
+const fakeDatabase = (status: TransactionStatus = 'PENDING') => {
+  const state = {
+    transaction: { id: TRANSACTION_ID, listingId: 'listing-1', status, amount: new Prisma.Decimal(500) },
+    listingStatus: 'SOLD',
+    eventKeys: new Set<string>(),
+  }
+
+  const tx = {
+    transaction: {
+      findUnique: jest.fn(async () => ({ ...state.transaction })),
+      findUniqueOrThrow: jest.fn(async () => ({ ...state.transaction })),
+      updateMany: jest.fn(async ({ where, data }: { where: { status: TransactionStatus }; data: { status: TransactionStatus } }) => {
+        if (state.transaction.status !== where.status) return { count: 0 }
+        state.transaction.status = data.status
+        return { count: 1 }
+      }),
+    },
+    paymentEvent: {
+      createMany: jest.fn(async ({ data }: { data: { provider: string; eventId: string }[] }) => {
+        const key = `${data[0].provider}:${data[0].eventId}`
+        if (state.eventKeys.has(key)) return { count: 0 }
+        state.eventKeys.add(key)
+        return { count: 1 }
+      }),
+    },
+    listing: {
+      updateMany: jest.fn(async () => {
+        state.listingStatus = 'APPROVED'
+        return { count: 1 }
+      }),
+    },
+  }
+
+  const client = {
+    $transaction: jest.fn(async (fn: (tx: unknown) => unknown) => fn(tx)),
+  } as unknown as PrismaClient
+
+  return { state, tx, client }
+}
+
+const headersOf = (values: Record<string, string>) => ({
+  get: (name: string) => values[name.toLowerCase()] ?? null,
+})
+
+const notification = (overrides: Partial<PaymentNotification> = {}): PaymentNotification => ({
+  provider: 'MOCK',
+  eventId: 'evt-1',
+  transactionId: TRANSACTION_ID,
+  outcome: 'COMPLETED',
+  amount: 500,
+  providerReference: 'mock_ref',
+  paymentMethod: 'card',
+  payload: {},
+  ...overrides,
+})
+
+describe('Payment Service', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  it('marks a pending transaction paid and holds the funds', async () => {
+    const { state, client } = fakeDatabase()
+
+    const result = await applyPaymentNotification(notification(), client)
+
+    expect(result).toEqual({
+      status: 'APPLIED',
+      transactionStatus: 'AWAITING_CONFIRMATION',
+      soldTransactionId: TRANSACTION_ID,
+    })
+    expect(state.transaction.status).toBe('AWAITING_CONFIRMATION')
+  })
+
+  it('acknowledges a redelivered event without applying it again', async () => {
+    const { tx, client } = fakeDatabase()
+
+    await applyPaymentNotification(notification(), client)
+    const result = await applyPaymentNotification(notification(), client)
+
+    expect(result.status).toBe('DUPLICATE')
+    expect(tx.transaction.updateMany).toHaveBeenCalledTimes(1)
+  })
+
+  it('reports the sale only for the delivery that applied the payment', async () => {
+    const { client } = fakeDatabase()
+
+    const first = await applyPaymentNotification(notification(), client)
+    const redelivery = await applyPaymentNotification(notification(), client)
+
+    expect(first.soldTransactionId).toBe(TRANSACTION_ID)
+    expect(redelivery.soldTransactionId).toBeUndefined()
+  })
+
+  it('cancels a pending transaction and releases the listing', async () => {
+    const { state, client } = fakeDatabase()
+
+    const result = await applyPaymentNotification(notification({ outcome: 'CANCELLED' }), client)
+
+    expect(result.status).toBe('APPLIED')
+    expect(state.transaction.status).toBe('CANCELLED')
+    expect(state.listingStatus).toBe('APPROVED')
+    expect(result.soldTransactionId).toBeUndefined()
+  })
+
+  it('records pending updates without changing the transaction', async () => {
+    const { state, client } = fakeDatabase()
+
+    const result = await applyPaymentNotification(notification({ outcome: 'PENDING' }), client)
+
+    expect(result).toEqual({ status: 'RECORDED', transactionStatus: 'PENDING' })
+    expect(state.transaction.status).toBe('PENDING')
+  })
+
+  it('ignores a payment completing after the order was cancelled', async () => {
+    const { state, client } = fakeDatabase('CANCELLED')
+
+    const result = await applyPaymentNotification(notification(), client)
+
+    expect(result).toEqual({ status: 'IGNORED', transactionStatus: 'CANCELLED' })
+    expect(state.transaction.status).toBe('CANCELLED')
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('refund it manually'))
+  })
+
+  it('rejects a notification whose amount differs from the transaction', async () => {
+    const { tx, client } = fakeDatabase()
+
+    await expect(applyPaymentNotification(notification({ amount: 499.99 }), client)).rejects.toMatchObject({
+      code: 'AMOUNT_MISMATCH',
+    })
+    expect(tx.paymentEvent.createMany).not.toHaveBeenCalled()
+  })
+
+  describe('handlePaymentNotification', () => {
+    const secret = 'service-test-secret'
+
+    beforeEach(() => {
+      process.env.MOCK_PAYMENT_SECRET = secret
+    })
+
+    it('verifies and applies a signed mock notification', async () => {
+      const { state, client } = fakeDatabase()
+      const { body, headers } = createMockNotification(secret, {
+        transactionId: TRANSACTION_ID,
+        outcome: 'COMPLETED',
+        amount: 500,
+      })
+
+      const result = await handlePaymentNotification('MOCK', body, headersOf(headers), client)
+
+      expect(result.status).toBe('APPLIED')
+      expect(state.transaction.status).toBe('AWAITING_CONFIRMATION')
+    })
+
+    it('rejects a forged notification before touching the database', async () => {
+      const { client } = fakeDatabase()
+      const { body, headers } = createMockNotification('wrong-secret', {
+        transactionId: TRANSACTION_ID,
+        outcome: 'COMPLETED',
+        amount: 500,
+      })
+
+      await expect(
+        handlePaymentNotification('MOCK', body, headersOf(headers), client)
+      ).rejects.toMatchObject({ code: 'INVALID_SIGNATURE' })
+      expect(client.$transaction).not.toHaveBeenCalled()
+    })
+  })
+})
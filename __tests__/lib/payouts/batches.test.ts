@@ -0,0 +1,77 @@
+/**
+ * Tests for Payout Batches
+ *
+ * Covers which seller balances a batch pays out and payout references
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import type { BankAccount } from '@prisma/client'
+import { getPayoutReference, selectPayouts } from '@/lib/payouts/batches'
+
+const bankAccount = (userId: string): BankAccount => ({
+  id: `account-${userId}`,
+  userId,
+  accountHolder: 'T Seller',
+  bankName: 'Capitec',
+  branchCode: '470010',
+  accountNumber: '1234567890',
+  accountType: 'SAVINGS',
+  createdAt: new Date('2025-11-01T00:00:00Z'),
+  updatedAt: new Date('2025-11-01T00:00:00Z'),
+})
+
+describe('Payout Batches', () => {
+  describe('selectPayouts', () => {
+    it('pays balances at or above the minimum to sellers with a bank account', () => {
+      const selection = selectPayouts(
+        [
+          { sellerId: 'seller-1', balance: 100 },
+          { sellerId: 'seller-2', balance: 2500.5 },
+        ],
+        [bankAccount('seller-1'), bankAccount('seller-2')],
+        100
+      )
+
+      expect(selection.payable.map(({ sellerId, amount }) => ({ sellerId, amount }))).toEqual([
+        { sellerId: 'seller-1', amount: 100 },
+        { sellerId: 'seller-2', amount: 2500.5 },
+      ])
+      expect(selection.missingBankAccount).toEqual([])
+    })
+
+    it('rolls small balances over to the next batch', () => {
+      const selection = selectPayouts(
+        [{ sellerId: 'seller-1', balance: 99.99 }],
+        [bankAccount('seller-1')],
+        100
+      )
+
+      expect(selection.payable).toEqual([])
+      expect(selection.missingBankAccount).toEqual([])
+    })
+
+    it('holds back balances of sellers without a bank account', () => {
+      const selection = selectPayouts([{ sellerId: 'seller-1', balance: 500 }], [], 100)
+
+      expect(selection.payable).toEqual([])
+      expect(selection.missingBankAccount).toEqual([{ sellerId: 'seller-1', balance: 500 }])
+    })
+
+    it('uses the bank account of the matching seller', () => {
+      const selection = selectPayouts(
+        [{ sellerId: 'seller-2', balance: 500 }],
+        [bankAccount('seller-1'), bankAccount('seller-2')],
+        100
+      )
+
+      expect(selection.payable[0].bankAccount.userId).toBe('seller-2')
+    })
+  })
+
+  describe('getPayoutReference', () => {
+    it('pads the payout number to eight digits', () => {
+      expect(getPayoutReference(42)).toBe('SHM PAYOUT 00000042')
+      expect(getPayoutReference(123456789)).toBe('SHM PAYOUT 123456789')
+    })
+  })
+})
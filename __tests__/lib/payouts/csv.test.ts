@@ -0,0 +1,45 @@
+/**
+ * Tests for Payout CSV Export
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { escapeCsvField, toPayoutCsv } from '@/lib/payouts/csv'
+
+describe('Payout CSV Export', () => {
+  it('renders a header and one row per payout', () => {
+    const csv = toPayoutCsv([
+      {
+        accountHolder: 'Thandi Seller',
+        bankName: 'FNB',
+        branchCode: '250655',
+        accountNumber: '62000000001',
+        accountType: 'CHEQUE',
+        amount: 1520,
+        reference: 'SHM PAYOUT 00000042',
+      },
+    ])
+
+    expect(csv).toBe(
+      'Account Holder,Bank,Branch Code,Account Number,Account Type,Amount,Reference\r\n' +
+        'Thandi Seller,FNB,250655,62000000001,CHEQUE,1520.00,SHM PAYOUT 00000042\r\n'
+    )
+  })
+
+  it('renders only the header for an empty batch', () => {
+    expect(toPayoutCsv([])).toBe(
+      'Account Holder,Bank,Branch Code,Account Number,Account Type,Amount,Reference\r\n'
+    )
+  })
+
+  describe('escapeCsvField', () => {
+    it('leaves plain values alone', () => {
+      expect(escapeCsvField('Standard Bank')).toBe('Standard Bank')
+    })
+
+    it('quotes values with commas, quotes or line breaks', () => {
+      expect(escapeCsvField('Smith, J')).toBe('"Smith, J"')
+      expect(escapeCsvField('J "Jay" Smith')).toBe('"J ""Jay"" Smith"')
+      expect(escapeCsvField('Line\nbreak')).toBe('"Line\nbreak"')
+    })
+  })
+})
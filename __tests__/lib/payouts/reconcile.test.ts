@@ -0,0 +1,57 @@
+/**
+ * Tests for Ledger Reconciliation
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+import { findLedgerDiscrepancies } from '@/lib/payouts/reconcile'
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+describe('Ledger Reconciliation', () => {
+  it('accepts settled transactions whose entries sum to netAmount', () => {
+    const discrepancies = findLedgerDiscrepancies(
+      [
+        { id: 'completed', status: 'COMPLETED', netAmount: 800 },
+        { id: 'partial', status: 'COMPLETED', netAmount: 600 },
+        { id: 'refunded', status: 'REFUNDED', netAmount: 0 },
+      ],
+      new Map([
+        ['completed', 800],
+        ['partial', 800 - 200],
+        ['refunded', 800 - 800],
+      ])
+    )
+
+    expect(discrepancies).toEqual([])
+  })
+
+  it('flags a completed transaction without a credit', () => {
+    const discrepancies = findLedgerDiscrepancies(
+      [{ id: 'completed', status: 'COMPLETED', netAmount: 800 }],
+      new Map()
+    )
+
+    expect(discrepancies).toEqual([
+      { transactionId: 'completed', status: 'COMPLETED', expected: 800, recorded: 0 },
+    ])
+  })
+
+  it('flags entries on a transaction that has not settled', () => {
+    const discrepancies = findLedgerDiscrepancies(
+      [{ id: 'held', status: 'AWAITING_CONFIRMATION', netAmount: 800 }],
+      new Map([['held', 800]])
+    )
+
+    expect(discrepancies).toHaveLength(1)
+    expect(discrepancies[0].expected).toBe(0)
+  })
+
+  it('ignores floating point noise below a cent', () => {
+    const discrepancies = findLedgerDiscrepancies(
+      [{ id: 'completed', status: 'COMPLETED', netAmount: 0.3 }],
+      new Map([['completed', 0.1 + 0.2]])
+    )
+
+    expect(discrepancies).toEqual([])
+  })
+})
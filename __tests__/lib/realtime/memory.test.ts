@@ -0,0 +1,85 @@
+/**
+ * Tests for the In-Process Realtime Publisher
+ *
+ * Covers:
+ * - Delivering events only to the users they are published to
+ * - Replaying buffered events after a Last-Event-ID
+ * - Unsubscribing and the bounded replay buffer
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+import type { RealtimeEvent } from '@/lib/realtime/events'
+import { createMemoryPublisher } from '@/lib/realtime/memory'
+import { formatSseEvent } from '@/lib/realtime/sse'
+
+const message = (messageId: string) =>
+  ({ type: 'message.created', data: { conversationId: 'c1', messageId } }) as const
+
+describe('Memory Realtime Publisher', () => {
+  it('delivers events to subscribed recipients only', async () => {
+    const publisher = createMemoryPublisher({ startId: 100 })
+    const buyer = jest.fn<(event: RealtimeEvent) => void>()
+    const stranger = jest.fn<(event: RealtimeEvent) => void>()
+    publisher.subscribe('buyer', buyer)
+    publisher.subscribe('stranger', stranger)
+
+    await publisher.publish(['buyer', 'buyer'], message('m1'))
+
+    expect(buyer).toHaveBeenCalledTimes(1)
+    expect(buyer).toHaveBeenCalledWith({ id: '101', ...message('m1') })
+    expect(stranger).not.toHaveBeenCalled()
+  })
+
+  it('replays the user\'s events published after the last event ID', async () => {
+    const publisher = createMemoryPublisher({ startId: 100 })
+    await publisher.publish(['buyer'], message('m1'))
+    await publisher.publish(['seller'], message('m2'))
+    await publisher.publish(['buyer'], message('m3'))
+
+    const replayed: string[] = []
+    publisher.subscribe('buyer', (event) => replayed.push(event.id), { lastEventId: '101' })
+    expect(replayed).toEqual(['103'])
+
+    // No ID means a fresh connection: nothing to catch up on
+    const fresh: string[] = []
+    publisher.subscribe('buyer', (event) => fresh.push(event.id))
+    expect(fresh).toEqual([])
+  })
+
+  it('stops delivering after unsubscribe and forgets old events', async () => {
+    const publisher = createMemoryPublisher({ startId: 100, bufferSize: 2 })
+    const listener = jest.fn<(event: RealtimeEvent) => void>()
+    const unsubscribe = publisher.subscribe('buyer', listener)
+    unsubscribe()
+
+    await publisher.publish(['buyer'], message('m1'))
+    await publisher.publish(['buyer'], message('m2'))
+    await publisher.publish(['buyer'], message('m3'))
+    expect(listener).not.toHaveBeenCalled()
+
+    const replayed: string[] = []
+    publisher.subscribe('buyer', (event) => replayed.push(event.id), { lastEventId: '0' })
+    expect(replayed).toEqual(['102', '103'])
+  })
+
+  it('keeps delivering when one listener throws', async () => {
+    const publisher = createMemoryPublisher()
+    const healthy = jest.fn<(event: RealtimeEvent) => void>()
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {})
+    publisher.subscribe('buyer', () => {
+      throw new Error('stream closed')
+    })
+    publisher.subscribe('buyer', healthy)
+
+    await publisher.publish(['buyer'], message('m1'))
+
+    expect(healthy).toHaveBeenCalledTimes(1)
+    consoleError.mockRestore()
+  })
+
+  it('frames events for the event stream', () => {
+    expect(formatSseEvent({ id: '7', ...message('m1') })).toBe(
+      'id: 7\nevent: message.created\ndata: {"conversationId":"c1","messageId":"m1"}\n\n'
+    )
+  })
+})
@@ -0,0 +1,34 @@
+/**
+ * Tests for the Rating Breakdown
+ *
+ * Covers:
+ * - One row per star, highest first
+ * - Percentages of the total
+ * - Users without reviews
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { buildRatingBreakdown } from '@/lib/reviews/breakdown'
+
+describe('Rating Breakdown', () => {
+  it('returns a row for every star, highest first', () => {
+    const rows = buildRatingBreakdown([{ rating: 4, count: 1 }])
+
+    expect(rows.map((row) => row.rating)).toEqual([5, 4, 3, 2, 1])
+    expect(rows.map((row) => row.count)).toEqual([0, 1, 0, 0, 0])
+  })
+
+  it('gives each star its share of the reviews', () => {
+    const rows = buildRatingBreakdown([
+      { rating: 5, count: 6 },
+      { rating: 3, count: 3 },
+      { rating: 1, count: 1 },
+    ])
+
+    expect(rows.map((row) => row.percent)).toEqual([60, 0, 30, 0, 10])
+  })
+
+  it('returns zeroes when there are no reviews', () => {
+    expect(buildRatingBreakdown([]).every((row) => row.count === 0 && row.percent === 0)).toBe(true)
+  })
+})
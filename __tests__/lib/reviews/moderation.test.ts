@@ -0,0 +1,134 @@
+/**
+ * Tests for Review Moderation
+ *
+ * Covers:
+ * - Which actions apply to each review status
+ * - Hiding, restoring and removing reviews and recomputing the aggregate
+ * - Resolving open reports with every decision
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+import type { Prisma, ReviewStatus } from '@prisma/client'
+import { getModeratedStatus, moderateReview } from '@/lib/reviews/moderation'
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+const now = new Date('2025-11-06T10:00:00Z')
+
+// One reviewee with a 5 star review under moderation and a visible 3 star review
+const fakeDatabase = (status: ReviewStatus = 'VISIBLE') => {
+  const reviews = [
+    { id: 'r1', revieweeId: 'seller', rating: 5, status },
+    { id: 'r2', revieweeId: 'seller', rating: 3, status: 'VISIBLE' as ReviewStatus },
+  ]
+  const reports = [
+    { reviewId: 'r1', resolvedAt: null as Date | null },
+    { reviewId: 'r1', resolvedAt: null as Date | null },
+  ]
+  const users = new Map<string, { rating: number; reviewCount: number }>()
+
+  const tx = {
+    $queryRaw: jest.fn(async () => []),
+    review: {
+      findUnique: jest.fn(async ({ where }: { where: { id: string } }) => {
+        const review = reviews.find((row) => row.id === where.id)
+        return review ? { ...review } : null
+      }),
+      updateMany: jest.fn(
+        async ({ where, data }: { where: { id: string; status: ReviewStatus }; data: { status: ReviewStatus } }) => {
+          const review = reviews.find((row) => row.id === where.id && row.status === where.status)
+          if (!review) return { count: 0 }
+          review.status = data.status
+          return { count: 1 }
+        }
+      ),
+      aggregate: jest.fn(async ({ where }: { where: { revieweeId: string; status: ReviewStatus } }) => {
+        const ratings = reviews
+          .filter((review) => review.revieweeId === where.revieweeId && review.status === where.status)
+          .map((review) => review.rating)
+        return {
+          _avg: { rating: ratings.length ? ratings.reduce((a, b) => a + b, 0) / ratings.length : null },
+          _count: { _all: ratings.length },
+        }
+      }),
+    },
+    reviewReport: {
+      updateMany: jest.fn(async ({ where, data }: { where: { reviewId: string }; data: { resolvedAt: Date } }) => {
+        const open = reports.filter((report) => report.reviewId === where.reviewId && !report.resolvedAt)
+        open.forEach((report) => (report.resolvedAt = data.resolvedAt))
+        return { count: open.length }
+      }),
+    },
+    user: {
+      update: jest.fn(async ({ where, data }: { where: { id: string }; data: { rating: number; reviewCount: number } }) => {
+        users.set(where.id, data)
+        return data
+      }),
+    },
+  }
+
+  return { reviews, reports, users, tx: tx as unknown as Prisma.TransactionClient }
+}
+
+describe('Review Moderation', () => {
+  describe('getModeratedStatus', () => {
+    it('hides visible reviews and restores hidden ones', () => {
+      expect(getModeratedStatus('VISIBLE', 'HIDE')).toBe('HIDDEN')
+      expect(getModeratedStatus('HIDDEN', 'HIDE')).toBeNull()
+      expect(getModeratedStatus('HIDDEN', 'RESTORE')).toBe('VISIBLE')
+      expect(getModeratedStatus('VISIBLE', 'RESTORE')).toBeNull()
+    })
+
+    it('treats removal as final', () => {
+      expect(getModeratedStatus('VISIBLE', 'REMOVE')).toBe('REMOVED')
+      expect(getModeratedStatus('HIDDEN', 'REMOVE')).toBe('REMOVED')
+      expect(getModeratedStatus('REMOVED', 'RESTORE')).toBeNull()
+      expect(getModeratedStatus('REMOVED', 'DISMISS')).toBeNull()
+    })
+
+    it('leaves the status alone when dismissing reports', () => {
+      expect(getModeratedStatus('VISIBLE', 'DISMISS')).toBe('VISIBLE')
+      expect(getModeratedStatus('HIDDEN', 'DISMISS')).toBe('HIDDEN')
+    })
+  })
+
+  describe('moderateReview', () => {
+    it('hides a review, drops it from the aggregate and resolves its reports', async () => {
+      const { tx, users, reports } = fakeDatabase()
+
+      const result = await moderateReview(tx, { reviewId: 'r1', action: 'HIDE', moderatorId: 'admin' }, now)
+
+      expect(result).toEqual({ previousStatus: 'VISIBLE', status: 'HIDDEN', resolvedReports: 2 })
+      expect(users.get('seller')).toEqual({ rating: 3, reviewCount: 1 })
+      expect(reports.every((report) => report.resolvedAt === now)).toBe(true)
+    })
+
+    it('restores a hidden review to the aggregate', async () => {
+      const { tx, users } = fakeDatabase('HIDDEN')
+
+      await moderateReview(tx, { reviewId: 'r1', action: 'RESTORE', moderatorId: 'admin' }, now)
+
+      expect(users.get('seller')).toEqual({ rating: 4, reviewCount: 2 })
+    })
+
+    it('dismisses reports without touching the review or the aggregate', async () => {
+      const { tx, users, reviews } = fakeDatabase()
+
+      const result = await moderateReview(tx, { reviewId: 'r1', action: 'DISMISS', moderatorId: 'admin' }, now)
+
+      expect(result).toEqual({ previousStatus: 'VISIBLE', status: 'VISIBLE', resolvedReports: 2 })
+      expect(reviews[0].status).toBe('VISIBLE')
+      expect(users.size).toBe(0)
+    })
+
+    it('rejects actions that do not apply and unknown reviews', async () => {
+      expect(
+        await moderateReview(fakeDatabase('REMOVED').tx, { reviewId: 'r1', action: 'RESTORE', moderatorId: 'admin' }, now)
+      ).toEqual({ error: 'This action does not apply to the review in its current state' })
+
+      expect(
+        await moderateReview(fakeDatabase().tx, { reviewId: 'missing', action: 'HIDE', moderatorId: 'admin' }, now)
+      ).toEqual({ error: 'Review not found' })
+    })
+  })
+})
@@ -0,0 +1,48 @@
+/**
+ * Tests for Review Policy
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import {
+  canEditReview,
+  canWriteReview,
+  getReviewDeadline,
+  getRevieweeId,
+  REVIEW_EDIT_GRACE_HOURS,
+  REVIEW_WINDOW_DAYS,
+} from '@/lib/reviews/policy'
+
+const HOUR_MS = 60 * 60 * 1000
+const completedAt = new Date('2025-11-01T10:00:00Z')
+
+describe('Review Policy', () => {
+  it('opens reviews once a transaction completes, until the window closes', () => {
+    const deadline = getReviewDeadline(completedAt)
+    expect(deadline.getTime() - completedAt.getTime()).toBe(REVIEW_WINDOW_DAYS * 24 * HOUR_MS)
+
+    expect(canWriteReview({ status: 'COMPLETED', completedAt }, completedAt)).toBe(true)
+    expect(canWriteReview({ status: 'COMPLETED', completedAt }, deadline)).toBe(true)
+    expect(canWriteReview({ status: 'COMPLETED', completedAt }, new Date(deadline.getTime() + 1))).toBe(false)
+  })
+
+  it('does not open reviews before completion or after a refund', () => {
+    expect(canWriteReview({ status: 'AWAITING_CONFIRMATION', completedAt: null }, completedAt)).toBe(false)
+    expect(canWriteReview({ status: 'REFUNDED', completedAt }, completedAt)).toBe(false)
+  })
+
+  it('locks reviews after the grace period', () => {
+    const createdAt = new Date('2025-11-02T10:00:00Z')
+    const graceEnd = new Date(createdAt.getTime() + REVIEW_EDIT_GRACE_HOURS * HOUR_MS)
+
+    expect(canEditReview({ createdAt }, graceEnd)).toBe(true)
+    expect(canEditReview({ createdAt }, new Date(graceEnd.getTime() + 1))).toBe(false)
+  })
+
+  it('has each party review the other', () => {
+    const transaction = { buyerId: 'buyer', sellerId: 'seller' }
+
+    expect(getRevieweeId(transaction, 'buyer')).toBe('seller')
+    expect(getRevieweeId(transaction, 'seller')).toBe('buyer')
+    expect(getRevieweeId(transaction, 'someone-else')).toBeNull()
+  })
+})
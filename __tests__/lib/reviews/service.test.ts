@@ -0,0 +1,223 @@
+/**
+ * Tests for the Review Service
+ *
+ * Covers:
+ * - Creating reviews and recomputing the reviewee's aggregate
+ * - One review per reviewer per transaction
+ * - Editing within the grace period only
+ * - One reply per review, from the reviewee
+ * - Reporting other people's visible reviews once
+ */
+
+import { describe, it, expect, jest } from '@jest/globals'
+import type { Prisma, ReviewStatus, TransactionStatus } from '@prisma/client'
+import { createReview, editReview, replyToReview, reportReview } from '@/lib/reviews/service'
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+type ReviewRow = {
+  id: string
+  transactionId: string
+  reviewerId: string
+  revieweeId: string
+  rating: number
+  comment: string | null
+  status: ReviewStatus
+  reply: string | null
+  createdAt: Date
+}
+
+const completedAt = new Date('2025-11-01T10:00:00Z')
+const now = new Date('2025-11-02T10:00:00Z')
+
+// A transaction between "buyer" and "seller" in the given status, completed a
+// day before `now`. Reviews and reports are kept in lists; user.update records
+// each recomputed rating so tests can read the reviewee's latest one
+const fakeDatabase = (status: TransactionStatus = 'COMPLETED') => {
+  const reviews: ReviewRow[] = []
+  const users = new Map<string, { rating: number; reviewCount: number }>()
+  const reports: { reviewId: string; reporterId: string }[] = []
+
+  const tx = {
+    $queryRaw: jest.fn(async () => []),
+    transaction: {
+      findUnique: jest.fn(async () => ({ buyerId: 'buyer', sellerId: 'seller', status, completedAt })),
+    },
+    review: {
+      findUnique: jest.fn(
+        async ({
+          where,
+        }: {
+          where: { id?: string; transactionId_reviewerId?: { transactionId: string; reviewerId: string } }
+        }) =>
+          reviews.find((review) =>
+            where.id
+              ? review.id === where.id
+              : review.transactionId === where.transactionId_reviewerId!.transactionId &&
+                review.reviewerId === where.transactionId_reviewerId!.reviewerId
+          ) ?? null
+      ),
+      findFirst: jest.fn(
+        async ({ where }: { where: { id: string; reviewerId: string } }) =>
+          reviews.find((review) => review.id === where.id && review.reviewerId === where.reviewerId) ?? null
+      ),
+      create: jest.fn(async ({ data }: { data: Omit<ReviewRow, 'id' | 'createdAt'> }) => {
+        const review = { ...data, id: `review-${reviews.length + 1}`, status: 'VISIBLE' as const, reply: null, createdAt: now }
+        reviews.push(review)
+        return review
+      }),
+      update: jest.fn(async ({ where, data }: { where: { id: string }; data: Partial<ReviewRow> }) => {
+        const review = reviews.find((row) => row.id === where.id)!
+        Object.assign(review, data)
+        return review
+      }),
+      updateMany: jest.fn(
+        async ({ where, data }: { where: Partial<ReviewRow>; data: Partial<ReviewRow> }) => {
+          const matches = reviews.filter((review) =>
+            Object.entries(where).every(([key, value]) => review[key as keyof ReviewRow] === value)
+          )
+          matches.forEach((review) => Object.assign(review, data))
+          return { count: matches.length }
+        }
+      ),
+      aggregate: jest.fn(async ({ where }: { where: { revieweeId: string; status: ReviewStatus } }) => {
+        const ratings = reviews
+          .filter((review) => review.revieweeId === where.revieweeId && review.status === where.status)
+          .map((review) => review.rating)
+        return {
+          _avg: { rating: ratings.length ? ratings.reduce((a, b) => a + b, 0) / ratings.length : null },
+          _count: { _all: ratings.length },
+        }
+      }),
+    },
+    reviewReport: {
+      findUnique: jest.fn(
+        async ({ where }: { where: { reviewId_reporterId: { reviewId: string; reporterId: string } } }) =>
+          reports.find(
+            (report) =>
+              report.reviewId === where.reviewId_reporterId.reviewId &&
+              report.reporterId === where.reviewId_reporterId.reporterId
+          ) ?? null
+      ),
+      create: jest.fn(async ({ data }: { data: { reviewId: string; reporterId: string } }) => {
+        reports.push(data)
+        return { ...data, id: `report-${reports.length}` }
+      }),
+    },
+    user: {
+      update: jest.fn(async ({ where, data }: { where: { id: string }; data: { rating: number; reviewCount: number } }) => {
+        users.set(where.id, data)
+        return data
+      }),
+    },
+  }
+
+  return { reviews, users, tx: tx as unknown as Prisma.TransactionClient }
+}
+
+describe('Review Service', () => {
+  it('reviews the other party and recomputes their rating', async () => {
+    const { tx, users } = fakeDatabase()
+
+    const result = await createReview(tx, { transactionId: 't1', reviewerId: 'buyer', rating: 4 }, now)
+
+    expect('review' in result && result.review.revieweeId).toBe('seller')
+    expect(users.get('seller')).toEqual({ rating: 4, reviewCount: 1 })
+  })
+
+  it('lets the seller review the buyer too', async () => {
+    const { tx, users } = fakeDatabase()
+
+    await createReview(tx, { transactionId: 't1', reviewerId: 'buyer', rating: 5 }, now)
+    await createReview(tx, { transactionId: 't1', reviewerId: 'seller', rating: 3, comment: 'Slow to pay' }, now)
+
+    expect(users.get('seller')).toEqual({ rating: 5, reviewCount: 1 })
+    expect(users.get('buyer')).toEqual({ rating: 3, reviewCount: 1 })
+  })
+
+  it('rejects a second review from the same party', async () => {
+    const { tx } = fakeDatabase()
+
+    await createReview(tx, { transactionId: 't1', reviewerId: 'buyer', rating: 5 }, now)
+    const result = await createReview(tx, { transactionId: 't1', reviewerId: 'buyer', rating: 1 }, now)
+
+    expect(result).toEqual({ error: 'You have already reviewed this order' })
+  })
+
+  it('rejects reviews from outsiders and on incomplete transactions', async () => {
+    expect(
+      await createReview(fakeDatabase().tx, { transactionId: 't1', reviewerId: 'stranger', rating: 5 }, now)
+    ).toEqual({ error: 'Order not found' })
+
+    const result = await createReview(
+      fakeDatabase('AWAITING_CONFIRMATION').tx,
+      { transactionId: 't1', reviewerId: 'buyer', rating: 5 },
+      now
+    )
+    expect('error' in result).toBe(true)
+  })
+
+  it('edits a review within the grace period and updates the aggregate', async () => {
+    const { tx, users } = fakeDatabase()
+
+    await createReview(tx, { transactionId: 't1', reviewerId: 'buyer', rating: 2 }, now)
+    const inGrace = new Date(now.getTime() + 60 * 60 * 1000)
+    const result = await editReview(tx, { reviewId: 'review-1', reviewerId: 'buyer', rating: 5, comment: 'Sorted out' }, inGrace)
+
+    expect('review' in result && result.review.comment).toBe('Sorted out')
+    expect(users.get('seller')).toEqual({ rating: 5, reviewCount: 1 })
+  })
+
+  it('locks reviews after the grace period', async () => {
+    const { tx } = fakeDatabase()
+
+    await createReview(tx, { transactionId: 't1', reviewerId: 'buyer', rating: 2 }, now)
+    const later = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000)
+
+    expect(await editReview(tx, { reviewId: 'review-1', reviewerId: 'buyer', rating: 5 }, later)).toEqual({
+      error: 'This review can no longer be edited',
+    })
+    expect(await editReview(tx, { reviewId: 'review-1', reviewerId: 'seller', rating: 5 }, now)).toEqual({
+      error: 'Review not found',
+    })
+  })
+
+  it('does not let a moderated review be edited', async () => {
+    const { tx, reviews } = fakeDatabase()
+
+    await createReview(tx, { transactionId: 't1', reviewerId: 'buyer', rating: 1 }, now)
+    reviews[0].status = 'HIDDEN'
+
+    expect(await editReview(tx, { reviewId: 'review-1', reviewerId: 'buyer', rating: 5 }, now)).toEqual({
+      error: 'This review can no longer be edited',
+    })
+  })
+
+  it('takes one reply from the reviewee', async () => {
+    const { tx, reviews } = fakeDatabase()
+
+    await createReview(tx, { transactionId: 't1', reviewerId: 'buyer', rating: 2 }, now)
+
+    expect(await replyToReview(tx, { reviewId: 'review-1', revieweeId: 'buyer', reply: 'Me?' }, now)).toBe(false)
+    expect(await replyToReview(tx, { reviewId: 'review-1', revieweeId: 'seller', reply: 'Sorry' }, now)).toBe(true)
+    expect(await replyToReview(tx, { reviewId: 'review-1', revieweeId: 'seller', reply: 'Again' }, now)).toBe(false)
+    expect(reviews[0].reply).toBe('Sorry')
+  })
+
+  it('reports other people\'s reviews once', async () => {
+    const { tx } = fakeDatabase()
+
+    await createReview(tx, { transactionId: 't1', reviewerId: 'buyer', rating: 1 }, now)
+
+    expect(await reportReview(tx, { reviewId: 'review-1', reporterId: 'buyer', reason: 'FAKE' })).toEqual({
+      error: 'You cannot report your own review',
+    })
+    expect('report' in (await reportReview(tx, { reviewId: 'review-1', reporterId: 'seller', reason: 'FAKE' }))).toBe(true)
+    expect(await reportReview(tx, { reviewId: 'review-1', reporterId: 'seller', reason: 'SPAM' })).toEqual({
+      error: 'You have already reported this review',
+    })
+    expect(await reportReview(tx, { reviewId: 'missing', reporterId: 'seller', reason: 'SPAM' })).toEqual({
+      error: 'Review not found',
+    })
+  })
+})
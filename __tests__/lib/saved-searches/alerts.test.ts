@@ -0,0 +1,198 @@
+/**
+ * Tests for Saved Search Alerts
+ *
+ * Covers:
+ * - Matching listings approved in the window, excluding the owner's own
+ * - Searching the query with full-text search, and filters alone with Prisma
+ * - Reading stored filters, and skipping ones that no longer parse
+ * - Claiming each search's window and notifying once with the match count
+ * - Handing back the window of a search that fails and carrying on
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals'
+import { Prisma, type PrismaClient } from '@prisma/client'
+import { notify } from '@/lib/notifications/service'
+import {
+  buildNewMatchesWhere,
+  parseSavedSearchFilters,
+  runSavedSearchAlerts,
+} from '@/lib/saved-searches/alerts'
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }))
+jest.mock('@/lib/notifications/service', () => ({ notify: jest.fn() }))
+
+const notifyMock = notify as jest.MockedFunction<typeof notify>
+
+const lastCheckedAt = new Date('2025-11-12T09:00:00Z')
+
+const SEARCH = {
+  id: 'search-1',
+  userId: 'user-1',
+  name: 'Bikes',
+  filters: { query: 'bike', category: 'SPORTS', maxPrice: 5000 },
+  lastCheckedAt,
+}
+
+// Client with one active search and `count` new matches, found by full-text
+// search ($queryRaw, one page of one) or by filters alone (count/findFirst)
+const fakeClient = (
+  options: { count?: number; claimed?: number; filters?: unknown; searches?: number } = {}
+) => {
+  const { count = 2, claimed = 1, filters = SEARCH.filters, searches = 1 } = options
+  const updateMany = jest.fn<(args: unknown) => Promise<{ count: number }>>(async () => ({
+    count: claimed,
+  }))
+  const countListings = jest.fn<(args: unknown) => Promise<number>>(async () => count)
+  const queryRaw = jest.fn(async () =>
+    count > 0 ? [{ id: 'listing-1', rank: 0.5, total: count }] : [{ id: null, rank: null, total: 0 }]
+  )
+  const client = {
+    $queryRaw: queryRaw,
+    savedSearch: {
+      findMany: jest.fn(async () =>
+        Array.from({ length: searches }, (_, index) => ({ ...SEARCH, id: `search-${index + 1}`, filters }))
+      ),
+      updateMany,
+    },
+    listing: {
+      count: countListings,
+      findFirst: jest.fn(async () => (count > 0 ? { title: 'Mountain bike' } : null)),
+      findUnique: jest.fn(async () => ({ title: 'Mountain bike' })),
+    },
+  }
+  return { client: client as unknown as PrismaClient, updateMany, countListings, queryRaw }
+}
+
+describe('Saved Search Alerts', () => {
+  const now = new Date('2025-11-12T10:00:00Z')
+
+  beforeEach(() => {
+    notifyMock.mockReset()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  describe('buildNewMatchesWhere', () => {
+    it('matches approved listings in the window from other sellers', () => {
+      const where = buildNewMatchesWhere(
+        { userId: 'user-1', filters: { category: 'SPORTS', minPrice: 100 } },
+        lastCheckedAt,
+        now
+      )
+
+      expect(where).toMatchObject({
+        status: 'APPROVED',
+        category: 'SPORTS',
+        price: { gte: new Prisma.Decimal(100) },
+        approvedAt: { gt: lastCheckedAt, lte: now },
+        sellerId: { not: 'user-1' },
+      })
+    })
+  })
+
+  describe('parseSavedSearchFilters', () => {
+    it('reads valid filters', () => {
+      expect(parseSavedSearchFilters({ query: 'bike', province: 'Gauteng' })).toEqual({
+        query: 'bike',
+        province: 'Gauteng',
+      })
+    })
+
+    it('returns null for filters that no longer parse', () => {
+      expect(parseSavedSearchFilters({ category: 'SPACESHIPS' })).toBeNull()
+      expect(parseSavedSearchFilters({ query: '?!' })).toBeNull()
+      expect(parseSavedSearchFilters({})).toBeNull()
+      expect(parseSavedSearchFilters(null)).toBeNull()
+    })
+  })
+
+  describe('runSavedSearchAlerts', () => {
+    it('claims the window and notifies once with the match count', async () => {
+      const { client, updateMany } = fakeClient()
+
+      const summary = await runSavedSearchAlerts({ now, client })
+
+      expect(updateMany).toHaveBeenCalledWith({
+        where: { id: 'search-1', lastCheckedAt },
+        data: { lastCheckedAt: now },
+      })
+      expect(notifyMock).toHaveBeenCalledTimes(1)
+      expect(notifyMock).toHaveBeenCalledWith('user-1', 'SAVED_SEARCH_MATCH', {
+        savedSearchId: 'search-1',
+        name: 'Bikes',
+        count: 2,
+        title: 'Mountain bike',
+        search: 'q=bike&category=SPORTS&maxPrice=5000',
+      })
+      expect(summary).toMatchObject({ checked: 1, alerted: 1, listings: 2 })
+    })
+
+    it('does not notify without new matches', async () => {
+      const { client } = fakeClient({ count: 0 })
+
+      const summary = await runSavedSearchAlerts({ now, client })
+
+      expect(notifyMock).not.toHaveBeenCalled()
+      expect(summary).toMatchObject({ checked: 1, alerted: 0, listings: 0 })
+    })
+
+    it('counts a query search with full-text search, filters included', async () => {
+      const { client, countListings, queryRaw } = fakeClient()
+
+      await runSavedSearchAlerts({ now, client })
+
+      expect(queryRaw).toHaveBeenCalledTimes(1)
+      expect(countListings).not.toHaveBeenCalled()
+    })
+
+    it('counts a search without a query with its filters alone', async () => {
+      const { client, countListings, queryRaw } = fakeClient({ filters: { category: 'SPORTS' } })
+
+      const summary = await runSavedSearchAlerts({ now, client })
+
+      expect(queryRaw).not.toHaveBeenCalled()
+      expect(countListings).toHaveBeenCalledTimes(1)
+      expect(summary).toMatchObject({ alerted: 1, listings: 2 })
+    })
+
+    it('hands back the window of a failing search and checks the rest', async () => {
+      const { client, updateMany, queryRaw } = fakeClient({ searches: 2 })
+      queryRaw.mockRejectedValueOnce(new Error('database down'))
+
+      const summary = await runSavedSearchAlerts({ now, client })
+
+      expect(updateMany).toHaveBeenCalledWith({
+        where: { id: 'search-1', lastCheckedAt: now },
+        data: { lastCheckedAt },
+      })
+      expect(console.error).toHaveBeenCalledWith('Saved search search-1 alert error:', expect.any(Error))
+      expect(notifyMock).toHaveBeenCalledTimes(1)
+      expect(notifyMock).toHaveBeenCalledWith(
+        'user-1',
+        'SAVED_SEARCH_MATCH',
+        expect.objectContaining({ savedSearchId: 'search-2' })
+      )
+      expect(summary).toMatchObject({ checked: 2, alerted: 1 })
+    })
+
+    it('skips a search another run already claimed', async () => {
+      const { client, queryRaw } = fakeClient({ claimed: 0 })
+
+      const summary = await runSavedSearchAlerts({ now, client })
+
+      expect(queryRaw).not.toHaveBeenCalled()
+      expect(notifyMock).not.toHaveBeenCalled()
+      expect(summary.checked).toBe(0)
+    })
+
+    it('skips a search whose filters no longer parse', async () => {
+      const { client, updateMany } = fakeClient({ filters: { category: 'SPACESHIPS' } })
+
+      const summary = await runSavedSearchAlerts({ now, client })
+
+      expect(updateMany).not.toHaveBeenCalled()
+      expect(notifyMock).not.toHaveBeenCalled()
+      expect(summary.checked).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,174 @@
+/**
+ * Tests for the Watchlist Service
+ *
+ * Covers:
+ * - Which listings can be watched, and watching one twice
+ * - Detecting price drops on fixed-price listings
+ * - Notifying watchers in batches, leaving out the buyer of a sold listing
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals'
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { notify } from '@/lib/notifications/service'
+import {
+  addToWatchlist,
+  getPriceDrop,
+  notifyWatchers,
+  notifyWatchersOfSale,
+} from '@/lib/watchlist/service'
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    watchlistItem: { findMany: jest.fn() },
+    transaction: { findUnique: jest.fn() },
+  },
+}))
+jest.mock('@/lib/notifications/service', () => ({ notify: jest.fn() }))
+
+const notifyMock = notify as jest.MockedFunction<typeof notify>
+const findWatchers = prisma.watchlistItem.findMany as unknown as jest.Mock<
+  (args: Prisma.WatchlistItemFindManyArgs) => Promise<{ userId: string }[]>
+>
+const findTransaction = prisma.transaction.findUnique as unknown as jest.Mock<
+  (args: unknown) => Promise<unknown>
+>
+
+// Transaction client holding one listing; createMany reports whether the row was new
+const fakeTx = (listing: { sellerId: string; status: string } | null, isNew = true) => {
+  const createMany = jest.fn<(args: unknown) => Promise<{ count: number }>>(async () => ({
+    count: isNew ? 1 : 0,
+  }))
+  const tx = {
+    listing: { findUnique: jest.fn(async () => listing) },
+    watchlistItem: { createMany },
+  }
+  return { tx: tx as unknown as Prisma.TransactionClient, createMany }
+}
+
+describe('Watchlist Service', () => {
+  beforeEach(() => {
+    notifyMock.mockReset()
+    findWatchers.mockReset()
+    findTransaction.mockReset()
+  })
+
+  describe('addToWatchlist', () => {
+    it('watches an approved listing from another seller', async () => {
+      const { tx, createMany } = fakeTx({ sellerId: 'seller-1', status: 'APPROVED' })
+
+      const result = await addToWatchlist(tx, 'user-1', 'listing-1')
+
+      expect(result).toEqual({ added: true })
+      expect(createMany).toHaveBeenCalledWith({
+        data: [{ userId: 'user-1', listingId: 'listing-1' }],
+        skipDuplicates: true,
+      })
+    })
+
+    it('allows paused listings and reports an existing watch', async () => {
+      const { tx } = fakeTx({ sellerId: 'seller-1', status: 'PAUSED' }, false)
+
+      expect(await addToWatchlist(tx, 'user-1', 'listing-1')).toEqual({ added: false })
+    })
+
+    it('refuses the seller and unavailable listings', async () => {
+      const own = fakeTx({ sellerId: 'user-1', status: 'APPROVED' })
+      const sold = fakeTx({ sellerId: 'seller-1', status: 'SOLD' })
+      const missing = fakeTx(null)
+
+      expect(await addToWatchlist(own.tx, 'user-1', 'listing-1')).toEqual({
+        error: 'You cannot watch your own listing',
+      })
+      expect(await addToWatchlist(sold.tx, 'user-1', 'listing-1')).toEqual({
+        error: 'This listing is not available',
+      })
+      expect(await addToWatchlist(missing.tx, 'user-1', 'listing-1')).toEqual({
+        error: 'This listing is not available',
+      })
+      expect(own.createMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getPriceDrop', () => {
+    it('reports a lower fixed price', () => {
+      expect(
+        getPriceDrop({ pricingType: 'FIXED', price: 6500 }, { pricingType: 'FIXED', price: 5800 })
+      ).toEqual({ oldPrice: 6500, newPrice: 5800 })
+    })
+
+    it('ignores raises, unchanged prices and offers pricing', () => {
+      expect(
+        getPriceDrop({ pricingType: 'FIXED', price: 500 }, { pricingType: 'FIXED', price: 600 })
+      ).toBeNull()
+      expect(
+        getPriceDrop({ pricingType: 'FIXED', price: 500 }, { pricingType: 'FIXED', price: 500 })
+      ).toBeNull()
+      expect(
+        getPriceDrop({ pricingType: 'FIXED', price: 500 }, { pricingType: 'OFFERS', price: 400 })
+      ).toBeNull()
+      expect(
+        getPriceDrop({ pricingType: 'OFFERS', price: null }, { pricingType: 'FIXED', price: 400 })
+      ).toBeNull()
+    })
+  })
+
+  describe('notifyWatchers', () => {
+    it('notifies every watcher', async () => {
+      findWatchers.mockResolvedValue([{ userId: 'user-1' }, { userId: 'user-2' }])
+      const payload = { listingId: 'listing-1', title: 'Road bike', oldPrice: 6500, newPrice: 5800 }
+
+      await notifyWatchers('listing-1', 'WATCHED_PRICE_DROP', payload)
+
+      expect(notifyMock).toHaveBeenCalledTimes(2)
+      expect(notifyMock).toHaveBeenCalledWith('user-1', 'WATCHED_PRICE_DROP', payload)
+      expect(notifyMock).toHaveBeenCalledWith('user-2', 'WATCHED_PRICE_DROP', payload)
+    })
+
+    it('notifies watchers in batches rather than one after another', async () => {
+      findWatchers.mockResolvedValue(Array.from({ length: 25 }, (_, i) => ({ userId: `user-${i}` })))
+      let inFlight = 0
+      let mostInFlight = 0
+      notifyMock.mockImplementation(async () => {
+        inFlight++
+        mostInFlight = Math.max(mostInFlight, inFlight)
+        await new Promise((resolve) => setTimeout(resolve, 1))
+        inFlight--
+      })
+
+      await notifyWatchers('listing-1', 'WATCHED_LISTING_PAUSED', { listingId: 'listing-1', title: 'Road bike' })
+
+      expect(notifyMock).toHaveBeenCalledTimes(25)
+      expect(mostInFlight).toBe(10)
+    })
+
+    it('leaves the buyer out when a listing sells', async () => {
+      findTransaction.mockResolvedValue({
+        buyerId: 'buyer-1',
+        listing: { id: 'listing-1', title: 'Road bike' },
+      })
+      findWatchers.mockResolvedValue([{ userId: 'user-2' }])
+
+      await notifyWatchersOfSale('transaction-1')
+
+      expect(findWatchers).toHaveBeenCalledWith({
+        where: { listingId: 'listing-1', userId: { not: 'buyer-1' } },
+        select: { userId: true },
+      })
+      expect(notifyMock).toHaveBeenCalledWith('user-2', 'WATCHED_LISTING_SOLD', {
+        listingId: 'listing-1',
+        title: 'Road bike',
+      })
+    })
+
+    it('logs failures instead of throwing', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      findWatchers.mockRejectedValue(new Error('database down'))
+
+      await expect(
+        notifyWatchers('listing-1', 'WATCHED_LISTING_PAUSED', { listingId: 'listing-1', title: 'Road bike' })
+      ).resolves.toBeUndefined()
+      expect(console.error).toHaveBeenCalledWith('Watchlist notification error:', expect.any(Error))
+    })
+  })
+})
@@ -0,0 +1,145 @@
+import Link from 'next/link'
+import Image from 'next/image'
+import { notFound } from 'next/navigation'
+import type { ListingStatus } from '@prisma/client'
+import { ArrowLeft, ShieldAlert } from 'lucide-react'
+import { requireAuth } from '@/lib/auth-helpers'
+import { prisma } from '@/lib/prisma'
+import { createAuditLog } from '@/lib/audit-log'
+import { getConversation } from '@/lib/prisma-queries'
+import { getConversationRole, isMessageVisibleTo, isParticipant } from '@/lib/messaging/access'
+import { markConversationRead } from '@/lib/messaging/service'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader } from '@/components/ui/card'
+import { MessageComposer } from '@/components/messages/message-composer'
+import { MessageThread } from '@/components/messages/message-thread'
+import { RealtimeRefresh } from '@/components/realtime/realtime-refresh'
+import { formatZAR } from '@/lib/constants/categories'
+import { getSquareUrl } from '@/lib/cloudinary-utils'
+
+export const metadata = {
+  title: 'Conversation',
+}
+
+type PageProps = {
+  params: Promise<{ id: string }>
+}
+
+const LISTING_STATUS_NOTES: Partial<Record<ListingStatus, string>> = {
+  SOLD: 'Sold',
+  PAUSED: 'Paused',
+}
+
+export default async function ConversationPage({ params }: PageProps) {
+  const session = await requireAuth()
+  const { id } = await params
+
+  const conversation = await getConversation(id)
+  if (!conversation) {
+    notFound()
+  }
+
+  // Outsiders get the same 404 as a missing thread
+  const role = getConversationRole(conversation, session.user)
+  if (!role) {
+    notFound()
+  }
+
+  if (isParticipant(role)) {
+    await markConversationRead(prisma, conversation.id, session.user.id, new Date())
+  } else {
+    await createAuditLog({
+      userId: session.user.id,
+      action: 'VIEW_CONVERSATION',
+      targetType: 'CONVERSATION',
+      targetId: conversation.id,
+      details: { listingId: conversation.listing.id },
+    })
+  }
+
+  const { listing, buyer, seller } = conversation
+  const messages = conversation.messages.filter((message) =>
+    isMessageVisibleTo(message, session.user.id, role)
+  )
+  const counterparty = role === 'BUYER' ? seller : buyer
+  const statusNote = LISTING_STATUS_NOTES[listing.status]
+
+  return (
+    <div className="container max-w-3xl mx-auto py-8 px-4 space-y-4">
+      <RealtimeRefresh types={['message.created']} match={{ conversationId: conversation.id }} />
+
+      <Button asChild variant="ghost" size="sm">
+        <Link href="/account/messages">
+          <ArrowLeft className="w-4 h-4 mr-2" aria-hidden="true" />
+          All messages
+        </Link>
+      </Button>
+
+      <Card>
+        {/* Listing context */}
+        <CardHeader className="border-b">
+          <div className="flex items-center gap-4">
+            <div className="relative w-14 h-14 flex-shrink-0 rounded-lg overflow-hidden bg-muted">
+              <Image
+                src={getSquareUrl(listing.primaryImage)}
+                alt={listing.title}
+                fill
+                className="object-cover"
+                sizes="56px"
+              />
+            </div>
+            <div className="flex-1 min-w-0 space-y-0.5">
+              <Link href={`/listings/${listing.id}`} className="font-semibold line-clamp-1 hover:underline">
+                {listing.title}
+              </Link>
+              <p className="text-sm text-muted-foreground">
+                {listing.price ? formatZAR(listing.price.toNumber()) : 'Offers accepted'}
+                {statusNote && (
+                  <Badge variant="secondary" className="ml-2">
+                    {statusNote}
+                  </Badge>
+                )}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {role === 'ADMIN' ? (
+                  <>
+                    Buyer {buyer.name} · Seller {seller.name}
+                  </>
+                ) : (
+                  <>
+                    With{' '}
+                    <Link href={`/users/${counterparty.id}`} className="hover:underline">
+                      {counterparty.name}
+                    </Link>
+                  </>
+                )}
+              </p>
+            </div>
+          </div>
+        </CardHeader>
+
+        <CardContent className="pt-6 space-y-6">
+          {role === 'ADMIN' && (
+            <Alert>
+              <ShieldAlert className="h-4 w-4" aria-hidden="true" />
+              <AlertDescription>
+                You are viewing this conversation as an admin. This visit is recorded in the audit log.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <MessageThread
+            messages={messages}
+            viewerId={role === 'ADMIN' ? buyer.id : session.user.id}
+            names={{ [buyer.id]: buyer.name, [seller.id]: seller.name }}
+            showScanDetails={role === 'ADMIN'}
+          />
+
+          {isParticipant(role) && <MessageComposer conversationId={conversation.id} />}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+import Link from 'next/link'
+import Image from 'next/image'
+import { MessageCircle } from 'lucide-react'
+import { requireAuth } from '@/lib/auth-helpers'
+import { getConversationsForUser } from '@/lib/prisma-queries'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { RealtimeRefresh } from '@/components/realtime/realtime-refresh'
+import { formatRelativeDate } from '@/lib/helpers/listing-helpers'
+import { cn } from '@/lib/utils'
+import { getSquareUrl } from '@/lib/cloudinary-utils'
+
+export const metadata = {
+  title: 'Messages',
+  description: 'Your conversations with buyers and sellers',
+}
+
+export default async function MessagesPage() {
+  const session = await requireAuth()
+  const userId = session.user.id
+
+  const conversations = await getConversationsForUser(userId)
+
+  return (
+    <div className="container max-w-4xl mx-auto py-8 px-4 space-y-6">
+      <RealtimeRefresh types={['message.created']} />
+
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Messages</h1>
+        <p className="text-muted-foreground">
+          Keep conversations on LOTOSALE so your purchases stay covered by buyer protection
+        </p>
+      </div>
+
+      {conversations.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center text-center gap-3 py-12">
+            <MessageCircle className="w-12 h-12 text-muted-foreground" aria-hidden="true" />
+            <p className="text-muted-foreground">
+              No messages yet. Contact a seller from any listing to ask a question.
+            </p>
+            <Button asChild variant="outline">
+              <Link href="/listings">Browse listings</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="divide-y p-0">
+            {conversations.map((conversation) => {
+              const isBuyer = conversation.buyerId === userId
+              const counterparty = isBuyer ? conversation.seller : conversation.buyer
+              const lastMessage = conversation.messages[0]
+              const unread = conversation.unreadCount > 0
+
+              return (
+                <Link
+                  key={conversation.id}
+                  href={`/account/messages/${conversation.id}`}
+                  className="flex items-center gap-4 p-4 hover:bg-muted/50 transition-colors"
+                >
+                  <div className="relative w-14 h-14 flex-shrink-0 rounded-lg overflow-hidden bg-muted">
+                    <Image
+                      src={getSquareUrl(conversation.listing.primaryImage)}
+                      alt={conversation.listing.title}
+                      fill
+                      className="object-cover"
+                      sizes="56px"
+                    />
+                  </div>
+                  <div className="flex-1 min-w-0 space-y-0.5">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className={cn('truncate', unread ? 'font-semibold' : 'font-medium')}>
+                        {counterparty.name}
+                        <span className="text-muted-foreground font-normal">
+                          {' '}
+                          · {isBuyer ? 'Seller' : 'Buyer'}
+                        </span>
+                      </p>
+                      <span className="text-xs text-muted-foreground shrink-0">
+                        {formatRelativeDate(conversation.lastMessageAt)}
+                      </span>
+                    </div>
+                    <p className="text-sm text-muted-foreground truncate">{conversation.listing.title}</p>
+                    {lastMessage && (
+                      <p className={cn('text-sm truncate', unread ? 'text-foreground' : 'text-muted-foreground')}>
+                        {lastMessage.senderId === userId && 'You: '}
+                        {lastMessage.body}
+                      </p>
+                    )}
+                  </div>
+                  {unread && (
+                    <Badge aria-label={`${conversation.unreadCount} unread`}>{conversation.unreadCount}</Badge>
+                  )}
+                </Link>
+              )
+            })}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+import Link from 'next/link'
+import { Bell, Settings } from 'lucide-react'
+import { requireAuth } from '@/lib/auth-helpers'
+import { getNotifications } from '@/lib/prisma-queries'
+import { toNotificationItem } from '@/lib/notifications/service'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { NotificationList } from '@/components/notifications/notification-list'
+import { RealtimeRefresh } from '@/components/realtime/realtime-refresh'
+
+export const metadata = {
+  title: 'Notifications',
+  description: 'Updates about your listings, offers and messages',
+}
+
+export default async function NotificationsPage() {
+  const session = await requireAuth()
+
+  const notifications = (await getNotifications(session.user.id, 100)).map(toNotificationItem)
+
+  return (
+    <div className="container max-w-3xl mx-auto py-8 px-4 space-y-6">
+      <RealtimeRefresh types={['notification.created']} />
+
+      {/* Header */}
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Notifications</h1>
+          <p className="text-muted-foreground">Updates about your listings, offers and messages</p>
+        </div>
+        <Button asChild variant="outline" size="sm">
+          <Link href="/account/settings">
+            <Settings className="w-4 h-4 mr-2" aria-hidden="true" />
+            Settings
+          </Link>
+        </Button>
+      </div>
+
+      {notifications.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center text-center gap-3 py-12">
+            <Bell className="w-12 h-12 text-muted-foreground" aria-hidden="true" />
+            <p className="text-muted-foreground">
+              No notifications yet. We&apos;ll let you know when something happens.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <NotificationList notifications={notifications} />
+      )}
+    </div>
+  )
+}
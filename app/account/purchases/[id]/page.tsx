@@ -0,0 +1,208 @@
+import Link from 'next/link'
+import Image from 'next/image'
+import { notFound } from 'next/navigation'
+import { ArrowLeft, FileText, Mail, MapPin, Phone, Star } from 'lucide-react'
+import { requireAuth } from '@/lib/auth-helpers'
+import { getPurchaseForBuyer } from '@/lib/prisma-queries'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Separator } from '@/components/ui/separator'
+import { TransactionStatusBadge } from '@/components/checkout/transaction-status-badge'
+import { EscrowActions } from '@/components/checkout/escrow-actions'
+import { OrderTimeline } from '@/components/purchases/order-timeline'
+import { TransactionReviews } from '@/components/reviews/transaction-reviews'
+import { formatZAR } from '@/lib/constants/categories'
+import { canReportProblem, HELD_TRANSACTION_STATUSES } from '@/lib/escrow/policy'
+import { canIssueTaxDocument } from '@/lib/documents/numbering'
+import { buildOrderTimeline } from '@/lib/orders/timeline'
+import { getSquareUrl } from '@/lib/cloudinary-utils'
+
+type PageProps = {
+  params: Promise<{ id: string }>
+}
+
+export default async function PurchaseDetailPage({ params }: PageProps) {
+  const session = await requireAuth()
+  const { id } = await params
+
+  const purchase = await getPurchaseForBuyer(id, session.user.id)
+
+  if (!purchase) {
+    notFound()
+  }
+
+  const amount = purchase.amount.toNumber()
+  const refundedAmount = purchase.refundedAmount.toNumber()
+  const isHeld = HELD_TRANSACTION_STATUSES.includes(purchase.status)
+  // Contact details are shared once the buyer has paid
+  const showContact = purchase.paidAt !== null
+  const canDownloadReceipt = canIssueTaxDocument('RECEIPT', {
+    ...purchase,
+    commission: purchase.commission.toNumber(),
+  })
+  const timeline = buildOrderTimeline({
+    ...purchase,
+    review: purchase.reviews.find((review) => review.reviewerId === session.user.id) ?? null,
+  })
+
+  return (
+    <div className="container max-w-3xl mx-auto py-8 px-4 space-y-6">
+      <Link
+        href="/account/purchases"
+        className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+      >
+        <ArrowLeft className="w-4 h-4" aria-hidden="true" />
+        My purchases
+      </Link>
+
+      {/* Summary */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle>Order #{purchase.id.slice(0, 8).toUpperCase()}</CardTitle>
+            <TransactionStatusBadge status={purchase.status} />
+          </div>
+          <CardDescription>
+            Placed{' '}
+            {purchase.createdAt.toLocaleDateString('en-ZA', {
+              year: 'numeric',
+              month: 'long',
+              day: 'numeric',
+            })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-start gap-4">
+            <div className="relative w-20 h-20 flex-shrink-0 rounded-lg overflow-hidden bg-muted">
+              <Image
+                src={getSquareUrl(purchase.listing.primaryImage)}
+                alt={purchase.listing.title}
+                fill
+                className="object-cover"
+                sizes="80px"
+              />
+            </div>
+            <div className="flex-1 min-w-0 space-y-1">
+              <Link href={`/listings/${purchase.listing.id}`} className="font-semibold line-clamp-2 hover:underline">
+                {purchase.listing.title}
+              </Link>
+              <p className="text-sm text-muted-foreground flex items-center gap-1">
+                <MapPin className="w-3.5 h-3.5" aria-hidden="true" />
+                {purchase.listing.city}, {purchase.listing.province}
+              </p>
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <div className="flex justify-between font-semibold text-lg">
+              <span>Total</span>
+              <span>{formatZAR(amount)}</span>
+            </div>
+            {refundedAmount > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Refunded to you</span>
+                <span>-{formatZAR(refundedAmount)}</span>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Follow-ups */}
+      <Card>
+        <CardHeader>
+          <CardTitle>What&apos;s next</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {purchase.status === 'PENDING' && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">This order is waiting for your payment.</p>
+              <Button asChild className="w-full">
+                <Link href={`/orders/${purchase.id}`}>Complete payment</Link>
+              </Button>
+            </div>
+          )}
+
+          {isHeld && (
+            <EscrowActions
+              transactionId={purchase.id}
+              sellerName={purchase.seller.name}
+              canReportProblem={canReportProblem(purchase, new Date())}
+            />
+          )}
+
+          <div id="review" className="scroll-mt-20">
+            <TransactionReviews
+              transaction={purchase}
+              viewerId={session.user.id}
+              counterpartyName={purchase.seller.name}
+            />
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-2">
+            {canDownloadReceipt && (
+              <Button asChild variant="outline" className="flex-1">
+                <a href={`/api/orders/${purchase.id}/documents/receipt`} download>
+                  <FileText className="w-4 h-4 mr-2" aria-hidden="true" />
+                  Download receipt
+                </a>
+              </Button>
+            )}
+            <Button asChild variant="outline" className="flex-1">
+              <Link href={`/orders/${purchase.id}`}>Full order details</Link>
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Seller */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Seller</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div>
+            <p className="font-medium">{purchase.seller.name}</p>
+            <p className="text-sm text-muted-foreground flex items-center gap-1">
+              <Star className="w-3.5 h-3.5 fill-yellow-400 text-yellow-400" aria-hidden="true" />
+              {purchase.seller.rating.toFixed(1)} ({purchase.seller.reviewCount} review
+              {purchase.seller.reviewCount === 1 ? '' : 's'})
+              {purchase.seller.city && ` · ${purchase.seller.city}`}
+              {purchase.seller.province && `, ${purchase.seller.province}`}
+            </p>
+          </div>
+          {showContact ? (
+            <div className="space-y-2 text-sm">
+              <a href={`mailto:${purchase.seller.email}`} className="flex items-center gap-2 hover:underline">
+                <Mail className="w-4 h-4 text-muted-foreground" aria-hidden="true" />
+                {purchase.seller.email}
+              </a>
+              {purchase.seller.phone && (
+                <a href={`tel:${purchase.seller.phone}`} className="flex items-center gap-2 hover:underline">
+                  <Phone className="w-4 h-4 text-muted-foreground" aria-hidden="true" />
+                  {purchase.seller.phone}
+                </a>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              The seller&apos;s contact details are shared once you have paid.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Timeline */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Timeline</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <OrderTimeline events={timeline} className="ml-3" />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
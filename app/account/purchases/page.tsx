@@ -0,0 +1,222 @@
+import Link from 'next/link'
+import Image from 'next/image'
+import { HandCoins, ShoppingBag } from 'lucide-react'
+import { requireAuth } from '@/lib/auth-helpers'
+import { getOffersForBuyer, getPurchaseCountsForBuyer, getPurchasesForBuyer } from '@/lib/prisma-queries'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Separator } from '@/components/ui/separator'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { TransactionStatusBadge } from '@/components/checkout/transaction-status-badge'
+import { OfferCountdown } from '@/components/listings/offer-countdown'
+import { NegotiationTimeline } from '@/components/offers/negotiation-timeline'
+import { OfferStatusBadge } from '@/components/offers/offer-status-badge'
+import { StarRating } from '@/components/reviews/star-rating'
+import { formatZAR } from '@/lib/constants/categories'
+import { getPurchaseFilter, PURCHASE_FILTERS } from '@/lib/constants/transactions'
+import { formatRelativeDate } from '@/lib/helpers/listing-helpers'
+import { isOfferExpired } from '@/lib/offers/eligibility'
+import { canWriteReview } from '@/lib/reviews/policy'
+import { RealtimeRefresh } from '@/components/realtime/realtime-refresh'
+import { getSquareUrl } from '@/lib/cloudinary-utils'
+
+export const metadata = {
+  title: 'My Purchases',
+  description: 'Your orders and the offers you have made',
+}
+
+type PageProps = {
+  searchParams: Promise<{ status?: string }>
+}
+
+export default async function PurchasesPage({ searchParams }: PageProps) {
+  const session = await requireAuth()
+  const buyerId = session.user.id
+  const filter = getPurchaseFilter((await searchParams).status)
+
+  const [purchases, counts, offerRows] = await Promise.all([
+    getPurchasesForBuyer(buyerId, filter.statuses),
+    getPurchaseCountsForBuyer(buyerId),
+    getOffersForBuyer(buyerId),
+  ])
+
+  // Offers past their expiry are shown as expired even before their status is updated
+  const offers = offerRows.map((offer) => ({
+    ...offer,
+    amount: offer.amount.toNumber(),
+    counterAmount: offer.counterAmount ? offer.counterAmount.toNumber() : null,
+    agreedAmount: offer.agreedAmount ? offer.agreedAmount.toNumber() : null,
+    moves: offer.moves.map((move) => ({
+      ...move,
+      amount: move.amount ? move.amount.toNumber() : null,
+    })),
+    displayStatus:
+      (offer.status === 'PENDING' || offer.status === 'COUNTERED') && isOfferExpired(offer)
+        ? ('EXPIRED' as const)
+        : offer.status,
+  }))
+
+  const now = new Date()
+  const countFor = (statuses: typeof filter.statuses) =>
+    statuses.reduce((sum, status) => sum + (counts.get(status) ?? 0), 0)
+
+  return (
+    <div className="container max-w-5xl mx-auto py-8 px-4 space-y-8">
+      <RealtimeRefresh types={['offer.updated']} notify />
+
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold mb-2">My Purchases</h1>
+        <p className="text-muted-foreground">Track your orders and the offers you have made</p>
+      </div>
+
+      {/* Purchases */}
+      <section className="space-y-4" aria-labelledby="purchases-heading">
+        <h2 id="purchases-heading" className="sr-only">
+          Purchases
+        </h2>
+        <Tabs defaultValue={filter.value}>
+          <TabsList>
+            {PURCHASE_FILTERS.map((option) => (
+              <TabsTrigger key={option.value} value={option.value} asChild>
+                <Link href={option.value === 'all' ? '/account/purchases' : `/account/purchases?status=${option.value}`}>
+                  {option.label} ({countFor(option.statuses)})
+                </Link>
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {purchases.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+              <ShoppingBag className="w-12 h-12 text-muted-foreground mb-4" aria-hidden="true" />
+              <h3 className="text-lg font-semibold mb-2">
+                {filter.value === 'all' ? 'No purchases yet' : 'No purchases here'}
+              </h3>
+              <p className="text-sm text-muted-foreground max-w-md mb-4">
+                Items you buy will appear here with their delivery and payment status.
+              </p>
+              <Button asChild variant="outline">
+                <Link href="/listings">Browse listings</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="divide-y p-0">
+              {purchases.map((purchase) => (
+                <div key={purchase.id} className="flex flex-col sm:flex-row sm:items-center gap-4 p-4">
+                  <div className="flex items-center gap-4 flex-1 min-w-0">
+                    <div className="relative w-16 h-16 flex-shrink-0 rounded-lg overflow-hidden bg-muted">
+                      <Image
+                        src={getSquareUrl(purchase.listing.primaryImage)}
+                        alt={purchase.listing.title}
+                        fill
+                        className="object-cover"
+                        sizes="64px"
+                      />
+                    </div>
+                    <div className="min-w-0 space-y-1">
+                      <Link
+                        href={`/account/purchases/${purchase.id}`}
+                        className="font-medium line-clamp-1 hover:underline"
+                      >
+                        {purchase.listing.title}
+                      </Link>
+                      <p className="text-sm text-muted-foreground">
+                        {purchase.seller.name} · {formatRelativeDate(purchase.createdAt)}
+                      </p>
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold">{formatZAR(purchase.amount.toNumber())}</span>
+                        <TransactionStatusBadge status={purchase.status} />
+                        {purchase.reviews[0] && <StarRating rating={purchase.reviews[0].rating} />}
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="flex gap-2 sm:flex-shrink-0">
+                    {purchase.status === 'PENDING' && (
+                      <Button asChild size="sm">
+                        <Link href={`/orders/${purchase.id}`}>Complete payment</Link>
+                      </Button>
+                    )}
+                    {!purchase.reviews[0] && canWriteReview(purchase, now) && (
+                      <Button asChild size="sm">
+                        <Link href={`/account/purchases/${purchase.id}#review`}>Leave a review</Link>
+                      </Button>
+                    )}
+                    <Button asChild size="sm" variant="outline">
+                      <Link href={`/account/purchases/${purchase.id}`}>View order</Link>
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </section>
+
+      {/* Offers */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <HandCoins className="w-5 h-5" aria-hidden="true" />
+            Your offers
+          </CardTitle>
+          <CardDescription>Offers you have made on listings and where they stand</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {offers.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              You have not made any offers yet
+            </p>
+          ) : (
+            offers.map((offer, index) => (
+              <div key={offer.id} className="space-y-3">
+                {index > 0 && <Separator />}
+                <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <Link href={`/listings/${offer.listing.id}`} className="font-medium hover:underline line-clamp-1">
+                        {offer.listing.title}
+                      </Link>
+                      <OfferStatusBadge status={offer.displayStatus} />
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {offer.listing.seller.name} · {formatRelativeDate(offer.createdAt)}
+                    </p>
+                    <NegotiationTimeline
+                      moves={offer.moves}
+                      viewerParty="BUYER"
+                      counterpartyName={offer.listing.seller.name}
+                      className="mt-2"
+                    />
+                    {(offer.displayStatus === 'PENDING' || offer.displayStatus === 'COUNTERED') && (
+                      <OfferCountdown expiresAt={offer.expiresAt} />
+                    )}
+                  </div>
+
+                  <div className="flex gap-2 sm:flex-shrink-0">
+                    {offer.displayStatus === 'COUNTERED' && (
+                      <Button asChild size="sm">
+                        <Link href={`/listings/${offer.listing.id}`}>Respond to counter</Link>
+                      </Button>
+                    )}
+                    {offer.displayStatus === 'ACCEPTED' && offer.listing.status === 'APPROVED' && (
+                      <Button asChild size="sm">
+                        <Link href={`/checkout/${offer.listing.id}`}>
+                          Buy for {formatZAR(offer.agreedAmount ?? offer.amount)}
+                        </Link>
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,155 @@
+import Link from 'next/link'
+import { Star } from 'lucide-react'
+import { requireAuth } from '@/lib/auth-helpers'
+import { prisma } from '@/lib/prisma'
+import { getReviewsByUser, getUserReviews } from '@/lib/prisma-queries'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ReportReviewDialog } from '@/components/reviews/report-review-dialog'
+import { ReviewReplyForm } from '@/components/reviews/review-reply-form'
+import { StarRating } from '@/components/reviews/star-rating'
+import { REVIEW_STATUS_LABELS } from '@/lib/constants/reviews'
+import { formatRelativeDate } from '@/lib/helpers/listing-helpers'
+
+export const metadata = {
+  title: 'My Reviews',
+  description: 'Reviews you have received and written',
+}
+
+export default async function ReviewsPage() {
+  const session = await requireAuth()
+  const userId = session.user.id
+
+  const [user, received, given] = await Promise.all([
+    prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { rating: true, reviewCount: true },
+    }),
+    getUserReviews(userId, { includeHidden: true }),
+    getReviewsByUser(userId),
+  ])
+
+  return (
+    <div className="container max-w-5xl mx-auto py-8 px-4 space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold mb-2">My Reviews</h1>
+        <p className="text-muted-foreground">
+          Reply to what buyers and sellers say about you, and see the reviews you have written
+        </p>
+      </div>
+
+      {/* Rating */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardDescription className="flex items-center gap-2">
+            <Star className="w-4 h-4" aria-hidden="true" />
+            Your rating
+          </CardDescription>
+          <CardTitle className="text-3xl flex items-center gap-3">
+            {user.reviewCount > 0 ? user.rating.toFixed(1) : '–'}
+            {user.reviewCount > 0 && <StarRating rating={Math.round(user.rating)} />}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-xs text-muted-foreground">
+            Based on {user.reviewCount} review{user.reviewCount === 1 ? '' : 's'}. Hidden and
+            removed reviews do not count.
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Received */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Reviews about you</CardTitle>
+          <CardDescription>You can post one public reply to each review</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {received.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No reviews yet</p>
+          ) : (
+            <div className="divide-y">
+              {received.map((review) => (
+                <div key={review.id} className="py-4 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <StarRating rating={review.rating} />
+                        {review.status !== 'VISIBLE' && (
+                          <Badge variant="destructive">{REVIEW_STATUS_LABELS[review.status]}</Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {review.reviewer.name} ·{' '}
+                        <Link href={`/orders/${review.transaction.id}`} className="hover:underline">
+                          {review.transaction.listing.title}
+                        </Link>{' '}
+                        · {formatRelativeDate(review.createdAt)}
+                      </p>
+                    </div>
+                    {review.status === 'VISIBLE' && <ReportReviewDialog reviewId={review.id} />}
+                  </div>
+                  {review.comment && (
+                    <p className="text-sm whitespace-pre-line">{review.comment}</p>
+                  )}
+                  {review.reply ? (
+                    <div className="ml-4 border-l-2 pl-3 space-y-0.5">
+                      <p className="text-xs font-medium">Your reply</p>
+                      <p className="text-sm text-muted-foreground whitespace-pre-line">{review.reply}</p>
+                    </div>
+                  ) : (
+                    review.status === 'VISIBLE' && <ReviewReplyForm reviewId={review.id} />
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Given */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Reviews you have written</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {given.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              Reviews you leave after completed orders will appear here
+            </p>
+          ) : (
+            <div className="divide-y">
+              {given.map((review) => (
+                <div key={review.id} className="py-4 space-y-2">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <StarRating rating={review.rating} />
+                    {review.status !== 'VISIBLE' && (
+                      <Badge variant="destructive">{REVIEW_STATUS_LABELS[review.status]}</Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    About {review.reviewee.name} ·{' '}
+                    <Link href={`/orders/${review.transaction.id}`} className="hover:underline">
+                      {review.transaction.listing.title}
+                    </Link>{' '}
+                    · {formatRelativeDate(review.createdAt)}
+                  </p>
+                  {review.comment && (
+                    <p className="text-sm whitespace-pre-line">{review.comment}</p>
+                  )}
+                  {review.reply && (
+                    <div className="ml-4 border-l-2 pl-3 space-y-0.5">
+                      <p className="text-xs font-medium">Reply from {review.reviewee.name}</p>
+                      <p className="text-sm text-muted-foreground whitespace-pre-line">{review.reply}</p>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,175 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { auth } from '@/auth'
+import { requireAuth } from '@/lib/auth-helpers'
+import { prisma } from '@/lib/prisma'
+import {
+  savedSearchIdSchema,
+  savedSearchSchema,
+  updateSavedSearchSchema,
+  type SavedSearchFormData,
+  type UpdateSavedSearchFormData,
+} from '@/lib/validations/saved-search'
+
+type ActionResult<T = unknown> = {
+  success: boolean
+  data?: T
+  error?: string
+}
+
+// Alerts run for every saved search, so keep each user's list short
+const MAX_SAVED_SEARCHES = 20
+
+/**
+ * Save listings filters under a name
+ * Guests get an error rather than a redirect, so the listings page can ask them to sign in
+ */
+export const createSavedSearch = async (
+  formData: SavedSearchFormData
+): Promise<ActionResult<{ savedSearchId: string }>> => {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return { success: false, error: 'Sign in to save searches' }
+    }
+
+    const validation = savedSearchSchema.safeParse(formData)
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0]?.message || 'Invalid search' }
+    }
+
+    const userId = session.user.id
+    const savedSearch = await prisma.$transaction(async (tx) => {
+      // Lock the user's row so concurrent saves count one after another
+      await tx.$queryRaw`SELECT 1 FROM "User" WHERE "id" = ${userId} FOR UPDATE`
+
+      const count = await tx.savedSearch.count({ where: { userId } })
+      if (count >= MAX_SAVED_SEARCHES) {
+        return null
+      }
+
+      return tx.savedSearch.create({
+        data: {
+          userId,
+          name: validation.data.name,
+          filters: validation.data.filters,
+        },
+      })
+    })
+
+    if (!savedSearch) {
+      return {
+        success: false,
+        error: `You can save up to ${MAX_SAVED_SEARCHES} searches. Delete one to save another.`,
+      }
+    }
+
+    revalidatePath('/account/searches')
+
+    return { success: true, data: { savedSearchId: savedSearch.id } }
+  } catch (error) {
+    console.error('Create saved search error:', error)
+    return { success: false, error: 'Failed to save search' }
+  }
+}
+
+/**
+ * Rename a saved search or change its filters
+ * Requires authentication; only the owner can edit
+ */
+export const updateSavedSearch = async (
+  formData: UpdateSavedSearchFormData
+): Promise<ActionResult> => {
+  try {
+    const session = await requireAuth()
+
+    const validation = updateSavedSearchSchema.safeParse(formData)
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0]?.message || 'Invalid search' }
+    }
+
+    const { savedSearchId, name, filters } = validation.data
+
+    const { count } = await prisma.savedSearch.updateMany({
+      where: { id: savedSearchId, userId: session.user.id },
+      data: { name, filters },
+    })
+
+    if (count === 0) {
+      return { success: false, error: 'Saved search not found' }
+    }
+
+    revalidatePath('/account/searches')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Update saved search error:', error)
+    return { success: false, error: 'Failed to update saved search' }
+  }
+}
+
+/**
+ * Pause or resume alerts for a saved search
+ * Resuming starts from now, so listings approved while paused are not reported
+ */
+export const setSavedSearchPaused = async (
+  savedSearchId: string,
+  paused: boolean
+): Promise<ActionResult> => {
+  try {
+    const session = await requireAuth()
+
+    const validation = savedSearchIdSchema.safeParse({ savedSearchId })
+    if (!validation.success) {
+      return { success: false, error: 'Invalid saved search ID' }
+    }
+
+    const now = new Date()
+    const { count } = await prisma.savedSearch.updateMany({
+      where: { id: savedSearchId, userId: session.user.id },
+      data: paused ? { pausedAt: now } : { pausedAt: null, lastCheckedAt: now },
+    })
+
+    if (count === 0) {
+      return { success: false, error: 'Saved search not found' }
+    }
+
+    revalidatePath('/account/searches')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Pause saved search error:', error)
+    return { success: false, error: 'Failed to update saved search' }
+  }
+}
+
+/**
+ * Delete a saved search
+ * Requires authentication; only the owner can delete
+ */
+export const deleteSavedSearch = async (savedSearchId: string): Promise<ActionResult> => {
+  try {
+    const session = await requireAuth()
+
+    const validation = savedSearchIdSchema.safeParse({ savedSearchId })
+    if (!validation.success) {
+      return { success: false, error: 'Invalid saved search ID' }
+    }
+
+    const { count } = await prisma.savedSearch.deleteMany({
+      where: { id: savedSearchId, userId: session.user.id },
+    })
+
+    if (count === 0) {
+      return { success: false, error: 'Saved search not found' }
+    }
+
+    revalidatePath('/account/searches')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Delete saved search error:', error)
+    return { success: false, error: 'Failed to delete saved search' }
+  }
+}
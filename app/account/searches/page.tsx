@@ -0,0 +1,60 @@
+import Link from 'next/link'
+import { Search } from 'lucide-react'
+import { requireAuth } from '@/lib/auth-helpers'
+import { getSavedSearches } from '@/lib/prisma-queries'
+import { parseSavedSearchFilters } from '@/lib/saved-searches/alerts'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { SavedSearchCard } from '@/components/saved-searches/saved-search-card'
+
+export const metadata = {
+  title: 'Saved Searches',
+  description: 'Get notified when new listings match your searches',
+}
+
+export default async function SavedSearchesPage() {
+  const session = await requireAuth()
+
+  const savedSearches = (await getSavedSearches(session.user.id)).map((savedSearch) => ({
+    id: savedSearch.id,
+    name: savedSearch.name,
+    filters: parseSavedSearchFilters(savedSearch.filters) ?? {},
+    paused: savedSearch.pausedAt !== null,
+  }))
+
+  return (
+    <div className="container max-w-3xl mx-auto py-8 px-4 space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Saved Searches</h1>
+        <p className="text-muted-foreground">
+          We&apos;ll notify you when new listings match. Choose how in your{' '}
+          <Link href="/account/settings" className="underline">
+            notification settings
+          </Link>
+          .
+        </p>
+      </div>
+
+      {savedSearches.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center text-center gap-3 py-12">
+            <Search className="w-12 h-12 text-muted-foreground" aria-hidden="true" />
+            <p className="text-muted-foreground">
+              No saved searches yet. Filter listings and choose Save search to get alerts.
+            </p>
+            <Button asChild variant="outline">
+              <Link href="/listings">Browse listings</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {savedSearches.map((savedSearch) => (
+            <SavedSearchCard key={savedSearch.id} savedSearch={savedSearch} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { requireAuth } from '@/lib/auth-helpers'
+import { prisma } from '@/lib/prisma'
+import { saveNotificationSettings } from '@/lib/notifications/preferences'
+import {
+  notificationSettingsSchema,
+  type NotificationSettingsFormData,
+} from '@/lib/validations/notification'
+
+type ActionResult<T = unknown> = {
+  success: boolean
+  data?: T
+  error?: string
+}
+
+/**
+ * Save which notifications the user gets in the app and by email
+ * Requires authentication
+ */
+export const updateNotificationSettings = async (
+  formData: NotificationSettingsFormData
+): Promise<ActionResult> => {
+  try {
+    const session = await requireAuth()
+
+    const validation = notificationSettingsSchema.safeParse(formData)
+    if (!validation.success) {
+      return { success: false, error: 'Invalid notification settings' }
+    }
+
+    await prisma.$transaction((tx) =>
+      saveNotificationSettings(tx, session.user.id, validation.data)
+    )
+
+    revalidatePath('/account/settings')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Update notification settings error:', error)
+    return { success: false, error: 'Failed to save notification settings' }
+  }
+}
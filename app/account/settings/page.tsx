@@ -0,0 +1,40 @@
+import { requireAuth } from '@/lib/auth-helpers'
+import { prisma } from '@/lib/prisma'
+import { getNotificationSettings } from '@/lib/notifications/preferences'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { NotificationSettingsForm } from '@/components/notifications/notification-settings-form'
+
+export const metadata = {
+  title: 'Account Settings',
+  description: 'Choose how LOTOSALE keeps you updated',
+}
+
+export default async function AccountSettingsPage() {
+  const session = await requireAuth()
+
+  const settings = await getNotificationSettings(prisma, session.user.id)
+
+  return (
+    <div className="container max-w-3xl mx-auto py-8 px-4 space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Account Settings</h1>
+        <p className="text-muted-foreground">Choose how LOTOSALE keeps you updated</p>
+      </div>
+
+      {/* Notifications */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Notifications</CardTitle>
+          <CardDescription>
+            Pick which updates appear in your notifications and which are emailed to{' '}
+            {session.user.email}. Account emails such as password resets are always sent.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <NotificationSettingsForm defaultValues={settings} />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { listingIdSchema } from '@/lib/validations/listing'
+import { addToWatchlist, removeFromWatchlist } from '@/lib/watchlist/service'
+
+type ActionResult<T = unknown> = {
+  success: boolean
+  data?: T
+  error?: string
+}
+
+/**
+ * Watch or stop watching a listing
+ * Guests get an error rather than a redirect, so the heart can ask them to sign in
+ */
+export const setWatching = async (
+  listingId: string,
+  watching: boolean
+): Promise<ActionResult<{ watching: boolean }>> => {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return { success: false, error: 'Sign in to watch listings' }
+    }
+
+    const validation = listingIdSchema.safeParse({ id: listingId })
+    if (!validation.success) {
+      return { success: false, error: 'Invalid listing ID' }
+    }
+
+    if (watching) {
+      const result = await addToWatchlist(prisma, session.user.id, listingId)
+      if ('error' in result) {
+        return { success: false, error: result.error }
+      }
+    } else {
+      await removeFromWatchlist(prisma, session.user.id, listingId)
+    }
+
+    revalidatePath('/account/watchlist')
+    revalidatePath(`/listings/${listingId}`)
+
+    return { success: true, data: { watching } }
+  } catch (error) {
+    console.error('Watch listing error:', error)
+    return { success: false, error: 'Failed to update your watchlist' }
+  }
+}
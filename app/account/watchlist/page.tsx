@@ -0,0 +1,111 @@
+import Link from 'next/link'
+import Image from 'next/image'
+import { Heart } from 'lucide-react'
+import type { ListingStatus } from '@prisma/client'
+import { requireAuth } from '@/lib/auth-helpers'
+import { getWatchlist } from '@/lib/prisma-queries'
+import { getSquareUrl } from '@/lib/cloudinary-utils'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { ListingCard } from '@/components/listings/listing-card'
+import { WatchButton } from '@/components/watchlist/watch-button'
+
+export const metadata = {
+  title: 'Watchlist',
+  description: 'Listings you are watching for price drops',
+}
+
+const UNAVAILABLE_LABELS: Partial<Record<ListingStatus, string>> = {
+  SOLD: 'Sold',
+  PAUSED: 'Paused',
+}
+
+export default async function WatchlistPage() {
+  const session = await requireAuth()
+
+  const listings = (await getWatchlist(session.user.id)).map(({ listing }) => ({
+    ...listing,
+    price: listing.price ? listing.price.toNumber() : undefined,
+  }))
+
+  const available = listings.filter((listing) => listing.status === 'APPROVED')
+  const unavailable = listings.filter((listing) => listing.status !== 'APPROVED')
+
+  return (
+    <div className="container max-w-6xl mx-auto py-8 px-4 space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Watchlist</h1>
+        <p className="text-muted-foreground">
+          We&apos;ll let you know when the price drops or a listing is sold or paused
+        </p>
+      </div>
+
+      {listings.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center text-center gap-3 py-12">
+            <Heart className="w-12 h-12 text-muted-foreground" aria-hidden="true" />
+            <p className="text-muted-foreground">
+              You&apos;re not watching any listings yet. Tap the heart on a listing to watch it.
+            </p>
+            <Button asChild variant="outline">
+              <Link href="/listings">Browse listings</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {available.length > 0 && (
+            <div className="grid gap-6 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+              {available.map((listing) => (
+                <ListingCard
+                  key={listing.id}
+                  id={listing.id}
+                  title={listing.title}
+                  price={listing.price}
+                  pricingType={listing.pricingType}
+                  condition={listing.condition}
+                  primaryImage={listing.primaryImage}
+                  city={listing.city}
+                  createdAt={listing.createdAt}
+                  watched
+                />
+              ))}
+            </div>
+          )}
+
+          {/* Sold and paused listings can no longer be opened */}
+          {unavailable.length > 0 && (
+            <section className="space-y-3" aria-labelledby="unavailable-heading">
+              <h2 id="unavailable-heading" className="text-xl font-semibold">
+                No longer available
+              </h2>
+              {unavailable.map((listing) => (
+                <div key={listing.id} className="flex items-center gap-4 p-4 border rounded-lg">
+                  <div className="relative w-16 h-16 shrink-0 overflow-hidden rounded-md bg-muted">
+                    <Image
+                      src={getSquareUrl(listing.primaryImage)}
+                      alt={listing.title}
+                      fill
+                      className="object-cover grayscale"
+                      sizes="64px"
+                    />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <h3 className="font-semibold truncate">{listing.title}</h3>
+                    <p className="text-sm text-muted-foreground truncate">{listing.city}</p>
+                  </div>
+                  <Badge variant="secondary">
+                    {UNAVAILABLE_LABELS[listing.status] ?? 'Unavailable'}
+                  </Badge>
+                  <WatchButton listingId={listing.id} listingTitle={listing.title} watched />
+                </div>
+              ))}
+            </section>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,364 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import type { CommissionRule } from '@prisma/client'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { createAuditLog } from '@/lib/audit-log'
+import { getCommissionQuote } from '@/lib/commission/quote'
+import {
+  commissionPreviewSchema,
+  commissionRuleSchema,
+  type CommissionPreviewData,
+  type CommissionRuleFormData,
+} from '@/lib/validations/commission'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type ActionResult<T = unknown> = {
+  success: boolean
+  data?: T
+  error?: string
+}
+
+/**
+ * Commission rule serialized for client components
+ * Decimals become numbers, the rate a percentage, dates YYYY-MM-DD (SAST)
+ */
+export type CommissionRuleRow = {
+  id: string
+  name: string
+  type: CommissionRule['type']
+  ratePercent: number
+  minFee: number | null
+  maxFee: number | null
+  isActive: boolean
+  categoryId: string | null
+  categoryName: string | null
+  minPrice: number | null
+  maxPrice: number | null
+  sellerEmail: string | null
+  validFrom: string | null
+  validUntil: string | null
+  transactionCount: number
+}
+
+export type CommissionPreview = {
+  commission: number
+  netAmount: number
+  ratePercent: number
+  ruleName: string | null
+  clampedTo: 'MIN_FEE' | 'MAX_FEE' | null
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+// Promo dates are entered as South African calendar days
+const SAST_OFFSET = '+02:00'
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Validate admin session
+ */
+const validateAdmin = async () => {
+  const session = await auth()
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return { error: 'Unauthorized', user: null }
+  }
+  return { user: session.user, error: null }
+}
+
+const toDateInput = (date: Date | null, inclusiveEnd = false) => {
+  if (!date) return null
+  // validUntil is stored as the exclusive end; show the last day it applies
+  const shifted = new Date(date.getTime() + 2 * 60 * 60 * 1000 - (inclusiveEnd ? DAY_MS : 0))
+  return shifted.toISOString().slice(0, 10)
+}
+
+const fromDateInput = (value: string | null, inclusiveEnd = false) => {
+  if (!value) return null
+  const start = new Date(`${value}T00:00:00${SAST_OFFSET}`)
+  return inclusiveEnd ? new Date(start.getTime() + DAY_MS) : start
+}
+
+/**
+ * Map validated form data to CommissionRule columns, resolving the seller
+ * email and dropping scope fields that do not apply to the rule type
+ */
+const toRuleData = async (data: CommissionRuleFormData) => {
+  let sellerId: string | null = null
+
+  if (data.type === 'SELLER_PROMO' && data.sellerEmail) {
+    const seller = await prisma.user.findUnique({
+      where: { email: data.sellerEmail },
+      select: { id: true },
+    })
+    if (!seller) {
+      return { error: 'No user found with that email' }
+    }
+    sellerId = seller.id
+  }
+
+  return {
+    data: {
+      name: data.name,
+      type: data.type,
+      rate: data.ratePercent / 100,
+      minFee: data.minFee,
+      maxFee: data.maxFee,
+      isActive: data.isActive,
+      categoryId: data.type === 'CATEGORY' ? data.categoryId : null,
+      minPrice: data.type === 'PRICE_BAND' ? data.minPrice : null,
+      maxPrice: data.type === 'PRICE_BAND' ? data.maxPrice : null,
+      sellerId,
+      validFrom: data.type === 'SELLER_PROMO' ? fromDateInput(data.validFrom) : null,
+      validUntil: data.type === 'SELLER_PROMO' ? fromDateInput(data.validUntil, true) : null,
+    },
+  }
+}
+
+// ============================================================================
+// SERVER ACTIONS
+// ============================================================================
+
+/**
+ * Get all commission rules, grouped by type in precedence order
+ */
+export const getCommissionRules = async (): Promise<ActionResult<CommissionRuleRow[]>> => {
+  try {
+    const { error } = await validateAdmin()
+    if (error) {
+      return { success: false, error }
+    }
+
+    const rules = await prisma.commissionRule.findMany({
+      include: {
+        category: { select: { name: true } },
+        seller: { select: { email: true } },
+        _count: { select: { transactions: true } },
+      },
+      orderBy: [{ type: 'desc' }, { createdAt: 'desc' }],
+    })
+
+    return {
+      success: true,
+      data: rules.map((rule) => ({
+        id: rule.id,
+        name: rule.name,
+        type: rule.type,
+        ratePercent: Math.round(rule.rate.toNumber() * 10000) / 100,
+        minFee: rule.minFee ? rule.minFee.toNumber() : null,
+        maxFee: rule.maxFee ? rule.maxFee.toNumber() : null,
+        isActive: rule.isActive,
+        categoryId: rule.categoryId,
+        categoryName: rule.category?.name ?? null,
+        minPrice: rule.minPrice ? rule.minPrice.toNumber() : null,
+        maxPrice: rule.maxPrice ? rule.maxPrice.toNumber() : null,
+        sellerEmail: rule.seller?.email ?? null,
+        validFrom: toDateInput(rule.validFrom),
+        validUntil: toDateInput(rule.validUntil, true),
+        transactionCount: rule._count.transactions,
+      })),
+    }
+  } catch (error) {
+    console.error('Get commission rules error:', error)
+    return { success: false, error: 'Failed to fetch commission rules' }
+  }
+}
+
+/**
+ * Create a commission rule
+ */
+export const createCommissionRule = async (
+  formData: CommissionRuleFormData
+): Promise<ActionResult<{ id: string }>> => {
+  try {
+    const { user, error } = await validateAdmin()
+    if (error || !user) {
+      return { success: false, error: error || 'Unauthorized' }
+    }
+
+    const validation = commissionRuleSchema.safeParse(formData)
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0]?.message || 'Invalid rule' }
+    }
+
+    const mapped = await toRuleData(validation.data)
+    if ('error' in mapped) {
+      return { success: false, error: mapped.error }
+    }
+
+    const rule = await prisma.commissionRule.create({ data: mapped.data })
+
+    await createAuditLog({
+      userId: user.id!,
+      action: 'CREATE_COMMISSION_RULE',
+      targetType: 'COMMISSION_RULE',
+      targetId: rule.id,
+      details: { ...validation.data },
+    })
+
+    revalidatePath('/admin/commission')
+
+    return { success: true, data: { id: rule.id } }
+  } catch (error) {
+    console.error('Create commission rule error:', error)
+    return { success: false, error: 'Failed to create commission rule' }
+  }
+}
+
+/**
+ * Update a commission rule
+ * Transactions keep the snapshot of the rule taken when they were created
+ */
+export const updateCommissionRule = async (
+  id: string,
+  formData: CommissionRuleFormData
+): Promise<ActionResult<{ id: string }>> => {
+  try {
+    const { user, error } = await validateAdmin()
+    if (error || !user) {
+      return { success: false, error: error || 'Unauthorized' }
+    }
+
+    const validation = commissionRuleSchema.safeParse(formData)
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0]?.message || 'Invalid rule' }
+    }
+
+    const existing = await prisma.commissionRule.findUnique({ where: { id } })
+    if (!existing) {
+      return { success: false, error: 'Commission rule not found' }
+    }
+
+    const mapped = await toRuleData(validation.data)
+    if ('error' in mapped) {
+      return { success: false, error: mapped.error }
+    }
+
+    await prisma.commissionRule.update({ where: { id }, data: mapped.data })
+
+    await createAuditLog({
+      userId: user.id!,
+      action: 'UPDATE_COMMISSION_RULE',
+      targetType: 'COMMISSION_RULE',
+      targetId: id,
+      details: {
+        before: {
+          name: existing.name,
+          rate: existing.rate.toString(),
+          minFee: existing.minFee?.toString() ?? null,
+          maxFee: existing.maxFee?.toString() ?? null,
+          isActive: existing.isActive,
+        },
+        after: { ...validation.data },
+      },
+    })
+
+    revalidatePath('/admin/commission')
+
+    return { success: true, data: { id } }
+  } catch (error) {
+    console.error('Update commission rule error:', error)
+    return { success: false, error: 'Failed to update commission rule' }
+  }
+}
+
+/**
+ * Delete a commission rule
+ * Rules already used by transactions are kept for auditing; deactivate them instead
+ */
+export const deleteCommissionRule = async (id: string): Promise<ActionResult> => {
+  try {
+    const { user, error } = await validateAdmin()
+    if (error || !user) {
+      return { success: false, error: error || 'Unauthorized' }
+    }
+
+    const rule = await prisma.commissionRule.findUnique({
+      where: { id },
+      include: { _count: { select: { transactions: true } } },
+    })
+
+    if (!rule) {
+      return { success: false, error: 'Commission rule not found' }
+    }
+
+    if (rule._count.transactions > 0) {
+      return {
+        success: false,
+        error: `This rule was used by ${rule._count.transactions} transaction(s). Deactivate it instead.`,
+      }
+    }
+
+    await prisma.commissionRule.delete({ where: { id } })
+
+    await createAuditLog({
+      userId: user.id!,
+      action: 'DELETE_COMMISSION_RULE',
+      targetType: 'COMMISSION_RULE',
+      targetId: id,
+      details: { name: rule.name, type: rule.type, rate: rule.rate.toString() },
+    })
+
+    revalidatePath('/admin/commission')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Delete commission rule error:', error)
+    return { success: false, error: 'Failed to delete commission rule' }
+  }
+}
+
+/**
+ * Preview the commission a sale would be charged under the current rules
+ */
+export const previewCommission = async (
+  formData: CommissionPreviewData
+): Promise<ActionResult<CommissionPreview>> => {
+  try {
+    const { error } = await validateAdmin()
+    if (error) {
+      return { success: false, error }
+    }
+
+    const validation = commissionPreviewSchema.safeParse(formData)
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0]?.message || 'Invalid preview' }
+    }
+
+    const { price, categoryId, sellerEmail } = validation.data
+
+    let sellerId = ''
+    if (sellerEmail) {
+      const seller = await prisma.user.findUnique({
+        where: { email: sellerEmail },
+        select: { id: true },
+      })
+      if (!seller) {
+        return { success: false, error: 'No user found with that email' }
+      }
+      sellerId = seller.id
+    }
+
+    const quote = await getCommissionQuote({ price, sellerId, categoryId })
+
+    return {
+      success: true,
+      data: {
+        commission: quote.commission,
+        netAmount: quote.netAmount,
+        ratePercent: Math.round(quote.rate * 10000) / 100,
+        ruleName: quote.rule?.name ?? null,
+        clampedTo: quote.clampedTo,
+      },
+    }
+  } catch (error) {
+    console.error('Preview commission error:', error)
+    return { success: false, error: 'Failed to preview commission' }
+  }
+}
@@ -0,0 +1,56 @@
+import { requireAdmin } from '@/lib/auth-helpers'
+import { prisma } from '@/lib/prisma'
+import { getCommissionRules } from './actions'
+import { CommissionRuleRow } from '@/components/admin/commission-rule-row'
+import { CommissionPreview } from '@/components/admin/commission-preview'
+import { CreateCommissionRuleButton } from '@/components/admin/create-commission-rule-button'
+import { Card } from '@/components/ui/card'
+
+export const metadata = {
+  title: 'Commission Rules | Admin',
+  description: 'Manage marketplace commission rates',
+}
+
+export default async function CommissionPage() {
+  await requireAdmin()
+
+  const [rulesResult, categories] = await Promise.all([
+    getCommissionRules(),
+    prisma.category.findMany({
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    }),
+  ])
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Commission</h1>
+          <p className="text-muted-foreground mt-1">
+            Seller promotions apply first, then category overrides, price bands and the default rate
+          </p>
+        </div>
+        <CreateCommissionRuleButton categories={categories} />
+      </div>
+
+      <CommissionPreview categories={categories} />
+
+      {/* Rule List */}
+      <Card className="p-6">
+        {rulesResult.success && rulesResult.data && rulesResult.data.length > 0 ? (
+          <div className="space-y-2">
+            {rulesResult.data.map((rule) => (
+              <CommissionRuleRow key={rule.id} rule={rule} categories={categories} />
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12 text-muted-foreground">
+            {rulesResult.error || 'No commission rules yet. Sales use the built-in 20% rate.'}
+          </div>
+        )}
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,203 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import type { DisputeReason, DisputeResolution, DisputeStatus, TransactionStatus } from '@prisma/client'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { createAuditLog } from '@/lib/audit-log'
+import { settleDispute } from '@/lib/escrow/transitions'
+import { notifySalesCompleted } from '@/lib/escrow/notifications'
+import {
+  disputeResolutionSchema,
+  type DisputeResolutionFormData,
+} from '@/lib/validations/dispute'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type ActionResult<T = unknown> = {
+  success: boolean
+  data?: T
+  error?: string
+}
+
+/**
+ * Dispute serialized for client components; Decimals become numbers
+ */
+export type DisputeRow = {
+  id: string
+  reason: DisputeReason
+  description: string
+  evidenceUrls: string[]
+  status: DisputeStatus
+  createdAt: Date
+  sellerResponse: string | null
+  sellerRespondedAt: Date | null
+  resolution: DisputeResolution | null
+  refundAmount: number | null
+  resolutionNote: string | null
+  resolvedAt: Date | null
+  resolvedByName: string | null
+  transaction: {
+    id: string
+    status: TransactionStatus
+    amount: number
+    commission: number
+    netAmount: number
+    paidAt: Date | null
+  }
+  listing: { id: string; title: string; primaryImage: string }
+  buyer: { id: string; name: string; email: string }
+  seller: { id: string; name: string; email: string }
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Validate admin session
+ */
+const validateAdmin = async () => {
+  const session = await auth()
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return { error: 'Unauthorized', user: null }
+  }
+  return { user: session.user, error: null }
+}
+
+// ============================================================================
+// SERVER ACTIONS
+// ============================================================================
+
+/**
+ * Get disputes by status
+ * Open disputes come oldest first so the queue is worked in order
+ */
+export const getDisputes = async (
+  status: DisputeStatus = 'OPEN'
+): Promise<ActionResult<DisputeRow[]>> => {
+  try {
+    const { error } = await validateAdmin()
+    if (error) {
+      return { success: false, error }
+    }
+
+    const disputes = await prisma.dispute.findMany({
+      where: { status },
+      include: {
+        resolvedBy: { select: { name: true } },
+        transaction: {
+          include: {
+            listing: { select: { id: true, title: true, primaryImage: true } },
+            buyer: { select: { id: true, name: true, email: true } },
+            seller: { select: { id: true, name: true, email: true } },
+          },
+        },
+      },
+      orderBy: status === 'OPEN' ? { createdAt: 'asc' } : { resolvedAt: 'desc' },
+      take: 100,
+    })
+
+    return {
+      success: true,
+      data: disputes.map((dispute) => ({
+        id: dispute.id,
+        reason: dispute.reason,
+        description: dispute.description,
+        evidenceUrls: dispute.evidenceUrls,
+        status: dispute.status,
+        createdAt: dispute.createdAt,
+        sellerResponse: dispute.sellerResponse,
+        sellerRespondedAt: dispute.sellerRespondedAt,
+        resolution: dispute.resolution,
+        refundAmount: dispute.refundAmount ? dispute.refundAmount.toNumber() : null,
+        resolutionNote: dispute.resolutionNote,
+        resolvedAt: dispute.resolvedAt,
+        resolvedByName: dispute.resolvedBy?.name ?? null,
+        transaction: {
+          id: dispute.transaction.id,
+          status: dispute.transaction.status,
+          amount: dispute.transaction.amount.toNumber(),
+          commission: dispute.transaction.commission.toNumber(),
+          netAmount: dispute.transaction.netAmount.toNumber(),
+          paidAt: dispute.transaction.paidAt,
+        },
+        listing: dispute.transaction.listing,
+        buyer: dispute.transaction.buyer,
+        seller: dispute.transaction.seller,
+      })),
+    }
+  } catch (error) {
+    console.error('Get disputes error:', error)
+    return { success: false, error: 'Failed to fetch disputes' }
+  }
+}
+
+/**
+ * Resolve a dispute with a full refund, partial refund or release to the seller
+ * Updates the transaction amounts and records the decision in the audit log
+ */
+export const resolveDispute = async (
+  formData: DisputeResolutionFormData
+): Promise<ActionResult<{ transactionId: string }>> => {
+  try {
+    const { user, error } = await validateAdmin()
+    if (error || !user) {
+      return { success: false, error: error || 'Unauthorized' }
+    }
+
+    const validation = disputeResolutionSchema.safeParse(formData)
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0]?.message || 'Invalid resolution' }
+    }
+
+    const { disputeId, resolution, refundAmount, note } = validation.data
+
+    const result = await prisma.$transaction((tx) =>
+      settleDispute(
+        tx,
+        {
+          disputeId,
+          resolution,
+          refundAmount: resolution === 'PARTIAL_REFUND' ? refundAmount : undefined,
+          note,
+          resolvedById: user.id!,
+        },
+        new Date()
+      )
+    )
+
+    if ('error' in result) {
+      return { success: false, error: result.error }
+    }
+
+    await createAuditLog({
+      userId: user.id!,
+      action: 'RESOLVE_DISPUTE',
+      targetType: 'TRANSACTION',
+      targetId: result.transactionId,
+      details: {
+        disputeId,
+        resolution,
+        note,
+        ...result.settlement,
+      },
+    })
+
+    revalidatePath('/admin/disputes')
+    revalidatePath(`/orders/${result.transactionId}`)
+    revalidatePath('/dashboard')
+
+    // A release or partial refund completes the sale for the seller
+    if (result.settlement.status === 'COMPLETED') {
+      await notifySalesCompleted([result.transactionId])
+    }
+
+    return { success: true, data: { transactionId: result.transactionId } }
+  } catch (error) {
+    console.error('Resolve dispute error:', error)
+    return { success: false, error: 'Failed to resolve dispute' }
+  }
+}
@@ -0,0 +1,63 @@
+import type { DisputeStatus } from '@prisma/client'
+import { requireAdmin } from '@/lib/auth-helpers'
+import { getDisputes } from './actions'
+import { DisputeCard } from '@/components/admin/dispute-card'
+import { Card } from '@/components/ui/card'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+
+export const metadata = {
+  title: 'Disputes | Admin',
+  description: 'Resolve problems reported on paid orders',
+}
+
+interface PageProps {
+  searchParams: Promise<{
+    status?: string
+  }>
+}
+
+export default async function DisputesPage({ searchParams }: PageProps) {
+  await requireAdmin()
+
+  const params = await searchParams
+  const status: DisputeStatus = params.status === 'RESOLVED' ? 'RESOLVED' : 'OPEN'
+  const result = await getDisputes(status)
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Disputes</h1>
+        <p className="text-muted-foreground mt-1">
+          Payments stay on hold until a dispute is resolved or the buyer confirms receipt
+        </p>
+      </div>
+
+      <Tabs defaultValue={status}>
+        <TabsList>
+          <TabsTrigger value="OPEN" asChild>
+            <a href="/admin/disputes">Open</a>
+          </TabsTrigger>
+          <TabsTrigger value="RESOLVED" asChild>
+            <a href="/admin/disputes?status=RESOLVED">Resolved</a>
+          </TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {/* Dispute Queue */}
+      {result.success && result.data && result.data.length > 0 ? (
+        <div className="space-y-4">
+          {result.data.map((dispute) => (
+            <DisputeCard key={dispute.id} dispute={dispute} />
+          ))}
+        </div>
+      ) : (
+        <Card className="p-6">
+          <div className="text-center py-12 text-muted-foreground">
+            {result.error || (status === 'OPEN' ? 'No open disputes' : 'No resolved disputes yet')}
+          </div>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -1,9 +1,13 @@
 'use server'
 
 import { revalidatePath } from 'next/cache'
+import { after } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { requireAdmin } from '@/lib/auth-helpers'
 import { createAuditLog } from '@/lib/audit-log'
+import { publishRealtimeEvent } from '@/lib/realtime/publisher'
+import { notify } from '@/lib/notifications/service'
+import { notifyWatchers } from '@/lib/watchlist/service'
 import { ListingStatus, ListingCategory, PricingType, Prisma } from '@prisma/client'
 import { z } from 'zod'
 
@@ -297,6 +301,13 @@ export async function approveListing(
       },
     })
 
+    await publishRealtimeEvent([updatedListing.seller.id], 'listing.moderated', {
+      listingId,
+      title: listing.title,
+      status: ListingStatus.APPROVED,
+    })
+    await notify(updatedListing.seller.id, 'LISTING_APPROVED', { listingId, title: listing.title })
+
     // Revalidate admin pages
     revalidatePath('/admin/listings')
     revalidatePath('/admin')
@@ -401,6 +412,17 @@ export async function rejectListing(
       },
     })
 
+    await publishRealtimeEvent([updatedListing.seller.id], 'listing.moderated', {
+      listingId,
+      title: listing.title,
+      status: ListingStatus.REJECTED,
+    })
+    await notify(updatedListing.seller.id, 'LISTING_REJECTED', {
+      listingId,
+      title: listing.title,
+      reason,
+    })
+
     // Revalidate admin pages
     revalidatePath('/admin/listings')
     revalidatePath('/admin')
@@ -489,6 +511,8 @@ export async function adminPauseListing(
       },
     })
 
+    after(() => notifyWatchers(listingId, 'WATCHED_LISTING_PAUSED', { listingId, title: listing.title }))
+
     // Revalidate admin pages
     revalidatePath('/admin/listings')
     revalidatePath('/admin')
@@ -0,0 +1,191 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import type { MessageScanAction, MessageStatus } from '@prisma/client'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { createAuditLog } from '@/lib/audit-log'
+import { moderateMessage, MESSAGE_MODERATION_AUDIT_ACTIONS } from '@/lib/messaging/moderation'
+import { publishRealtimeEvent } from '@/lib/realtime/publisher'
+import { notify } from '@/lib/notifications/service'
+import { toMessagePreview } from '@/lib/notifications/kinds'
+import {
+  messageModerationSchema,
+  type MessageModerationFormData,
+} from '@/lib/validations/message'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type ActionResult<T = unknown> = {
+  success: boolean
+  data?: T
+  error?: string
+}
+
+export type FlaggedMessageRow = {
+  id: string
+  senderId: string
+  senderName: string
+  /** What the sender wrote, before masking */
+  body: string
+  createdAt: Date
+  status: MessageStatus
+  scanAction: MessageScanAction
+  scanRules: string[]
+}
+
+export type FlaggedConversationRow = {
+  id: string
+  listing: { id: string; title: string; primaryImage: string }
+  buyer: { id: string; name: string; email: string }
+  seller: { id: string; name: string; email: string }
+  /** Flagged messages not yet reviewed, oldest first */
+  messages: FlaggedMessageRow[]
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Validate admin session
+ */
+const validateAdmin = async () => {
+  const session = await auth()
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return { error: 'Unauthorized', user: null }
+  }
+  return { user: session.user, error: null }
+}
+
+// ============================================================================
+// SERVER ACTIONS
+// ============================================================================
+
+/**
+ * Get conversations with flagged messages waiting for review
+ * Conversations holding messages come first, then oldest flag first
+ */
+export const getFlaggedConversations = async (): Promise<ActionResult<FlaggedConversationRow[]>> => {
+  try {
+    const { error } = await validateAdmin()
+    if (error) {
+      return { success: false, error }
+    }
+
+    const messages = await prisma.message.findMany({
+      where: { scanAction: { not: 'NONE' }, reviewedAt: null, status: { not: 'BLOCKED' } },
+      include: {
+        sender: { select: { name: true } },
+        conversation: {
+          include: {
+            listing: { select: { id: true, title: true, primaryImage: true } },
+            buyer: { select: { id: true, name: true, email: true } },
+            seller: { select: { id: true, name: true, email: true } },
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: 200,
+    })
+
+    const conversations = new Map<string, FlaggedConversationRow>()
+    for (const message of messages) {
+      const { conversation } = message
+      const row = conversations.get(conversation.id) ?? {
+        id: conversation.id,
+        listing: conversation.listing,
+        buyer: conversation.buyer,
+        seller: conversation.seller,
+        messages: [],
+      }
+      row.messages.push({
+        id: message.id,
+        senderId: message.senderId,
+        senderName: message.sender.name,
+        body: message.originalBody ?? message.body,
+        createdAt: message.createdAt,
+        status: message.status,
+        scanAction: message.scanAction,
+        scanRules: message.scanRules,
+      })
+      conversations.set(conversation.id, row)
+    }
+
+    const isHolding = (row: FlaggedConversationRow) =>
+      row.messages.some((message) => message.status === 'HELD')
+
+    // Map iteration keeps the oldest-flag-first order within each group
+    const rows = [...conversations.values()]
+    return { success: true, data: [...rows.filter(isHolding), ...rows.filter((row) => !isHolding(row))] }
+  } catch (error) {
+    console.error('Get flagged conversations error:', error)
+    return { success: false, error: 'Failed to fetch flagged messages' }
+  }
+}
+
+/**
+ * Release or block a held message, or dismiss the flags on a delivered one
+ * Records the decision in the audit log
+ */
+export const updateMessageModeration = async (
+  formData: MessageModerationFormData
+): Promise<ActionResult> => {
+  try {
+    const { user, error } = await validateAdmin()
+    if (error || !user) {
+      return { success: false, error: error || 'Unauthorized' }
+    }
+
+    const validation = messageModerationSchema.safeParse(formData)
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0]?.message || 'Invalid decision' }
+    }
+
+    const { messageId, action } = validation.data
+
+    const result = await prisma.$transaction((tx) =>
+      moderateMessage(tx, { messageId, action, moderatorId: user.id! }, new Date())
+    )
+
+    if ('error' in result) {
+      return { success: false, error: result.error }
+    }
+
+    await createAuditLog({
+      userId: user.id!,
+      action: MESSAGE_MODERATION_AUDIT_ACTIONS[action],
+      targetType: 'MESSAGE',
+      targetId: messageId,
+      details: { conversationId: result.conversationId, status: result.status },
+    })
+
+    revalidatePath('/admin/messages')
+    revalidatePath(`/account/messages/${result.conversationId}`)
+    revalidatePath('/account/messages')
+
+    if (action === 'RELEASE') {
+      const message = await prisma.message.findUniqueOrThrow({
+        where: { id: messageId },
+        select: { body: true, sender: { select: { name: true } } },
+      })
+
+      await publishRealtimeEvent([result.recipientId], 'message.created', {
+        conversationId: result.conversationId,
+        messageId,
+      })
+      await notify(result.recipientId, 'MESSAGE_RECEIVED', {
+        conversationId: result.conversationId,
+        senderName: message.sender.name,
+        preview: toMessagePreview(message.body),
+      })
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Moderate message error:', error)
+    return { success: false, error: 'Failed to update message' }
+  }
+}
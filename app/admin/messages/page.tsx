@@ -0,0 +1,42 @@
+import { requireAdmin } from '@/lib/auth-helpers'
+import { getFlaggedConversations } from './actions'
+import { FlaggedConversationCard } from '@/components/admin/flagged-conversation-card'
+import { Card } from '@/components/ui/card'
+
+export const metadata = {
+  title: 'Flagged Messages | Admin',
+  description: 'Review messages flagged by the scam scan',
+}
+
+export default async function FlaggedMessagesPage() {
+  await requireAdmin()
+
+  const result = await getFlaggedConversations()
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Flagged Messages</h1>
+        <p className="text-muted-foreground mt-1">
+          Held messages reach the recipient only once released. Matched text is highlighted.
+        </p>
+      </div>
+
+      {/* Flag Queue */}
+      {result.success && result.data && result.data.length > 0 ? (
+        <div className="space-y-4">
+          {result.data.map((conversation) => (
+            <FlaggedConversationCard key={conversation.id} conversation={conversation} />
+          ))}
+        </div>
+      ) : (
+        <Card className="p-6">
+          <div className="text-center py-12 text-muted-foreground">
+            {result.error || 'No flagged messages'}
+          </div>
+        </Card>
+      )}
+    </div>
+  )
+}
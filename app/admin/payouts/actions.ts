@@ -0,0 +1,195 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import type { PayoutBatchStatus } from '@prisma/client'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { createAuditLog } from '@/lib/audit-log'
+import { createPayoutBatch, getPayoutSelection } from '@/lib/payouts/batches'
+import { getLedgerDiscrepancies, type LedgerDiscrepancy } from '@/lib/payouts/reconcile'
+import { payoutBatchSchema, type PayoutBatchFormData } from '@/lib/validations/payout'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type ActionResult<T = unknown> = {
+  success: boolean
+  data?: T
+  error?: string
+}
+
+export type PayoutBatchRow = {
+  id: string
+  status: PayoutBatchStatus
+  totalAmount: number
+  payoutCount: number
+  createdByName: string | null
+  createdAt: Date
+  exportedAt: Date | null
+  paidAt: Date | null
+}
+
+export type PayoutOverview = {
+  batches: PayoutBatchRow[]
+  /** What a batch created now would pay */
+  next: { payoutCount: number; totalAmount: number }
+  /** Sellers owed a payout who have not added a bank account */
+  missingBankAccount: { sellerId: string; name: string; email: string; balance: number }[]
+  reconciliation: { checked: number; discrepancies: LedgerDiscrepancy[] }
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Validate admin session
+ */
+const validateAdmin = async () => {
+  const session = await auth()
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return { error: 'Unauthorized', user: null }
+  }
+  return { user: session.user, error: null }
+}
+
+// ============================================================================
+// SERVER ACTIONS
+// ============================================================================
+
+/**
+ * Get payout batches, the next batch preview and the ledger reconciliation
+ */
+export const getPayoutOverview = async (): Promise<ActionResult<PayoutOverview>> => {
+  try {
+    const { error } = await validateAdmin()
+    if (error) {
+      return { success: false, error }
+    }
+
+    const [batches, selection, reconciliation] = await Promise.all([
+      prisma.payoutBatch.findMany({
+        include: {
+          createdBy: { select: { name: true } },
+          _count: { select: { payouts: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: 50,
+      }),
+      getPayoutSelection(prisma),
+      getLedgerDiscrepancies(),
+    ])
+
+    const sellers = await prisma.user.findMany({
+      where: { id: { in: selection.missingBankAccount.map((entry) => entry.sellerId) } },
+      select: { id: true, name: true, email: true },
+    })
+    const sellersById = new Map(sellers.map((seller) => [seller.id, seller]))
+
+    return {
+      success: true,
+      data: {
+        batches: batches.map((batch) => ({
+          id: batch.id,
+          status: batch.status,
+          totalAmount: batch.totalAmount.toNumber(),
+          payoutCount: batch._count.payouts,
+          createdByName: batch.createdBy?.name ?? null,
+          createdAt: batch.createdAt,
+          exportedAt: batch.exportedAt,
+          paidAt: batch.paidAt,
+        })),
+        next: {
+          payoutCount: selection.payable.length,
+          totalAmount: selection.payable.reduce((sum, payout) => sum + payout.amount, 0),
+        },
+        missingBankAccount: selection.missingBankAccount.map((entry) => ({
+          sellerId: entry.sellerId,
+          name: sellersById.get(entry.sellerId)?.name ?? 'Unknown',
+          email: sellersById.get(entry.sellerId)?.email ?? '',
+          balance: entry.balance,
+        })),
+        reconciliation,
+      },
+    }
+  } catch (error) {
+    console.error('Get payout overview error:', error)
+    return { success: false, error: 'Failed to fetch payouts' }
+  }
+}
+
+/**
+ * Create a payout batch for every payable seller balance
+ */
+export const createBatch = async (): Promise<ActionResult<{ batchId: string }>> => {
+  try {
+    const { user, error } = await validateAdmin()
+    if (error || !user) {
+      return { success: false, error: error || 'Unauthorized' }
+    }
+
+    const batch = await prisma.$transaction((tx) => createPayoutBatch(tx, user.id!, new Date()))
+
+    if (!batch) {
+      return { success: false, error: 'No seller balances are ready to pay out' }
+    }
+
+    await createAuditLog({
+      userId: user.id!,
+      action: 'CREATE_PAYOUT_BATCH',
+      targetType: 'PAYOUT_BATCH',
+      targetId: batch.batchId,
+      details: { payoutCount: batch.payoutCount, totalAmount: batch.totalAmount },
+    })
+
+    revalidatePath('/admin/payouts')
+
+    return { success: true, data: { batchId: batch.batchId } }
+  } catch (error) {
+    console.error('Create payout batch error:', error)
+    return { success: false, error: 'Failed to create payout batch' }
+  }
+}
+
+/**
+ * Mark a batch as paid once the bank has processed it
+ */
+export const markBatchPaid = async (formData: PayoutBatchFormData): Promise<ActionResult> => {
+  try {
+    const { user, error } = await validateAdmin()
+    if (error || !user) {
+      return { success: false, error: error || 'Unauthorized' }
+    }
+
+    const validation = payoutBatchSchema.safeParse(formData)
+    if (!validation.success) {
+      return { success: false, error: 'Invalid batch ID' }
+    }
+
+    const { batchId } = validation.data
+
+    const { count } = await prisma.payoutBatch.updateMany({
+      where: { id: batchId, status: 'PENDING', exportedAt: { not: null } },
+      data: { status: 'PAID', paidAt: new Date() },
+    })
+
+    if (count === 0) {
+      return { success: false, error: 'Only exported batches awaiting payment can be marked as paid' }
+    }
+
+    await createAuditLog({
+      userId: user.id!,
+      action: 'MARK_PAYOUT_BATCH_PAID',
+      targetType: 'PAYOUT_BATCH',
+      targetId: batchId,
+    })
+
+    revalidatePath('/admin/payouts')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Mark payout batch paid error:', error)
+    return { success: false, error: 'Failed to update payout batch' }
+  }
+}
@@ -0,0 +1,97 @@
+import { AlertTriangle, CheckCircle2 } from 'lucide-react'
+import { requireAdmin } from '@/lib/auth-helpers'
+import { getPayoutOverview } from './actions'
+import { CreatePayoutBatchButton } from '@/components/admin/create-payout-batch-button'
+import { PayoutBatchRow } from '@/components/admin/payout-batch-row'
+import { formatZAR } from '@/lib/constants/categories'
+import { MIN_PAYOUT_AMOUNT } from '@/lib/payouts/batches'
+import { Card } from '@/components/ui/card'
+
+export const metadata = {
+  title: 'Payouts | Admin',
+  description: 'Pay sellers their ledger balances',
+}
+
+export default async function AdminPayoutsPage() {
+  await requireAdmin()
+
+  const result = await getPayoutOverview()
+
+  if (!result.success || !result.data) {
+    return (
+      <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-6 text-center">
+        <p className="text-sm text-destructive">{result.error || 'Failed to load payouts'}</p>
+      </div>
+    )
+  }
+
+  const { batches, next, missingBankAccount, reconciliation } = result.data
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Payouts</h1>
+          <p className="text-muted-foreground mt-1">
+            {next.payoutCount > 0
+              ? `${next.payoutCount} seller balance${next.payoutCount === 1 ? '' : 's'} totalling ${formatZAR(next.totalAmount)} ready to pay out`
+              : `No balances of ${formatZAR(MIN_PAYOUT_AMOUNT)} or more are ready to pay out`}
+          </p>
+        </div>
+        <CreatePayoutBatchButton payoutCount={next.payoutCount} totalAmount={next.totalAmount} />
+      </div>
+
+      {/* Reconciliation */}
+      {reconciliation.discrepancies.length === 0 ? (
+        <Card className="p-4 flex items-center gap-2 text-sm">
+          <CheckCircle2 className="w-4 h-4 text-emerald-600" aria-hidden="true" />
+          Ledger reconciles with all {reconciliation.checked} settled transactions
+        </Card>
+      ) : (
+        <Card className="p-4 space-y-2 border-destructive/50">
+          <p className="flex items-center gap-2 text-sm font-medium text-destructive">
+            <AlertTriangle className="w-4 h-4" aria-hidden="true" />
+            {reconciliation.discrepancies.length} transaction
+            {reconciliation.discrepancies.length === 1 ? '' : 's'} do not match the ledger
+          </p>
+          <ul className="text-sm text-muted-foreground space-y-1">
+            {reconciliation.discrepancies.map((discrepancy) => (
+              <li key={discrepancy.transactionId}>
+                #{discrepancy.transactionId.slice(0, 8).toUpperCase()} ({discrepancy.status}):
+                expected {formatZAR(discrepancy.expected)}, ledger {formatZAR(discrepancy.recorded)}
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+
+      {/* Sellers without bank details */}
+      {missingBankAccount.length > 0 && (
+        <Card className="p-4 space-y-2">
+          <p className="text-sm font-medium">Waiting for bank details</p>
+          <ul className="text-sm text-muted-foreground space-y-1">
+            {missingBankAccount.map((seller) => (
+              <li key={seller.sellerId}>
+                {seller.name} ({seller.email}) · {formatZAR(seller.balance)}
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+
+      {/* Batches */}
+      <Card className="p-6">
+        {batches.length > 0 ? (
+          <div className="space-y-2">
+            {batches.map((batch) => (
+              <PayoutBatchRow key={batch.id} batch={batch} />
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12 text-muted-foreground">No payout batches yet</div>
+        )}
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,195 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import type { ReviewReportReason, ReviewStatus } from '@prisma/client'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { createAuditLog } from '@/lib/audit-log'
+import { moderateReview, REVIEW_MODERATION_AUDIT_ACTIONS } from '@/lib/reviews/moderation'
+import {
+  reviewModerationSchema,
+  type ReviewModerationFormData,
+} from '@/lib/validations/review'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type ActionResult<T = unknown> = {
+  success: boolean
+  data?: T
+  error?: string
+}
+
+export type ReviewQueue = 'REPORTED' | 'HIDDEN'
+
+export type ReviewReportRow = {
+  id: string
+  reason: ReviewReportReason
+  details: string | null
+  createdAt: Date
+  reporter: { id: string; name: string }
+}
+
+export type ModeratedReviewRow = {
+  id: string
+  rating: number
+  comment: string | null
+  reply: string | null
+  status: ReviewStatus
+  createdAt: Date
+  moderatedAt: Date | null
+  moderatedByName: string | null
+  moderationNote: string | null
+  transactionId: string
+  listingTitle: string
+  reviewer: { id: string; name: string; email: string }
+  reviewee: { id: string; name: string; email: string }
+  /** Open reports only */
+  reports: ReviewReportRow[]
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Validate admin session
+ */
+const validateAdmin = async () => {
+  const session = await auth()
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return { error: 'Unauthorized', user: null }
+  }
+  return { user: session.user, error: null }
+}
+
+// ============================================================================
+// SERVER ACTIONS
+// ============================================================================
+
+/**
+ * Get the moderation queue
+ * Reported reviews have at least one open report and come oldest report first;
+ * hidden reviews come most recently moderated first
+ */
+export const getReviewQueue = async (
+  queue: ReviewQueue = 'REPORTED'
+): Promise<ActionResult<ModeratedReviewRow[]>> => {
+  try {
+    const { error } = await validateAdmin()
+    if (error) {
+      return { success: false, error }
+    }
+
+    const reviews = await prisma.review.findMany({
+      where:
+        queue === 'REPORTED'
+          ? { status: { not: 'REMOVED' }, reports: { some: { resolvedAt: null } } }
+          : { status: 'HIDDEN' },
+      include: {
+        reviewer: { select: { id: true, name: true, email: true } },
+        reviewee: { select: { id: true, name: true, email: true } },
+        moderatedBy: { select: { name: true } },
+        transaction: { select: { listing: { select: { title: true } } } },
+        reports: {
+          where: { resolvedAt: null },
+          include: { reporter: { select: { id: true, name: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+      orderBy: queue === 'REPORTED' ? { createdAt: 'asc' } : { moderatedAt: 'desc' },
+      take: 100,
+    })
+
+    const rows = reviews.map((review) => ({
+      id: review.id,
+      rating: review.rating,
+      comment: review.comment,
+      reply: review.reply,
+      status: review.status,
+      createdAt: review.createdAt,
+      moderatedAt: review.moderatedAt,
+      moderatedByName: review.moderatedBy?.name ?? null,
+      moderationNote: review.moderationNote,
+      transactionId: review.transactionId,
+      listingTitle: review.transaction.listing.title,
+      reviewer: review.reviewer,
+      reviewee: review.reviewee,
+      reports: review.reports.map((report) => ({
+        id: report.id,
+        reason: report.reason,
+        details: report.details,
+        createdAt: report.createdAt,
+        reporter: report.reporter,
+      })),
+    }))
+
+    if (queue === 'REPORTED') {
+      // Work the queue in the order reports came in
+      rows.sort((a, b) => a.reports[0].createdAt.getTime() - b.reports[0].createdAt.getTime())
+    }
+
+    return { success: true, data: rows }
+  } catch (error) {
+    console.error('Get review queue error:', error)
+    return { success: false, error: 'Failed to fetch reviews' }
+  }
+}
+
+/**
+ * Hide, remove, restore or dismiss the reports on a review
+ * Recomputes the reviewee's rating and records the decision in the audit log
+ */
+export const updateReviewModeration = async (
+  formData: ReviewModerationFormData
+): Promise<ActionResult> => {
+  try {
+    const { user, error } = await validateAdmin()
+    if (error || !user) {
+      return { success: false, error: error || 'Unauthorized' }
+    }
+
+    const validation = reviewModerationSchema.safeParse(formData)
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0]?.message || 'Invalid decision' }
+    }
+
+    const { reviewId, action, note } = validation.data
+
+    const result = await prisma.$transaction((tx) =>
+      moderateReview(tx, { reviewId, action, moderatorId: user.id!, note }, new Date())
+    )
+
+    if ('error' in result) {
+      return { success: false, error: result.error }
+    }
+
+    await createAuditLog({
+      userId: user.id!,
+      action: REVIEW_MODERATION_AUDIT_ACTIONS[action],
+      targetType: 'REVIEW',
+      targetId: reviewId,
+      details: {
+        previousStatus: result.previousStatus,
+        status: result.status,
+        resolvedReports: result.resolvedReports,
+        note,
+      },
+    })
+
+    const review = await prisma.review.findUniqueOrThrow({
+      where: { id: reviewId },
+      select: { transactionId: true },
+    })
+
+    revalidatePath('/admin/reviews')
+    revalidatePath(`/orders/${review.transactionId}`)
+    revalidatePath('/account/reviews')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Moderate review error:', error)
+    return { success: false, error: 'Failed to update review' }
+  }
+}
@@ -0,0 +1,62 @@
+import { requireAdmin } from '@/lib/auth-helpers'
+import { getReviewQueue, type ReviewQueue } from './actions'
+import { ReviewModerationCard } from '@/components/admin/review-moderation-card'
+import { Card } from '@/components/ui/card'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+
+export const metadata = {
+  title: 'Reviews | Admin',
+  description: 'Moderate reported reviews',
+}
+
+interface PageProps {
+  searchParams: Promise<{
+    queue?: string
+  }>
+}
+
+export default async function ReviewsModerationPage({ searchParams }: PageProps) {
+  await requireAdmin()
+
+  const params = await searchParams
+  const queue: ReviewQueue = params.queue === 'HIDDEN' ? 'HIDDEN' : 'REPORTED'
+  const result = await getReviewQueue(queue)
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Reviews</h1>
+        <p className="text-muted-foreground mt-1">
+          Hidden and removed reviews are left out of ratings and public profiles
+        </p>
+      </div>
+
+      <Tabs defaultValue={queue}>
+        <TabsList>
+          <TabsTrigger value="REPORTED" asChild>
+            <a href="/admin/reviews">Reported</a>
+          </TabsTrigger>
+          <TabsTrigger value="HIDDEN" asChild>
+            <a href="/admin/reviews?queue=HIDDEN">Hidden</a>
+          </TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {/* Review Queue */}
+      {result.success && result.data && result.data.length > 0 ? (
+        <div className="space-y-4">
+          {result.data.map((review) => (
+            <ReviewModerationCard key={review.id} review={review} />
+          ))}
+        </div>
+      ) : (
+        <Card className="p-6">
+          <div className="text-center py-12 text-muted-foreground">
+            {result.error || (queue === 'REPORTED' ? 'No reported reviews' : 'No hidden reviews')}
+          </div>
+        </Card>
+      )}
+    </div>
+  )
+}
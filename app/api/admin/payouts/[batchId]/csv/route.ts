@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { createAuditLog } from "@/lib/audit-log";
+import { toPayoutCsv } from "@/lib/payouts/csv";
+
+type RouteContext = {
+  params: Promise<{ batchId: string }>;
+};
+
+/**
+ * Download a payout batch as a CSV bank-upload file (admins only)
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user || session.user.role !== "ADMIN") {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { batchId } = await params;
+
+    const batch = await prisma.payoutBatch.findUnique({
+      where: { id: batchId },
+      include: { payouts: { orderBy: { createdAt: "asc" } } },
+    });
+
+    if (!batch) {
+      return NextResponse.json({ error: "Payout batch not found" }, { status: 404 });
+    }
+
+    const csv = toPayoutCsv(
+      batch.payouts.map((payout) => ({
+        accountHolder: payout.accountHolder,
+        bankName: payout.bankName,
+        branchCode: payout.branchCode,
+        accountNumber: payout.accountNumber,
+        accountType: payout.accountType,
+        amount: payout.amount.toNumber(),
+        reference: payout.reference,
+      }))
+    );
+
+    if (!batch.exportedAt) {
+      await prisma.payoutBatch.update({
+        where: { id: batchId },
+        data: { exportedAt: new Date() },
+      });
+    }
+
+    await createAuditLog({
+      userId: session.user.id!,
+      action: "EXPORT_DATA",
+      targetType: "PAYOUT_BATCH",
+      targetId: batchId,
+      details: { format: "csv", payoutCount: batch.payouts.length },
+    });
+
+    const filename = `payouts-${batch.createdAt.toISOString().slice(0, 10)}-${batchId.slice(0, 8)}.csv`;
+
+    return new NextResponse(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Payout export error:", error);
+    return NextResponse.json({ error: "Failed to export payout batch" }, { status: 500 });
+  }
+}
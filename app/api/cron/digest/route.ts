@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isCronAuthorized } from "@/lib/cron";
+import { sendDigests } from "@/lib/notifications/digest";
+
+// Never cache: every call sends the pending digests
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/cron/digest
+ * Emails every user their pending notification digest (see lib/notifications/digest.ts)
+ */
+export async function GET(request: NextRequest) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await sendDigests();
+
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error("Digest error:", error);
+    return NextResponse.json(
+      { error: "Digest run failed" },
+      { status: 500 }
+    );
+  }
+}
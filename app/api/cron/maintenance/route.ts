@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isCronAuthorized } from "@/lib/cron";
+import { runMaintenance } from "@/lib/maintenance/sweeper";
+
+// Never cache: every call is a maintenance pass
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/cron/maintenance
+ * Runs one maintenance pass (see lib/maintenance/sweeper.ts)
+ */
+export async function GET(request: NextRequest) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await runMaintenance();
+
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error("Maintenance error:", error);
+    return NextResponse.json(
+      { error: "Maintenance pass failed" },
+      { status: 500 }
+    );
+  }
+}
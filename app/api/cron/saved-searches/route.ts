@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isCronAuthorized } from "@/lib/cron";
+import { runSavedSearchAlerts } from "@/lib/saved-searches/alerts";
+
+// Never cache: every call checks for new matches
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/cron/saved-searches
+ * Alerts users to new listings matching their saved searches (see lib/saved-searches/alerts.ts)
+ */
+export async function GET(request: NextRequest) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const summary = await runSavedSearchAlerts();
+
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error("Saved search alerts error:", error);
+    return NextResponse.json(
+      { error: "Saved search alerts failed" },
+      { status: 500 }
+    );
+  }
+}
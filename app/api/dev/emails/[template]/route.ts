@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { EMAIL_TEMPLATES, isEmailTemplateId, renderEmailTemplate, type TemplateEmail } from "@/lib/email";
+
+type RouteContext = {
+  params: Promise<{ template: string }>;
+};
+
+/**
+ * GET /api/dev/emails/[template]?format=text
+ * Development only: renders a template with its sample data
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  if (process.env.NODE_ENV === "production") {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const { template } = await params;
+  if (!isEmailTemplateId(template)) {
+    return NextResponse.json({ error: "Unknown template" }, { status: 404 });
+  }
+
+  const email = renderEmailTemplate({
+    template,
+    data: EMAIL_TEMPLATES[template].sample,
+  } as TemplateEmail);
+
+  if (request.nextUrl.searchParams.get("format") === "text") {
+    return new NextResponse(`Subject: ${email.subject}\n\n${email.text}`, {
+      headers: { "Content-Type": "text/plain; charset=utf-8" },
+    });
+  }
+
+  return new NextResponse(email.html, {
+    headers: { "Content-Type": "text/html; charset=utf-8" },
+  });
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { EMAIL_TEMPLATES } from "@/lib/email";
+import { escapeHtml } from "@/lib/email/layout";
+
+/**
+ * GET /api/dev/emails
+ * Development only: lists every email template with links to its preview
+ */
+export async function GET() {
+  if (process.env.NODE_ENV === "production") {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const rows = Object.entries(EMAIL_TEMPLATES).map(
+    ([id, template]) => `
+      <li style="margin-bottom: 12px;">
+        <strong>${escapeHtml(id)}</strong>
+        (<a href="/api/dev/emails/${id}">HTML</a> · <a href="/api/dev/emails/${id}?format=text">text</a>)
+        <br><span style="color: #666;">${escapeHtml(template.description)}</span>
+      </li>`
+  );
+
+  return new NextResponse(
+    `<!DOCTYPE html>
+<html>
+  <head><meta charset="utf-8"><title>Email templates</title></head>
+  <body style="font-family: Arial, sans-serif; max-width: 720px; margin: 0 auto; padding: 20px;">
+    <h1>Email templates</h1>
+    <ul style="padding-left: 20px;">${rows.join("")}
+    </ul>
+  </body>
+</html>
+`,
+    { headers: { "Content-Type": "text/html; charset=utf-8" } }
+  );
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { getRealtimePublisher } from "@/lib/realtime/publisher";
+import { formatSseEvent, formatSseRetry, SSE_HEARTBEAT } from "@/lib/realtime/sse";
+
+// Streams stay open; subscribers live in this process's memory
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+/**
+ * GET /api/events
+ * Streams the signed-in user's realtime events (see lib/realtime/events.ts)
+ *
+ * Browsers resend the last event ID in the Last-Event-ID header when they
+ * reconnect; clients opening a fresh EventSource pass it as ?lastEventId=.
+ */
+export async function GET(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const userId = session.user.id;
+  const lastEventId =
+    request.headers.get("last-event-id") ?? request.nextUrl.searchParams.get("lastEventId");
+
+  const encoder = new TextEncoder();
+  let close = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const send = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // The client went away between the check and the write
+          close();
+        }
+      };
+
+      send(formatSseRetry());
+
+      const unsubscribe = getRealtimePublisher().subscribe(
+        userId,
+        (event) => send(formatSseEvent(event)),
+        { lastEventId }
+      );
+      const heartbeat = setInterval(() => send(SSE_HEARTBEAT), HEARTBEAT_INTERVAL_MS);
+
+      close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the runtime
+        }
+      };
+
+      request.signal.addEventListener("abort", () => close());
+    },
+    cancel() {
+      close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Stop nginx from buffering the stream
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { TaxDocumentType } from "@prisma/client";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { getCompanyDetails } from "@/lib/documents/company";
+import { buildTaxDocument } from "@/lib/documents/content";
+import { canIssueTaxDocument, issueTaxDocument } from "@/lib/documents/numbering";
+import { fetchDocumentImage, renderTaxDocumentPdf } from "@/lib/documents/pdf";
+
+// pdfkit reads its font metrics from disk
+export const runtime = "nodejs";
+
+type RouteContext = {
+  params: Promise<{ id: string; type: string }>;
+};
+
+// URL segment per document, and which side of the sale may download it
+const DOCUMENTS: Record<string, { type: TaxDocumentType; party: "buyerId" | "sellerId" }> = {
+  receipt: { type: "RECEIPT", party: "buyerId" },
+  invoice: { type: "COMMISSION_INVOICE", party: "sellerId" },
+};
+
+/**
+ * Download the buyer's receipt or the seller's commission tax invoice as a PDF
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id, type: slug } = await params;
+    const document = DOCUMENTS[slug];
+    if (!document) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    const transaction = await prisma.transaction.findUnique({
+      where: { id },
+      include: {
+        listing: { select: { title: true, primaryImage: true } },
+        buyer: { select: { name: true, email: true } },
+        seller: { select: { name: true, email: true } },
+      },
+    });
+
+    const isAdmin = session.user.role === "ADMIN";
+    if (!transaction || (transaction[document.party] !== session.user.id && !isAdmin)) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    }
+
+    const amounts = {
+      amount: transaction.amount.toNumber(),
+      commission: transaction.commission.toNumber(),
+      commissionRate: transaction.commissionRate.toNumber(),
+      netAmount: transaction.netAmount.toNumber(),
+      refundedAmount: transaction.refundedAmount.toNumber(),
+    };
+
+    if (!canIssueTaxDocument(document.type, { ...transaction, commission: amounts.commission })) {
+      return NextResponse.json(
+        { error: "This document is not available for the order yet" },
+        { status: 409 }
+      );
+    }
+
+    const issued = await issueTaxDocument(transaction.id, document.type);
+
+    const content = buildTaxDocument({
+      type: document.type,
+      number: issued.number,
+      issuedAt: issued.issuedAt,
+      company: getCompanyDetails(),
+      transaction: { ...transaction, ...amounts },
+    });
+
+    const image = await fetchDocumentImage(transaction.listing.primaryImage);
+    const pdf = await renderTaxDocumentPdf(content, image);
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${content.number}.pdf"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Order document error:", error);
+    return NextResponse.json({ error: "Failed to generate document" }, { status: 500 });
+  }
+}
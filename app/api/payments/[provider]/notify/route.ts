@@ -0,0 +1,57 @@
+import { after, NextRequest, NextResponse } from "next/server";
+import { PaymentError, PAYMENT_ERROR_CODES } from "@/lib/payments/errors";
+import { parseProviderSlug } from "@/lib/payments/gateway";
+import { handlePaymentNotification } from "@/lib/payments/service";
+import { notifyWatchersOfSale } from "@/lib/watchlist/service";
+
+// Never cache: every call is a provider notification
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ provider: string }>;
+};
+
+/**
+ * POST /api/payments/[provider]/notify
+ * Signed payment notification from a provider (see lib/payments)
+ *
+ * Returns 200 once the notification is processed or was already processed,
+ * so providers stop redelivering it; 400 when it fails verification.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const provider = parseProviderSlug((await params).provider);
+  if (!provider) {
+    return NextResponse.json({ error: "Unknown payment provider" }, { status: 404 });
+  }
+
+  // Signatures cover the exact bytes sent, so read the body unparsed
+  const rawBody = await request.text();
+
+  try {
+    const { soldTransactionId, ...result } = await handlePaymentNotification(
+      provider,
+      rawBody,
+      request.headers
+    );
+
+    // After responding, so the provider never waits on (or redelivers for) watcher emails
+    if (soldTransactionId) {
+      after(() => notifyWatchersOfSale(soldTransactionId));
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      console.warn(`Rejected ${provider} payment notification:`, error.message);
+
+      const status = error.code === PAYMENT_ERROR_CODES.NOT_CONFIGURED ? 503 : 400;
+      return NextResponse.json({ error: error.message }, { status });
+    }
+
+    console.error("Payment notification error:", error);
+    return NextResponse.json(
+      { error: "Failed to process payment notification" },
+      { status: 500 }
+    );
+  }
+}
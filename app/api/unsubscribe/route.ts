@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { applyUnsubscribeToken } from "@/lib/notifications/unsubscribe";
+
+/**
+ * POST /api/unsubscribe?token=...
+ * One-click unsubscribe (RFC 8058): mail clients POST here from the
+ * List-Unsubscribe header, without a session
+ */
+export async function POST(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get("token") ?? "";
+
+  try {
+    const scope = await prisma.$transaction((tx) => applyUnsubscribeToken(tx, token));
+
+    if (!scope) {
+      return NextResponse.json({ error: "Invalid unsubscribe link" }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("One-click unsubscribe error:", error);
+    return NextResponse.json(
+      { error: "Failed to unsubscribe" },
+      { status: 500 }
+    );
+  }
+}
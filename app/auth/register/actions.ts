@@ -5,10 +5,7 @@ import { prisma } from "@/lib/prisma";
 import { hashPassword } from "@/lib/password";
 import { registerSchema } from "@/lib/validations/auth";
 import { createVerificationToken } from "@/lib/tokens";
-import {
-  sendEmail,
-  getVerificationEmailHtml,
-} from "@/lib/email";
+import { sendTemplateEmail } from "@/lib/email";
 
 type ActionResponse = {
   success: boolean;
@@ -59,10 +56,9 @@ export const registerUser = async (
 
     // Send verification email
     try {
-      await sendEmail({
-        to: user.email,
-        subject: "Verify Your Email - LOTOSALE",
-        html: getVerificationEmailHtml(verificationUrl, user.name),
+      await sendTemplateEmail(user.email, {
+        template: "verify-email",
+        data: { name: user.name, url: verificationUrl },
       });
     } catch (emailError) {
       console.error("Failed to send verification email:", emailError);
@@ -12,7 +12,7 @@ import {
   verifyPasswordResetToken,
   deletePasswordResetToken,
 } from "@/lib/tokens";
-import { sendEmail, getPasswordResetEmailHtml } from "@/lib/email";
+import { sendTemplateEmail } from "@/lib/email";
 
 type ActionResponse = {
   success: boolean;
@@ -52,10 +52,9 @@ export const sendResetEmail = async (
 
     // Send reset email
     try {
-      await sendEmail({
-        to: user.email,
-        subject: "Reset Your Password - LOTOSALE",
-        html: getPasswordResetEmailHtml(resetUrl, user.name),
+      await sendTemplateEmail(user.email, {
+        template: "password-reset",
+        data: { name: user.name, url: resetUrl },
       });
     } catch (emailError) {
       console.error("Failed to send reset email:", emailError);
@@ -0,0 +1,146 @@
+import Link from 'next/link'
+import Image from 'next/image'
+import { notFound, redirect } from 'next/navigation'
+import { AlertCircle, MapPin } from 'lucide-react'
+import { requireAuth } from '@/lib/auth-helpers'
+import { prisma } from '@/lib/prisma'
+import { getAcceptedOfferForBuyer } from '@/lib/prisma-queries'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Separator } from '@/components/ui/separator'
+import { ConfirmPurchaseButton } from '@/components/checkout/confirm-purchase-button'
+import { formatZAR } from '@/lib/constants/categories'
+import { resolveCheckoutPrice } from '@/lib/checkout/eligibility'
+import { CheckoutError } from '@/lib/checkout/errors'
+import { getSquareUrl } from '@/lib/cloudinary-utils'
+
+type PageProps = {
+  params: Promise<{ listingId: string }>
+}
+
+export default async function CheckoutPage({ params }: PageProps) {
+  const session = await requireAuth()
+  const { listingId } = await params
+
+  const listing = await prisma.listing.findUnique({
+    where: { id: listingId },
+    select: {
+      id: true,
+      title: true,
+      primaryImage: true,
+      sellerId: true,
+      status: true,
+      pricingType: true,
+      price: true,
+      city: true,
+      province: true,
+      seller: {
+        select: { name: true },
+      },
+    },
+  })
+
+  if (!listing) {
+    notFound()
+  }
+
+  // A checkout already awaiting payment is finished from its order page
+  const pendingOrder = await prisma.transaction.findFirst({
+    where: { listingId, buyerId: session.user.id, status: 'PENDING' },
+    select: { id: true },
+  })
+
+  if (pendingOrder) {
+    redirect(`/orders/${pendingOrder.id}`)
+  }
+
+  const acceptedOffer = await getAcceptedOfferForBuyer(listingId, session.user.id)
+
+  // Same rules createTransaction applies; shown here so the buyer knows before confirming
+  let amount: number | null = null
+  let unavailableReason: string | null = null
+  try {
+    amount = resolveCheckoutPrice(
+      {
+        sellerId: listing.sellerId,
+        status: listing.status,
+        pricingType: listing.pricingType,
+        price: listing.price ? listing.price.toNumber() : null,
+      },
+      session.user.id,
+      acceptedOffer ? (acceptedOffer.agreedAmount ?? acceptedOffer.amount).toNumber() : null
+    )
+  } catch (error) {
+    if (!(error instanceof CheckoutError)) throw error
+    unavailableReason = error.message
+  }
+
+  return (
+    <div className="container max-w-2xl mx-auto py-8 px-4">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2">Checkout</h1>
+        <p className="text-muted-foreground">Review your purchase before confirming</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Order Summary</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex items-start gap-4">
+            <div className="relative w-20 h-20 flex-shrink-0 rounded-lg overflow-hidden bg-muted">
+              <Image
+                src={getSquareUrl(listing.primaryImage)}
+                alt={listing.title}
+                fill
+                className="object-cover"
+                sizes="80px"
+              />
+            </div>
+            <div className="flex-1 min-w-0 space-y-1">
+              <Link href={`/listings/${listing.id}`} className="font-semibold hover:underline line-clamp-2">
+                {listing.title}
+              </Link>
+              <p className="text-sm text-muted-foreground">Sold by {listing.seller.name}</p>
+              <p className="text-sm text-muted-foreground flex items-center gap-1">
+                <MapPin className="w-3.5 h-3.5" aria-hidden="true" />
+                {listing.city}, {listing.province}
+              </p>
+            </div>
+          </div>
+
+          <Separator />
+
+          {amount !== null ? (
+            <>
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    {listing.pricingType === 'OFFERS' ? 'Agreed price' : 'Price'}
+                  </span>
+                  <span>{formatZAR(amount)}</span>
+                </div>
+                <div className="flex justify-between font-semibold text-lg">
+                  <span>Total</span>
+                  <span>{formatZAR(amount)}</span>
+                </div>
+              </div>
+
+              <ConfirmPurchaseButton listingId={listing.id} amount={amount} />
+            </>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex items-start gap-2 rounded-lg border border-destructive/50 p-4 text-sm">
+                <AlertCircle className="w-4 h-4 mt-0.5 text-destructive flex-shrink-0" aria-hidden="true" />
+                <p>{unavailableReason}</p>
+              </div>
+              <Button asChild variant="outline" className="w-full">
+                <Link href="/listings">Browse other listings</Link>
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,86 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { Prisma } from '@prisma/client'
+import { requireAuth } from '@/lib/auth-helpers'
+import { createTransaction } from '@/lib/prisma-queries'
+import { CheckoutError, createAlreadySoldError } from '@/lib/checkout/errors'
+import { startPayment } from '@/lib/payments/service'
+import { checkoutSchema, type CheckoutFormData } from '@/lib/validations/checkout'
+
+type ActionResult<T = unknown> = {
+  success: boolean
+  data?: T
+  error?: string
+}
+
+/**
+ * Buy a listing
+ * Requires authentication
+ *
+ * createTransaction re-checks the listing inside the database transaction and
+ * claims it, so when two buyers check out at once only one succeeds. The
+ * other gets an "already sold" error, whether it lost the claim or hit the
+ * unique index on active transactions per listing.
+ *
+ * The transaction starts PENDING and the buyer is sent to the payment
+ * gateway. If the payment cannot be started they land on the order page,
+ * where they can retry.
+ */
+export const checkout = async (
+  formData: CheckoutFormData
+): Promise<ActionResult<{ transactionId: string; redirectUrl: string }>> => {
+  try {
+    // Require authentication
+    const session = await requireAuth()
+
+    // Validate input
+    const validation = checkoutSchema.safeParse(formData)
+    if (!validation.success) {
+      return { success: false, error: 'Invalid listing ID' }
+    }
+
+    const { listingId } = validation.data
+
+    const transaction = await createTransaction({
+      listingId,
+      buyerId: session.user.id,
+    })
+
+    // Revalidate relevant pages
+    revalidatePath(`/listings/${listingId}`)
+    revalidatePath('/listings')
+    revalidatePath('/dashboard')
+
+    let redirectUrl = `/orders/${transaction.id}`
+    try {
+      redirectUrl = (await startPayment(transaction.id, session.user.id)).redirectUrl
+    } catch (error) {
+      console.error('Start payment error:', error)
+    }
+
+    return {
+      success: true,
+      data: { transactionId: transaction.id, redirectUrl },
+    }
+  } catch (error) {
+    if (error instanceof CheckoutError) {
+      return { success: false, error: error.message }
+    }
+
+    // Unique index on active transactions per listing: another purchase won the race
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002'
+    ) {
+      return { success: false, error: createAlreadySoldError().message }
+    }
+
+    console.error('Checkout error:', error)
+
+    return {
+      success: false,
+      error: 'Failed to complete your purchase. Please try again.',
+    }
+  }
+}
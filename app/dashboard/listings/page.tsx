@@ -1,6 +1,6 @@
 import { redirect } from 'next/navigation'
 import Link from 'next/link'
-import { Plus, Edit, Trash2, Pause, Play, Eye, Clock, CheckCircle, XCircle, ShoppingBag } from 'lucide-react'
+import { Plus, Edit, Trash2, Pause, Play, Eye, Heart, Clock, CheckCircle, XCircle, ShoppingBag } from 'lucide-react'
 import { requireAuth } from '@/lib/auth-helpers'
 import { prisma } from '@/lib/prisma'
 import { Button } from '@/components/ui/button'
@@ -22,6 +22,7 @@ type ListingCardProps = {
     pricingType: string
     status: ListingStatus
     views: number
+    watchers: number
     category: string
     condition: string
     createdAt: Date
@@ -85,6 +86,11 @@ const ListingCard = ({ listing }: ListingCardProps) => {
                 <Eye className="w-3 h-3" />
                 {listing.views} views
               </span>
+              <span>•</span>
+              <span className="flex items-center gap-1">
+                <Heart className="w-3 h-3" />
+                {listing.watchers} watching
+              </span>
             </div>
 
             <div className="flex items-center justify-between">
@@ -168,13 +174,15 @@ export default async function MyListingsPage() {
       category: true,
       condition: true,
       createdAt: true,
+      _count: { select: { watchers: true } },
     },
   })
 
   // Serialize listings for client
-  const listings = rawListings.map((listing) => ({
+  const listings = rawListings.map(({ _count, ...listing }) => ({
     ...listing,
     price: serializeDecimal(listing.price),
+    watchers: _count.watchers,
   }))
 
   // Group listings by status
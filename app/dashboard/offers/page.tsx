@@ -0,0 +1,172 @@
+import Link from 'next/link'
+import Image from 'next/image'
+import { HandCoins, Inbox, Star } from 'lucide-react'
+import { requireAuth } from '@/lib/auth-helpers'
+import { getOffersForSeller } from '@/lib/prisma-queries'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Separator } from '@/components/ui/separator'
+import { OfferCountdown } from '@/components/listings/offer-countdown'
+import { NegotiationTimeline } from '@/components/offers/negotiation-timeline'
+import { OfferResponseActions } from '@/components/offers/offer-response-actions'
+import { OfferStatusBadge } from '@/components/offers/offer-status-badge'
+import { RealtimeRefresh } from '@/components/realtime/realtime-refresh'
+import { formatZAR } from '@/lib/constants/categories'
+import { formatRelativeDate } from '@/lib/helpers/listing-helpers'
+import { isOfferExpired } from '@/lib/offers/eligibility'
+import { getSquareUrl } from '@/lib/cloudinary-utils'
+
+export default async function OffersInboxPage() {
+  const session = await requireAuth()
+
+  const listings = await getOffersForSeller(session.user.id)
+
+  // Offers past their expiry are shown as expired even before their status is updated
+  const groups = listings.map((listing) => ({
+    ...listing,
+    price: listing.price ? listing.price.toNumber() : null,
+    minOffer: listing.minOffer ? listing.minOffer.toNumber() : null,
+    hasRules: !!(listing.autoDeclineBelow || listing.autoCounterAt || listing.autoAcceptAt),
+    offers: listing.offers.map((offer) => ({
+      ...offer,
+      amount: offer.amount.toNumber(),
+      counterAmount: offer.counterAmount ? offer.counterAmount.toNumber() : null,
+      agreedAmount: offer.agreedAmount ? offer.agreedAmount.toNumber() : null,
+      moves: offer.moves.map((move) => ({
+        ...move,
+        amount: move.amount ? move.amount.toNumber() : null,
+      })),
+      displayStatus:
+        (offer.status === 'PENDING' || offer.status === 'COUNTERED') && isOfferExpired(offer)
+          ? ('EXPIRED' as const)
+          : offer.status,
+    })),
+  }))
+
+  const awaitingResponse = groups.reduce(
+    (count, listing) =>
+      count + listing.offers.filter((offer) => offer.displayStatus === 'PENDING').length,
+    0
+  )
+
+  return (
+    <div className="container max-w-5xl mx-auto py-8 px-4">
+      <RealtimeRefresh types={['offer.updated']} notify />
+
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-2">Offers Received</h1>
+        <p className="text-muted-foreground">
+          {awaitingResponse > 0
+            ? `${awaitingResponse} offer${awaitingResponse === 1 ? '' : 's'} awaiting your response`
+            : 'Respond to offers buyers have made on your listings'}
+        </p>
+      </div>
+
+      {groups.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12 text-center">
+          <Inbox className="w-12 h-12 text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold mb-2">No offers yet</h3>
+          <p className="text-sm text-muted-foreground max-w-md">
+            Offers on your listings will appear here. Listings priced as &quot;Accepting Offers&quot;
+            let buyers propose a price.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {groups.map((listing) => (
+            <Card key={listing.id}>
+              <CardHeader>
+                <div className="flex items-center gap-4">
+                  <div className="relative w-16 h-16 flex-shrink-0 rounded-lg overflow-hidden bg-muted">
+                    {listing.primaryImage && (
+                      <Image
+                        src={getSquareUrl(listing.primaryImage)}
+                        alt={listing.title}
+                        fill
+                        className="object-cover"
+                        sizes="64px"
+                      />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <CardTitle className="text-lg truncate">
+                      <Link href={`/listings/${listing.id}`} className="hover:underline">
+                        {listing.title}
+                      </Link>
+                    </CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      {listing.price !== null ? `Asking ${formatZAR(listing.price)}` : 'Accepting offers'}
+                      {' · '}
+                      {listing.offers.length} offer{listing.offers.length === 1 ? '' : 's'}
+                      {listing.pricingType === 'OFFERS' && (
+                        <>
+                          {' · '}
+                          <Link href={`/listings/${listing.id}/edit#offer-rules`} className="hover:underline">
+                            {listing.hasRules ? 'Offer rules on' : 'Set offer rules'}
+                          </Link>
+                        </>
+                      )}
+                    </p>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {listing.offers.map((offer, index) => (
+                  <div key={offer.id} className="space-y-3">
+                    {index > 0 && <Separator />}
+                    <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                      <div className="space-y-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <HandCoins className="w-4 h-4 text-muted-foreground" aria-hidden="true" />
+                          <span className="text-lg font-semibold">
+                            {formatZAR(offer.agreedAmount ?? offer.amount)}
+                          </span>
+                          <OfferStatusBadge status={offer.displayStatus} />
+                        </div>
+                        <p className="text-sm text-muted-foreground flex items-center gap-1">
+                          {offer.buyer.name}
+                          <Star className="w-3.5 h-3.5 fill-yellow-400 text-yellow-400" aria-hidden="true" />
+                          {offer.buyer.rating.toFixed(1)} ({offer.buyer.reviewCount})
+                          {' · '}
+                          {formatRelativeDate(offer.createdAt)}
+                        </p>
+                        <NegotiationTimeline
+                          moves={offer.moves}
+                          viewerParty="SELLER"
+                          counterpartyName={offer.buyer.name}
+                          className="mt-2"
+                        />
+                        {offer.displayStatus === 'COUNTERED' && (
+                          <p className="text-sm text-muted-foreground">Waiting for the buyer to respond</p>
+                        )}
+                        {(offer.displayStatus === 'PENDING' || offer.displayStatus === 'COUNTERED') && (
+                          <OfferCountdown expiresAt={offer.expiresAt} />
+                        )}
+                      </div>
+
+                      {offer.displayStatus === 'PENDING' && listing.status === 'APPROVED' && (
+                        <OfferResponseActions
+                          offer={{
+                            id: offer.id,
+                            status: offer.status,
+                            amount: offer.amount,
+                            counterAmount: offer.counterAmount,
+                            moveCount: offer.moveCount,
+                            expiresAt: offer.expiresAt,
+                          }}
+                          party="SELLER"
+                          listing={{ price: listing.price, minOffer: listing.minOffer }}
+                          counterpartyName={offer.buyer.name}
+                        />
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,15 +3,27 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import Link from "next/link";
-import { ShoppingBag, Package, Star, Settings, LogOut } from "lucide-react";
+import { ShoppingBag, Package, Star, Settings, LogOut, HandCoins, Wallet, MessageCircle, Search, Heart } from "lucide-react";
 import { signOut } from "@/auth";
+import { getSellerPayoutSummary } from "@/lib/payouts/ledger";
+import { formatZAR } from "@/lib/constants/categories";
+import { prisma } from "@/lib/prisma";
+import { getUnreadMessageCount } from "@/lib/prisma-queries";
+import { RealtimeRefresh } from "@/components/realtime/realtime-refresh";
 
 export default async function DashboardPage() {
   const session = await requireAuth();
   const user = session.user;
+  const [payouts, purchaseCount, unreadMessages] = await Promise.all([
+    getSellerPayoutSummary(user.id),
+    prisma.transaction.count({ where: { buyerId: user.id } }),
+    getUnreadMessageCount(user.id),
+  ]);
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <RealtimeRefresh types={["message.created", "listing.moderated"]} notify />
+
       {/* Header */}
       <header className="bg-white dark:bg-gray-800 shadow">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
@@ -99,7 +111,7 @@ export default async function DashboardPage() {
             </CardContent>
           </Card>
 
-          {/* Quick Stats - Placeholder */}
+          {/* Purchases */}
           <Card>
             <CardHeader>
               <CardTitle className="text-lg flex items-center gap-2">
@@ -109,7 +121,7 @@ export default async function DashboardPage() {
             </CardHeader>
             <CardContent>
               <div className="text-center py-8">
-                <p className="text-3xl font-bold">0</p>
+                <p className="text-3xl font-bold">{purchaseCount}</p>
                 <p className="text-sm text-muted-foreground mt-2">
                   Total purchases
                 </p>
@@ -120,6 +132,67 @@ export default async function DashboardPage() {
             </CardContent>
           </Card>
 
+          {/* Messages */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <MessageCircle className="h-5 w-5" />
+                Messages
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-center py-8">
+                <p className="text-3xl font-bold">{unreadMessages}</p>
+                <p className="text-sm text-muted-foreground mt-2">
+                  Unread messages
+                </p>
+              </div>
+              <Button asChild variant="outline" className="w-full">
+                <Link href="/account/messages">View Messages</Link>
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* Watchlist */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Heart className="h-5 w-5" />
+                Watchlist
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-center py-8">
+                <p className="text-sm text-muted-foreground">
+                  Listings you are watching for price drops
+                </p>
+              </div>
+              <Button asChild variant="outline" className="w-full">
+                <Link href="/account/watchlist">View Watchlist</Link>
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* Saved Searches */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Search className="h-5 w-5" />
+                Saved Searches
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-center py-8">
+                <p className="text-sm text-muted-foreground">
+                  Get notified when new listings match your searches
+                </p>
+              </div>
+              <Button asChild variant="outline" className="w-full">
+                <Link href="/account/searches">View Saved Searches</Link>
+              </Button>
+            </CardContent>
+          </Card>
+
           {/* Listings - Placeholder */}
           <Card>
             <CardHeader>
@@ -141,6 +214,47 @@ export default async function DashboardPage() {
             </CardContent>
           </Card>
 
+          {/* Offers Received */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <HandCoins className="h-5 w-5" />
+                Offers
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-center py-8">
+                <p className="text-sm text-muted-foreground">
+                  Accept, reject or counter offers buyers make on your listings
+                </p>
+              </div>
+              <Button asChild variant="outline" className="w-full">
+                <Link href="/dashboard/offers">View Offers</Link>
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* Payouts */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Wallet className="h-5 w-5" />
+                Payouts
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-center py-8">
+                <p className="text-3xl font-bold">{formatZAR(payouts.balance)}</p>
+                <p className="text-sm text-muted-foreground mt-2">
+                  Available · {formatZAR(payouts.pending)} pending
+                </p>
+              </div>
+              <Button asChild variant="outline" className="w-full">
+                <Link href="/dashboard/payouts">View Payouts</Link>
+              </Button>
+            </CardContent>
+          </Card>
+
           {/* Rating - Placeholder */}
           <Card>
             <CardHeader>
@@ -0,0 +1,42 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { requireAuth } from '@/lib/auth-helpers'
+import { prisma } from '@/lib/prisma'
+import { bankAccountSchema, type BankAccountFormData } from '@/lib/validations/payout'
+
+type ActionResult<T = unknown> = {
+  success: boolean
+  data?: T
+  error?: string
+}
+
+/**
+ * Save the seller's bank account for payouts
+ * Requires authentication
+ *
+ * Payouts already in a batch keep the details they were created with.
+ */
+export const saveBankAccount = async (formData: BankAccountFormData): Promise<ActionResult> => {
+  try {
+    const session = await requireAuth()
+
+    const validation = bankAccountSchema.safeParse(formData)
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0]?.message || 'Invalid bank account' }
+    }
+
+    await prisma.bankAccount.upsert({
+      where: { userId: session.user.id },
+      create: { userId: session.user.id, ...validation.data },
+      update: validation.data,
+    })
+
+    revalidatePath('/dashboard/payouts')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Save bank account error:', error)
+    return { success: false, error: 'Failed to save bank account. Please try again.' }
+  }
+}
@@ -0,0 +1,191 @@
+import Link from 'next/link'
+import { Clock, Landmark, Wallet } from 'lucide-react'
+import { requireAuth } from '@/lib/auth-helpers'
+import { prisma } from '@/lib/prisma'
+import { getSellerLedgerEntries, getSellerPayouts, getSellerPayoutSummary } from '@/lib/payouts/ledger'
+import { MIN_PAYOUT_AMOUNT } from '@/lib/payouts/batches'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { BankAccountForm } from '@/components/payouts/bank-account-form'
+import { formatZAR } from '@/lib/constants/categories'
+import { LEDGER_ENTRY_TYPE_LABELS, maskAccountNumber } from '@/lib/constants/payouts'
+import type { BankAccountFormData } from '@/lib/validations/payout'
+
+export const metadata = {
+  title: 'Payouts',
+  description: 'Your earnings, pending funds and payouts',
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-ZA', { year: 'numeric', month: 'short', day: 'numeric' })
+
+export default async function PayoutsPage() {
+  const session = await requireAuth()
+  const sellerId = session.user.id
+
+  const [summary, entries, payouts, bankAccount] = await Promise.all([
+    getSellerPayoutSummary(sellerId),
+    getSellerLedgerEntries(sellerId),
+    getSellerPayouts(sellerId),
+    prisma.bankAccount.findUnique({ where: { userId: sellerId } }),
+  ])
+
+  return (
+    <div className="container max-w-5xl mx-auto py-8 px-4 space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold mb-2">Payouts</h1>
+        <p className="text-muted-foreground">
+          Earnings are added when a buyer confirms receipt and paid out to your bank account in
+          regular batches once your balance reaches {formatZAR(MIN_PAYOUT_AMOUNT)}
+        </p>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription className="flex items-center gap-2">
+              <Wallet className="w-4 h-4" aria-hidden="true" />
+              Available balance
+            </CardDescription>
+            <CardTitle className="text-3xl">{formatZAR(summary.balance)}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-xs text-muted-foreground">Included in the next payout batch</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription className="flex items-center gap-2">
+              <Clock className="w-4 h-4" aria-hidden="true" />
+              Pending
+            </CardDescription>
+            <CardTitle className="text-3xl">{formatZAR(summary.pending)}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-xs text-muted-foreground">Held until buyers confirm receipt</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription className="flex items-center gap-2">
+              <Landmark className="w-4 h-4" aria-hidden="true" />
+              Paid out
+            </CardDescription>
+            <CardTitle className="text-3xl">{formatZAR(summary.paidOut)}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-xs text-muted-foreground">
+              {summary.processing > 0
+                ? `${formatZAR(summary.processing)} on its way to your bank`
+                : 'All time'}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Bank Account */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Bank account</CardTitle>
+          <CardDescription>
+            {bankAccount
+              ? `Payouts go to ${bankAccount.bankName} ${maskAccountNumber(bankAccount.accountNumber)}`
+              : 'Add a bank account to receive payouts'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <BankAccountForm
+            defaultValues={
+              bankAccount
+                ? {
+                    accountHolder: bankAccount.accountHolder,
+                    bankName: bankAccount.bankName as BankAccountFormData['bankName'],
+                    branchCode: bankAccount.branchCode,
+                    accountNumber: bankAccount.accountNumber,
+                    accountType: bankAccount.accountType,
+                  }
+                : undefined
+            }
+          />
+        </CardContent>
+      </Card>
+
+      {/* Payout History */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Payout history</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {payouts.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No payouts yet</p>
+          ) : (
+            <div className="divide-y">
+              {payouts.map((payout) => (
+                <div key={payout.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="min-w-0">
+                    <p className="font-medium">{formatZAR(payout.amount.toNumber())}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {formatDate(payout.createdAt)} · {payout.bankName}{' '}
+                      {maskAccountNumber(payout.accountNumber)} · {payout.reference}
+                    </p>
+                  </div>
+                  <Badge variant={payout.batch.status === 'PAID' ? 'default' : 'secondary'}>
+                    {payout.batch.status === 'PAID' ? 'Paid' : 'Processing'}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Ledger */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Activity</CardTitle>
+          <CardDescription>Every change to your balance</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              Completed sales will appear here
+            </p>
+          ) : (
+            <div className="divide-y">
+              {entries.map((entry) => {
+                const amount = entry.amount.toNumber()
+                return (
+                  <div key={entry.id} className="flex items-center justify-between gap-4 py-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium">
+                        {LEDGER_ENTRY_TYPE_LABELS[entry.type]}
+                        {entry.transaction && (
+                          <>
+                            {' · '}
+                            <Link href={`/orders/${entry.transaction.id}`} className="hover:underline">
+                              {entry.transaction.listing.title}
+                            </Link>
+                          </>
+                        )}
+                        {entry.payout && ` · ${entry.payout.reference}`}
+                      </p>
+                      <p className="text-xs text-muted-foreground">{formatDate(entry.createdAt)}</p>
+                    </div>
+                    <span
+                      className={amount >= 0 ? 'font-medium text-emerald-600' : 'font-medium'}
+                    >
+                      {amount >= 0 ? '+' : '-'}
+                      {formatZAR(Math.abs(amount))}
+                    </span>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 import { redirect, notFound } from 'next/navigation'
 import { requireAuth } from '@/lib/auth-helpers'
 import { prisma } from '@/lib/prisma'
+import { OfferRulesForm } from '@/components/offers/offer-rules-form'
 import { EditListingForm } from './edit-form'
 
 type PageProps = {
@@ -26,6 +27,9 @@ export default async function EditListingPage({ params }: PageProps) {
       pricingType: true,
       price: true,
       minOffer: true,
+      autoDeclineBelow: true,
+      autoCounterAt: true,
+      autoAcceptAt: true,
       city: true,
       province: true,
       status: true,
@@ -74,6 +78,21 @@ export default async function EditListingPage({ params }: PageProps) {
       </div>
 
       <EditListingForm listing={listingData as any} />
+
+      {listing.pricingType === 'OFFERS' && listing.sellerId === session.user.id && (
+        <div className="mt-8">
+          <OfferRulesForm
+            listingId={listing.id}
+            price={listingData.price ?? null}
+            minOffer={listingData.minOffer ?? null}
+            rules={{
+              autoDeclineBelow: listing.autoDeclineBelow ? listing.autoDeclineBelow.toNumber() : null,
+              autoCounterAt: listing.autoCounterAt ? listing.autoCounterAt.toNumber() : null,
+              autoAcceptAt: listing.autoAcceptAt ? listing.autoAcceptAt.toNumber() : null,
+            }}
+          />
+        </div>
+      )}
     </div>
   )
 }
@@ -20,7 +20,20 @@ import { formatZAR, getCategoryConfig, getConditionConfig } from '@/lib/constant
 import { ListingCard } from '@/components/listings/listing-card'
 import { ImageGalleryClient } from '@/components/listings/image-gallery-client'
 import { ShareButtonClient } from '@/components/listings/share-button-client'
+import { MakeOfferDialog } from '@/components/listings/make-offer-dialog'
+import { OfferCountdown } from '@/components/listings/offer-countdown'
+import { NegotiationTimeline } from '@/components/offers/negotiation-timeline'
+import { OfferResponseActions } from '@/components/offers/offer-response-actions'
+import { ContactSellerDialog } from '@/components/messages/contact-seller-dialog'
+import { WatchButton } from '@/components/watchlist/watch-button'
 import { getListingById, getListings } from '../actions'
+import {
+  getAcceptedOfferForBuyer,
+  getOpenOfferForBuyer,
+  getWatchedListingIds,
+  getWatcherCount,
+} from '@/lib/prisma-queries'
+import { auth } from '@/auth'
 import { deserializeDecimal, formatRelativeDate } from '@/lib/helpers/listing-helpers'
 import type { Metadata } from 'next'
 
@@ -82,6 +95,27 @@ export default async function ListingDetailPage({ params }: Props) {
   // Filter out current listing from related
   const filteredRelated = relatedListings.filter((r) => r.id !== listing.id).slice(0, 3)
 
+  // Resolve the viewer's relationship to this listing
+  const session = await auth()
+  const viewerId = session?.user?.id ?? null
+  const isOwnListing = viewerId === listing.seller.id
+  const openOffer =
+    viewerId && !isOwnListing && listing.pricingType === 'OFFERS'
+      ? await getOpenOfferForBuyer(listing.id, viewerId)
+      : null
+  const acceptedOffer =
+    viewerId && !isOwnListing && listing.pricingType === 'OFFERS' && !openOffer
+      ? await getAcceptedOfferForBuyer(listing.id, viewerId)
+      : null
+  const checkoutUrl = `/checkout/${listing.id}`
+
+  // Sellers see how many buyers are watching; everyone else sees their own heart
+  const watchedIds = await getWatchedListingIds(viewerId, [
+    listing.id,
+    ...filteredRelated.map((related) => related.id),
+  ])
+  const watcherCount = isOwnListing ? await getWatcherCount(listing.id) : null
+
   return (
     <div className="min-h-screen bg-background">
       {/* Breadcrumb */}
@@ -156,6 +190,14 @@ export default async function ListingDetailPage({ params }: Props) {
                     <p className="text-muted-foreground">Views</p>
                     <p className="font-medium">{listing.views.toLocaleString()}</p>
                   </div>
+                  {watcherCount !== null && (
+                    <div>
+                      <p className="text-muted-foreground">Watching</p>
+                      <p className="font-medium">
+                        {watcherCount.toLocaleString()} {watcherCount === 1 ? 'buyer' : 'buyers'}
+                      </p>
+                    </div>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -186,15 +228,107 @@ export default async function ListingDetailPage({ params }: Props) {
 
               {/* Action Buttons */}
               <div className="space-y-3">
-                {listing.pricingType === 'FIXED' ? (
-                  <Button size="lg" className="w-full text-base h-12">
-                    Buy Now
+                {isOwnListing ? (
+                  <p className="text-sm text-center text-muted-foreground">
+                    This is your listing.
+                  </p>
+                ) : listing.pricingType === 'FIXED' ? (
+                  <Button asChild size="lg" className="w-full text-base h-12">
+                    <Link
+                      href={
+                        viewerId
+                          ? checkoutUrl
+                          : `/auth/login?callbackUrl=${encodeURIComponent(checkoutUrl)}`
+                      }
+                    >
+                      Buy Now
+                    </Link>
                   </Button>
+                ) : acceptedOffer ? (
+                  <div className="rounded-lg border p-4 space-y-3">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-sm font-medium">Your offer was accepted</p>
+                      <Badge variant="secondary">Accepted</Badge>
+                    </div>
+                    <p className="text-2xl font-bold">
+                      {formatZAR((acceptedOffer.agreedAmount ?? acceptedOffer.amount).toNumber())}
+                    </p>
+                    <Button asChild size="lg" className="w-full text-base h-12">
+                      <Link href={checkoutUrl}>Checkout</Link>
+                    </Button>
+                  </div>
+                ) : openOffer ? (
+                  <div className="rounded-lg border p-4 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-sm font-medium">Your offer</p>
+                      <Badge variant="secondary">
+                        {openOffer.status === 'COUNTERED' ? 'Countered' : 'Awaiting seller'}
+                      </Badge>
+                    </div>
+                    <p className="text-2xl font-bold">{formatZAR(openOffer.amount.toNumber())}</p>
+                    <NegotiationTimeline
+                      moves={openOffer.moves.map((move) => ({
+                        ...move,
+                        amount: move.amount ? move.amount.toNumber() : null,
+                      }))}
+                      viewerParty="BUYER"
+                      counterpartyName={listing.seller.name}
+                    />
+                    <OfferCountdown expiresAt={openOffer.expiresAt} />
+                    {openOffer.status === 'COUNTERED' && (
+                      <OfferResponseActions
+                        offer={{
+                          id: openOffer.id,
+                          status: openOffer.status,
+                          amount: openOffer.amount.toNumber(),
+                          counterAmount: openOffer.counterAmount
+                            ? openOffer.counterAmount.toNumber()
+                            : null,
+                          moveCount: openOffer.moveCount,
+                          expiresAt: openOffer.expiresAt,
+                        }}
+                        party="BUYER"
+                        listing={{ price, minOffer }}
+                        counterpartyName={listing.seller.name}
+                      />
+                    )}
+                  </div>
+                ) : viewerId ? (
+                  <MakeOfferDialog
+                    listingId={listing.id}
+                    listingTitle={listing.title}
+                    price={price}
+                    minOffer={minOffer}
+                  />
                 ) : (
-                  <Button size="lg" className="w-full text-base h-12">
-                    Make Offer
+                  <Button asChild size="lg" className="w-full text-base h-12">
+                    <Link href={`/auth/login?callbackUrl=${encodeURIComponent(`/listings/${listing.id}`)}`}>
+                      Log in to Make Offer
+                    </Link>
                   </Button>
                 )}
+                {!isOwnListing &&
+                  (viewerId ? (
+                    <ContactSellerDialog
+                      listingId={listing.id}
+                      listingTitle={listing.title}
+                      sellerName={listing.seller.name}
+                    />
+                  ) : (
+                    <Button asChild variant="outline" size="lg" className="w-full text-base h-12">
+                      <Link href={`/auth/login?callbackUrl=${encodeURIComponent(`/listings/${listing.id}`)}`}>
+                        Log in to Contact Seller
+                      </Link>
+                    </Button>
+                  ))}
+                {!isOwnListing && (
+                  <WatchButton
+                    listingId={listing.id}
+                    listingTitle={listing.title}
+                    watched={watchedIds.has(listing.id)}
+                    variant="button"
+                  />
+                )}
                 <ShareButtonClient title={listing.title} url={`/listings/${listing.id}`} />
               </div>
 
@@ -237,8 +371,8 @@ export default async function ListingDetailPage({ params }: Props) {
                     )}
                   </div>
                 </div>
-                <Button variant="outline" className="w-full">
-                  View Seller Profile
+                <Button asChild variant="outline" className="w-full">
+                  <Link href={`/users/${listing.seller.id}`}>View Seller Profile</Link>
                 </Button>
               </div>
 
@@ -282,6 +416,7 @@ export default async function ListingDetailPage({ params }: Props) {
                   primaryImage={relatedListing.primaryImage}
                   city={relatedListing.city}
                   createdAt={relatedListing.createdAt}
+                  watched={watchedIds.has(relatedListing.id)}
                 />
               ))}
             </div>
@@ -9,32 +9,24 @@ import {
   ListingStatus,
   PricingType,
 } from "@prisma/client";
+import { buildListingWhere, type ListingFilters } from "@/lib/listings/filters";
+import { findSearchMatches } from "@/lib/listings/search";
 
 // ============================================================================
 // TYPES & SCHEMAS
 // ============================================================================
 
 export type SortOption =
+  | "relevance" // Best search matches first; newest without a query
   | "newest"
   | "oldest"
   | "price-low"
   | "price-high"
   | "most-viewed";
 
-export interface GetListingsParams {
-  // Filters
-  category?: ListingCategory;
-  condition?: ListingCondition;
-  pricingType?: PricingType;
-  minPrice?: number;
-  maxPrice?: number;
-  city?: string;
-  province?: string;
-
-  // Search
-  query?: string;
-
-  // Sorting
+// Filters and search query (see lib/listings/filters.ts)
+export interface GetListingsParams extends ListingFilters {
+  // Sorting (default: relevance with a query, otherwise newest)
   sortBy?: SortOption;
 
   // Pagination (cursor-based)
@@ -74,6 +66,36 @@ export interface GetListingsResult {
   nextCursor: string | null;
 }
 
+// Fields returned for a listing with its seller
+const listingWithSellerSelect = {
+  id: true,
+  title: true,
+  description: true,
+  category: true,
+  condition: true,
+  primaryImage: true,
+  images: true,
+  pricingType: true,
+  price: true,
+  minOffer: true,
+  city: true,
+  province: true,
+  views: true,
+  createdAt: true,
+  seller: {
+    select: {
+      id: true,
+      name: true,
+      rating: true,
+      reviewCount: true,
+      city: true,
+      province: true,
+    },
+  },
+} satisfies Prisma.ListingSelect;
+
+type ListingWithSellerRow = Prisma.ListingGetPayload<{ select: typeof listingWithSellerSelect }>;
+
 // ============================================================================
 // SERVER ACTIONS
 // ============================================================================
@@ -86,109 +108,56 @@ export interface GetListingsResult {
  * - Cursor-based pagination for efficient scrolling
  * - Selective field loading with Prisma select
  * - Compound indexes on status + filters
- * - ILIKE search with proper indexing
+ * - Full-text search on the GIN-indexed search vector (see lib/listings/search.ts)
  */
 export async function getListings(
   params: GetListingsParams = {}
 ): Promise<GetListingsResult> {
   try {
-    const {
-      category,
-      condition,
-      pricingType,
-      minPrice,
-      maxPrice,
-      city,
-      province,
-      query,
-      sortBy = "newest",
-      cursor,
-      limit = 20,
-    } = params;
+    const { sortBy = params.query ? "relevance" : "newest", cursor, limit = 20, ...filters } = params;
 
     // Validate limit
     const validatedLimit = Math.min(Math.max(limit, 1), 100); // Max 100 items per page
 
-    // Build where clause
-    const where: Prisma.ListingWhereInput = {
-      status: ListingStatus.APPROVED, // Only approved listings
-      ...(category && { category }),
-      ...(condition && { condition }),
-      ...(pricingType && { pricingType }),
-      ...(city && { city: { equals: city, mode: "insensitive" } }),
-      ...(province && { province: { equals: province, mode: "insensitive" } }),
-    };
+    // One page of search matches, filtered and sorted in the database
+    // (null without a query to search for)
+    const search = filters.query
+      ? await findSearchMatches(prisma, filters.query, filters, {
+          sortBy,
+          cursor,
+          limit: validatedLimit + 1, // Fetch one extra to check if there are more
+        })
+      : null;
+
+    let listings: ListingWithSellerRow[];
+    let totalCount: number;
+
+    if (search) {
+      listings = await findListingsInOrder(search.matches.map((match) => match.id));
+      totalCount = search.totalCount;
+    } else {
+      // Build where clause
+      const where: Prisma.ListingWhereInput = {
+        ...buildListingWhere(filters),
+        status: ListingStatus.APPROVED, // Only approved listings
+      };
 
-    // Price range filter
-    if (minPrice !== undefined || maxPrice !== undefined) {
-      where.AND = where.AND || [];
-      const priceFilter: Prisma.ListingWhereInput = {};
-
-      if (minPrice !== undefined && maxPrice !== undefined) {
-        priceFilter.price = {
-          gte: new Prisma.Decimal(minPrice),
-          lte: new Prisma.Decimal(maxPrice),
-        };
-      } else if (minPrice !== undefined) {
-        priceFilter.price = { gte: new Prisma.Decimal(minPrice) };
-      } else if (maxPrice !== undefined) {
-        priceFilter.price = { lte: new Prisma.Decimal(maxPrice) };
-      }
-
-      (where.AND as Prisma.ListingWhereInput[]).push(priceFilter);
-    }
+      // Execute query with cursor pagination
+      listings = await prisma.listing.findMany({
+        where,
+        orderBy: buildOrderBy(sortBy),
+        take: validatedLimit + 1, // Fetch one extra to check if there are more
+        ...(cursor && {
+          cursor: { id: cursor },
+          skip: 1, // Skip the cursor itself
+        }),
+        select: listingWithSellerSelect,
+      });
 
-    // Search query (title + description with ILIKE)
-    if (query && query.trim().length > 0) {
-      where.OR = [
-        { title: { contains: query.trim(), mode: "insensitive" } },
-        { description: { contains: query.trim(), mode: "insensitive" } },
-      ];
+      // Get total count (expensive operation, consider caching)
+      totalCount = await prisma.listing.count({ where });
     }
 
-    // Build orderBy clause
-    const orderBy = buildOrderBy(sortBy);
-
-    // Execute query with cursor pagination
-    const listings = await prisma.listing.findMany({
-      where,
-      orderBy,
-      take: validatedLimit + 1, // Fetch one extra to check if there are more
-      ...(cursor && {
-        cursor: { id: cursor },
-        skip: 1, // Skip the cursor itself
-      }),
-      select: {
-        id: true,
-        title: true,
-        description: true,
-        category: true,
-        condition: true,
-        primaryImage: true,
-        images: true,
-        pricingType: true,
-        price: true,
-        minOffer: true,
-        city: true,
-        province: true,
-        views: true,
-        createdAt: true,
-        seller: {
-          select: {
-            id: true,
-            name: true,
-            rating: true,
-            reviewCount: true,
-            city: true,
-            province: true,
-          },
-        },
-      },
-    });
-
-    // Get total count (expensive operation, consider caching)
-    const totalCount = await prisma.listing.count({ where });
-
     // Check if there are more results
     const hasMore = listings.length > validatedLimit;
     const paginatedListings = hasMore ? listings.slice(0, -1) : listings;
@@ -348,8 +317,8 @@ export const getFeaturedListings = cache(
 
 /**
  * Full-text search in title and description
- * Uses PostgreSQL ILIKE for case-insensitive search
- * Returns only approved listings with relevance scoring
+ * Title matches outrank description matches and every word matches as a prefix
+ * Returns only approved listings, best match first
  */
 export async function searchListings(
   query: string,
@@ -361,89 +330,21 @@ export async function searchListings(
       return [];
     }
 
-    const trimmedQuery = query.trim();
     const validatedLimit = Math.min(Math.max(limit, 1), 100);
 
-    // Use raw query for better relevance scoring
-    // Prioritize title matches over description matches
-    const listings = await prisma.$queryRaw<
-      Array<{
-        id: string;
-        title: string;
-        description: string;
-        category: ListingCategory;
-        condition: ListingCondition;
-        primaryImage: string;
-        images: string[];
-        pricingType: PricingType;
-        price: Prisma.Decimal | null;
-        minOffer: Prisma.Decimal | null;
-        city: string;
-        province: string;
-        views: number;
-        createdAt: Date;
-        sellerId: string;
-      }>
-    >`
-      SELECT
-        l.id, l.title, l.description, l.category, l.condition,
-        l."primaryImage", l.images, l."pricingType", l.price, l."minOffer",
-        l.city, l.province, l.views, l."createdAt", l."sellerId",
-        CASE
-          WHEN LOWER(l.title) LIKE LOWER(${"%" + trimmedQuery + "%"}) THEN 2
-          ELSE 1
-        END as relevance
-      FROM "Listing" l
-      WHERE l.status = ${ListingStatus.APPROVED}::"ListingStatus"
-        AND (
-          LOWER(l.title) LIKE LOWER(${"%" + trimmedQuery + "%"})
-          OR LOWER(l.description) LIKE LOWER(${"%" + trimmedQuery + "%"})
-        )
-      ORDER BY relevance DESC, l."createdAt" DESC
-      LIMIT ${validatedLimit}
-    `;
-
-    // Fetch seller info for each listing
-    const sellerIds = Array.from(new Set(listings.map((l) => l.sellerId)));
-    const sellers = await prisma.user.findMany({
-      where: { id: { in: sellerIds } },
-      select: {
-        id: true,
-        name: true,
-        rating: true,
-        reviewCount: true,
-        city: true,
-        province: true,
-      },
-    });
+    const search = await findSearchMatches(prisma, query, {}, { limit: validatedLimit });
+    if (!search) {
+      return [];
+    }
 
-    const sellerMap = new Map(sellers.map((s) => [s.id, s]));
-
-    // Combine listings with seller data and serialize
-    return listings.map((listing) => {
-      const seller = sellerMap.get(listing.sellerId);
-      if (!seller) {
-        throw new Error(`Seller not found for listing ${listing.id}`);
-      }
-
-      return {
-        id: listing.id,
-        title: listing.title,
-        description: listing.description,
-        category: listing.category,
-        condition: listing.condition,
-        primaryImage: listing.primaryImage,
-        images: listing.images,
-        pricingType: listing.pricingType,
-        price: listing.price?.toString() ?? null,
-        minOffer: listing.minOffer?.toString() ?? null,
-        city: listing.city,
-        province: listing.province,
-        views: listing.views,
-        createdAt: listing.createdAt,
-        seller,
-      };
-    });
+    const listings = await findListingsInOrder(search.matches.map((match) => match.id));
+
+    // Serialize Decimal fields
+    return listings.map((listing) => ({
+      ...listing,
+      price: listing.price?.toString() ?? null,
+      minOffer: listing.minOffer?.toString() ?? null,
+    }));
   } catch (error) {
     console.error("[searchListings] Error:", error);
     throw new Error("Failed to search listings");
@@ -454,11 +355,30 @@ export async function searchListings(
 // HELPER FUNCTIONS
 // ============================================================================
 
+/**
+ * Load approved listings by ID, in the order of the IDs given
+ * Used for search results, whose order comes from the search query
+ */
+async function findListingsInOrder(ids: string[]): Promise<ListingWithSellerRow[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const listings = await prisma.listing.findMany({
+    where: { id: { in: ids }, status: ListingStatus.APPROVED },
+    select: listingWithSellerSelect,
+  });
+
+  const listingMap = new Map(listings.map((listing) => [listing.id, listing]));
+  return ids.flatMap((id) => listingMap.get(id) ?? []);
+}
+
 /**
  * Build Prisma orderBy clause from sort option
  */
 function buildOrderBy(sortBy: SortOption): Prisma.ListingOrderByWithRelationInput {
   switch (sortBy) {
+    case "relevance": // Without a query there is nothing to rank
     case "newest":
       return { createdAt: "desc" };
     case "oldest":
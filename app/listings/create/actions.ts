@@ -1,6 +1,7 @@
 'use server'
 
 import { revalidatePath } from 'next/cache'
+import { after } from 'next/server'
 import { redirect } from 'next/navigation'
 import { prisma } from '@/lib/prisma'
 import { requireAuth } from '@/lib/auth-helpers'
@@ -11,6 +12,7 @@ import {
   type CreateListingFormData,
   type UpdateListingFormData,
 } from '@/lib/validations/listing'
+import { getPriceDrop, notifyWatchers } from '@/lib/watchlist/service'
 
 type ActionResult<T = unknown> = {
   success: boolean
@@ -102,7 +104,7 @@ export const updateListing = async (
     // Check if listing exists and user has permission
     const existingListing = await prisma.listing.findUnique({
       where: { id },
-      select: { sellerId: true },
+      select: { sellerId: true, pricingType: true, price: true },
     })
 
     if (!existingListing) {
@@ -145,6 +147,17 @@ export const updateListing = async (
       data: updateData,
     })
 
+    // Tell watchers about a lower price while the listing can be bought
+    const priceDrop = getPriceDrop(
+      { pricingType: existingListing.pricingType, price: existingListing.price?.toNumber() ?? null },
+      { pricingType: listing.pricingType, price: listing.price?.toNumber() ?? null }
+    )
+    if (priceDrop && listing.status === 'APPROVED') {
+      after(() =>
+        notifyWatchers(id, 'WATCHED_PRICE_DROP', { listingId: id, title: listing.title, ...priceDrop })
+      )
+    }
+
     // Revalidate relevant pages
     revalidatePath('/dashboard/listings')
     revalidatePath(`/listings/${id}`)
@@ -260,7 +273,7 @@ export const pauseListing = async (
     // Check if listing exists and user has permission
     const existingListing = await prisma.listing.findUnique({
       where: { id },
-      select: { sellerId: true, status: true },
+      select: { sellerId: true, status: true, title: true },
     })
 
     if (!existingListing) {
@@ -292,6 +305,10 @@ export const pauseListing = async (
       data: { status: 'PAUSED' },
     })
 
+    after(() =>
+      notifyWatchers(id, 'WATCHED_LISTING_PAUSED', { listingId: id, title: existingListing.title })
+    )
+
     // Revalidate relevant pages
     revalidatePath('/dashboard/listings')
     revalidatePath(`/listings/${id}`)
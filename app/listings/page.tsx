@@ -4,11 +4,15 @@ import { Package, ChevronLeft, ChevronRight } from 'lucide-react'
 import { SearchBarWrapper } from '@/components/listings/search-bar-wrapper'
 import { FilterPanelWrapper } from '@/components/listings/filter-panel-wrapper'
 import { ListingCard } from '@/components/listings/listing-card'
+import { SaveSearchButton } from '@/components/saved-searches/save-search-button'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Button } from '@/components/ui/button'
+import { auth } from '@/auth'
 import { getListings, type GetListingsParams } from './actions'
+import { getWatchedListingIds } from '@/lib/prisma-queries'
 import { deserializeDecimal, parseSortOption, parseNumberParam } from '@/lib/helpers/listing-helpers'
 import type { ListingCategory, ListingCondition, PricingType } from '@prisma/client'
+import type { SavedSearchFilters } from '@/lib/validations/saved-search'
 import type { Metadata } from 'next'
 
 export const metadata: Metadata = {
@@ -42,7 +46,8 @@ export default async function ListingsPage({
 
   // Parse URL parameters
   const query = searchParams.q
-  const sortBy = parseSortOption(searchParams.sortBy)
+  // Searches are ranked by relevance unless another sort is picked
+  const sortBy = parseSortOption(searchParams.sortBy, query ? 'relevance' : 'newest')
   const cursor = searchParams.cursor
   const minPrice = parseNumberParam(searchParams.minPrice)
   const maxPrice = parseNumberParam(searchParams.maxPrice)
@@ -75,7 +80,25 @@ export default async function ListingsPage({
   }
 
   // Fetch listings from server action
-  const { listings, totalCount, hasMore, nextCursor } = await getListings(listingsParams)
+  const [{ listings, totalCount, hasMore, nextCursor }, session] = await Promise.all([
+    getListings(listingsParams),
+    auth(),
+  ])
+  const watchedIds = await getWatchedListingIds(
+    session?.user?.id ?? null,
+    listings.map((listing) => listing.id)
+  )
+
+  // Filters a saved search would alert on (no sorting or paging)
+  const savedSearchFilters = {
+    query: query || undefined,
+    category: listingsParams.category,
+    condition: listingsParams.condition,
+    pricingType: listingsParams.pricingType,
+    minPrice,
+    maxPrice,
+    province,
+  } as SavedSearchFilters
 
   // Build query string for pagination
   const buildPaginationUrl = (newCursor: string | null) => {
@@ -122,11 +145,16 @@ export default async function ListingsPage({
           {/* Main Content */}
           <main className="flex-1 min-w-0">
             {/* Results Count */}
-            <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center justify-between gap-4 mb-6">
               <p className="text-sm text-muted-foreground">
                 Showing <span className="font-medium text-foreground">{listings.length}</span> of{' '}
                 <span className="font-medium text-foreground">{totalCount}</span> listings
               </p>
+              <SaveSearchButton
+                filters={savedSearchFilters}
+                isSignedIn={!!session?.user}
+                callbackUrl={buildPaginationUrl(null)}
+              />
             </div>
 
             {/* Listings Grid */}
@@ -143,6 +171,7 @@ export default async function ListingsPage({
                     primaryImage={listing.primaryImage}
                     city={listing.city}
                     createdAt={listing.createdAt}
+                    watched={watchedIds.has(listing.id)}
                   />
                 ))}
               </div>
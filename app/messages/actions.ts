@@ -0,0 +1,146 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { Prisma, type MessageScanAction, type MessageStatus } from '@prisma/client'
+import { requireAuth } from '@/lib/auth-helpers'
+import { prisma } from '@/lib/prisma'
+import { sendMessage, startConversation } from '@/lib/messaging/service'
+import { publishRealtimeEvent } from '@/lib/realtime/publisher'
+import { notify } from '@/lib/notifications/service'
+import { toMessagePreview } from '@/lib/notifications/kinds'
+import {
+  contactSellerSchema,
+  messageSchema,
+  type ContactSellerFormData,
+  type MessageFormData,
+} from '@/lib/validations/message'
+
+type ActionResult<T = unknown> = {
+  success: boolean
+  data?: T
+  error?: string
+}
+
+/**
+ * What happened to a sent message, so the sender can be told it was held or masked
+ */
+type SentMessage = {
+  messageId: string
+  status: MessageStatus
+  scanAction: MessageScanAction
+}
+
+const revalidateConversationPaths = (conversationId: string) => {
+  revalidatePath(`/account/messages/${conversationId}`)
+  revalidatePath('/account/messages')
+  revalidatePath('/admin/messages')
+}
+
+/**
+ * Tell the recipient about a delivered message; held messages wait for release
+ */
+const publishSentMessage = async (
+  recipientId: string,
+  senderName: string | null | undefined,
+  conversationId: string,
+  message: { id: string; status: MessageStatus; body: string }
+) => {
+  if (message.status === 'SENT') {
+    await publishRealtimeEvent([recipientId], 'message.created', { conversationId, messageId: message.id })
+    await notify(recipientId, 'MESSAGE_RECEIVED', {
+      conversationId,
+      senderName: senderName || 'A LOTOSALE member',
+      preview: toMessagePreview(message.body),
+    })
+  }
+}
+
+/**
+ * Message the seller about a listing
+ * Requires authentication; reuses the buyer's existing thread for the listing
+ */
+export const contactSeller = async (
+  formData: ContactSellerFormData
+): Promise<ActionResult<SentMessage & { conversationId: string }>> => {
+  try {
+    const session = await requireAuth()
+
+    const validation = contactSellerSchema.safeParse(formData)
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0]?.message || 'Invalid message' }
+    }
+
+    const { listingId, body } = validation.data
+
+    const result = await prisma.$transaction((tx) =>
+      startConversation(tx, { listingId, buyerId: session.user.id, body }, new Date())
+    )
+
+    if ('error' in result) {
+      return { success: false, error: result.error }
+    }
+
+    revalidateConversationPaths(result.conversationId)
+    await publishSentMessage(result.recipientId, session.user.name, result.conversationId, result.message)
+
+    return {
+      success: true,
+      data: {
+        conversationId: result.conversationId,
+        messageId: result.message.id,
+        status: result.message.status,
+        scanAction: result.message.scanAction,
+      },
+    }
+  } catch (error) {
+    // Two first messages raced to create the thread; the retry finds it
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return { success: false, error: 'Please try sending your message again' }
+    }
+
+    console.error('Contact seller error:', error)
+    return { success: false, error: 'Failed to send your message. Please try again.' }
+  }
+}
+
+/**
+ * Reply in a conversation
+ * Requires authentication; buyer or seller of the thread only
+ */
+export const sendConversationMessage = async (
+  formData: MessageFormData
+): Promise<ActionResult<SentMessage>> => {
+  try {
+    const session = await requireAuth()
+
+    const validation = messageSchema.safeParse(formData)
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0]?.message || 'Invalid message' }
+    }
+
+    const { conversationId, body } = validation.data
+
+    const result = await prisma.$transaction((tx) =>
+      sendMessage(tx, { conversationId, senderId: session.user.id, body }, new Date())
+    )
+
+    if ('error' in result) {
+      return { success: false, error: result.error }
+    }
+
+    revalidateConversationPaths(conversationId)
+    await publishSentMessage(result.recipientId, session.user.name, conversationId, result.message)
+
+    return {
+      success: true,
+      data: {
+        messageId: result.message.id,
+        status: result.message.status,
+        scanAction: result.message.scanAction,
+      },
+    }
+  } catch (error) {
+    console.error('Send message error:', error)
+    return { success: false, error: 'Failed to send your message. Please try again.' }
+  }
+}
@@ -0,0 +1,96 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { getNotifications, getUnreadNotificationCount } from '@/lib/prisma-queries'
+import {
+  markNotificationsRead,
+  toNotificationItem,
+  type NotificationItem,
+} from '@/lib/notifications/service'
+import { notificationIdSchema } from '@/lib/validations/notification'
+
+type ActionResult<T = unknown> = {
+  success: boolean
+  data?: T
+  error?: string
+}
+
+// Notifications shown in the header dropdown
+const MENU_SIZE = 8
+
+/**
+ * Latest notifications and the unread count for the header bell
+ * Guests get an error rather than a redirect, so the bell can hide itself
+ */
+export const getNotificationMenu = async (): Promise<
+  ActionResult<{ unreadCount: number; notifications: NotificationItem[] }>
+> => {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const [unreadCount, notifications] = await Promise.all([
+      getUnreadNotificationCount(session.user.id),
+      getNotifications(session.user.id, MENU_SIZE),
+    ])
+
+    return {
+      success: true,
+      data: { unreadCount, notifications: notifications.map(toNotificationItem) },
+    }
+  } catch (error) {
+    console.error('Get notifications error:', error)
+    return { success: false, error: 'Failed to load notifications' }
+  }
+}
+
+/**
+ * Mark one of the signed-in user's notifications as read
+ */
+export const markNotificationRead = async (notificationId: string): Promise<ActionResult> => {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const validation = notificationIdSchema.safeParse({ notificationId })
+    if (!validation.success) {
+      return { success: false, error: 'Invalid notification ID' }
+    }
+
+    await markNotificationsRead(prisma, session.user.id, new Date(), [notificationId])
+
+    revalidatePath('/account/notifications')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Mark notification read error:', error)
+    return { success: false, error: 'Failed to update notification' }
+  }
+}
+
+/**
+ * Mark all of the signed-in user's notifications as read
+ */
+export const markAllNotificationsRead = async (): Promise<ActionResult<{ count: number }>> => {
+  try {
+    const session = await auth()
+    if (!session?.user?.id) {
+      return { success: false, error: 'Unauthorized' }
+    }
+
+    const count = await markNotificationsRead(prisma, session.user.id, new Date())
+
+    revalidatePath('/account/notifications')
+
+    return { success: true, data: { count } }
+  } catch (error) {
+    console.error('Mark all notifications read error:', error)
+    return { success: false, error: 'Failed to update notifications' }
+  }
+}
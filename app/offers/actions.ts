@@ -0,0 +1,446 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { Prisma, type OfferParty, type OfferStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { requireAuth } from '@/lib/auth-helpers'
+import { createOffer, getOpenOfferForBuyer } from '@/lib/prisma-queries'
+import { checkOfferRules, evaluateOfferRules } from '@/lib/offers/auto-rules'
+import { checkOfferEligibility } from '@/lib/offers/eligibility'
+import type { NegotiationResponse } from '@/lib/offers/negotiation'
+import { respondToOffer } from '@/lib/offers/respond'
+import { publishRealtimeEvent } from '@/lib/realtime/publisher'
+import { notify } from '@/lib/notifications/service'
+import {
+  counterOfferSchema,
+  makeOfferSchema,
+  offerIdSchema,
+  offerRulesSchema,
+  type CounterOfferFormData,
+  type MakeOfferFormData,
+  type OfferRulesFormData,
+} from '@/lib/validations/offer'
+
+type ActionResult<T = unknown> = {
+  success: boolean
+  data?: T
+  error?: string
+}
+
+const revalidateOfferPages = (listingId: string) => {
+  revalidatePath('/dashboard/offers')
+  revalidatePath(`/listings/${listingId}`)
+}
+
+/**
+ * Make an offer on an OFFERS-priced listing
+ * Requires authentication
+ *
+ * The listing state and the buyer's open offers are re-read inside a
+ * serializable transaction so two concurrent submissions cannot both
+ * create a PENDING offer for the same buyer.
+ *
+ * If the listing has offer rules, the automatic seller response is applied
+ * in the same transaction and its resulting status is returned. The seller
+ * is only notified of offers still waiting for them; when a rule no longer
+ * fits the listing, ruleSkipped says why and the offer stays PENDING.
+ */
+export const makeOffer = async (
+  formData: MakeOfferFormData
+): Promise<
+  ActionResult<{
+    offerId: string
+    status: OfferStatus
+    counterAmount?: number
+    expiresAt: Date
+    ruleSkipped?: string
+  }>
+> => {
+  try {
+    // Require authentication
+    const session = await requireAuth()
+    const buyerId = session.user.id
+
+    // Validate input
+    const validation = makeOfferSchema.safeParse(formData)
+    if (!validation.success) {
+      return {
+        success: false,
+        error: validation.error.issues[0]?.message || 'Invalid offer',
+      }
+    }
+
+    const { listingId, amount, message } = validation.data
+
+    const result = await prisma.$transaction(
+      async (tx) => {
+        const listing = await tx.listing.findUnique({
+          where: { id: listingId },
+          select: {
+            sellerId: true,
+            title: true,
+            status: true,
+            pricingType: true,
+            price: true,
+            minOffer: true,
+            autoDeclineBelow: true,
+            autoCounterAt: true,
+            autoAcceptAt: true,
+          },
+        })
+
+        if (!listing) {
+          return { error: 'Listing not found' }
+        }
+
+        const [openOffer, acceptedOffers] = await Promise.all([
+          getOpenOfferForBuyer(listingId, buyerId, tx),
+          tx.offer.count({ where: { listingId, status: 'ACCEPTED' } }),
+        ])
+
+        const eligibility = checkOfferEligibility(
+          {
+            sellerId: listing.sellerId,
+            status: listing.status,
+            pricingType: listing.pricingType,
+            price: listing.price ? listing.price.toNumber() : null,
+            minOffer: listing.minOffer ? listing.minOffer.toNumber() : null,
+            hasAcceptedOffer: acceptedOffers > 0,
+          },
+          buyerId,
+          amount,
+          openOffer !== null
+        )
+
+        if (!eligibility.eligible) {
+          return { error: eligibility.error }
+        }
+
+        const offer = await createOffer(
+          { listingId, buyerId, amount, message: message || undefined },
+          tx
+        )
+
+        const autoResponse = evaluateOfferRules(
+          {
+            autoDeclineBelow: listing.autoDeclineBelow ? listing.autoDeclineBelow.toNumber() : null,
+            autoCounterAt: listing.autoCounterAt ? listing.autoCounterAt.toNumber() : null,
+            autoAcceptAt: listing.autoAcceptAt ? listing.autoAcceptAt.toNumber() : null,
+          },
+          amount
+        )
+
+        if (!autoResponse) {
+          return {
+            offerId: offer.id,
+            sellerId: listing.sellerId,
+            listingTitle: listing.title,
+            status: offer.status,
+            expiresAt: offer.expiresAt,
+          }
+        }
+
+        const answered = await respondToOffer(tx, offer.id, listing.sellerId, autoResponse, {
+          automated: true,
+        })
+
+        // A rule that no longer fits the listing leaves the offer for the seller
+        if ('error' in answered) {
+          return {
+            offerId: offer.id,
+            sellerId: listing.sellerId,
+            listingTitle: listing.title,
+            status: offer.status,
+            expiresAt: offer.expiresAt,
+            ruleSkipped: answered.error,
+          }
+        }
+
+        return {
+          offerId: offer.id,
+          sellerId: listing.sellerId,
+          listingTitle: listing.title,
+          status: answered.status,
+          counterAmount: autoResponse.type === 'COUNTER' ? autoResponse.amount : undefined,
+          expiresAt: answered.expiresAt,
+        }
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    )
+
+    if ('error' in result) {
+      return {
+        success: false,
+        error: result.error,
+      }
+    }
+
+    // Revalidate relevant pages
+    revalidateOfferPages(listingId)
+
+    const { sellerId, listingTitle, ...offer } = result
+    await publishRealtimeEvent([sellerId], 'offer.updated', {
+      offerId: offer.offerId,
+      listingId,
+      status: offer.status,
+    })
+
+    // An offer the seller's rules already answered needs nothing from them
+    if (offer.status === 'PENDING') {
+      await notify(sellerId, 'OFFER_RECEIVED', {
+        offerId: offer.offerId,
+        listingId,
+        title: listingTitle,
+        amount,
+      })
+    }
+
+    return {
+      success: true,
+      data: offer,
+    }
+  } catch (error) {
+    // Serialization failure: a concurrent request touched the same offers
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2034'
+    ) {
+      return {
+        success: false,
+        error: 'Your offer could not be placed because of a conflicting request. Please try again.',
+      }
+    }
+
+    console.error('Make offer error:', error)
+
+    return {
+      success: false,
+      error: 'Failed to make offer. Please try again.',
+    }
+  }
+}
+
+/**
+ * Apply a response to an offer and revalidate the pages showing it
+ * Shared by acceptOffer, rejectOffer and counterOffer
+ */
+const respond = async (offerId: string, response: NegotiationResponse) => {
+  const session = await requireAuth()
+
+  const result = await prisma.$transaction((tx) =>
+    respondToOffer(tx, offerId, session.user.id, response)
+  )
+
+  if (!('error' in result)) {
+    revalidateOfferPages(result.listingId)
+
+    // The other side of the negotiation sees the response straight away
+    const party: OfferParty = result.party === 'SELLER' ? 'BUYER' : 'SELLER'
+    const recipientId = party === 'BUYER' ? result.buyerId : result.sellerId
+    await publishRealtimeEvent([recipientId], 'offer.updated', {
+      offerId: result.offerId,
+      listingId: result.listingId,
+      status: result.status,
+    })
+
+    const offer = {
+      offerId: result.offerId,
+      listingId: result.listingId,
+      title: result.listingTitle,
+      party,
+    }
+    if (response.type === 'COUNTER') {
+      await notify(recipientId, 'OFFER_COUNTERED', { ...offer, amount: response.amount })
+    } else if (response.type === 'ACCEPT') {
+      await notify(recipientId, 'OFFER_ACCEPTED', offer)
+    } else {
+      await notify(recipientId, 'OFFER_REJECTED', offer)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Accept the latest amount in an offer thread
+ * The seller accepts the buyer's offer; the buyer accepts the seller's counter-offer
+ *
+ * Accepting claims the listing row first, as createTransaction does, so of two
+ * concurrent accepts on a listing only one succeeds. Every other PENDING or
+ * COUNTERED offer on the listing is expired in the same database transaction.
+ */
+export const acceptOffer = async (
+  offerId: string
+): Promise<ActionResult<{ offerId: string; expiredCount: number }>> => {
+  try {
+    // Validate offer ID
+    const validation = offerIdSchema.safeParse({ offerId })
+    if (!validation.success) {
+      return { success: false, error: 'Invalid offer ID' }
+    }
+
+    const result = await respond(offerId, { type: 'ACCEPT' })
+
+    if ('error' in result) {
+      return { success: false, error: result.error }
+    }
+
+    return {
+      success: true,
+      data: { offerId, expiredCount: result.expiredCount },
+    }
+  } catch (error) {
+    console.error('Accept offer error:', error)
+
+    return {
+      success: false,
+      error: 'Failed to accept offer. Please try again.',
+    }
+  }
+}
+
+/**
+ * Reject the latest amount in an offer thread, ending the negotiation
+ * Either party can reject when it is their turn to respond
+ */
+export const rejectOffer = async (
+  offerId: string
+): Promise<ActionResult<{ offerId: string }>> => {
+  try {
+    // Validate offer ID
+    const validation = offerIdSchema.safeParse({ offerId })
+    if (!validation.success) {
+      return { success: false, error: 'Invalid offer ID' }
+    }
+
+    const result = await respond(offerId, { type: 'REJECT' })
+
+    if ('error' in result) {
+      return { success: false, error: result.error }
+    }
+
+    return {
+      success: true,
+      data: { offerId },
+    }
+  } catch (error) {
+    console.error('Reject offer error:', error)
+
+    return {
+      success: false,
+      error: 'Failed to reject offer. Please try again.',
+    }
+  }
+}
+
+/**
+ * Counter the latest amount in an offer thread
+ * The seller counters upwards from the buyer's amount; the buyer counters
+ * downwards from the seller's. The other party gets a fresh expiry window.
+ */
+export const counterOffer = async (
+  formData: CounterOfferFormData
+): Promise<ActionResult<{ offerId: string; expiresAt: Date }>> => {
+  try {
+    // Validate input
+    const validation = counterOfferSchema.safeParse(formData)
+    if (!validation.success) {
+      return {
+        success: false,
+        error: validation.error.issues[0]?.message || 'Invalid counter-offer',
+      }
+    }
+
+    const { offerId, counterAmount, message } = validation.data
+
+    const result = await respond(offerId, {
+      type: 'COUNTER',
+      amount: counterAmount,
+      message,
+    })
+
+    if ('error' in result) {
+      return { success: false, error: result.error }
+    }
+
+    return {
+      success: true,
+      data: { offerId, expiresAt: result.expiresAt },
+    }
+  } catch (error) {
+    console.error('Counter offer error:', error)
+
+    return {
+      success: false,
+      error: 'Failed to send counter-offer. Please try again.',
+    }
+  }
+}
+
+/**
+ * Set or clear the automatic offer rules on a listing
+ * Only the listing's seller can change its rules
+ *
+ * Rules apply to offers made from now on; open offers are left as they are.
+ */
+export const updateOfferRules = async (
+  formData: OfferRulesFormData
+): Promise<ActionResult<{ listingId: string }>> => {
+  try {
+    // Require authentication
+    const session = await requireAuth()
+
+    // Validate input
+    const validation = offerRulesSchema.safeParse(formData)
+    if (!validation.success) {
+      return {
+        success: false,
+        error: validation.error.issues[0]?.message || 'Invalid offer rules',
+      }
+    }
+
+    const { listingId, ...rules } = validation.data
+
+    const listing = await prisma.listing.findUnique({
+      where: { id: listingId },
+      select: { sellerId: true, pricingType: true, price: true, minOffer: true },
+    })
+
+    if (!listing) {
+      return { success: false, error: 'Listing not found' }
+    }
+
+    if (listing.sellerId !== session.user.id) {
+      return { success: false, error: 'You do not have permission to edit this listing' }
+    }
+
+    const rulesCheck = checkOfferRules(rules, {
+      pricingType: listing.pricingType,
+      price: listing.price ? listing.price.toNumber() : null,
+      minOffer: listing.minOffer ? listing.minOffer.toNumber() : null,
+    })
+
+    if (!rulesCheck.eligible) {
+      return { success: false, error: rulesCheck.error }
+    }
+
+    await prisma.listing.update({
+      where: { id: listingId },
+      data: rules,
+    })
+
+    revalidatePath(`/listings/${listingId}/edit`)
+
+    return {
+      success: true,
+      data: { listingId },
+    }
+  } catch (error) {
+    console.error('Update offer rules error:', error)
+
+    return {
+      success: false,
+      error: 'Failed to save offer rules. Please try again.',
+    }
+  }
+}
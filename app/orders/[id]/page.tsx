@@ -0,0 +1,285 @@
+import Link from 'next/link'
+import Image from 'next/image'
+import { notFound } from 'next/navigation'
+import { AlertTriangle, CheckCircle2, Clock, FileText, MapPin, Scale, ShieldCheck, XCircle } from 'lucide-react'
+import type { TransactionStatus } from '@prisma/client'
+import { requireAuth } from '@/lib/auth-helpers'
+import { getTransactionForUser } from '@/lib/prisma-queries'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Separator } from '@/components/ui/separator'
+import { OrderPaymentActions } from '@/components/checkout/order-payment-actions'
+import { TransactionStatusBadge } from '@/components/checkout/transaction-status-badge'
+import { EscrowCountdown } from '@/components/checkout/escrow-countdown'
+import { EscrowActions } from '@/components/checkout/escrow-actions'
+import { DisputeResponseForm } from '@/components/checkout/dispute-response-form'
+import { TransactionReviews } from '@/components/reviews/transaction-reviews'
+import { formatZAR } from '@/lib/constants/categories'
+import { DISPUTE_RESOLUTION_LABELS, getDisputeReasonConfig } from '@/lib/constants/transactions'
+import { canReportProblem, HELD_TRANSACTION_STATUSES } from '@/lib/escrow/policy'
+import { canIssueTaxDocument } from '@/lib/documents/numbering'
+import { getSquareUrl, getThumbnailUrl } from '@/lib/cloudinary-utils'
+
+type PageProps = {
+  params: Promise<{ id: string }>
+  searchParams: Promise<{ payment?: string }>
+}
+
+// Buyer-facing heading per status; sellers always see "Sale details"
+const BUYER_HEADINGS: Record<
+  TransactionStatus,
+  { title: string; icon: typeof Clock; className: string }
+> = {
+  PENDING: { title: 'Awaiting payment', icon: Clock, className: 'text-amber-600' },
+  AWAITING_CONFIRMATION: { title: 'Payment received', icon: ShieldCheck, className: 'text-blue-600' },
+  DISPUTED: { title: 'Problem reported', icon: AlertTriangle, className: 'text-orange-600' },
+  COMPLETED: { title: 'Thank you for your purchase!', icon: CheckCircle2, className: 'text-emerald-600' },
+  CANCELLED: { title: 'Order cancelled', icon: XCircle, className: 'text-muted-foreground' },
+  REFUNDED: { title: 'Order refunded', icon: XCircle, className: 'text-muted-foreground' },
+}
+
+export default async function OrderPage({ params, searchParams }: PageProps) {
+  const session = await requireAuth()
+  const { id } = await params
+  const { payment } = await searchParams
+
+  const transaction = await getTransactionForUser(id, session.user.id)
+
+  if (!transaction) {
+    notFound()
+  }
+
+  const isBuyer = transaction.buyerId === session.user.id
+  const amount = transaction.amount.toNumber()
+  const refundedAmount = transaction.refundedAmount.toNumber()
+  const heading = BUYER_HEADINGS[transaction.status]
+  const HeadingIcon = heading.icon
+  const isAwaitingPayment = isBuyer && transaction.status === 'PENDING'
+  const isHeld = HELD_TRANSACTION_STATUSES.includes(transaction.status)
+  const disputeReason = transaction.dispute ? getDisputeReasonConfig(transaction.dispute.reason) : undefined
+  const canDownloadDocument = canIssueTaxDocument(isBuyer ? 'RECEIPT' : 'COMMISSION_INVOICE', {
+    ...transaction,
+    commission: transaction.commission.toNumber(),
+  })
+
+  return (
+    <div className="container max-w-2xl mx-auto py-8 px-4">
+      <div className="mb-8 text-center">
+        {isBuyer && (
+          <HeadingIcon className={`w-12 h-12 mx-auto mb-4 ${heading.className}`} aria-hidden="true" />
+        )}
+        <h1 className="text-3xl font-bold mb-2">
+          {isBuyer ? heading.title : 'Sale details'}
+        </h1>
+        <p className="text-muted-foreground">
+          Order #{transaction.id.slice(0, 8).toUpperCase()} ·{' '}
+          {transaction.createdAt.toLocaleDateString('en-ZA', {
+            year: 'numeric',
+            month: 'long',
+            day: 'numeric',
+          })}
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle>Order Summary</CardTitle>
+            <TransactionStatusBadge status={transaction.status} />
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex items-start gap-4">
+            <div className="relative w-20 h-20 flex-shrink-0 rounded-lg overflow-hidden bg-muted">
+              <Image
+                src={getSquareUrl(transaction.listing.primaryImage)}
+                alt={transaction.listing.title}
+                fill
+                className="object-cover"
+                sizes="80px"
+              />
+            </div>
+            <div className="flex-1 min-w-0 space-y-1">
+              <p className="font-semibold line-clamp-2">{transaction.listing.title}</p>
+              <p className="text-sm text-muted-foreground">
+                {isBuyer ? `Sold by ${transaction.seller.name}` : `Bought by ${transaction.buyer.name}`}
+              </p>
+              <p className="text-sm text-muted-foreground flex items-center gap-1">
+                <MapPin className="w-3.5 h-3.5" aria-hidden="true" />
+                {transaction.listing.city}, {transaction.listing.province}
+              </p>
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <div className="flex justify-between font-semibold text-lg">
+              <span>Total</span>
+              <span>{formatZAR(amount)}</span>
+            </div>
+            {refundedAmount > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Refunded to buyer</span>
+                <span>-{formatZAR(refundedAmount)}</span>
+              </div>
+            )}
+            {!isBuyer && (
+              <>
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    Commission ({Math.round(transaction.commissionRate.toNumber() * 10000) / 100}%)
+                  </span>
+                  <span>-{formatZAR(transaction.commission.toNumber())}</span>
+                </div>
+                <div className="flex justify-between text-sm font-medium">
+                  <span>You receive</span>
+                  <span>{formatZAR(transaction.netAmount.toNumber())}</span>
+                </div>
+              </>
+            )}
+          </div>
+
+          {transaction.status === 'AWAITING_CONFIRMATION' && transaction.releaseAt && (
+            <div className="rounded-lg border bg-muted/40 p-4 space-y-2">
+              <p className="text-sm">
+                {isBuyer
+                  ? 'Your payment is held securely. Confirm receipt once you have the item, or report a problem if something is wrong.'
+                  : `${transaction.buyer.name} has paid. The payment is held until they confirm receipt.`}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                Released automatically on{' '}
+                {transaction.releaseAt.toLocaleDateString('en-ZA', {
+                  weekday: 'long',
+                  month: 'long',
+                  day: 'numeric',
+                })}
+                {isBuyer && ' unless you report a problem'}
+              </p>
+              <EscrowCountdown releaseAt={transaction.releaseAt} />
+            </div>
+          )}
+
+          {transaction.status === 'DISPUTED' && transaction.dispute && (
+            <div className="rounded-lg border border-orange-200 bg-orange-50 dark:border-orange-800 dark:bg-orange-900/20 p-4 space-y-2">
+              <p className="font-medium flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4 text-orange-600" aria-hidden="true" />
+                {disputeReason?.label ?? 'Problem reported'}
+              </p>
+              <p className="text-sm text-muted-foreground whitespace-pre-line">
+                {transaction.dispute.description}
+              </p>
+              {transaction.dispute.evidenceUrls.length > 0 && (
+                <div className="grid grid-cols-5 gap-2">
+                  {transaction.dispute.evidenceUrls.map((url, index) => (
+                    <a
+                      key={url}
+                      href={url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="relative aspect-square rounded-md overflow-hidden bg-muted"
+                    >
+                      <Image
+                        src={getThumbnailUrl(url)}
+                        alt={`Evidence ${index + 1}`}
+                        fill
+                        className="object-cover"
+                        sizes="96px"
+                      />
+                    </a>
+                  ))}
+                </div>
+              )}
+              <p className="text-sm">
+                {isBuyer
+                  ? 'The payment stays on hold while an admin reviews the problem. If it is sorted out, confirm receipt to release it.'
+                  : 'The payment is on hold while an admin reviews the problem.'}
+              </p>
+              {isBuyer && transaction.dispute.sellerResponse && (
+                <div className="border-t border-orange-200 dark:border-orange-800 pt-2">
+                  <p className="text-sm font-medium">{transaction.seller.name} responded</p>
+                  <p className="text-sm text-muted-foreground whitespace-pre-line">
+                    {transaction.dispute.sellerResponse}
+                  </p>
+                </div>
+              )}
+              {!isBuyer && (
+                <div className="border-t border-orange-200 dark:border-orange-800 pt-2">
+                  <DisputeResponseForm
+                    transactionId={transaction.id}
+                    initialResponse={transaction.dispute.sellerResponse}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {transaction.dispute?.resolution && (
+            <div className="rounded-lg border bg-muted/40 p-4 space-y-2">
+              <p className="font-medium flex items-center gap-2">
+                <Scale className="w-4 h-4" aria-hidden="true" />
+                Dispute resolved: {DISPUTE_RESOLUTION_LABELS[transaction.dispute.resolution]}
+              </p>
+              {refundedAmount > 0 && (
+                <p className="text-sm">
+                  {formatZAR(refundedAmount)} {isBuyer ? 'is being refunded to you' : 'was refunded to the buyer'}
+                </p>
+              )}
+              {transaction.dispute.resolutionNote && (
+                <p className="text-sm text-muted-foreground whitespace-pre-line">
+                  {transaction.dispute.resolutionNote}
+                </p>
+              )}
+            </div>
+          )}
+
+          {isBuyer && isHeld && (
+            <EscrowActions
+              transactionId={transaction.id}
+              sellerName={transaction.seller.name}
+              canReportProblem={canReportProblem(transaction, new Date())}
+            />
+          )}
+
+          {isAwaitingPayment && (
+            <div className="space-y-4">
+              {payment === 'return' && (
+                <p className="text-sm text-muted-foreground text-center" role="status">
+                  We&apos;re waiting for the payment provider to confirm your payment. Refresh
+                  this page in a moment.
+                </p>
+              )}
+              {payment === 'cancelled' && (
+                <p className="text-sm text-muted-foreground text-center" role="status">
+                  Payment was cancelled. You can try again or cancel the order.
+                </p>
+              )}
+              <OrderPaymentActions transactionId={transaction.id} amount={amount} />
+            </div>
+          )}
+
+          <TransactionReviews
+            transaction={transaction}
+            viewerId={session.user.id}
+            counterpartyName={isBuyer ? transaction.seller.name : transaction.buyer.name}
+          />
+
+          {canDownloadDocument && (
+            <Button asChild variant="outline" className="w-full">
+              <a href={`/api/orders/${transaction.id}/documents/${isBuyer ? 'receipt' : 'invoice'}`} download>
+                <FileText className="w-4 h-4 mr-2" aria-hidden="true" />
+                {isBuyer ? 'Download receipt' : 'Download commission tax invoice'}
+              </a>
+            </Button>
+          )}
+
+          <Button asChild variant="outline" className="w-full">
+            <Link href={isBuyer ? '/listings' : '/dashboard'}>
+              {isBuyer ? 'Continue shopping' : 'Back to dashboard'}
+            </Link>
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
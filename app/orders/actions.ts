@@ -0,0 +1,217 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { requireAuth } from '@/lib/auth-helpers'
+import { prisma } from '@/lib/prisma'
+import { PaymentError } from '@/lib/payments/errors'
+import { startPayment } from '@/lib/payments/service'
+import { cancelTransaction } from '@/lib/payments/transitions'
+import { confirmReceipt, reportProblem, respondToDispute } from '@/lib/escrow/transitions'
+import { notifySalesCompleted } from '@/lib/escrow/notifications'
+import { orderPaymentSchema, type OrderPaymentFormData } from '@/lib/validations/checkout'
+import {
+  disputeResponseSchema,
+  problemReportSchema,
+  type DisputeResponseFormData,
+  type ProblemReportFormData,
+} from '@/lib/validations/dispute'
+
+type ActionResult<T = unknown> = {
+  success: boolean
+  data?: T
+  error?: string
+}
+
+/**
+ * Start (or restart) payment for the buyer's pending order
+ * Requires authentication
+ */
+export const payForOrder = async (
+  formData: OrderPaymentFormData
+): Promise<ActionResult<{ redirectUrl: string }>> => {
+  try {
+    const session = await requireAuth()
+
+    const validation = orderPaymentSchema.safeParse(formData)
+    if (!validation.success) {
+      return { success: false, error: 'Invalid order ID' }
+    }
+
+    const intent = await startPayment(validation.data.transactionId, session.user.id)
+
+    return { success: true, data: { redirectUrl: intent.redirectUrl } }
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      return { success: false, error: error.message }
+    }
+
+    console.error('Pay for order error:', error)
+    return { success: false, error: 'Failed to start payment. Please try again.' }
+  }
+}
+
+/**
+ * Cancel the buyer's order while it is still awaiting payment
+ * Requires authentication
+ *
+ * The listing goes back on sale. A payment that completes afterwards is
+ * ignored by the notification handler and logged for a manual refund.
+ */
+export const cancelOrder = async (formData: OrderPaymentFormData): Promise<ActionResult> => {
+  try {
+    const session = await requireAuth()
+
+    const validation = orderPaymentSchema.safeParse(formData)
+    if (!validation.success) {
+      return { success: false, error: 'Invalid order ID' }
+    }
+
+    const { transactionId } = validation.data
+
+    const result = await prisma.$transaction(async (tx) => {
+      const transaction = await tx.transaction.findFirst({
+        where: { id: transactionId, buyerId: session.user.id },
+        select: { listingId: true },
+      })
+
+      if (!transaction) {
+        return { error: 'Order not found' }
+      }
+
+      const cancelled = await cancelTransaction(tx, transactionId, new Date())
+      if (!cancelled) {
+        return { error: 'This order is no longer awaiting payment' }
+      }
+
+      return { listingId: transaction.listingId }
+    })
+
+    if ('error' in result) {
+      return { success: false, error: result.error }
+    }
+
+    revalidatePath(`/orders/${transactionId}`)
+    revalidatePath(`/listings/${result.listingId}`)
+    revalidatePath('/listings')
+    revalidatePath('/dashboard')
+    revalidatePath('/account/purchases')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Cancel order error:', error)
+    return { success: false, error: 'Failed to cancel order. Please try again.' }
+  }
+}
+
+/**
+ * Confirm the item arrived, releasing the held payment to the seller
+ * Requires authentication; buyer only
+ */
+export const confirmOrderReceipt = async (formData: OrderPaymentFormData): Promise<ActionResult> => {
+  try {
+    const session = await requireAuth()
+
+    const validation = orderPaymentSchema.safeParse(formData)
+    if (!validation.success) {
+      return { success: false, error: 'Invalid order ID' }
+    }
+
+    const { transactionId } = validation.data
+
+    const confirmed = await prisma.$transaction((tx) =>
+      confirmReceipt(tx, transactionId, session.user.id, new Date())
+    )
+
+    if (!confirmed) {
+      return { success: false, error: 'This order is not awaiting your confirmation' }
+    }
+
+    revalidatePath(`/orders/${transactionId}`)
+    revalidatePath('/dashboard')
+    revalidatePath('/account/purchases')
+
+    await notifySalesCompleted([transactionId])
+
+    return { success: true }
+  } catch (error) {
+    console.error('Confirm receipt error:', error)
+    return { success: false, error: 'Failed to confirm receipt. Please try again.' }
+  }
+}
+
+/**
+ * Report a problem with a paid order, pausing the automatic release
+ * Requires authentication; buyer only, before the release date
+ */
+export const reportOrderProblem = async (formData: ProblemReportFormData): Promise<ActionResult> => {
+  try {
+    const session = await requireAuth()
+
+    const validation = problemReportSchema.safeParse(formData)
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0]?.message || 'Invalid report' }
+    }
+
+    const { transactionId, reason, description, evidenceUrls } = validation.data
+
+    const reported = await prisma.$transaction((tx) =>
+      reportProblem(
+        tx,
+        { transactionId, buyerId: session.user.id, reason, description, evidenceUrls },
+        new Date()
+      )
+    )
+
+    if (!reported) {
+      return {
+        success: false,
+        error: 'A problem can only be reported on a paid order before its payment is released',
+      }
+    }
+
+    revalidatePath(`/orders/${transactionId}`)
+    revalidatePath('/dashboard')
+    revalidatePath('/account/purchases')
+    revalidatePath('/admin/disputes')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Report problem error:', error)
+    return { success: false, error: 'Failed to report the problem. Please try again.' }
+  }
+}
+
+/**
+ * Respond to the buyer's problem report
+ * Requires authentication; seller only, while the dispute is open
+ */
+export const respondToOrderDispute = async (
+  formData: DisputeResponseFormData
+): Promise<ActionResult> => {
+  try {
+    const session = await requireAuth()
+
+    const validation = disputeResponseSchema.safeParse(formData)
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0]?.message || 'Invalid response' }
+    }
+
+    const { transactionId, response } = validation.data
+
+    const responded = await prisma.$transaction((tx) =>
+      respondToDispute(tx, { transactionId, sellerId: session.user.id, response }, new Date())
+    )
+
+    if (!responded) {
+      return { success: false, error: 'There is no open problem report on this sale' }
+    }
+
+    revalidatePath(`/orders/${transactionId}`)
+    revalidatePath('/admin/disputes')
+
+    return { success: true }
+  } catch (error) {
+    console.error('Respond to dispute error:', error)
+    return { success: false, error: 'Failed to send your response. Please try again.' }
+  }
+}
@@ -8,6 +8,8 @@ import { Card, CardContent } from '@/components/ui/card'
 import { cn } from '@/lib/utils'
 import { CATEGORIES } from '@/lib/constants/categories'
 import { getListings } from './listings/actions'
+import { auth } from '@/auth'
+import { getWatchedListingIds } from '@/lib/prisma-queries'
 import { deserializeDecimal } from '@/lib/helpers/listing-helpers'
 import type { Metadata } from 'next'
 
@@ -23,7 +25,14 @@ export const metadata: Metadata = {
 
 export default async function HomePage() {
   // Fetch all approved listings
-  const { listings: allListings } = await getListings({ limit: 100, sortBy: "newest" })
+  const [{ listings: allListings }, session] = await Promise.all([
+    getListings({ limit: 100, sortBy: "newest" }),
+    auth(),
+  ])
+  const watchedIds = await getWatchedListingIds(
+    session?.user?.id ?? null,
+    allListings.map((listing) => listing.id)
+  )
 
   // Category background gradients - each category gets a unique Sky Blue shade
   const categoryBackgrounds: Record<typeof CATEGORIES[number]['value'], string> = {
@@ -187,6 +196,7 @@ export default async function HomePage() {
                 primaryImage={listing.primaryImage}
                 city={listing.city}
                 createdAt={listing.createdAt}
+                watched={watchedIds.has(listing.id)}
               />
             ))}
           </div>
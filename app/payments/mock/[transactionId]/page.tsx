@@ -0,0 +1,63 @@
+import { notFound } from 'next/navigation'
+import { FlaskConical } from 'lucide-react'
+import { requireAuth } from '@/lib/auth-helpers'
+import { getTransactionForUser } from '@/lib/prisma-queries'
+import { isMockPaymentsEnabled } from '@/lib/payments/gateway'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { MockPaymentForm } from '@/components/checkout/mock-payment-form'
+import { formatZAR } from '@/lib/constants/categories'
+
+type PageProps = {
+  params: Promise<{ transactionId: string }>
+}
+
+/**
+ * Local stand-in for a payment provider's hosted checkout page
+ */
+export default async function MockPaymentPage({ params }: PageProps) {
+  if (!isMockPaymentsEnabled()) {
+    notFound()
+  }
+
+  const session = await requireAuth()
+  const { transactionId } = await params
+
+  const transaction = await getTransactionForUser(transactionId, session.user.id)
+
+  if (!transaction || transaction.buyerId !== session.user.id) {
+    notFound()
+  }
+
+  const amount = transaction.amount.toNumber()
+
+  return (
+    <div className="container max-w-md mx-auto py-16 px-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FlaskConical className="w-5 h-5" aria-hidden="true" />
+            Mock Payment Gateway
+          </CardTitle>
+          <CardDescription>
+            Development only. No money is moved; choosing an option sends a signed notification
+            as a real provider would.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-1">
+            <p className="font-semibold line-clamp-2">{transaction.listing.title}</p>
+            <p className="text-2xl font-bold">{formatZAR(amount)}</p>
+          </div>
+
+          {transaction.status === 'PENDING' ? (
+            <MockPaymentForm transactionId={transaction.id} amount={amount} />
+          ) : (
+            <p className="text-sm text-muted-foreground" role="status">
+              This order is {transaction.status.toLowerCase()} and cannot be paid.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,79 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { after } from 'next/server'
+import { requireAuth } from '@/lib/auth-helpers'
+import { prisma } from '@/lib/prisma'
+import { PaymentError } from '@/lib/payments/errors'
+import { getMockPaymentSecret, getPaymentUrls } from '@/lib/payments/gateway'
+import { createMockNotification } from '@/lib/payments/mock'
+import { handlePaymentNotification } from '@/lib/payments/service'
+import { mockPaymentSchema, type MockPaymentFormData } from '@/lib/validations/checkout'
+import { notifyWatchersOfSale } from '@/lib/watchlist/service'
+
+type ActionResult<T = unknown> = {
+  success: boolean
+  data?: T
+  error?: string
+}
+
+/**
+ * Pay or cancel on the mock gateway
+ * Requires authentication; only the buyer can act on their order
+ *
+ * Delivers a signed notification through the same handler the notify route
+ * uses, then returns the URL the provider would send the buyer back to.
+ */
+export const submitMockPayment = async (
+  formData: MockPaymentFormData
+): Promise<ActionResult<{ redirectUrl: string }>> => {
+  try {
+    const session = await requireAuth()
+
+    const validation = mockPaymentSchema.safeParse(formData)
+    if (!validation.success) {
+      return { success: false, error: 'Invalid payment' }
+    }
+
+    const { transactionId, outcome } = validation.data
+
+    const transaction = await prisma.transaction.findFirst({
+      where: { id: transactionId, buyerId: session.user.id },
+      select: { amount: true, listingId: true },
+    })
+
+    if (!transaction) {
+      return { success: false, error: 'Order not found' }
+    }
+
+    const { body, headers } = createMockNotification(getMockPaymentSecret(), {
+      transactionId,
+      outcome,
+      amount: transaction.amount.toNumber(),
+    })
+
+    const { soldTransactionId } = await handlePaymentNotification('MOCK', body, new Headers(headers))
+
+    if (soldTransactionId) {
+      after(() => notifyWatchersOfSale(soldTransactionId))
+    }
+
+    revalidatePath(`/orders/${transactionId}`)
+    revalidatePath(`/listings/${transaction.listingId}`)
+    revalidatePath('/dashboard')
+
+    const { returnUrl, cancelUrl } = getPaymentUrls(transactionId, 'MOCK')
+
+    return {
+      success: true,
+      data: { redirectUrl: outcome === 'COMPLETED' ? returnUrl : cancelUrl },
+    }
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      return { success: false, error: error.message }
+    }
+
+    console.error('Mock payment error:', error)
+    return { success: false, error: 'Mock payment failed' }
+  }
+}
@@ -0,0 +1,174 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { Prisma } from '@prisma/client'
+import { requireAuth } from '@/lib/auth-helpers'
+import { prisma } from '@/lib/prisma'
+import { createReview, editReview, replyToReview, reportReview } from '@/lib/reviews/service'
+import {
+  reviewEditSchema,
+  reviewReplySchema,
+  reviewReportSchema,
+  reviewSchema,
+  type ReviewEditFormData,
+  type ReviewFormData,
+  type ReviewReplyFormData,
+  type ReviewReportFormData,
+} from '@/lib/validations/review'
+
+type ActionResult<T = unknown> = {
+  success: boolean
+  data?: T
+  error?: string
+}
+
+const revalidateReviewPaths = (transactionId: string) => {
+  revalidatePath(`/orders/${transactionId}`)
+  revalidatePath(`/account/purchases/${transactionId}`)
+  revalidatePath('/account/purchases')
+  revalidatePath('/account/reviews')
+  revalidatePath('/listings')
+}
+
+/**
+ * Review the other party to a completed order
+ * Requires authentication; buyer or seller, within the review window
+ */
+export const submitReview = async (
+  formData: ReviewFormData
+): Promise<ActionResult<{ reviewId: string }>> => {
+  try {
+    const session = await requireAuth()
+
+    const validation = reviewSchema.safeParse(formData)
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0]?.message || 'Invalid review' }
+    }
+
+    const { transactionId, rating, comment } = validation.data
+
+    const result = await prisma.$transaction((tx) =>
+      createReview(tx, { transactionId, reviewerId: session.user.id, rating, comment }, new Date())
+    )
+
+    if ('error' in result) {
+      return { success: false, error: result.error }
+    }
+
+    revalidateReviewPaths(transactionId)
+
+    return { success: true, data: { reviewId: result.review.id } }
+  } catch (error) {
+    // Unique review per reviewer and transaction: a concurrent submit won
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return { success: false, error: 'You have already reviewed this order' }
+    }
+
+    console.error('Submit review error:', error)
+    return { success: false, error: 'Failed to submit your review. Please try again.' }
+  }
+}
+
+/**
+ * Edit a review during its grace period
+ * Requires authentication; the reviewer only
+ */
+export const updateReview = async (formData: ReviewEditFormData): Promise<ActionResult> => {
+  try {
+    const session = await requireAuth()
+
+    const validation = reviewEditSchema.safeParse(formData)
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0]?.message || 'Invalid review' }
+    }
+
+    const { reviewId, rating, comment } = validation.data
+
+    const result = await prisma.$transaction((tx) =>
+      editReview(tx, { reviewId, reviewerId: session.user.id, rating, comment }, new Date())
+    )
+
+    if ('error' in result) {
+      return { success: false, error: result.error }
+    }
+
+    revalidateReviewPaths(result.review.transactionId)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Update review error:', error)
+    return { success: false, error: 'Failed to update your review. Please try again.' }
+  }
+}
+
+/**
+ * Publish a public reply to a review of the current user
+ * Requires authentication; the reviewee only, once per review
+ */
+export const submitReviewReply = async (formData: ReviewReplyFormData): Promise<ActionResult> => {
+  try {
+    const session = await requireAuth()
+
+    const validation = reviewReplySchema.safeParse(formData)
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0]?.message || 'Invalid reply' }
+    }
+
+    const { reviewId, reply } = validation.data
+
+    const replied = await prisma.$transaction((tx) =>
+      replyToReview(tx, { reviewId, revieweeId: session.user.id, reply }, new Date())
+    )
+
+    if (!replied) {
+      return { success: false, error: 'You can only reply once to a visible review of you' }
+    }
+
+    const review = await prisma.review.findUniqueOrThrow({
+      where: { id: reviewId },
+      select: { transactionId: true },
+    })
+    revalidateReviewPaths(review.transactionId)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Review reply error:', error)
+    return { success: false, error: 'Failed to post your reply. Please try again.' }
+  }
+}
+
+/**
+ * Report an abusive or fake review for moderation
+ * Requires authentication; anyone except the review's author
+ */
+export const submitReviewReport = async (formData: ReviewReportFormData): Promise<ActionResult> => {
+  try {
+    const session = await requireAuth()
+
+    const validation = reviewReportSchema.safeParse(formData)
+    if (!validation.success) {
+      return { success: false, error: validation.error.issues[0]?.message || 'Invalid report' }
+    }
+
+    const { reviewId, reason, details } = validation.data
+
+    const result = await prisma.$transaction((tx) =>
+      reportReview(tx, { reviewId, reporterId: session.user.id, reason, details })
+    )
+
+    if ('error' in result) {
+      return { success: false, error: result.error }
+    }
+
+    revalidatePath('/admin/reviews')
+
+    return { success: true }
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return { success: false, error: 'You have already reported this review' }
+    }
+
+    console.error('Review report error:', error)
+    return { success: false, error: 'Failed to report the review. Please try again.' }
+  }
+}
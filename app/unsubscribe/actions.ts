@@ -0,0 +1,36 @@
+'use server'
+
+import { prisma } from '@/lib/prisma'
+import { applyUnsubscribeToken } from '@/lib/notifications/unsubscribe'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type ActionResult<T = unknown> = {
+  success: boolean
+  data?: T
+  error?: string
+}
+
+// ============================================================================
+// SERVER ACTIONS
+// ============================================================================
+
+/**
+ * Switch off the emails named by an unsubscribe link; no sign-in needed
+ */
+export const unsubscribe = async (token: string): Promise<ActionResult> => {
+  try {
+    const scope = await prisma.$transaction((tx) => applyUnsubscribeToken(tx, token))
+
+    if (!scope) {
+      return { success: false, error: 'This unsubscribe link is invalid' }
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Unsubscribe error:', error)
+    return { success: false, error: 'Failed to unsubscribe' }
+  }
+}
@@ -0,0 +1,55 @@
+import Link from 'next/link'
+import { MailX } from 'lucide-react'
+import { NOTIFICATION_KINDS } from '@/lib/notifications/kinds'
+import { verifyUnsubscribeToken } from '@/lib/notifications/unsubscribe'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { UnsubscribeButton } from '@/components/notifications/unsubscribe-button'
+
+export const metadata = {
+  title: 'Unsubscribe',
+  description: 'Stop notification emails',
+}
+
+interface PageProps {
+  searchParams: Promise<{
+    token?: string
+  }>
+}
+
+export default async function UnsubscribePage({ searchParams }: PageProps) {
+  const { token } = await searchParams
+  const verified = token ? verifyUnsubscribeToken(token) : null
+
+  return (
+    <div className="container max-w-md mx-auto py-16 px-4">
+      <Card>
+        <CardHeader className="text-center">
+          <MailX className="w-12 h-12 mx-auto mb-2 text-muted-foreground" aria-hidden="true" />
+          <CardTitle>Unsubscribe</CardTitle>
+          <CardDescription>
+            {!verified
+              ? 'This unsubscribe link is invalid or incomplete'
+              : verified.scope === 'DIGEST'
+                ? 'Stop the daily digest and the low-priority emails it collects'
+                : `Stop "${NOTIFICATION_KINDS[verified.scope].label}" emails`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col items-center gap-4">
+          {token && verified && <UnsubscribeButton token={token} />}
+          <p className="text-sm text-muted-foreground text-center">
+            You can choose exactly which emails you get in{' '}
+            <Link href="/account/settings" className="underline hover:text-foreground">
+              notification settings
+            </Link>
+          </p>
+          {!verified && (
+            <Button asChild variant="outline">
+              <Link href="/">Back to LOTOSALE</Link>
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,261 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { CalendarDays, ChevronLeft, ChevronRight, MapPin, Package, ShoppingBag, Star } from 'lucide-react'
+import type { Metadata } from 'next'
+import { auth } from '@/auth'
+import {
+  getActiveListingsForSeller,
+  getPublicProfile,
+  getRatingCounts,
+  getUserReviews,
+  getWatchedListingIds,
+} from '@/lib/prisma-queries'
+import { Avatar, AvatarFallback } from '@/components/ui/avatar'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ListingCard } from '@/components/listings/listing-card'
+import { ReportReviewDialog } from '@/components/reviews/report-review-dialog'
+import { StarRating } from '@/components/reviews/star-rating'
+import { buildRatingBreakdown } from '@/lib/reviews/breakdown'
+import { formatRelativeDate } from '@/lib/helpers/listing-helpers'
+
+const LISTINGS_PAGE_SIZE = 12
+const RECENT_REVIEWS = 10
+
+type Props = {
+  params: Promise<{ id: string }>
+  searchParams: Promise<{ page?: string }>
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { id } = await params
+  const profile = await getPublicProfile(id)
+
+  if (!profile) {
+    return {
+      title: 'User Not Found',
+    }
+  }
+
+  return {
+    title: `${profile.name} | LOTOSALE`,
+    description: `Listings and reviews for ${profile.name} on LOTOSALE`,
+  }
+}
+
+export default async function UserProfilePage({ params, searchParams }: Props) {
+  const { id } = await params
+  const page = Math.max(parseInt((await searchParams).page || '1') || 1, 1)
+
+  const profile = await getPublicProfile(id)
+  if (!profile) {
+    notFound()
+  }
+
+  const [session, ratingCounts, reviews, { listings, totalCount }] = await Promise.all([
+    auth(),
+    getRatingCounts(id),
+    getUserReviews(id, { limit: RECENT_REVIEWS }),
+    getActiveListingsForSeller(id, page, LISTINGS_PAGE_SIZE),
+  ])
+
+  const viewerId = session?.user?.id
+  const watchedIds = await getWatchedListingIds(
+    viewerId ?? null,
+    listings.map((listing) => listing.id)
+  )
+  const breakdown = buildRatingBreakdown(ratingCounts)
+  const totalPages = Math.max(Math.ceil(totalCount / LISTINGS_PAGE_SIZE), 1)
+  const pageUrl = (target: number) => (target === 1 ? `/users/${id}` : `/users/${id}?page=${target}`)
+  const location = [profile.city, profile.province].filter(Boolean).join(', ')
+
+  return (
+    <div className="container max-w-6xl mx-auto py-8 px-4 space-y-8">
+      {/* Header */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+            <Avatar className="w-16 h-16">
+              <AvatarFallback className="text-2xl">{profile.name.charAt(0)}</AvatarFallback>
+            </Avatar>
+            <div className="flex-1 min-w-0 space-y-2">
+              <h1 className="text-3xl font-bold truncate">{profile.name}</h1>
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                <span className="flex items-center gap-1.5">
+                  <CalendarDays className="w-4 h-4" aria-hidden="true" />
+                  Member since{' '}
+                  {profile.createdAt.toLocaleDateString('en-ZA', { month: 'long', year: 'numeric' })}
+                </span>
+                {location && (
+                  <span className="flex items-center gap-1.5">
+                    <MapPin className="w-4 h-4" aria-hidden="true" />
+                    {location}
+                  </span>
+                )}
+                <span className="flex items-center gap-1.5">
+                  <ShoppingBag className="w-4 h-4" aria-hidden="true" />
+                  {profile.completedSales} completed sale{profile.completedSales === 1 ? '' : 's'}
+                </span>
+              </div>
+            </div>
+            <div className="sm:text-right">
+              {profile.reviewCount > 0 ? (
+                <>
+                  <p className="text-3xl font-bold">{profile.rating.toFixed(1)}</p>
+                  <StarRating rating={Math.round(profile.rating)} />
+                  <p className="text-sm text-muted-foreground mt-1">
+                    {profile.reviewCount} review{profile.reviewCount === 1 ? '' : 's'}
+                  </p>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">No reviews yet</p>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        {/* Reviews */}
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Star className="w-5 h-5" aria-hidden="true" />
+                Rating breakdown
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {breakdown.map((row) => (
+                <div key={row.rating} className="flex items-center gap-3 text-sm">
+                  <span className="w-12 shrink-0">{row.rating} star</span>
+                  <div className="h-2 flex-1 rounded-full bg-muted overflow-hidden">
+                    <div className="h-full bg-yellow-400" style={{ width: `${row.percent}%` }} />
+                  </div>
+                  <span className="w-8 shrink-0 text-right text-muted-foreground">{row.count}</span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Recent reviews</CardTitle>
+              <CardDescription>From buyers and sellers after completed orders</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {reviews.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">No reviews yet</p>
+              ) : (
+                <div className="divide-y">
+                  {reviews.map((review) => (
+                    <div key={review.id} className="py-4 first:pt-0 space-y-2">
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0 space-y-1">
+                          <StarRating rating={review.rating} />
+                          <p className="text-xs text-muted-foreground">
+                            <Link href={`/users/${review.reviewer.id}`} className="hover:underline">
+                              {review.reviewer.name}
+                            </Link>{' '}
+                            · {review.transaction.listing.title} · {formatRelativeDate(review.createdAt)}
+                          </p>
+                        </div>
+                        {viewerId && viewerId !== review.reviewer.id && (
+                          <ReportReviewDialog reviewId={review.id} />
+                        )}
+                      </div>
+                      {review.comment && (
+                        <p className="text-sm whitespace-pre-line">{review.comment}</p>
+                      )}
+                      {review.reply && (
+                        <div className="ml-4 border-l-2 pl-3 space-y-0.5">
+                          <p className="text-xs font-medium">Reply from {profile.name}</p>
+                          <p className="text-sm text-muted-foreground whitespace-pre-line">{review.reply}</p>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Listings */}
+        <section className="lg:col-span-2 space-y-6" aria-labelledby="listings-heading">
+          <div className="flex items-center justify-between">
+            <h2 id="listings-heading" className="text-xl font-semibold">
+              Active listings
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              {totalCount} listing{totalCount === 1 ? '' : 's'}
+            </p>
+          </div>
+
+          {listings.length > 0 ? (
+            <div className="grid gap-6 grid-cols-1 sm:grid-cols-2">
+              {listings.map((listing) => (
+                <ListingCard
+                  key={listing.id}
+                  id={listing.id}
+                  title={listing.title}
+                  price={listing.price ? listing.price.toNumber() : undefined}
+                  pricingType={listing.pricingType}
+                  condition={listing.condition}
+                  primaryImage={listing.primaryImage}
+                  city={listing.city}
+                  createdAt={listing.createdAt}
+                  watched={watchedIds.has(listing.id)}
+                />
+              ))}
+            </div>
+          ) : (
+            <Card className="p-6">
+              <div className="flex flex-col items-center gap-2 py-12 text-muted-foreground">
+                <Package className="w-8 h-8" aria-hidden="true" />
+                <p>{page > 1 ? 'No more listings' : 'No active listings right now'}</p>
+              </div>
+            </Card>
+          )}
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="flex items-center justify-center gap-4">
+              {page > 1 ? (
+                <Button asChild variant="outline">
+                  <Link href={pageUrl(page - 1)}>
+                    <ChevronLeft className="w-4 h-4 mr-2" aria-hidden="true" />
+                    Previous
+                  </Link>
+                </Button>
+              ) : (
+                <Button variant="outline" disabled>
+                  <ChevronLeft className="w-4 h-4 mr-2" aria-hidden="true" />
+                  Previous
+                </Button>
+              )}
+
+              <span className="text-sm text-muted-foreground">
+                Page {Math.min(page, totalPages)} of {totalPages}
+              </span>
+
+              {page < totalPages ? (
+                <Button asChild variant="outline">
+                  <Link href={pageUrl(page + 1)}>
+                    Next
+                    <ChevronRight className="w-4 h-4 ml-2" aria-hidden="true" />
+                  </Link>
+                </Button>
+              ) : (
+                <Button variant="outline" disabled>
+                  Next
+                  <ChevronRight className="w-4 h-4 ml-2" aria-hidden="true" />
+                </Button>
+              )}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  )
+}
@@ -18,6 +18,10 @@ export const authConfig = {
       const isOnDashboard = nextUrl.pathname.startsWith("/dashboard");
       const isOnAccount = nextUrl.pathname.startsWith("/account");
       const isOnSell = nextUrl.pathname.startsWith("/sell");
+      const isOnCheckout =
+        nextUrl.pathname.startsWith("/checkout") ||
+        nextUrl.pathname.startsWith("/orders") ||
+        nextUrl.pathname.startsWith("/payments");
       const isOnAdmin = nextUrl.pathname.startsWith("/admin");
       const isOnAuthPage =
         nextUrl.pathname.startsWith("/auth/login") ||
@@ -32,8 +36,8 @@ export const authConfig = {
         return Response.redirect(new URL(redirectUrl, nextUrl));
       }
 
-      // Protect dashboard, account, and sell pages
-      if (isOnDashboard || isOnAccount || isOnSell) {
+      // Protect dashboard, account, sell, and checkout pages
+      if (isOnDashboard || isOnAccount || isOnSell || isOnCheckout) {
         if (isLoggedIn) return true;
         return false; // Redirect unauthenticated users to login page
       }
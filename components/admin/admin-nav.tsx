@@ -3,7 +3,7 @@
 import { useState } from 'react'
 import Link from 'next/link'
 import { usePathname } from 'next/navigation'
-import { Home, List, Users, BarChart, Menu, LogOut, FolderTree } from 'lucide-react'
+import { Home, List, Users, BarChart, Menu, LogOut, FolderTree, Percent, Scale, Landmark, MessageSquareWarning, MessageCircleWarning } from 'lucide-react'
 import { signOut } from 'next-auth/react'
 import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
@@ -38,6 +38,31 @@ const navItems: NavItem[] = [
     href: '/admin/categories',
     icon: FolderTree,
   },
+  {
+    label: 'Commission',
+    href: '/admin/commission',
+    icon: Percent,
+  },
+  {
+    label: 'Disputes',
+    href: '/admin/disputes',
+    icon: Scale,
+  },
+  {
+    label: 'Reviews',
+    href: '/admin/reviews',
+    icon: MessageSquareWarning,
+  },
+  {
+    label: 'Messages',
+    href: '/admin/messages',
+    icon: MessageCircleWarning,
+  },
+  {
+    label: 'Payouts',
+    href: '/admin/payouts',
+    icon: Landmark,
+  },
   {
     label: 'Users',
     href: '/admin/users',
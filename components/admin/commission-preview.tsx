@@ -0,0 +1,148 @@
+'use client'
+
+import * as React from 'react'
+import { Calculator } from 'lucide-react'
+import { previewCommission, type CommissionPreview as CommissionPreviewData } from '@/app/admin/commission/actions'
+import { formatZAR } from '@/lib/constants/categories'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+type CommissionPreviewProps = {
+  categories: { id: string; name: string }[]
+}
+
+const ANY_CATEGORY = 'any'
+
+export const CommissionPreview = ({ categories }: CommissionPreviewProps) => {
+  const [isPending, startTransition] = React.useTransition()
+  const [price, setPrice] = React.useState('')
+  const [categoryId, setCategoryId] = React.useState(ANY_CATEGORY)
+  const [sellerEmail, setSellerEmail] = React.useState('')
+  const [preview, setPreview] = React.useState<CommissionPreviewData | null>(null)
+  const [error, setError] = React.useState('')
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    startTransition(async () => {
+      const result = await previewCommission({
+        price: parseFloat(price),
+        categoryId: categoryId === ANY_CATEGORY ? null : categoryId,
+        sellerEmail: sellerEmail.trim() || null,
+      })
+      if (!result.success || !result.data) {
+        setPreview(null)
+        setError(result.error || 'Failed to preview commission')
+        return
+      }
+      setPreview(result.data)
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Calculator className="w-5 h-5" aria-hidden="true" />
+          Fee Preview
+        </CardTitle>
+        <CardDescription>
+          Check the commission a sale would be charged under the active rules.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="grid gap-4 md:grid-cols-4 md:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="preview-price">Sale price</Label>
+            <div className="relative">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">R</span>
+              <Input
+                id="preview-price"
+                type="number"
+                inputMode="decimal"
+                min={0.01}
+                step="0.01"
+                className="pl-7"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                required
+                disabled={isPending}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="preview-category">Category</Label>
+            <Select value={categoryId} onValueChange={setCategoryId} disabled={isPending}>
+              <SelectTrigger id="preview-category" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_CATEGORY}>Any category</SelectItem>
+                {categories.map((category) => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="preview-seller">Seller email (optional)</Label>
+            <Input
+              id="preview-seller"
+              type="email"
+              value={sellerEmail}
+              onChange={(e) => setSellerEmail(e.target.value)}
+              disabled={isPending}
+            />
+          </div>
+
+          <Button type="submit" disabled={isPending || !price}>
+            {isPending ? 'Calculating...' : 'Preview Fee'}
+          </Button>
+        </form>
+
+        {error && (
+          <p className="mt-4 text-sm text-destructive" role="alert">
+            {error}
+          </p>
+        )}
+
+        {preview && (
+          <dl className="mt-6 grid gap-4 text-sm sm:grid-cols-3">
+            <div>
+              <dt className="text-muted-foreground">Commission</dt>
+              <dd className="text-lg font-semibold">{formatZAR(preview.commission)}</dd>
+              {preview.clampedTo && (
+                <dd className="text-xs text-muted-foreground">
+                  {preview.clampedTo === 'MIN_FEE' ? 'Raised to the minimum fee' : 'Capped at the maximum fee'}
+                </dd>
+              )}
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Seller receives</dt>
+              <dd className="text-lg font-semibold">{formatZAR(preview.netAmount)}</dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Rule applied</dt>
+              <dd className="text-lg font-semibold">{preview.ruleName ?? 'Built-in default'}</dd>
+              <dd className="text-xs text-muted-foreground">{preview.ratePercent}% rate</dd>
+            </div>
+          </dl>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,347 @@
+'use client'
+
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+import {
+  createCommissionRule,
+  updateCommissionRule,
+  type CommissionRuleRow,
+} from '@/app/admin/commission/actions'
+import { commissionRuleSchema, type CommissionRuleFormData } from '@/lib/validations/commission'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Switch } from '@/components/ui/switch'
+
+export const COMMISSION_RULE_TYPE_LABELS: Record<CommissionRuleFormData['type'], string> = {
+  DEFAULT: 'Default rate',
+  CATEGORY: 'Category override',
+  PRICE_BAND: 'Price band',
+  SELLER_PROMO: 'Seller promotion',
+}
+
+type CommissionRuleFormDialogProps = {
+  mode: 'create' | 'edit'
+  rule?: CommissionRuleRow
+  categories: { id: string; name: string }[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Number inputs: empty means "not set"
+const toNullableNumber = (value: string) => (value === '' ? null : parseFloat(value))
+
+export const CommissionRuleFormDialog = ({
+  mode,
+  rule,
+  categories,
+  open,
+  onOpenChange,
+}: CommissionRuleFormDialogProps) => {
+  const router = useRouter()
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const form = useForm<CommissionRuleFormData>({
+    resolver: zodResolver(commissionRuleSchema),
+    defaultValues: {
+      name: rule?.name || '',
+      type: rule?.type || 'DEFAULT',
+      ratePercent: rule?.ratePercent ?? 20,
+      minFee: rule?.minFee ?? null,
+      maxFee: rule?.maxFee ?? null,
+      isActive: rule?.isActive ?? true,
+      categoryId: rule?.categoryId ?? null,
+      minPrice: rule?.minPrice ?? null,
+      maxPrice: rule?.maxPrice ?? null,
+      sellerEmail: rule?.sellerEmail ?? null,
+      validFrom: rule?.validFrom ?? null,
+      validUntil: rule?.validUntil ?? null,
+    },
+  })
+
+  const watchType = form.watch('type')
+
+  const onSubmit = async (data: CommissionRuleFormData) => {
+    setIsSubmitting(true)
+    try {
+      const result = mode === 'create'
+        ? await createCommissionRule(data)
+        : rule
+        ? await updateCommissionRule(rule.id, data)
+        : { success: false, error: 'Commission rule not found' }
+
+      if (result.success) {
+        toast.success(`Commission rule ${mode === 'create' ? 'created' : 'updated'}`)
+        onOpenChange(false)
+        form.reset()
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Operation failed')
+      }
+    } catch {
+      toast.error('An error occurred')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const renderMoneyField = (
+    name: 'minFee' | 'maxFee' | 'minPrice' | 'maxPrice',
+    label: string,
+    description: string
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <div className="relative">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">R</span>
+              <Input
+                type="number"
+                step="0.01"
+                min={0}
+                className="pl-7"
+                value={field.value ?? ''}
+                onChange={(e) => field.onChange(toNullableNumber(e.target.value))}
+              />
+            </div>
+          </FormControl>
+          <FormDescription>{description}</FormDescription>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {mode === 'create' ? 'Create Commission Rule' : 'Edit Commission Rule'}
+          </DialogTitle>
+          <DialogDescription>
+            Seller promotions take precedence over category overrides, then price bands, then the
+            default rate.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Rule Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Electronics 15%" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(COMMISSION_RULE_TYPE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="ratePercent"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Rate (%)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min={0}
+                        max={100}
+                        value={field.value}
+                        onChange={(e) => field.onChange(e.target.value === '' ? NaN : parseFloat(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {watchType === 'CATEGORY' && (
+              <FormField
+                control={form.control}
+                name="categoryId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select value={field.value ?? undefined} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="Select a category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {categories.map((category) => (
+                          <SelectItem key={category.id} value={category.id}>
+                            {category.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>Also applies to its subcategories without their own rule</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {watchType === 'PRICE_BAND' && (
+              <div className="grid gap-4 sm:grid-cols-2">
+                {renderMoneyField('minPrice', 'From price', 'Inclusive; empty for no lower bound')}
+                {renderMoneyField('maxPrice', 'Up to price', 'Exclusive; empty for no upper bound')}
+              </div>
+            )}
+
+            {watchType === 'SELLER_PROMO' && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="sellerEmail"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Seller Email</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="email"
+                          placeholder="seller@example.com"
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(e.target.value || null)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="grid gap-4 sm:grid-cols-2">
+                  {(['validFrom', 'validUntil'] as const).map((name) => (
+                    <FormField
+                      key={name}
+                      control={form.control}
+                      name={name}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{name === 'validFrom' ? 'Starts on' : 'Ends on'}</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="date"
+                              value={field.value ?? ''}
+                              onChange={(e) => field.onChange(e.target.value || null)}
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            {name === 'validFrom' ? 'Empty to start now' : 'Last day of the promotion; empty for no end'}
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                </div>
+              </>
+            )}
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              {renderMoneyField('minFee', 'Minimum fee', 'Empty for no minimum')}
+              {renderMoneyField('maxFee', 'Maximum fee', 'Empty for no maximum')}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="isActive"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-base">Active</FormLabel>
+                    <FormDescription>
+                      Only active rules are used for new transactions
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <div className="flex gap-3 justify-end">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isSubmitting}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {mode === 'create' ? 'Create' : 'Update'} Rule
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
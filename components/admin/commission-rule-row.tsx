@@ -0,0 +1,214 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  deleteCommissionRule,
+  updateCommissionRule,
+  type CommissionRuleRow as CommissionRuleRowData,
+} from '@/app/admin/commission/actions'
+import { CommissionRuleFormDialog, COMMISSION_RULE_TYPE_LABELS } from './commission-rule-form-dialog'
+import { formatZAR } from '@/lib/constants/categories'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { MoreHorizontal, Edit, Power, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+
+type CommissionRuleRowProps = {
+  rule: CommissionRuleRowData
+  categories: { id: string; name: string }[]
+}
+
+/**
+ * Describe which sales a rule covers
+ */
+const describeScope = (rule: CommissionRuleRowData) => {
+  switch (rule.type) {
+    case 'DEFAULT':
+      return 'All sales'
+    case 'CATEGORY':
+      return rule.categoryName ?? 'Unknown category'
+    case 'PRICE_BAND':
+      if (rule.minPrice !== null && rule.maxPrice !== null) {
+        return `${formatZAR(rule.minPrice)} to under ${formatZAR(rule.maxPrice)}`
+      }
+      if (rule.minPrice !== null) return `${formatZAR(rule.minPrice)} and above`
+      return `Under ${formatZAR(rule.maxPrice ?? 0)}`
+    case 'SELLER_PROMO': {
+      const dates = [rule.validFrom ?? 'now', rule.validUntil ?? 'no end'].join(' to ')
+      return `${rule.sellerEmail ?? 'Unknown seller'} · ${dates}`
+    }
+  }
+}
+
+export const CommissionRuleRow = ({ rule, categories }: CommissionRuleRowProps) => {
+  const router = useRouter()
+  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const fees = [
+    rule.minFee !== null && `min ${formatZAR(rule.minFee)}`,
+    rule.maxFee !== null && `max ${formatZAR(rule.maxFee)}`,
+  ].filter(Boolean)
+
+  const handleToggleStatus = async () => {
+    setIsLoading(true)
+    try {
+      const result = await updateCommissionRule(rule.id, {
+        name: rule.name,
+        type: rule.type,
+        ratePercent: rule.ratePercent,
+        minFee: rule.minFee,
+        maxFee: rule.maxFee,
+        isActive: !rule.isActive,
+        categoryId: rule.categoryId,
+        minPrice: rule.minPrice,
+        maxPrice: rule.maxPrice,
+        sellerEmail: rule.sellerEmail,
+        validFrom: rule.validFrom,
+        validUntil: rule.validUntil,
+      })
+      if (result.success) {
+        toast.success(`Rule ${rule.isActive ? 'deactivated' : 'activated'}`)
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to toggle status')
+      }
+    } catch {
+      toast.error('An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    setIsLoading(true)
+    try {
+      const result = await deleteCommissionRule(rule.id)
+      if (result.success) {
+        toast.success('Rule deleted')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to delete rule')
+      }
+    } catch {
+      toast.error('An error occurred')
+    } finally {
+      setIsLoading(false)
+      setIsDeleteDialogOpen(false)
+    }
+  }
+
+  return (
+    <>
+      <div className="flex items-center gap-4 p-4 border rounded-lg hover:bg-muted/50 transition-colors">
+        {/* Rate */}
+        <div className="flex items-center justify-center w-16 h-10 rounded-lg bg-primary/10 text-primary font-semibold shrink-0">
+          {rule.ratePercent}%
+        </div>
+
+        {/* Info */}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 mb-1">
+            <h3 className="font-semibold truncate">{rule.name}</h3>
+            <Badge variant="outline" className="text-xs">
+              {COMMISSION_RULE_TYPE_LABELS[rule.type]}
+            </Badge>
+            {!rule.isActive && (
+              <Badge variant="secondary" className="text-xs">
+                Inactive
+              </Badge>
+            )}
+          </div>
+          <div className="flex items-center gap-3 text-sm text-muted-foreground">
+            <span className="truncate">{describeScope(rule)}</span>
+            {fees.length > 0 && <span className="text-xs">{fees.join(' · ')}</span>}
+          </div>
+        </div>
+
+        {/* Stats */}
+        <div className="text-center text-sm shrink-0">
+          <div className="font-semibold">{rule.transactionCount}</div>
+          <div className="text-xs text-muted-foreground">Sales</div>
+        </div>
+
+        {/* Actions */}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon" disabled={isLoading} aria-label="Rule actions">
+              <MoreHorizontal className="w-4 h-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => setIsEditDialogOpen(true)}>
+              <Edit className="w-4 h-4 mr-2" />
+              Edit
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={handleToggleStatus}>
+              <Power className="w-4 h-4 mr-2" />
+              {rule.isActive ? 'Deactivate' : 'Activate'}
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onClick={() => setIsDeleteDialogOpen(true)}
+              className="text-destructive focus:text-destructive"
+              disabled={rule.transactionCount > 0}
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      {/* Edit Dialog */}
+      <CommissionRuleFormDialog
+        mode="edit"
+        rule={rule}
+        categories={categories}
+        open={isEditDialogOpen}
+        onOpenChange={setIsEditDialogOpen}
+      />
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Commission Rule</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete <strong>{rule.name}</strong>?
+              New sales it covers will fall back to the next matching rule.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
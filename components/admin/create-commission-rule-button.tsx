@@ -0,0 +1,30 @@
+'use client'
+
+import { useState } from 'react'
+import { CommissionRuleFormDialog } from './commission-rule-form-dialog'
+import { Button } from '@/components/ui/button'
+import { Plus } from 'lucide-react'
+
+type CreateCommissionRuleButtonProps = {
+  categories: { id: string; name: string }[]
+}
+
+export const CreateCommissionRuleButton = ({ categories }: CreateCommissionRuleButtonProps) => {
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+
+  return (
+    <>
+      <Button onClick={() => setIsDialogOpen(true)} className="gap-2">
+        <Plus className="w-4 h-4" />
+        Create Rule
+      </Button>
+
+      <CommissionRuleFormDialog
+        mode="create"
+        categories={categories}
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+      />
+    </>
+  )
+}
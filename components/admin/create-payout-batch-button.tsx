@@ -0,0 +1,71 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Plus } from 'lucide-react'
+import { toast } from 'sonner'
+import { createBatch } from '@/app/admin/payouts/actions'
+import { formatZAR } from '@/lib/constants/categories'
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+
+type CreatePayoutBatchButtonProps = {
+  payoutCount: number
+  totalAmount: number
+}
+
+export const CreatePayoutBatchButton = ({ payoutCount, totalAmount }: CreatePayoutBatchButtonProps) => {
+  const router = useRouter()
+  const [isLoading, setIsLoading] = useState(false)
+
+  const handleCreate = async () => {
+    setIsLoading(true)
+    try {
+      const result = await createBatch()
+      if (result.success) {
+        toast.success('Payout batch created')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to create payout batch')
+      }
+    } catch {
+      toast.error('An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <Button className="gap-2" disabled={isLoading || payoutCount === 0}>
+          <Plus className="w-4 h-4" />
+          Create Batch
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Create payout batch?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {payoutCount} seller{payoutCount === 1 ? '' : 's'} will be paid {formatZAR(totalAmount)} in
+            total. Their balances are debited now; export the CSV and upload it to the bank next.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={handleCreate}>Create batch</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
@@ -0,0 +1,117 @@
+import Link from 'next/link'
+import Image from 'next/image'
+import type { DisputeRow } from '@/app/admin/disputes/actions'
+import { ResolveDisputeDialog } from './resolve-dispute-dialog'
+import { TransactionStatusBadge } from '@/components/checkout/transaction-status-badge'
+import { formatZAR } from '@/lib/constants/categories'
+import { DISPUTE_RESOLUTION_LABELS, getDisputeReasonConfig } from '@/lib/constants/transactions'
+import { Badge } from '@/components/ui/badge'
+import { Card } from '@/components/ui/card'
+import { getSquareUrl, getThumbnailUrl } from '@/lib/cloudinary-utils'
+
+type DisputeCardProps = {
+  dispute: DisputeRow
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-ZA', { year: 'numeric', month: 'short', day: 'numeric' })
+
+export const DisputeCard = ({ dispute }: DisputeCardProps) => {
+  const reason = getDisputeReasonConfig(dispute.reason)
+
+  return (
+    <Card className="p-4 space-y-4">
+      {/* Header */}
+      <div className="flex items-start gap-3">
+        <div className="relative w-16 h-16 flex-shrink-0 rounded-md overflow-hidden bg-muted">
+          <Image
+            src={getSquareUrl(dispute.listing.primaryImage)}
+            alt={dispute.listing.title}
+            fill
+            className="object-cover"
+            sizes="64px"
+          />
+        </div>
+        <div className="flex-1 min-w-0 space-y-1">
+          <div className="flex items-center gap-2 flex-wrap">
+            <Link href={`/listings/${dispute.listing.id}`} className="font-semibold hover:underline">
+              {dispute.listing.title}
+            </Link>
+            <TransactionStatusBadge status={dispute.transaction.status} />
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {formatZAR(dispute.transaction.amount)} · Order #
+            {dispute.transaction.id.slice(0, 8).toUpperCase()} · Reported{' '}
+            {formatDate(dispute.createdAt)}
+          </p>
+          <p className="text-sm text-muted-foreground">
+            Buyer {dispute.buyer.name} ({dispute.buyer.email}) · Seller {dispute.seller.name} (
+            {dispute.seller.email})
+          </p>
+        </div>
+        {dispute.status === 'OPEN' && <ResolveDisputeDialog dispute={dispute} />}
+      </div>
+
+      {/* Buyer's report */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <p className="text-sm font-medium">Buyer</p>
+          <Badge variant="outline">{reason?.label ?? dispute.reason}</Badge>
+        </div>
+        <p className="text-sm text-muted-foreground whitespace-pre-line">{dispute.description}</p>
+        {dispute.evidenceUrls.length > 0 && (
+          <div className="flex gap-2 flex-wrap">
+            {dispute.evidenceUrls.map((url, index) => (
+              <a
+                key={url}
+                href={url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="relative w-20 h-20 rounded-md overflow-hidden bg-muted"
+              >
+                <Image
+                  src={getThumbnailUrl(url)}
+                  alt={`Evidence ${index + 1}`}
+                  fill
+                  className="object-cover"
+                  sizes="80px"
+                />
+              </a>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Seller's response */}
+      <div className="space-y-1">
+        <p className="text-sm font-medium">Seller</p>
+        {dispute.sellerResponse ? (
+          <p className="text-sm text-muted-foreground whitespace-pre-line">{dispute.sellerResponse}</p>
+        ) : (
+          <p className="text-sm text-muted-foreground italic">No response yet</p>
+        )}
+      </div>
+
+      {/* Decision */}
+      {dispute.status === 'RESOLVED' && (
+        <div className="rounded-lg border bg-muted/40 p-3 space-y-1 text-sm">
+          <p className="font-medium">
+            {dispute.resolution
+              ? DISPUTE_RESOLUTION_LABELS[dispute.resolution]
+              : 'Closed by the buyer confirming receipt'}
+            {dispute.refundAmount ? ` · ${formatZAR(dispute.refundAmount)} refunded` : ''}
+          </p>
+          {dispute.resolutionNote && (
+            <p className="text-muted-foreground whitespace-pre-line">{dispute.resolutionNote}</p>
+          )}
+          {dispute.resolvedAt && (
+            <p className="text-xs text-muted-foreground">
+              {formatDate(dispute.resolvedAt)}
+              {dispute.resolvedByName && ` by ${dispute.resolvedByName}`}
+            </p>
+          )}
+        </div>
+      )}
+    </Card>
+  )
+}
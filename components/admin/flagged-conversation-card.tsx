@@ -0,0 +1,76 @@
+import Link from 'next/link'
+import Image from 'next/image'
+import type { FlaggedConversationRow } from '@/app/admin/messages/actions'
+import { HighlightedMessage } from './highlighted-message'
+import { MessageModerationActions } from './message-moderation-actions'
+import { MESSAGE_SCAN_ACTION_LABELS } from '@/lib/constants/messages'
+import { getScanRuleLabel } from '@/lib/messaging/scam-detection'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { getSquareUrl } from '@/lib/cloudinary-utils'
+
+type FlaggedConversationCardProps = {
+  conversation: FlaggedConversationRow
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleString('en-ZA', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })
+
+export const FlaggedConversationCard = ({ conversation }: FlaggedConversationCardProps) => {
+  const { listing, buyer, seller } = conversation
+
+  return (
+    <Card className="p-4 space-y-4">
+      {/* Header */}
+      <div className="flex items-start gap-3">
+        <div className="relative w-16 h-16 flex-shrink-0 rounded-md overflow-hidden bg-muted">
+          <Image
+            src={getSquareUrl(listing.primaryImage)}
+            alt={listing.title}
+            fill
+            className="object-cover"
+            sizes="64px"
+          />
+        </div>
+        <div className="flex-1 min-w-0 space-y-1">
+          <Link href={`/listings/${listing.id}`} className="font-semibold hover:underline">
+            {listing.title}
+          </Link>
+          <p className="text-sm text-muted-foreground">
+            Buyer {buyer.name} ({buyer.email}) · Seller {seller.name} ({seller.email})
+          </p>
+        </div>
+        <Button asChild size="sm" variant="outline">
+          <Link href={`/account/messages/${conversation.id}`}>Open thread</Link>
+        </Button>
+      </div>
+
+      {/* Flagged messages */}
+      <div className="divide-y rounded-lg border">
+        {conversation.messages.map((message) => (
+          <div key={message.id} className="p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2 flex-wrap">
+              <div className="flex items-center gap-2 flex-wrap text-sm">
+                <span className="font-medium">
+                  {message.senderName} ({message.senderId === buyer.id ? 'buyer' : 'seller'})
+                </span>
+                <span className="text-muted-foreground">{formatDate(message.createdAt)}</span>
+                <Badge variant={message.status === 'HELD' ? 'destructive' : 'secondary'}>
+                  {MESSAGE_SCAN_ACTION_LABELS[message.scanAction]}
+                </Badge>
+                {message.scanRules.map((rule) => (
+                  <Badge key={rule} variant="outline">
+                    {getScanRuleLabel(rule)}
+                  </Badge>
+                ))}
+              </div>
+              <MessageModerationActions messageId={message.id} status={message.status} />
+            </div>
+            <HighlightedMessage body={message.body} />
+          </div>
+        ))}
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,32 @@
+import { findScanMatches, getScanRuleLabel } from '@/lib/messaging/scam-detection'
+
+type HighlightedMessageProps = {
+  body: string
+}
+
+/**
+ * Message text with every scan match marked and labelled with its rule
+ */
+export const HighlightedMessage = ({ body }: HighlightedMessageProps) => {
+  const matches = findScanMatches(body)
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+
+  for (const match of matches) {
+    parts.push(body.slice(cursor, match.start))
+    parts.push(
+      <mark
+        key={match.start}
+        title={getScanRuleLabel(match.rule)}
+        className="rounded bg-amber-200 px-0.5 text-foreground dark:bg-amber-700/60"
+      >
+        {match.text}
+        <span className="sr-only"> ({getScanRuleLabel(match.rule)})</span>
+      </mark>
+    )
+    cursor = match.end
+  }
+  parts.push(body.slice(cursor))
+
+  return <p className="text-sm whitespace-pre-line break-words">{parts}</p>
+}
@@ -0,0 +1,58 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import type { MessageStatus } from '@prisma/client'
+import { updateMessageModeration } from '@/app/admin/messages/actions'
+import {
+  MESSAGE_MODERATION_ACTION_LABELS,
+  type MessageModerationAction,
+} from '@/lib/constants/messages'
+import { Button } from '@/components/ui/button'
+
+type MessageModerationActionsProps = {
+  messageId: string
+  status: MessageStatus
+}
+
+export const MessageModerationActions = ({ messageId, status }: MessageModerationActionsProps) => {
+  const router = useRouter()
+  const [pending, setPending] = useState<MessageModerationAction | null>(null)
+
+  const handleAction = async (action: MessageModerationAction) => {
+    setPending(action)
+    try {
+      const result = await updateMessageModeration({ messageId, action })
+
+      if (result.success) {
+        toast.success(`Message updated: ${MESSAGE_MODERATION_ACTION_LABELS[action]}`)
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to update message')
+      }
+    } catch {
+      toast.error('An unexpected error occurred')
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const actions: MessageModerationAction[] = status === 'HELD' ? ['RELEASE', 'BLOCK'] : ['DISMISS']
+
+  return (
+    <div className="flex gap-2">
+      {actions.map((action) => (
+        <Button
+          key={action}
+          size="sm"
+          variant={action === 'BLOCK' ? 'destructive' : 'outline'}
+          onClick={() => handleAction(action)}
+          disabled={pending !== null}
+        >
+          {pending === action ? 'Saving...' : MESSAGE_MODERATION_ACTION_LABELS[action]}
+        </Button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { ShieldCheck } from 'lucide-react'
+import { toast } from 'sonner'
+import { updateReviewModeration } from '@/app/admin/reviews/actions'
+import {
+  REVIEW_MODERATION_ACTION_LABELS,
+  type ReviewModerationAction,
+} from '@/lib/constants/reviews'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+type ModerateReviewDialogProps = {
+  reviewId: string
+  /** Actions that apply to the review in its current state */
+  actions: ReviewModerationAction[]
+}
+
+export const ModerateReviewDialog = ({ reviewId, actions }: ModerateReviewDialogProps) => {
+  const router = useRouter()
+  const [isOpen, setIsOpen] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [action, setAction] = useState<ReviewModerationAction | ''>('')
+  const [note, setNote] = useState('')
+
+  const handleSubmit = async () => {
+    if (!action) {
+      toast.error('Please choose an action')
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const result = await updateReviewModeration({ reviewId, action, note })
+
+      if (result.success) {
+        toast.success(`Review updated: ${REVIEW_MODERATION_ACTION_LABELS[action]}`)
+        setIsOpen(false)
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to update review')
+      }
+    } catch {
+      toast.error('An unexpected error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !isLoading && setIsOpen(open)}>
+      <DialogTrigger asChild>
+        <Button size="sm">
+          <ShieldCheck className="w-4 h-4 mr-2" aria-hidden="true" />
+          Moderate
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Moderate review</DialogTitle>
+          <DialogDescription>
+            Hidden and removed reviews no longer count towards the user&apos;s rating. Every
+            decision closes the open reports.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="review-moderation-action">Decision</Label>
+            <Select
+              value={action}
+              onValueChange={(value) => setAction(value as ReviewModerationAction)}
+              disabled={isLoading}
+            >
+              <SelectTrigger id="review-moderation-action" className="w-full">
+                <SelectValue placeholder="Choose an action" />
+              </SelectTrigger>
+              <SelectContent>
+                {actions.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {REVIEW_MODERATION_ACTION_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="review-moderation-note">Internal note (optional)</Label>
+            <Textarea
+              id="review-moderation-note"
+              placeholder="Why was this decision made?"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={1000}
+              disabled={isLoading}
+              className="min-h-24 resize-none"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button
+            variant={action === 'REMOVE' ? 'destructive' : 'default'}
+            onClick={handleSubmit}
+            disabled={isLoading || !action}
+          >
+            {isLoading ? 'Saving...' : 'Save decision'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
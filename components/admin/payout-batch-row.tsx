@@ -0,0 +1,78 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { CheckCircle2, Download } from 'lucide-react'
+import { toast } from 'sonner'
+import { markBatchPaid, type PayoutBatchRow as PayoutBatchRowData } from '@/app/admin/payouts/actions'
+import { formatZAR } from '@/lib/constants/categories'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+
+type PayoutBatchRowProps = {
+  batch: PayoutBatchRowData
+}
+
+const formatDate = (date: Date) =>
+  new Date(date).toLocaleDateString('en-ZA', { year: 'numeric', month: 'short', day: 'numeric' })
+
+export const PayoutBatchRow = ({ batch }: PayoutBatchRowProps) => {
+  const router = useRouter()
+  const [isLoading, setIsLoading] = useState(false)
+
+  const handleMarkPaid = async () => {
+    setIsLoading(true)
+    try {
+      const result = await markBatchPaid({ batchId: batch.id })
+      if (result.success) {
+        toast.success('Batch marked as paid')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to update batch')
+      }
+    } catch {
+      toast.error('An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const statusLabel =
+    batch.status === 'PAID' ? 'Paid' : batch.exportedAt ? 'Exported' : 'Ready to export'
+
+  return (
+    <div className="flex items-center justify-between gap-4 p-3 rounded-lg border">
+      <div className="min-w-0 space-y-1">
+        <div className="flex items-center gap-2">
+          <p className="font-medium">{formatZAR(batch.totalAmount)}</p>
+          <Badge variant={batch.status === 'PAID' ? 'default' : 'secondary'}>{statusLabel}</Badge>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {batch.payoutCount} payout{batch.payoutCount === 1 ? '' : 's'} · Created{' '}
+          {formatDate(batch.createdAt)}
+          {batch.createdByName && ` by ${batch.createdByName}`}
+          {batch.paidAt && ` · Paid ${formatDate(batch.paidAt)}`}
+        </p>
+      </div>
+      <div className="flex items-center gap-2">
+        <Button asChild variant="outline" size="sm">
+          {/* Refresh after the download starts so the batch shows as exported */}
+          <a
+            href={`/api/admin/payouts/${batch.id}/csv`}
+            download
+            onClick={() => setTimeout(() => router.refresh(), 1000)}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            CSV
+          </a>
+        </Button>
+        {batch.status === 'PENDING' && (
+          <Button size="sm" onClick={handleMarkPaid} disabled={isLoading || !batch.exportedAt}>
+            <CheckCircle2 className="w-4 h-4 mr-2" />
+            Mark paid
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
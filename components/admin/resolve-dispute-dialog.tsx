@@ -0,0 +1,180 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Scale } from 'lucide-react'
+import { toast } from 'sonner'
+import type { DisputeResolution } from '@prisma/client'
+import { resolveDispute, type DisputeRow } from '@/app/admin/disputes/actions'
+import { formatZAR } from '@/lib/constants/categories'
+import { DISPUTE_RESOLUTION_LABELS } from '@/lib/constants/transactions'
+import { calculateDisputeSettlement } from '@/lib/escrow/settlement'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+type ResolveDisputeDialogProps = {
+  dispute: DisputeRow
+}
+
+const RESOLUTIONS: DisputeResolution[] = ['FULL_REFUND', 'PARTIAL_REFUND', 'RELEASE_TO_SELLER']
+
+export const ResolveDisputeDialog = ({ dispute }: ResolveDisputeDialogProps) => {
+  const router = useRouter()
+  const [isOpen, setIsOpen] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [resolution, setResolution] = useState<DisputeResolution | ''>('')
+  const [refundAmount, setRefundAmount] = useState('')
+  const [note, setNote] = useState('')
+
+  const { amount, commission } = dispute.transaction
+  const parsedRefund = refundAmount ? Number(refundAmount) : undefined
+  const settlement = resolution
+    ? calculateDisputeSettlement({ amount, commission }, resolution, parsedRefund)
+    : null
+
+  const handleSubmit = async () => {
+    if (!resolution) {
+      toast.error('Please choose a resolution')
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const result = await resolveDispute({
+        disputeId: dispute.id,
+        resolution,
+        refundAmount: resolution === 'PARTIAL_REFUND' ? parsedRefund : undefined,
+        note,
+      })
+
+      if (result.success) {
+        toast.success(`Dispute resolved: ${DISPUTE_RESOLUTION_LABELS[resolution]}`)
+        setIsOpen(false)
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to resolve dispute')
+      }
+    } catch {
+      toast.error('An unexpected error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !isLoading && setIsOpen(open)}>
+      <DialogTrigger asChild>
+        <Button size="sm">
+          <Scale className="w-4 h-4 mr-2" aria-hidden="true" />
+          Resolve
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Resolve dispute</DialogTitle>
+          <DialogDescription>
+            {dispute.listing.title} · {formatZAR(amount)} paid by {dispute.buyer.name}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="dispute-resolution">Decision</Label>
+            <Select
+              value={resolution}
+              onValueChange={(value) => setResolution(value as DisputeResolution)}
+              disabled={isLoading}
+            >
+              <SelectTrigger id="dispute-resolution" className="w-full">
+                <SelectValue placeholder="Choose a resolution" />
+              </SelectTrigger>
+              <SelectContent>
+                {RESOLUTIONS.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {DISPUTE_RESOLUTION_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {resolution === 'PARTIAL_REFUND' && (
+            <div className="space-y-2">
+              <Label htmlFor="dispute-refund-amount">Refund amount (R)</Label>
+              <Input
+                id="dispute-refund-amount"
+                type="number"
+                min={0.01}
+                max={amount - 0.01}
+                step={0.01}
+                value={refundAmount}
+                onChange={(e) => setRefundAmount(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="dispute-note">Note to buyer and seller</Label>
+            <Textarea
+              id="dispute-note"
+              placeholder="Explain the decision..."
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={1000}
+              disabled={isLoading}
+              className="min-h-24 resize-none"
+            />
+          </div>
+
+          {settlement && (
+            <div className="rounded-lg border bg-muted/40 p-3 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Refund to buyer</span>
+                <span>{formatZAR(settlement.refundedAmount)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Commission</span>
+                <span>{formatZAR(settlement.commission)}</span>
+              </div>
+              <div className="flex justify-between font-medium">
+                <span>Seller receives</span>
+                <span>{formatZAR(settlement.netAmount)}</span>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isLoading || !settlement || note.trim().length < 10}
+          >
+            {isLoading ? 'Resolving...' : 'Resolve dispute'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,110 @@
+import Link from 'next/link'
+import type { ModeratedReviewRow } from '@/app/admin/reviews/actions'
+import { ModerateReviewDialog } from './moderate-review-dialog'
+import { StarRating } from '@/components/reviews/star-rating'
+import {
+  getReviewReportReasonConfig,
+  REVIEW_MODERATION_ACTIONS,
+  REVIEW_STATUS_LABELS,
+} from '@/lib/constants/reviews'
+import { getModeratedStatus } from '@/lib/reviews/moderation'
+import { Badge } from '@/components/ui/badge'
+import { Card } from '@/components/ui/card'
+
+type ReviewModerationCardProps = {
+  review: ModeratedReviewRow
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-ZA', { year: 'numeric', month: 'short', day: 'numeric' })
+
+export const ReviewModerationCard = ({ review }: ReviewModerationCardProps) => {
+  const actions = REVIEW_MODERATION_ACTIONS.filter(
+    (action) =>
+      getModeratedStatus(review.status, action) !== null &&
+      // Dismissing only makes sense while there are reports to dismiss
+      (action !== 'DISMISS' || review.reports.length > 0)
+  )
+
+  return (
+    <Card className="p-4 space-y-4">
+      {/* Header */}
+      <div className="flex items-start gap-3">
+        <div className="flex-1 min-w-0 space-y-1">
+          <div className="flex items-center gap-2 flex-wrap">
+            <StarRating rating={review.rating} />
+            <Badge variant={review.status === 'VISIBLE' ? 'secondary' : 'destructive'}>
+              {REVIEW_STATUS_LABELS[review.status]}
+            </Badge>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            <Link href={`/orders/${review.transactionId}`} className="hover:underline">
+              {review.listingTitle}
+            </Link>{' '}
+            · Written {formatDate(review.createdAt)}
+          </p>
+          <p className="text-sm text-muted-foreground">
+            By {review.reviewer.name} ({review.reviewer.email}) · About {review.reviewee.name} (
+            {review.reviewee.email})
+          </p>
+        </div>
+        {actions.length > 0 && <ModerateReviewDialog reviewId={review.id} actions={actions} />}
+      </div>
+
+      {/* Review */}
+      <div className="space-y-2">
+        {review.comment ? (
+          <p className="text-sm whitespace-pre-line">{review.comment}</p>
+        ) : (
+          <p className="text-sm text-muted-foreground italic">No comment</p>
+        )}
+        {review.reply && (
+          <div className="ml-4 border-l-2 pl-3 space-y-0.5">
+            <p className="text-xs font-medium">Reply from {review.reviewee.name}</p>
+            <p className="text-sm text-muted-foreground whitespace-pre-line">{review.reply}</p>
+          </div>
+        )}
+      </div>
+
+      {/* Open reports */}
+      {review.reports.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">
+            {review.reports.length} open report{review.reports.length === 1 ? '' : 's'}
+          </p>
+          <div className="divide-y rounded-lg border">
+            {review.reports.map((report) => (
+              <div key={report.id} className="p-3 space-y-1">
+                <div className="flex items-center gap-2 flex-wrap text-sm">
+                  <Badge variant="outline">
+                    {getReviewReportReasonConfig(report.reason)?.label ?? report.reason}
+                  </Badge>
+                  <span className="text-muted-foreground">
+                    {report.reporter.name} · {formatDate(report.createdAt)}
+                  </span>
+                </div>
+                {report.details && (
+                  <p className="text-sm text-muted-foreground whitespace-pre-line">{report.details}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Last decision */}
+      {review.moderatedAt && (
+        <div className="rounded-lg border bg-muted/40 p-3 space-y-1 text-sm">
+          <p className="font-medium">{REVIEW_STATUS_LABELS[review.status]}</p>
+          {review.moderationNote && (
+            <p className="text-muted-foreground whitespace-pre-line">{review.moderationNote}</p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            {formatDate(review.moderatedAt)}
+            {review.moderatedByName && ` by ${review.moderatedByName}`}
+          </p>
+        </div>
+      )}
+    </Card>
+  )
+}
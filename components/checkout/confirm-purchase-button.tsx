@@ -0,0 +1,51 @@
+'use client'
+
+import * as React from 'react'
+import { useRouter } from 'next/navigation'
+import { Loader2, ShoppingBag } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { formatZAR } from '@/lib/constants/categories'
+import { checkout } from '@/app/checkout/actions'
+
+type ConfirmPurchaseButtonProps = {
+  listingId: string
+  amount: number
+}
+
+export const ConfirmPurchaseButton = ({ listingId, amount }: ConfirmPurchaseButtonProps) => {
+  const router = useRouter()
+  const [isPending, startTransition] = React.useTransition()
+  const [error, setError] = React.useState('')
+
+  const handleConfirm = () => {
+    setError('')
+    startTransition(async () => {
+      const result = await checkout({ listingId })
+      if (!result.success || !result.data) {
+        setError(result.error || 'Failed to complete your purchase')
+        router.refresh()
+        return
+      }
+      // Usually the payment provider's page, outside this app
+      window.location.assign(result.data.redirectUrl)
+    })
+  }
+
+  return (
+    <div className="space-y-2">
+      <Button size="lg" className="w-full text-base h-12" onClick={handleConfirm} disabled={isPending}>
+        {isPending ? (
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" aria-hidden="true" />
+        ) : (
+          <ShoppingBag className="w-4 h-4 mr-2" aria-hidden="true" />
+        )}
+        {isPending ? 'Redirecting to payment...' : `Continue to Payment · ${formatZAR(amount)}`}
+      </Button>
+      {error && (
+        <p className="text-sm text-destructive text-center" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
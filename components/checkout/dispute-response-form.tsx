@@ -0,0 +1,74 @@
+'use client'
+
+import * as React from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { respondToOrderDispute } from '@/app/orders/actions'
+
+type DisputeResponseFormProps = {
+  transactionId: string
+  /** The seller's earlier response, if any */
+  initialResponse: string | null
+}
+
+const MIN_RESPONSE_LENGTH = 20
+const MAX_RESPONSE_LENGTH = 2000
+
+export const DisputeResponseForm = ({ transactionId, initialResponse }: DisputeResponseFormProps) => {
+  const router = useRouter()
+  const [isPending, startTransition] = React.useTransition()
+  const [response, setResponse] = React.useState(initialResponse ?? '')
+  const [error, setError] = React.useState('')
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    startTransition(async () => {
+      const result = await respondToOrderDispute({ transactionId, response })
+      if (!result.success) {
+        setError(result.error || 'Failed to send your response')
+        return
+      }
+      toast.success(initialResponse ? 'Response updated' : 'Response sent')
+      router.refresh()
+    })
+  }
+
+  const responseLength = response.trim().length
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <Label htmlFor="dispute-response">
+        {initialResponse ? 'Update your response' : 'Your response'}
+      </Label>
+      <Textarea
+        id="dispute-response"
+        placeholder="Explain your side, e.g. when and how the item was sent..."
+        value={response}
+        onChange={(e) => {
+          setResponse(e.target.value)
+          setError('')
+        }}
+        maxLength={MAX_RESPONSE_LENGTH}
+        disabled={isPending}
+        className="min-h-24 resize-none"
+      />
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          An admin reviews both sides before deciding · {responseLength}/{MAX_RESPONSE_LENGTH}
+        </p>
+        <Button type="submit" size="sm" disabled={isPending || responseLength < MIN_RESPONSE_LENGTH}>
+          {isPending ? 'Sending...' : initialResponse ? 'Update' : 'Send response'}
+        </Button>
+      </div>
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+    </form>
+  )
+}
@@ -0,0 +1,222 @@
+'use client'
+
+import * as React from 'react'
+import { useRouter } from 'next/navigation'
+import { AlertTriangle, PackageCheck } from 'lucide-react'
+import { toast } from 'sonner'
+import type { DisputeReason } from '@prisma/client'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { EvidenceUpload } from '@/components/checkout/evidence-upload'
+import { DISPUTE_REASONS } from '@/lib/constants/transactions'
+import { MAX_EVIDENCE_PHOTOS } from '@/lib/validations/dispute'
+import { confirmOrderReceipt, reportOrderProblem } from '@/app/orders/actions'
+
+type EscrowActionsProps = {
+  transactionId: string
+  sellerName: string
+  /** False once a problem is reported or the release is due */
+  canReportProblem: boolean
+}
+
+const MIN_DESCRIPTION_LENGTH = 20
+const MAX_DESCRIPTION_LENGTH = 2000
+
+export const EscrowActions = ({ transactionId, sellerName, canReportProblem }: EscrowActionsProps) => {
+  const router = useRouter()
+  const [isPending, startTransition] = React.useTransition()
+  const [isReportOpen, setIsReportOpen] = React.useState(false)
+  const [reason, setReason] = React.useState<DisputeReason | ''>('')
+  const [description, setDescription] = React.useState('')
+  const [evidenceUrls, setEvidenceUrls] = React.useState<string[]>([])
+  const [error, setError] = React.useState('')
+
+  const handleConfirm = () => {
+    setError('')
+    startTransition(async () => {
+      const result = await confirmOrderReceipt({ transactionId })
+      if (!result.success) {
+        setError(result.error || 'Failed to confirm receipt')
+      } else {
+        toast.success(`Payment released to ${sellerName}`)
+      }
+      router.refresh()
+    })
+  }
+
+  const handleReport = () => {
+    if (!reason) {
+      setError('Please choose a reason')
+      return
+    }
+
+    setError('')
+    startTransition(async () => {
+      const result = await reportOrderProblem({ transactionId, reason, description, evidenceUrls })
+      if (!result.success) {
+        setError(result.error || 'Failed to report problem')
+        return
+      }
+      toast.success('Problem reported. The payment stays on hold.')
+      setIsReportOpen(false)
+      router.refresh()
+    })
+  }
+
+  const descriptionLength = description.trim().length
+
+  return (
+    <div className="space-y-2">
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button size="lg" className="w-full" disabled={isPending}>
+            <PackageCheck className="w-4 h-4 mr-2" aria-hidden="true" />
+            Confirm receipt
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Did you receive the item?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your payment is released to {sellerName}. This cannot be undone, so only confirm
+              once you have the item and are happy with it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Not yet</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirm}>Confirm and release payment</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {canReportProblem && (
+        <Button
+          variant="ghost"
+          className="w-full"
+          onClick={() => setIsReportOpen(true)}
+          disabled={isPending}
+        >
+          <AlertTriangle className="w-4 h-4 mr-2" aria-hidden="true" />
+          Report a problem
+        </Button>
+      )}
+
+      {error && !isReportOpen && (
+        <p className="text-sm text-destructive text-center" role="alert">
+          {error}
+        </p>
+      )}
+
+      <Dialog open={isReportOpen} onOpenChange={(open) => !isPending && setIsReportOpen(open)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Report a problem</DialogTitle>
+            <DialogDescription>
+              The payment stays on hold and is not released to {sellerName} while we look into it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="problem-reason">What went wrong?</Label>
+              <Select
+                value={reason}
+                onValueChange={(value) => {
+                  setReason(value as DisputeReason)
+                  setError('')
+                }}
+                disabled={isPending}
+              >
+                <SelectTrigger id="problem-reason" className="w-full">
+                  <SelectValue placeholder="Choose a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {DISPUTE_REASONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label} · {option.description}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="problem-description">Details</Label>
+              <Textarea
+                id="problem-description"
+                placeholder="Describe the problem and what you have tried with the seller..."
+                value={description}
+                onChange={(e) => {
+                  setDescription(e.target.value)
+                  setError('')
+                }}
+                maxLength={MAX_DESCRIPTION_LENGTH}
+                disabled={isPending}
+                className="min-h-28 resize-none"
+              />
+              <p className="text-xs text-muted-foreground">
+                Minimum {MIN_DESCRIPTION_LENGTH} characters · {descriptionLength}/{MAX_DESCRIPTION_LENGTH}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Photos</Label>
+              <EvidenceUpload
+                urls={evidenceUrls}
+                onChange={setEvidenceUrls}
+                maxPhotos={MAX_EVIDENCE_PHOTOS}
+                disabled={isPending}
+              />
+            </div>
+
+            {error && (
+              <p className="text-sm text-destructive" role="alert">
+                {error}
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsReportOpen(false)} disabled={isPending}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleReport}
+              disabled={isPending || descriptionLength < MIN_DESCRIPTION_LENGTH}
+            >
+              {isPending ? 'Reporting...' : 'Report problem'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
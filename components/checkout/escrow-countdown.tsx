@@ -0,0 +1,32 @@
+'use client'
+
+import * as React from 'react'
+import { ShieldCheck } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { formatTimeRemaining } from '@/lib/helpers/listing-helpers'
+
+type EscrowCountdownProps = {
+  releaseAt: Date
+  className?: string
+}
+
+export const EscrowCountdown = ({ releaseAt, className }: EscrowCountdownProps) => {
+  const [now, setNow] = React.useState(() => new Date())
+
+  React.useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60_000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const remaining = formatTimeRemaining(new Date(releaseAt), now)
+  const isDue = remaining === 'Expired'
+
+  return (
+    <span className={cn('inline-flex items-center gap-1.5 text-sm text-muted-foreground', className)}>
+      <ShieldCheck className="w-4 h-4" aria-hidden="true" />
+      <time dateTime={new Date(releaseAt).toISOString()} suppressHydrationWarning>
+        {isDue ? 'Releasing to the seller shortly' : `Releases to the seller in ${remaining}`}
+      </time>
+    </span>
+  )
+}
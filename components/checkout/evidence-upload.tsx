@@ -0,0 +1,118 @@
+'use client'
+
+import * as React from 'react'
+import Image from 'next/image'
+import { ImagePlus, Loader2, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { getThumbnailUrl } from '@/lib/cloudinary-utils'
+
+type EvidenceUploadProps = {
+  urls: string[]
+  onChange: (urls: string[]) => void
+  maxPhotos: number
+  disabled?: boolean
+}
+
+const ACCEPTED_TYPES = 'image/jpeg,image/png,image/webp'
+
+export const EvidenceUpload = ({ urls, onChange, maxPhotos, disabled }: EvidenceUploadProps) => {
+  const inputRef = React.useRef<HTMLInputElement>(null)
+  const [isUploading, setIsUploading] = React.useState(false)
+  const [error, setError] = React.useState('')
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+
+    const selected = Array.from(files).slice(0, maxPhotos - urls.length)
+    setError('')
+    setIsUploading(true)
+
+    const uploaded: string[] = []
+    for (const file of selected) {
+      const formData = new FormData()
+      formData.append('file', file)
+
+      try {
+        const response = await fetch('/api/upload', { method: 'POST', body: formData })
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || 'Upload failed')
+        }
+        uploaded.push(data.url)
+      } catch (uploadError) {
+        setError(uploadError instanceof Error ? uploadError.message : 'Upload failed')
+      }
+    }
+
+    onChange([...urls, ...uploaded])
+    setIsUploading(false)
+    if (inputRef.current) inputRef.current.value = ''
+  }
+
+  return (
+    <div className="space-y-2">
+      {urls.length > 0 && (
+        <div className="grid grid-cols-5 gap-2">
+          {urls.map((url, index) => (
+            <div key={url} className="relative aspect-square rounded-md overflow-hidden bg-muted">
+              <Image
+                src={getThumbnailUrl(url)}
+                alt={`Evidence ${index + 1}`}
+                fill
+                className="object-cover"
+                sizes="80px"
+              />
+              <button
+                type="button"
+                className="absolute top-1 right-1 rounded-full bg-background/80 p-0.5"
+                onClick={() => onChange(urls.filter((existing) => existing !== url))}
+                disabled={disabled}
+                aria-label={`Remove photo ${index + 1}`}
+              >
+                <X className="w-3 h-3" aria-hidden="true" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {urls.length < maxPhotos && (
+        <>
+          <input
+            ref={inputRef}
+            type="file"
+            accept={ACCEPTED_TYPES}
+            multiple
+            className="sr-only"
+            onChange={(e) => handleFiles(e.target.files)}
+            disabled={disabled || isUploading}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => inputRef.current?.click()}
+            disabled={disabled || isUploading}
+          >
+            {isUploading ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" aria-hidden="true" />
+            ) : (
+              <ImagePlus className="w-4 h-4 mr-2" aria-hidden="true" />
+            )}
+            {isUploading ? 'Uploading...' : 'Add photos'}
+          </Button>
+        </>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Optional · JPEG, PNG or WebP · up to {maxPhotos} photos
+      </p>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
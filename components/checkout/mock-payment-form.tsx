@@ -0,0 +1,46 @@
+'use client'
+
+import * as React from 'react'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { formatZAR } from '@/lib/constants/categories'
+import { submitMockPayment } from '@/app/payments/mock/actions'
+
+type MockPaymentFormProps = {
+  transactionId: string
+  amount: number
+}
+
+export const MockPaymentForm = ({ transactionId, amount }: MockPaymentFormProps) => {
+  const [isPending, startTransition] = React.useTransition()
+  const [error, setError] = React.useState('')
+
+  const submit = (outcome: 'COMPLETED' | 'CANCELLED') => {
+    setError('')
+    startTransition(async () => {
+      const result = await submitMockPayment({ transactionId, outcome })
+      if (!result.success || !result.data) {
+        setError(result.error || 'Mock payment failed')
+        return
+      }
+      window.location.assign(result.data.redirectUrl)
+    })
+  }
+
+  return (
+    <div className="space-y-2">
+      <Button size="lg" className="w-full" onClick={() => submit('COMPLETED')} disabled={isPending}>
+        {isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" aria-hidden="true" />}
+        Pay {formatZAR(amount)}
+      </Button>
+      <Button variant="outline" className="w-full" onClick={() => submit('CANCELLED')} disabled={isPending}>
+        Cancel payment
+      </Button>
+      {error && (
+        <p className="text-sm text-destructive text-center" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
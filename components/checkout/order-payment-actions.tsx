@@ -0,0 +1,101 @@
+'use client'
+
+import * as React from 'react'
+import { useRouter } from 'next/navigation'
+import { CreditCard, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog'
+import { formatZAR } from '@/lib/constants/categories'
+import { cancelOrder, payForOrder } from '@/app/orders/actions'
+
+type OrderPaymentActionsProps = {
+  transactionId: string
+  amount: number
+}
+
+export const OrderPaymentActions = ({ transactionId, amount }: OrderPaymentActionsProps) => {
+  const router = useRouter()
+  const [isPending, startTransition] = React.useTransition()
+  const [error, setError] = React.useState('')
+
+  const handlePay = () => {
+    setError('')
+    startTransition(async () => {
+      const result = await payForOrder({ transactionId })
+      if (!result.success || !result.data) {
+        setError(result.error || 'Failed to start payment')
+        router.refresh()
+        return
+      }
+      window.location.assign(result.data.redirectUrl)
+    })
+  }
+
+  const handleCancel = () => {
+    setError('')
+    startTransition(async () => {
+      const result = await cancelOrder({ transactionId })
+      if (!result.success) {
+        setError(result.error || 'Failed to cancel order')
+      } else {
+        toast.success('Order cancelled')
+      }
+      router.refresh()
+    })
+  }
+
+  return (
+    <div className="space-y-2">
+      <Button size="lg" className="w-full" onClick={handlePay} disabled={isPending}>
+        {isPending ? (
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" aria-hidden="true" />
+        ) : (
+          <CreditCard className="w-4 h-4 mr-2" aria-hidden="true" />
+        )}
+        Pay {formatZAR(amount)}
+      </Button>
+
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="ghost" className="w-full" disabled={isPending}>
+            Cancel order
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel this order?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The item goes back on sale and another buyer may purchase it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep order</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleCancel}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Cancel order
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {error && (
+        <p className="text-sm text-destructive text-center" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  )
+}
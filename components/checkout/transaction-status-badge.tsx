@@ -0,0 +1,26 @@
+import { TransactionStatus } from '@prisma/client'
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+import { TRANSACTION_STATUS_LABELS } from '@/lib/constants/transactions'
+
+interface TransactionStatusBadgeProps {
+  status: TransactionStatus
+  className?: string
+}
+
+const statusClassNames: Record<TransactionStatus, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800 border-yellow-200 dark:bg-yellow-900/20 dark:text-yellow-400 dark:border-yellow-800',
+  AWAITING_CONFIRMATION: 'bg-blue-100 text-blue-800 border-blue-200 dark:bg-blue-900/20 dark:text-blue-400 dark:border-blue-800',
+  DISPUTED: 'bg-orange-100 text-orange-800 border-orange-200 dark:bg-orange-900/20 dark:text-orange-400 dark:border-orange-800',
+  COMPLETED: 'bg-green-100 text-green-800 border-green-200 dark:bg-green-900/20 dark:text-green-400 dark:border-green-800',
+  CANCELLED: '',
+  REFUNDED: '',
+}
+
+export function TransactionStatusBadge({ status, className }: TransactionStatusBadgeProps) {
+  return (
+    <Badge variant="secondary" className={cn(statusClassNames[status], className)}>
+      {TRANSACTION_STATUS_LABELS[status]}
+    </Badge>
+  )
+}
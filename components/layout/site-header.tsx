@@ -4,6 +4,7 @@ import * as React from 'react'
 import Link from 'next/link'
 import { Package, Plus } from 'lucide-react'
 import { Button } from '@/components/ui/button'
+import { NotificationBell } from '@/components/notifications/notification-bell'
 import { cn } from '@/lib/utils'
 
 export function SiteHeader() {
@@ -33,58 +34,63 @@ export function SiteHeader() {
             <span className="sm:hidden">LOTOSALE</span>
           </Link>
 
-          {/* Desktop Navigation */}
-          <nav
-            className="hidden sm:flex items-center gap-6"
-            aria-label="Main navigation"
-          >
-            <Link
-              href="/listings"
-              className={cn(
-                'text-sm font-medium transition-colors',
-                'hover:text-primary',
-                'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 rounded-sm'
-              )}
-            >
-              Browse
-            </Link>
-            <Link
-              href="/dashboard"
-              className={cn(
-                'text-sm font-medium transition-colors',
-                'hover:text-primary',
-                'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 rounded-sm'
-              )}
-            >
-              My Listings
-            </Link>
-            <Button
-              asChild
-              size="default"
-              className={cn(
-                'bg-primary text-primary-foreground',
-                'hover:bg-primary/90',
-                'shadow-sm hover:shadow-md',
-                'transition-all duration-200'
-              )}
+          <div className="flex items-center gap-2 sm:gap-4">
+            {/* Notifications (signed-in users only) */}
+            <NotificationBell />
+
+            {/* Desktop Navigation */}
+            <nav
+              className="hidden sm:flex items-center gap-6"
+              aria-label="Main navigation"
             >
-              <Link href="/sell">
-                <Plus className="w-4 h-4" aria-hidden="true" />
-                Sell an Item
+              <Link
+                href="/listings"
+                className={cn(
+                  'text-sm font-medium transition-colors',
+                  'hover:text-primary',
+                  'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 rounded-sm'
+                )}
+              >
+                Browse
+              </Link>
+              <Link
+                href="/dashboard"
+                className={cn(
+                  'text-sm font-medium transition-colors',
+                  'hover:text-primary',
+                  'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 rounded-sm'
+                )}
+              >
+                My Listings
               </Link>
-            </Button>
-          </nav>
+              <Button
+                asChild
+                size="default"
+                className={cn(
+                  'bg-primary text-primary-foreground',
+                  'hover:bg-primary/90',
+                  'shadow-sm hover:shadow-md',
+                  'transition-all duration-200'
+                )}
+              >
+                <Link href="/sell">
+                  <Plus className="w-4 h-4" aria-hidden="true" />
+                  Sell an Item
+                </Link>
+              </Button>
+            </nav>
 
-          {/* Mobile Navigation (Account Only) */}
-          <div className="flex sm:hidden items-center gap-2">
-            <Button
-              asChild
-              variant="ghost"
-              size="sm"
-              className="text-sm font-medium"
-            >
-              <Link href="/dashboard">Account</Link>
-            </Button>
+            {/* Mobile Navigation (Account Only) */}
+            <div className="flex sm:hidden items-center gap-2">
+              <Button
+                asChild
+                variant="ghost"
+                size="sm"
+                className="text-sm font-medium"
+              >
+                <Link href="/dashboard">Account</Link>
+              </Button>
+            </div>
           </div>
         </div>
       </div>
@@ -9,6 +9,7 @@ import { Badge } from '@/components/ui/badge'
 import { cn } from '@/lib/utils'
 import { formatZAR } from '@/lib/constants/categories'
 import { getSquareUrl } from '@/lib/cloudinary-utils'
+import { WatchButton } from '@/components/watchlist/watch-button'
 import type { ListingCondition, PricingType } from '@prisma/client'
 
 export interface ListingCardProps {
@@ -20,6 +21,8 @@ export interface ListingCardProps {
   primaryImage: string
   city: string
   createdAt: Date
+  /** Whether the viewer is watching the listing */
+  watched?: boolean
   className?: string
 }
 
@@ -54,6 +57,7 @@ export const ListingCard = ({
   primaryImage,
   city,
   createdAt,
+  watched = false,
   className,
 }: ListingCardProps) => {
   const showNewBadge = isNewListing(createdAt)
@@ -62,96 +66,105 @@ export const ListingCard = ({
   const squareImageUrl = getSquareUrl(primaryImage)
 
   return (
-    <Link
-      href={`/listings/${id}`}
-      className={cn(
-        'group block w-full transition-all duration-200',
-        'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2 rounded-xl',
-        className
-      )}
-      aria-label={`View details for ${title}`}
-    >
-      <Card className={cn(
-        'overflow-hidden h-full transition-all duration-200',
-        'group-hover:shadow-xl group-hover:scale-[1.02]',
-        'border-border/50 group-hover:border-primary/60 group-hover:bg-accent/20',
-        'py-0 gap-0'
-      )}>
-        {/* Image Container */}
-        <div className="relative aspect-square w-full overflow-hidden bg-muted">
-          <Image
-            src={squareImageUrl}
-            alt={title}
-            fill
-            className="object-cover transition-transform duration-300 group-hover:scale-110"
-            sizes="(max-width: 640px) 100vw, (max-width: 768px) 50vw, (max-width: 1024px) 33vw, 25vw"
-            priority={false}
-          />
+    <div className={cn('relative w-full', className)}>
+      <Link
+        href={`/listings/${id}`}
+        className={cn(
+          'group block w-full h-full transition-all duration-200',
+          'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2 rounded-xl'
+        )}
+        aria-label={`View details for ${title}`}
+      >
+        <Card className={cn(
+          'overflow-hidden h-full transition-all duration-200',
+          'group-hover:shadow-xl group-hover:scale-[1.02]',
+          'border-border/50 group-hover:border-primary/60 group-hover:bg-accent/20',
+          'py-0 gap-0'
+        )}>
+          {/* Image Container */}
+          <div className="relative aspect-square w-full overflow-hidden bg-muted">
+            <Image
+              src={squareImageUrl}
+              alt={title}
+              fill
+              className="object-cover transition-transform duration-300 group-hover:scale-110"
+              sizes="(max-width: 640px) 100vw, (max-width: 768px) 50vw, (max-width: 1024px) 33vw, 25vw"
+              priority={false}
+            />
 
-          {/* Badges Overlay */}
-          <div className="absolute top-3 left-3 flex flex-col gap-2">
-            {showNewBadge && (
+            {/* Badges Overlay */}
+            <div className="absolute top-3 left-3 flex flex-col gap-2">
+              {showNewBadge && (
+                <Badge
+                  variant="default"
+                  className={cn(
+                    'bg-primary text-primary-foreground shadow-lg',
+                    'border border-primary-foreground/20',
+                    'font-semibold'
+                  )}
+                  aria-label="New listing"
+                >
+                  <Clock className="w-3 h-3" aria-hidden="true" />
+                  NEW
+                </Badge>
+              )}
               <Badge
-                variant="default"
                 className={cn(
-                  'bg-primary text-primary-foreground shadow-lg',
-                  'border border-primary-foreground/20',
-                  'font-semibold'
+                  'shadow-md border font-medium',
+                  CONDITION_COLORS[condition]
                 )}
-                aria-label="New listing"
+                aria-label={`Condition: ${CONDITION_LABELS[condition]}`}
               >
-                <Clock className="w-3 h-3" aria-hidden="true" />
-                NEW
+                {CONDITION_LABELS[condition]}
               </Badge>
-            )}
-            <Badge
+            </div>
+          </div>
+
+          {/* Content */}
+          <CardContent className="p-4 space-y-3">
+            {/* Title */}
+            <h3
               className={cn(
-                'shadow-md border font-medium',
-                CONDITION_COLORS[condition]
+                'font-semibold text-base line-clamp-2 text-foreground',
+                'group-hover:text-primary transition-colors duration-200'
               )}
-              aria-label={`Condition: ${CONDITION_LABELS[condition]}`}
             >
-              {CONDITION_LABELS[condition]}
-            </Badge>
-          </div>
-        </div>
+              {title}
+            </h3>
 
-        {/* Content */}
-        <CardContent className="p-4 space-y-3">
-          {/* Title */}
-          <h3
-            className={cn(
-              'font-semibold text-base line-clamp-2 text-foreground',
-              'group-hover:text-primary transition-colors duration-200'
-            )}
-          >
-            {title}
-          </h3>
+            {/* Price */}
+            <div className="flex items-baseline gap-2">
+              {pricingType === 'FIXED' && price !== undefined ? (
+                <p className={cn(
+                  'text-xl font-bold',
+                  'bg-gradient-to-r from-primary to-primary/80 bg-clip-text text-transparent'
+                )}>
+                  {formatZAR(price)}
+                </p>
+              ) : (
+                <p className="text-base font-semibold text-primary/80 italic">
+                  Offers Accepted
+                </p>
+              )}
+            </div>
 
-          {/* Price */}
-          <div className="flex items-baseline gap-2">
-            {pricingType === 'FIXED' && price !== undefined ? (
-              <p className={cn(
-                'text-xl font-bold',
-                'bg-gradient-to-r from-primary to-primary/80 bg-clip-text text-transparent'
-              )}>
-                {formatZAR(price)}
-              </p>
-            ) : (
-              <p className="text-base font-semibold text-primary/80 italic">
-                Offers Accepted
-              </p>
-            )}
-          </div>
+            {/* Location */}
+            <div className="flex items-center gap-1.5 text-sm text-muted-foreground">
+              <MapPin className="w-4 h-4 shrink-0" aria-hidden="true" />
+              <span className="truncate">{city}</span>
+            </div>
+          </CardContent>
+        </Card>
+      </Link>
 
-          {/* Location */}
-          <div className="flex items-center gap-1.5 text-sm text-muted-foreground">
-            <MapPin className="w-4 h-4 shrink-0" aria-hidden="true" />
-            <span className="truncate">{city}</span>
-          </div>
-        </CardContent>
-      </Card>
-    </Link>
+      {/* Watch toggle sits beside the link so clicking it does not open the listing */}
+      <WatchButton
+        listingId={id}
+        listingTitle={title}
+        watched={watched}
+        className="absolute top-3 right-3 z-10"
+      />
+    </div>
   )
 }
 
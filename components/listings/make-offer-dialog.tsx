@@ -0,0 +1,192 @@
+'use client'
+
+import * as React from 'react'
+import { useRouter } from 'next/navigation'
+import { HandCoins } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { formatZAR } from '@/lib/constants/categories'
+import { checkOfferAmount } from '@/lib/offers/eligibility'
+import { makeOffer } from '@/app/offers/actions'
+
+type MakeOfferDialogProps = {
+  listingId: string
+  listingTitle: string
+  price: number | null
+  minOffer: number | null
+}
+
+const MAX_MESSAGE_LENGTH = 500
+
+export const MakeOfferDialog = ({
+  listingId,
+  listingTitle,
+  price,
+  minOffer,
+}: MakeOfferDialogProps) => {
+  const router = useRouter()
+  const [open, setOpen] = React.useState(false)
+  const [loading, setLoading] = React.useState(false)
+  const [amount, setAmount] = React.useState('')
+  const [message, setMessage] = React.useState('')
+  const [error, setError] = React.useState('')
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const numericAmount = parseFloat(amount)
+    const amountCheck = checkOfferAmount({ price, minOffer }, numericAmount)
+    if (!amountCheck.eligible) {
+      setError(amountCheck.error)
+      return
+    }
+
+    setLoading(true)
+    setError('')
+    try {
+      const result = await makeOffer({
+        listingId,
+        amount: Math.round(numericAmount * 100) / 100,
+        message: message.trim() || undefined,
+      })
+
+      if (!result.success) {
+        setError(result.error || 'Failed to make offer')
+        return
+      }
+
+      // Listings with offer rules may answer straight away
+      const status = result.data?.status
+      const counterAmount = result.data?.counterAmount
+      if (status === 'ACCEPTED') {
+        toast.success('Your offer was accepted')
+      } else if (status === 'REJECTED') {
+        toast.error('Your offer was declined by the seller')
+      } else if (status === 'COUNTERED' && counterAmount !== undefined) {
+        toast.info(`The seller countered with ${formatZAR(counterAmount)}`)
+      } else {
+        toast.success('Offer sent to the seller')
+      }
+      setOpen(false)
+      setAmount('')
+      setMessage('')
+      router.refresh()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to make offer')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen && !loading) {
+      setError('')
+    }
+    setOpen(nextOpen)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="lg" className="w-full text-base h-12">
+          Make Offer
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <div className="flex items-center gap-3">
+              <div className="flex size-10 items-center justify-center rounded-full bg-primary/10">
+                <HandCoins className="size-5 text-primary" aria-hidden="true" />
+              </div>
+              <DialogTitle>Make an Offer</DialogTitle>
+            </div>
+            <DialogDescription className="text-left">
+              Offering on{' '}
+              <span className="font-medium text-foreground">{listingTitle}</span>.
+              The seller has 48 hours to respond.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="offer-amount">
+              Your offer (ZAR) <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              id="offer-amount"
+              type="number"
+              inputMode="decimal"
+              min={minOffer ?? 0.01}
+              max={price ?? undefined}
+              step="0.01"
+              placeholder={minOffer !== null ? String(minOffer) : '0.00'}
+              value={amount}
+              onChange={(e) => {
+                setAmount(e.target.value)
+                setError('')
+              }}
+              disabled={loading}
+              aria-invalid={!!error}
+              aria-describedby={error ? 'offer-error' : 'offer-hint'}
+              required
+            />
+            {error ? (
+              <p id="offer-error" className="text-xs text-destructive" role="alert">
+                {error}
+              </p>
+            ) : (
+              <p id="offer-hint" className="text-xs text-muted-foreground">
+                {minOffer !== null
+                  ? `Minimum offer: ${formatZAR(minOffer)}`
+                  : 'Enter the amount you would like to pay'}
+                {price !== null && ` · Asking price: ${formatZAR(price)}`}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="offer-message">Message to seller (optional)</Label>
+            <Textarea
+              id="offer-message"
+              placeholder="e.g. Can collect this weekend"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              maxLength={MAX_MESSAGE_LENGTH}
+              disabled={loading}
+              className="min-h-20 resize-none"
+            />
+            <p className="text-right text-xs text-muted-foreground" aria-live="polite">
+              {message.length}/{MAX_MESSAGE_LENGTH}
+            </p>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={loading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || !amount}>
+              {loading ? 'Sending...' : 'Send Offer'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,38 @@
+'use client'
+
+import * as React from 'react'
+import { Clock } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { formatTimeRemaining } from '@/lib/helpers/listing-helpers'
+
+type OfferCountdownProps = {
+  expiresAt: Date
+  className?: string
+}
+
+export const OfferCountdown = ({ expiresAt, className }: OfferCountdownProps) => {
+  const [now, setNow] = React.useState(() => new Date())
+
+  React.useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const remaining = formatTimeRemaining(new Date(expiresAt), now)
+  const isExpired = remaining === 'Expired'
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1.5 text-sm',
+        isExpired ? 'text-destructive' : 'text-muted-foreground',
+        className
+      )}
+    >
+      <Clock className="w-4 h-4" aria-hidden="true" />
+      <time dateTime={new Date(expiresAt).toISOString()} suppressHydrationWarning>
+        {isExpired ? 'Expired' : `Expires in ${remaining}`}
+      </time>
+    </span>
+  )
+}
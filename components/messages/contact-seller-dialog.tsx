@@ -0,0 +1,127 @@
+'use client'
+
+import * as React from 'react'
+import { useRouter } from 'next/navigation'
+import { MessageCircle } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { MAX_MESSAGE_LENGTH } from '@/lib/validations/message'
+import { contactSeller } from '@/app/messages/actions'
+import { toastScanOutcome } from './message-toasts'
+
+type ContactSellerDialogProps = {
+  listingId: string
+  listingTitle: string
+  sellerName: string
+}
+
+export const ContactSellerDialog = ({ listingId, listingTitle, sellerName }: ContactSellerDialogProps) => {
+  const router = useRouter()
+  const [open, setOpen] = React.useState(false)
+  const [loading, setLoading] = React.useState(false)
+  const [body, setBody] = React.useState('')
+  const [error, setError] = React.useState('')
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    setLoading(true)
+    setError('')
+    try {
+      const result = await contactSeller({ listingId, body })
+
+      if (!result.success || !result.data) {
+        setError(result.error || 'Failed to send your message')
+        return
+      }
+
+      if (result.data.status === 'SENT' && result.data.scanAction !== 'MASK') {
+        toast.success('Message sent')
+      }
+      toastScanOutcome(result.data)
+      setOpen(false)
+      setBody('')
+      router.push(`/account/messages/${result.data.conversationId}`)
+    } catch {
+      toast.error('An unexpected error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen && !loading) {
+      setError('')
+    }
+    setOpen(nextOpen)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="lg" className="w-full text-base h-12">
+          <MessageCircle className="w-5 h-5 mr-2" aria-hidden="true" />
+          Contact Seller
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Message {sellerName}</DialogTitle>
+            <DialogDescription className="text-left">
+              Ask about <span className="font-medium text-foreground">{listingTitle}</span>. Keep
+              the conversation and payment on LOTOSALE to stay covered by buyer protection.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="contact-seller-message">Message</Label>
+            <Textarea
+              id="contact-seller-message"
+              placeholder="e.g. Is this still available?"
+              value={body}
+              onChange={(e) => {
+                setBody(e.target.value)
+                setError('')
+              }}
+              maxLength={MAX_MESSAGE_LENGTH}
+              disabled={loading}
+              aria-invalid={!!error}
+              className="min-h-24 resize-none"
+            />
+            {error && (
+              <p className="text-xs text-destructive" role="alert">
+                {error}
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={loading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || !body.trim()}>
+              {loading ? 'Sending...' : 'Send Message'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,81 @@
+'use client'
+
+import * as React from 'react'
+import { useRouter } from 'next/navigation'
+import { SendHorizontal } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { MAX_MESSAGE_LENGTH } from '@/lib/validations/message'
+import { sendConversationMessage } from '@/app/messages/actions'
+import { toastScanOutcome } from './message-toasts'
+
+type MessageComposerProps = {
+  conversationId: string
+}
+
+/**
+ * Reply box at the foot of a thread; Enter sends, Shift+Enter adds a line
+ */
+export const MessageComposer = ({ conversationId }: MessageComposerProps) => {
+  const router = useRouter()
+  const [isPending, startTransition] = React.useTransition()
+  const [body, setBody] = React.useState('')
+  const [error, setError] = React.useState('')
+
+  const send = () => {
+    if (!body.trim() || isPending) return
+
+    setError('')
+    startTransition(async () => {
+      const result = await sendConversationMessage({ conversationId, body })
+
+      if (!result.success || !result.data) {
+        setError(result.error || 'Failed to send your message')
+        return
+      }
+
+      toastScanOutcome(result.data)
+      setBody('')
+      router.refresh()
+    })
+  }
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault()
+        send()
+      }}
+      className="space-y-2"
+    >
+      <div className="flex items-end gap-2">
+        <Textarea
+          aria-label="Message"
+          placeholder="Write a message..."
+          value={body}
+          onChange={(e) => {
+            setBody(e.target.value)
+            setError('')
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault()
+              send()
+            }
+          }}
+          maxLength={MAX_MESSAGE_LENGTH}
+          disabled={isPending}
+          className="min-h-12 max-h-40 resize-none"
+        />
+        <Button type="submit" size="icon" disabled={isPending || !body.trim()} aria-label="Send message">
+          <SendHorizontal className="w-4 h-4" aria-hidden="true" />
+        </Button>
+      </div>
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+    </form>
+  )
+}
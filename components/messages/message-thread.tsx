@@ -0,0 +1,96 @@
+import { AlertTriangle } from 'lucide-react'
+import type { MessageScanAction, MessageStatus } from '@prisma/client'
+import { Badge } from '@/components/ui/badge'
+import { MESSAGE_SAFETY_WARNING } from '@/lib/constants/messages'
+import { getScanRuleLabel } from '@/lib/messaging/scam-detection'
+import { cn } from '@/lib/utils'
+
+type ThreadMessage = {
+  id: string
+  senderId: string
+  body: string
+  createdAt: Date
+  readAt: Date | null
+  status: MessageStatus
+  scanAction: MessageScanAction
+  scanRules: string[]
+}
+
+type MessageThreadProps = {
+  messages: ThreadMessage[]
+  /** Messages from this user are shown on the right with read receipts */
+  viewerId: string
+  names: Record<string, string>
+  /** Show the scan results on every flagged message */
+  showScanDetails?: boolean
+}
+
+const formatTime = (date: Date) =>
+  date.toLocaleString('en-ZA', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })
+
+const getStatusNote = (message: ThreadMessage, isOwn: boolean): string => {
+  if (message.status === 'HELD') return 'Held for review'
+  if (message.status === 'BLOCKED') return 'Not delivered'
+  if (!isOwn) return ''
+  return message.readAt ? `Seen ${formatTime(message.readAt)}` : 'Sent'
+}
+
+export const MessageThread = ({ messages, viewerId, names, showScanDetails = false }: MessageThreadProps) => {
+  if (messages.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-12">No messages yet</p>
+  }
+
+  return (
+    <ol className="space-y-3" aria-label="Messages">
+      {messages.map((message) => {
+        const isOwn = message.senderId === viewerId
+        const statusNote = getStatusNote(message, isOwn)
+        const warnRecipient = !isOwn && message.status === 'SENT' && message.scanAction !== 'NONE'
+
+        return (
+          <li key={message.id} className={cn('flex flex-col', isOwn ? 'items-end' : 'items-start')}>
+            {warnRecipient && (
+              <p className="max-w-[80%] mb-1 flex items-start gap-2 rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-xs text-amber-900 dark:border-amber-800 dark:bg-amber-900/30 dark:text-amber-200">
+                <AlertTriangle className="w-4 h-4 shrink-0" aria-hidden="true" />
+                {MESSAGE_SAFETY_WARNING}
+              </p>
+            )}
+            <div
+              className={cn(
+                'max-w-[80%] rounded-2xl px-4 py-2 text-sm whitespace-pre-line break-words',
+                isOwn ? 'bg-primary text-primary-foreground rounded-br-sm' : 'bg-muted rounded-bl-sm',
+                message.status !== 'SENT' && 'opacity-60'
+              )}
+            >
+              <span className="sr-only">{names[message.senderId] ?? 'Unknown'}: </span>
+              {message.body}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1 px-1">
+              {formatTime(message.createdAt)}
+              {statusNote && ` · ${statusNote}`}
+            </p>
+            {isOwn && message.status === 'HELD' && (
+              <p className="text-xs text-muted-foreground px-1">
+                Our team checks held messages before they are delivered
+              </p>
+            )}
+            {isOwn && message.status === 'SENT' && message.scanAction === 'MASK' && (
+              <p className="text-xs text-muted-foreground px-1">
+                Contact details were hidden. Keep chatting here to stay protected.
+              </p>
+            )}
+            {showScanDetails && message.scanRules.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1 px-1">
+                {message.scanRules.map((rule) => (
+                  <Badge key={rule} variant="outline" className="text-xs">
+                    {getScanRuleLabel(rule)}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
@@ -0,0 +1,13 @@
+import { toast } from 'sonner'
+import type { MessageScanAction, MessageStatus } from '@prisma/client'
+
+/**
+ * Tell the sender when the scam scan held or masked their message
+ */
+export const toastScanOutcome = ({ status, scanAction }: { status: MessageStatus; scanAction: MessageScanAction }) => {
+  if (status === 'HELD') {
+    toast.warning('Your message is being held for review because it may ask for payment outside LOTOSALE')
+  } else if (scanAction === 'MASK') {
+    toast.info('Contact details were hidden from your message')
+  }
+}
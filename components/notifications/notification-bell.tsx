@@ -0,0 +1,139 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Bell } from 'lucide-react'
+import {
+  getNotificationMenu,
+  markAllNotificationsRead,
+  markNotificationRead,
+} from '@/app/notifications/actions'
+import { useRealtimeEvents } from '@/hooks/use-realtime-events'
+import type { NotificationItem } from '@/lib/notifications/service'
+import { NotificationEntry } from './notification-entry'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+
+type NotificationMenuState = {
+  unreadCount: number
+  notifications: NotificationItem[]
+}
+
+/**
+ * Keeps the bell current while its menu is mounted; only rendered for
+ * signed-in users so guests never open the event stream
+ */
+const NotificationUpdates = ({ onUpdate }: { onUpdate: () => void }) => {
+  useRealtimeEvents(['notification.created'], onUpdate)
+  return null
+}
+
+/**
+ * Header bell with an unread badge and the latest notifications
+ * Renders nothing for guests
+ */
+export const NotificationBell = () => {
+  const router = useRouter()
+  const [menu, setMenu] = useState<NotificationMenuState | null>(null)
+
+  const load = useCallback(async () => {
+    const result = await getNotificationMenu()
+    setMenu(result.success && result.data ? result.data : null)
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+    getNotificationMenu().then((result) => {
+      if (!cancelled) {
+        setMenu(result.success && result.data ? result.data : null)
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  if (!menu) {
+    return null
+  }
+
+  const handleOpen = async (notification: NotificationItem) => {
+    if (!notification.read) {
+      await markNotificationRead(notification.id)
+      load()
+    }
+    router.push(notification.href)
+  }
+
+  const handleMarkAll = async () => {
+    await markAllNotificationsRead()
+    load()
+  }
+
+  const badge = menu.unreadCount > 99 ? '99+' : String(menu.unreadCount)
+
+  return (
+    <>
+      <NotificationUpdates onUpdate={load} />
+      <DropdownMenu onOpenChange={(open) => open && load()}>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="relative"
+            aria-label={
+              menu.unreadCount > 0
+                ? `Notifications, ${menu.unreadCount} unread`
+                : 'Notifications'
+            }
+          >
+            <Bell className="w-5 h-5" aria-hidden="true" />
+            {menu.unreadCount > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-destructive text-[10px] font-semibold leading-4 text-white text-center">
+                {badge}
+              </span>
+            )}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-80">
+          <div className="flex items-center justify-between gap-2 pr-2">
+            <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+            {menu.unreadCount > 0 && (
+              <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={handleMarkAll}>
+                Mark all as read
+              </Button>
+            )}
+          </div>
+          <DropdownMenuSeparator />
+          {menu.notifications.length === 0 ? (
+            <p className="px-2 py-6 text-center text-sm text-muted-foreground">
+              You&apos;re all caught up
+            </p>
+          ) : (
+            menu.notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="cursor-pointer"
+                onSelect={() => handleOpen(notification)}
+              >
+                <NotificationEntry notification={notification} />
+              </DropdownMenuItem>
+            ))
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem asChild className="justify-center cursor-pointer">
+            <Link href="/account/notifications">View all notifications</Link>
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </>
+  )
+}
@@ -0,0 +1,29 @@
+import type { NotificationItem } from '@/lib/notifications/service'
+import { cn } from '@/lib/utils'
+
+type NotificationEntryProps = {
+  notification: NotificationItem
+}
+
+/**
+ * Title, body and age of a notification, with a dot while unread
+ */
+export const NotificationEntry = ({ notification }: NotificationEntryProps) => (
+  <div className="flex items-start gap-3 w-full min-w-0">
+    <span
+      className={cn(
+        'mt-1.5 h-2 w-2 flex-shrink-0 rounded-full',
+        notification.read ? 'bg-transparent' : 'bg-primary'
+      )}
+      aria-hidden="true"
+    />
+    <div className="flex-1 min-w-0 space-y-0.5">
+      <p className={cn('text-sm', notification.read ? 'font-medium' : 'font-semibold')}>
+        {notification.title}
+        {!notification.read && <span className="sr-only"> (unread)</span>}
+      </p>
+      <p className="text-sm text-muted-foreground line-clamp-2 break-words">{notification.body}</p>
+      <p className="text-xs text-muted-foreground">{notification.timeAgo}</p>
+    </div>
+  </div>
+)
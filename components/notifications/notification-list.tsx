@@ -0,0 +1,68 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { markAllNotificationsRead, markNotificationRead } from '@/app/notifications/actions'
+import type { NotificationItem } from '@/lib/notifications/service'
+import { NotificationEntry } from './notification-entry'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+
+type NotificationListProps = {
+  notifications: NotificationItem[]
+}
+
+export const NotificationList = ({ notifications }: NotificationListProps) => {
+  const router = useRouter()
+  const [isMarking, setIsMarking] = useState(false)
+  const hasUnread = notifications.some((notification) => !notification.read)
+
+  const handleOpen = async (notification: NotificationItem) => {
+    if (!notification.read) {
+      await markNotificationRead(notification.id)
+    }
+    router.push(notification.href)
+  }
+
+  const handleMarkAll = async () => {
+    setIsMarking(true)
+    try {
+      const result = await markAllNotificationsRead()
+      if (result.success) {
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to update notifications')
+      }
+    } catch {
+      toast.error('An unexpected error occurred')
+    } finally {
+      setIsMarking(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" onClick={handleMarkAll} disabled={!hasUnread || isMarking}>
+          {isMarking ? 'Saving...' : 'Mark all as read'}
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="divide-y p-0">
+          {notifications.map((notification) => (
+            <button
+              key={notification.id}
+              type="button"
+              onClick={() => handleOpen(notification)}
+              className="w-full p-4 text-left hover:bg-muted/50 transition-colors focus-visible:outline-none focus-visible:bg-muted/50"
+            >
+              <NotificationEntry notification={notification} />
+            </button>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
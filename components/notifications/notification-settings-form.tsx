@@ -0,0 +1,111 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import type { NotificationChannel, NotificationType } from '@prisma/client'
+import { updateNotificationSettings } from '@/app/account/settings/actions'
+import { NOTIFICATION_KINDS } from '@/lib/notifications/kinds'
+import type { NotificationSettings } from '@/lib/notifications/preferences'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+
+const KIND_TYPES = Object.keys(NOTIFICATION_KINDS) as NotificationType[]
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  IN_APP: 'In-app',
+  EMAIL: 'Email',
+}
+
+type NotificationSettingsFormProps = {
+  defaultValues: NotificationSettings
+}
+
+export const NotificationSettingsForm = ({ defaultValues }: NotificationSettingsFormProps) => {
+  const router = useRouter()
+  const [settings, setSettings] = useState(defaultValues)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const setChannel = (type: NotificationType, channel: NotificationChannel, enabled: boolean) => {
+    setSettings((current) => ({
+      ...current,
+      channels: { ...current.channels, [type]: { ...current.channels[type], [channel]: enabled } },
+    }))
+  }
+
+  const handleSave = async () => {
+    setIsSubmitting(true)
+    try {
+      const result = await updateNotificationSettings(settings)
+      if (result.success) {
+        toast.success('Notification settings saved')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to save notification settings')
+      }
+    } catch {
+      toast.error('An unexpected error occurred')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="divide-y rounded-md border">
+        <div className="grid grid-cols-[1fr_4rem_4rem] gap-4 px-4 py-2 text-sm font-medium text-muted-foreground">
+          <span>Notification</span>
+          {Object.values(CHANNEL_LABELS).map((label) => (
+            <span key={label} className="text-center">
+              {label}
+            </span>
+          ))}
+        </div>
+
+        {KIND_TYPES.map((type) => (
+          <div key={type} className="grid grid-cols-[1fr_4rem_4rem] items-center gap-4 px-4 py-3">
+            <span className="flex flex-wrap items-center gap-2 text-sm">
+              {NOTIFICATION_KINDS[type].label}
+              {NOTIFICATION_KINDS[type].lowPriority && settings.emailDigest && (
+                <Badge variant="secondary">Digest</Badge>
+              )}
+            </span>
+            {(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map((channel) => (
+              <div key={channel} className="flex justify-center">
+                <Checkbox
+                  checked={settings.channels[type][channel]}
+                  onCheckedChange={(checked) => setChannel(type, channel, checked === true)}
+                  aria-label={`${NOTIFICATION_KINDS[type].label}: ${CHANNEL_LABELS[channel]}`}
+                />
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-start justify-between gap-4 rounded-md border p-4">
+        <div className="space-y-1">
+          <Label htmlFor="email-digest">Daily digest</Label>
+          <p className="text-sm text-muted-foreground">
+            Collect low-priority emails, such as listing approvals and completed sales, into one
+            email a day
+          </p>
+        </div>
+        <Switch
+          id="email-digest"
+          checked={settings.emailDigest}
+          onCheckedChange={(emailDigest) => setSettings((current) => ({ ...current, emailDigest }))}
+        />
+      </div>
+
+      <Button onClick={handleSave} disabled={isSubmitting}>
+        {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        Save settings
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,48 @@
+'use client'
+
+import { useState } from 'react'
+import { CheckCircle2, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { unsubscribe } from '@/app/unsubscribe/actions'
+import { Button } from '@/components/ui/button'
+
+type UnsubscribeButtonProps = {
+  token: string
+}
+
+export const UnsubscribeButton = ({ token }: UnsubscribeButtonProps) => {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isDone, setIsDone] = useState(false)
+
+  const handleUnsubscribe = async () => {
+    setIsSubmitting(true)
+    try {
+      const result = await unsubscribe(token)
+      if (result.success) {
+        setIsDone(true)
+      } else {
+        toast.error(result.error || 'Failed to unsubscribe')
+      }
+    } catch {
+      toast.error('An unexpected error occurred')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (isDone) {
+    return (
+      <p className="flex items-center gap-2 font-medium text-green-600 dark:text-green-400">
+        <CheckCircle2 className="w-5 h-5" aria-hidden="true" />
+        You&apos;re unsubscribed
+      </p>
+    )
+  }
+
+  return (
+    <Button onClick={handleUnsubscribe} disabled={isSubmitting}>
+      {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+      Unsubscribe
+    </Button>
+  )
+}
@@ -0,0 +1,69 @@
+import { ArrowLeftRight, Check, HandCoins, X } from 'lucide-react'
+import type { OfferMoveType, OfferParty } from '@prisma/client'
+import { cn } from '@/lib/utils'
+import { formatZAR } from '@/lib/constants/categories'
+import { formatRelativeDate } from '@/lib/helpers/listing-helpers'
+
+const MOVE_CONFIG: Record<OfferMoveType, { verb: string; icon: typeof HandCoins }> = {
+  OFFER: { verb: 'offered', icon: HandCoins },
+  COUNTER: { verb: 'countered with', icon: ArrowLeftRight },
+  ACCEPT: { verb: 'accepted', icon: Check },
+  REJECT: { verb: 'declined', icon: X },
+}
+
+type NegotiationTimelineProps = {
+  moves: {
+    id: string
+    party: OfferParty
+    type: OfferMoveType
+    amount: number | null
+    message: string | null
+    automated: boolean
+    createdAt: Date
+  }[]
+  viewerParty: OfferParty
+  counterpartyName: string
+  className?: string
+}
+
+export const NegotiationTimeline = ({
+  moves,
+  viewerParty,
+  counterpartyName,
+  className,
+}: NegotiationTimelineProps) => {
+  if (moves.length === 0) return null
+
+  return (
+    <ol className={cn('space-y-2 border-l pl-4', className)} aria-label="Negotiation history">
+      {moves.map((move) => {
+        const { verb, icon: Icon } = MOVE_CONFIG[move.type]
+        const isViewer = move.party === viewerParty
+
+        return (
+          <li key={move.id} className="relative text-sm">
+            <span
+              className={cn(
+                'absolute -left-[1.45rem] top-0.5 flex h-4 w-4 items-center justify-center rounded-full border bg-background',
+                isViewer ? 'text-primary' : 'text-muted-foreground'
+              )}
+            >
+              <Icon className="h-2.5 w-2.5" aria-hidden="true" />
+            </span>
+            <p>
+              <span className="font-medium">{isViewer ? 'You' : counterpartyName}</span> {verb}
+              {move.amount !== null && (
+                <span className="font-medium"> {formatZAR(move.amount)}</span>
+              )}
+              {move.automated && <span className="text-muted-foreground"> automatically</span>}
+              <span className="text-muted-foreground"> · {formatRelativeDate(move.createdAt)}</span>
+            </p>
+            {move.message && (
+              <p className="italic text-muted-foreground">&ldquo;{move.message}&rdquo;</p>
+            )}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
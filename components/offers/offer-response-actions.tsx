@@ -0,0 +1,214 @@
+'use client'
+
+import * as React from 'react'
+import { useRouter } from 'next/navigation'
+import { Check, X, ArrowLeftRight } from 'lucide-react'
+import { toast } from 'sonner'
+import type { OfferParty } from '@prisma/client'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { formatZAR } from '@/lib/constants/categories'
+import {
+  MAX_NEGOTIATION_MOVES,
+  getAmountOnTable,
+  validateResponse,
+  type NegotiationState,
+} from '@/lib/offers/negotiation'
+import { acceptOffer, counterOffer, rejectOffer } from '@/app/offers/actions'
+
+const MAX_MESSAGE_LENGTH = 500
+
+type OfferResponseActionsProps = {
+  offer: NegotiationState & { id: string }
+  party: OfferParty
+  listing: { price: number | null; minOffer: number | null }
+  counterpartyName: string
+}
+
+export const OfferResponseActions = ({
+  offer,
+  party,
+  listing,
+  counterpartyName,
+}: OfferResponseActionsProps) => {
+  const router = useRouter()
+  const [isPending, startTransition] = React.useTransition()
+  const [counterOpen, setCounterOpen] = React.useState(false)
+  const [counterAmount, setCounterAmount] = React.useState('')
+  const [counterMessage, setCounterMessage] = React.useState('')
+  const [counterError, setCounterError] = React.useState('')
+
+  const amountOnTable = getAmountOnTable(offer, party)
+  const canCounter = offer.moveCount < MAX_NEGOTIATION_MOVES
+
+  const runAction = (
+    action: () => Promise<{ success: boolean; error?: string }>,
+    successMessage: string
+  ) => {
+    startTransition(async () => {
+      const result = await action()
+      if (!result.success) {
+        toast.error(result.error || 'Something went wrong')
+        return
+      }
+      toast.success(successMessage)
+      setCounterOpen(false)
+      setCounterAmount('')
+      setCounterMessage('')
+      router.refresh()
+    })
+  }
+
+  const handleCounter = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const amount = parseFloat(counterAmount)
+    const check = validateResponse(offer, party, { type: 'COUNTER', amount }, listing)
+    if (!check.eligible) {
+      setCounterError(check.error)
+      return
+    }
+
+    runAction(
+      () =>
+        counterOffer({
+          offerId: offer.id,
+          counterAmount: Math.round(amount * 100) / 100,
+          message: counterMessage.trim() || undefined,
+        }),
+      `Counter-offer of ${formatZAR(amount)} sent to ${counterpartyName}`
+    )
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Button
+        size="sm"
+        onClick={() =>
+          runAction(
+            () => acceptOffer(offer.id),
+            `${party === 'SELLER' ? 'Offer' : 'Counter-offer'} of ${formatZAR(amountOnTable)} accepted`
+          )
+        }
+        disabled={isPending}
+      >
+        <Check className="w-4 h-4 mr-1" aria-hidden="true" />
+        Accept
+      </Button>
+      {canCounter && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setCounterOpen(true)}
+          disabled={isPending}
+        >
+          <ArrowLeftRight className="w-4 h-4 mr-1" aria-hidden="true" />
+          Counter
+        </Button>
+      )}
+      <Button
+        size="sm"
+        variant="ghost"
+        className="text-destructive hover:text-destructive"
+        onClick={() =>
+          runAction(
+            () => rejectOffer(offer.id),
+            party === 'SELLER' ? 'Offer rejected' : 'Counter-offer declined'
+          )
+        }
+        disabled={isPending}
+      >
+        <X className="w-4 h-4 mr-1" aria-hidden="true" />
+        {party === 'SELLER' ? 'Reject' : 'Decline'}
+      </Button>
+
+      <Dialog
+        open={counterOpen}
+        onOpenChange={(open) => {
+          if (!isPending) {
+            setCounterOpen(open)
+            setCounterError('')
+          }
+        }}
+      >
+        <DialogContent>
+          <form onSubmit={handleCounter} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Counter Offer</DialogTitle>
+              <DialogDescription className="text-left">
+                {counterpartyName} {party === 'SELLER' ? 'offered' : 'asked for'}{' '}
+                <span className="font-medium text-foreground">{formatZAR(amountOnTable)}</span>.
+                {party === 'SELLER'
+                  ? ' Propose the price you would accept instead.'
+                  : ' Propose the price you would pay instead.'}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2">
+              <Label htmlFor={`counter-${offer.id}`}>
+                Counter amount (ZAR) <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id={`counter-${offer.id}`}
+                type="number"
+                inputMode="decimal"
+                min={party === 'SELLER' ? amountOnTable : listing.minOffer ?? undefined}
+                max={party === 'SELLER' ? listing.price ?? undefined : amountOnTable}
+                step="0.01"
+                value={counterAmount}
+                onChange={(e) => {
+                  setCounterAmount(e.target.value)
+                  setCounterError('')
+                }}
+                disabled={isPending}
+                aria-invalid={!!counterError}
+                required
+              />
+              {counterError && (
+                <p className="text-xs text-destructive" role="alert">
+                  {counterError}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor={`counter-message-${offer.id}`}>Message (optional)</Label>
+              <Textarea
+                id={`counter-message-${offer.id}`}
+                value={counterMessage}
+                onChange={(e) => setCounterMessage(e.target.value)}
+                maxLength={MAX_MESSAGE_LENGTH}
+                disabled={isPending}
+                className="min-h-20 resize-none"
+              />
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setCounterOpen(false)}
+                disabled={isPending}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isPending || !counterAmount}>
+                {isPending ? 'Sending...' : 'Send Counter'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,134 @@
+'use client'
+
+import * as React from 'react'
+import { useRouter } from 'next/navigation'
+import { Bot } from 'lucide-react'
+import { toast } from 'sonner'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { checkOfferRules, type OfferRules } from '@/lib/offers/auto-rules'
+import { updateOfferRules } from '@/app/offers/actions'
+
+const RULE_FIELDS: { name: keyof OfferRules; label: string; description: string }[] = [
+  {
+    name: 'autoAcceptAt',
+    label: 'Auto-accept at or above',
+    description: 'Offers at or above this amount are accepted immediately.',
+  },
+  {
+    name: 'autoDeclineBelow',
+    label: 'Auto-decline below',
+    description: 'Offers below this amount are declined immediately.',
+  },
+  {
+    name: 'autoCounterAt',
+    label: 'Auto-counter at',
+    description: 'Other offers below this amount get a counter-offer at this price.',
+  },
+]
+
+type OfferRulesFormProps = {
+  listingId: string
+  price: number | null
+  minOffer: number | null
+  rules: OfferRules
+}
+
+const toInput = (value: number | null) => (value === null ? '' : String(value))
+
+const toAmount = (value: string) => {
+  if (value.trim() === '') return null
+  return Math.round(parseFloat(value) * 100) / 100
+}
+
+export const OfferRulesForm = ({ listingId, price, minOffer, rules }: OfferRulesFormProps) => {
+  const router = useRouter()
+  const [isPending, startTransition] = React.useTransition()
+  const [values, setValues] = React.useState<Record<keyof OfferRules, string>>({
+    autoAcceptAt: toInput(rules.autoAcceptAt),
+    autoDeclineBelow: toInput(rules.autoDeclineBelow),
+    autoCounterAt: toInput(rules.autoCounterAt),
+  })
+  const [error, setError] = React.useState('')
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const nextRules: OfferRules = {
+      autoAcceptAt: toAmount(values.autoAcceptAt),
+      autoDeclineBelow: toAmount(values.autoDeclineBelow),
+      autoCounterAt: toAmount(values.autoCounterAt),
+    }
+
+    const check = checkOfferRules(nextRules, { pricingType: 'OFFERS', price, minOffer })
+    if (!check.eligible) {
+      setError(check.error)
+      return
+    }
+
+    startTransition(async () => {
+      const result = await updateOfferRules({ listingId, ...nextRules })
+      if (!result.success) {
+        setError(result.error || 'Failed to save offer rules')
+        return
+      }
+      toast.success('Offer rules saved')
+      router.refresh()
+    })
+  }
+
+  return (
+    <Card id="offer-rules">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bot className="w-5 h-5" aria-hidden="true" />
+          Automatic Offer Responses
+        </CardTitle>
+        <CardDescription>
+          Answer new offers instantly. Leave a field empty to handle those offers yourself.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {RULE_FIELDS.map((field) => (
+            <div key={field.name} className="space-y-2">
+              <Label htmlFor={`rule-${field.name}`}>{field.label}</Label>
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">
+                  R
+                </span>
+                <Input
+                  id={`rule-${field.name}`}
+                  type="number"
+                  inputMode="decimal"
+                  min={0.01}
+                  step="0.01"
+                  className="pl-7"
+                  value={values[field.name]}
+                  onChange={(e) => {
+                    setValues((prev) => ({ ...prev, [field.name]: e.target.value }))
+                    setError('')
+                  }}
+                  disabled={isPending}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">{field.description}</p>
+            </div>
+          ))}
+
+          {error && (
+            <p className="text-sm text-destructive" role="alert">
+              {error}
+            </p>
+          )}
+
+          <Button type="submit" disabled={isPending}>
+            {isPending ? 'Saving...' : 'Save Rules'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,41 @@
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+import type { OfferStatus } from '@prisma/client'
+
+const STATUS_CONFIG: Record<OfferStatus, { label: string; className: string }> = {
+  PENDING: {
+    label: 'Pending',
+    className: 'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-900/30 dark:text-amber-300 dark:border-amber-800',
+  },
+  COUNTERED: {
+    label: 'Countered',
+    className: 'bg-blue-50 text-blue-700 border-blue-200 dark:bg-blue-900/30 dark:text-blue-300 dark:border-blue-800',
+  },
+  ACCEPTED: {
+    label: 'Accepted',
+    className: 'bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-900/30 dark:text-emerald-300 dark:border-emerald-800',
+  },
+  REJECTED: {
+    label: 'Rejected',
+    className: 'bg-red-50 text-red-700 border-red-200 dark:bg-red-900/30 dark:text-red-300 dark:border-red-800',
+  },
+  EXPIRED: {
+    label: 'Expired',
+    className: 'bg-muted text-muted-foreground border-border',
+  },
+}
+
+type OfferStatusBadgeProps = {
+  status: OfferStatus
+  className?: string
+}
+
+export const OfferStatusBadge = ({ status, className }: OfferStatusBadgeProps) => {
+  const config = STATUS_CONFIG[status]
+
+  return (
+    <Badge variant="outline" className={cn(config.className, className)}>
+      {config.label}
+    </Badge>
+  )
+}
@@ -0,0 +1,169 @@
+'use client'
+
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+import { saveBankAccount } from '@/app/dashboard/payouts/actions'
+import { bankAccountSchema, type BankAccountFormData } from '@/lib/validations/payout'
+import { BANK_ACCOUNT_TYPE_LABELS, SA_BANKS } from '@/lib/constants/payouts'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+
+type BankAccountFormProps = {
+  defaultValues?: BankAccountFormData
+}
+
+export const BankAccountForm = ({ defaultValues }: BankAccountFormProps) => {
+  const router = useRouter()
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const form = useForm<BankAccountFormData>({
+    resolver: zodResolver(bankAccountSchema),
+    defaultValues: defaultValues ?? {
+      accountHolder: '',
+      branchCode: '',
+      accountNumber: '',
+      accountType: 'CHEQUE',
+    },
+  })
+
+  const onSubmit = async (data: BankAccountFormData) => {
+    setIsSubmitting(true)
+    try {
+      const result = await saveBankAccount(data)
+      if (result.success) {
+        toast.success('Bank account saved')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to save bank account')
+      }
+    } catch {
+      toast.error('An error occurred')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="accountHolder"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Account holder</FormLabel>
+              <FormControl>
+                <Input autoComplete="name" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="bankName"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Bank</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Choose your bank" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {SA_BANKS.map((bank) => (
+                      <SelectItem key={bank} value={bank}>
+                        {bank}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="accountType"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Account type</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(BANK_ACCOUNT_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="branchCode"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Branch code</FormLabel>
+                <FormControl>
+                  <Input inputMode="numeric" maxLength={6} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="accountNumber"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Account number</FormLabel>
+                <FormControl>
+                  <Input inputMode="numeric" maxLength={16} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Save bank account
+        </Button>
+      </form>
+    </Form>
+  )
+}
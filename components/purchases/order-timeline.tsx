@@ -0,0 +1,72 @@
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Clock,
+  CreditCard,
+  MessageSquare,
+  RotateCcw,
+  Scale,
+  ShoppingBag,
+  Star,
+  XCircle,
+} from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { OrderTimelineEvent, OrderTimelineEventKind } from '@/lib/orders/timeline'
+
+// Labels are written for the buyer
+const EVENT_CONFIG: Record<OrderTimelineEventKind, { label: string; icon: typeof Clock }> = {
+  PLACED: { label: 'Order placed', icon: ShoppingBag },
+  PAID: { label: 'Payment received and held securely', icon: CreditCard },
+  CANCELLED: { label: 'Order cancelled', icon: XCircle },
+  DISPUTE_OPENED: { label: 'You reported a problem', icon: AlertTriangle },
+  SELLER_RESPONDED: { label: 'The seller responded', icon: MessageSquare },
+  DISPUTE_RESOLVED: { label: 'Problem resolved', icon: Scale },
+  REFUNDED: { label: 'Refund issued', icon: RotateCcw },
+  COMPLETED: { label: 'Order completed and payment released to the seller', icon: CheckCircle2 },
+  AUTO_RELEASE: { label: 'Payment releases to the seller automatically', icon: Clock },
+  REVIEWED: { label: 'You reviewed the seller', icon: Star },
+}
+
+const formatEventDate = (date: Date) =>
+  date.toLocaleString('en-ZA', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+
+type OrderTimelineProps = {
+  events: OrderTimelineEvent[]
+  className?: string
+}
+
+export const OrderTimeline = ({ events, className }: OrderTimelineProps) => {
+  return (
+    <ol className={cn('space-y-4 border-l pl-6', className)} aria-label="Order history">
+      {events.map((event) => {
+        const { label, icon: Icon } = EVENT_CONFIG[event.kind]
+
+        return (
+          <li key={event.kind} className="relative">
+            <span
+              className={cn(
+                'absolute -left-[2.1rem] top-0 flex h-6 w-6 items-center justify-center rounded-full border bg-background',
+                event.upcoming ? 'border-dashed text-muted-foreground' : 'text-primary'
+              )}
+            >
+              <Icon className="h-3.5 w-3.5" aria-hidden="true" />
+            </span>
+            <p className={cn('text-sm font-medium', event.upcoming && 'text-muted-foreground')}>
+              {label}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {event.upcoming ? 'Scheduled for ' : ''}
+              {formatEventDate(event.at)}
+            </p>
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
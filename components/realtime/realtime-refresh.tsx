@@ -0,0 +1,36 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { useRealtimeEvents } from '@/hooks/use-realtime-events'
+import { describeRealtimeEvent, type RealtimeEventType } from '@/lib/realtime/events'
+
+type RealtimeRefreshProps = {
+  /** Event types that make the page stale */
+  types: RealtimeEventType[]
+  /** Only react to events whose payload has these values, e.g. { conversationId } */
+  match?: Record<string, string>
+  /** Also show a toast describing the event */
+  notify?: boolean
+}
+
+/**
+ * Refresh the server-rendered page when a relevant realtime event arrives
+ */
+export const RealtimeRefresh = ({ types, match, notify = false }: RealtimeRefreshProps) => {
+  const router = useRouter()
+
+  useRealtimeEvents(types, (event) => {
+    const data = event.data as Record<string, unknown>
+    if (match && Object.entries(match).some(([key, value]) => data[key] !== value)) {
+      return
+    }
+
+    if (notify) {
+      toast.info(describeRealtimeEvent(event))
+    }
+    router.refresh()
+  })
+
+  return null
+}
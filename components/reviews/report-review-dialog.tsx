@@ -0,0 +1,129 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Flag } from 'lucide-react'
+import { toast } from 'sonner'
+import type { ReviewReportReason } from '@prisma/client'
+import { submitReviewReport } from '@/app/reviews/actions'
+import { REVIEW_REPORT_REASONS } from '@/lib/constants/reviews'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+type ReportReviewDialogProps = {
+  reviewId: string
+}
+
+export const ReportReviewDialog = ({ reviewId }: ReportReviewDialogProps) => {
+  const router = useRouter()
+  const [isOpen, setIsOpen] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [reason, setReason] = useState<ReviewReportReason | ''>('')
+  const [details, setDetails] = useState('')
+
+  const handleSubmit = async () => {
+    if (!reason) {
+      toast.error('Please choose a reason')
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const result = await submitReviewReport({ reviewId, reason, details })
+
+      if (result.success) {
+        toast.success('Thanks, our team will look into this review')
+        setIsOpen(false)
+        setReason('')
+        setDetails('')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to report the review')
+      }
+    } catch {
+      toast.error('An unexpected error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !isLoading && setIsOpen(open)}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-muted-foreground">
+          <Flag className="w-4 h-4 mr-2" aria-hidden="true" />
+          Report
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Report review</DialogTitle>
+          <DialogDescription>
+            Reports are reviewed by our team. The reviewer is not told who reported them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`review-report-reason-${reviewId}`}>Reason</Label>
+            <Select
+              value={reason}
+              onValueChange={(value) => setReason(value as ReviewReportReason)}
+              disabled={isLoading}
+            >
+              <SelectTrigger id={`review-report-reason-${reviewId}`} className="w-full">
+                <SelectValue placeholder="Choose a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {REVIEW_REPORT_REASONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label} · {option.description}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`review-report-details-${reviewId}`}>Details (optional)</Label>
+            <Textarea
+              id={`review-report-details-${reviewId}`}
+              placeholder="Anything that helps us check the review..."
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              maxLength={1000}
+              disabled={isLoading}
+              className="min-h-24 resize-none"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isLoading || !reason}>
+            {isLoading ? 'Reporting...' : 'Report review'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,128 @@
+'use client'
+
+import * as React from 'react'
+import { useRouter } from 'next/navigation'
+import { Star } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { cn } from '@/lib/utils'
+import { MAX_RATING } from '@/lib/reviews/policy'
+import { MAX_REVIEW_COMMENT_LENGTH } from '@/lib/validations/review'
+import { submitReview, updateReview } from '@/app/reviews/actions'
+
+const RATING_LABELS = ['Poor', 'Fair', 'Good', 'Very good', 'Excellent']
+
+type ReviewFormProps = {
+  revieweeName: string
+  /** Redirect here after saving instead of refreshing the page */
+  redirectTo?: string
+} & (
+  | { transactionId: string; review?: undefined }
+  | { transactionId?: undefined; review: { id: string; rating: number; comment: string | null } }
+)
+
+export const ReviewForm = ({ revieweeName, redirectTo, transactionId, review }: ReviewFormProps) => {
+  const router = useRouter()
+  const [isPending, startTransition] = React.useTransition()
+  const [rating, setRating] = React.useState(review?.rating ?? 0)
+  const [hovered, setHovered] = React.useState(0)
+  const [comment, setComment] = React.useState(review?.comment ?? '')
+  const [error, setError] = React.useState('')
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    startTransition(async () => {
+      const result = review
+        ? await updateReview({ reviewId: review.id, rating, comment })
+        : await submitReview({ transactionId: transactionId!, rating, comment })
+
+      if (!result.success) {
+        setError(result.error || 'Failed to save your review')
+        return
+      }
+
+      toast.success(review ? 'Review updated' : 'Thanks for your review')
+      if (redirectTo) {
+        router.push(redirectTo)
+      } else {
+        router.refresh()
+      }
+    })
+  }
+
+  const displayed = hovered || rating
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label id="review-rating-label">How was {revieweeName}?</Label>
+        <div
+          role="radiogroup"
+          aria-labelledby="review-rating-label"
+          className="flex items-center gap-1"
+          onMouseLeave={() => setHovered(0)}
+        >
+          {Array.from({ length: MAX_RATING }, (_, index) => {
+            const value = index + 1
+            return (
+              <button
+                key={value}
+                type="button"
+                role="radio"
+                aria-checked={rating === value}
+                aria-label={`${value} star${value === 1 ? '' : 's'}`}
+                onClick={() => setRating(value)}
+                onMouseEnter={() => setHovered(value)}
+                disabled={isPending}
+                className="p-0.5 rounded focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              >
+                <Star
+                  className={cn(
+                    'w-7 h-7 transition-colors',
+                    value <= displayed ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground/40'
+                  )}
+                  aria-hidden="true"
+                />
+              </button>
+            )
+          })}
+          {displayed > 0 && (
+            <span className="ml-2 text-sm text-muted-foreground">{RATING_LABELS[displayed - 1]}</span>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="review-comment">Comment (optional)</Label>
+        <Textarea
+          id="review-comment"
+          placeholder="What went well, and what could have gone better?"
+          value={comment}
+          onChange={(e) => {
+            setComment(e.target.value)
+            setError('')
+          }}
+          maxLength={MAX_REVIEW_COMMENT_LENGTH}
+          disabled={isPending}
+          className="min-h-24 resize-none"
+        />
+        <p className="text-xs text-muted-foreground text-right">
+          {comment.length}/{MAX_REVIEW_COMMENT_LENGTH}
+        </p>
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+
+      <Button type="submit" disabled={isPending || rating === 0}>
+        {isPending ? 'Saving...' : review ? 'Update review' : 'Submit review'}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,71 @@
+'use client'
+
+import * as React from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { MAX_REVIEW_COMMENT_LENGTH } from '@/lib/validations/review'
+import { submitReviewReply } from '@/app/reviews/actions'
+
+type ReviewReplyFormProps = {
+  reviewId: string
+}
+
+/**
+ * The reviewee's one public reply; it cannot be edited once posted
+ */
+export const ReviewReplyForm = ({ reviewId }: ReviewReplyFormProps) => {
+  const router = useRouter()
+  const [isPending, startTransition] = React.useTransition()
+  const [reply, setReply] = React.useState('')
+  const [error, setError] = React.useState('')
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    startTransition(async () => {
+      const result = await submitReviewReply({ reviewId, reply })
+
+      if (!result.success) {
+        setError(result.error || 'Failed to post your reply')
+        return
+      }
+
+      toast.success('Reply posted')
+      setReply('')
+      router.refresh()
+    })
+  }
+
+  const inputId = `review-reply-${reviewId}`
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <Label htmlFor={inputId}>Reply publicly</Label>
+      <Textarea
+        id={inputId}
+        placeholder="Thank the reviewer or give your side of the story. You can only reply once."
+        value={reply}
+        onChange={(e) => {
+          setReply(e.target.value)
+          setError('')
+        }}
+        maxLength={MAX_REVIEW_COMMENT_LENGTH}
+        disabled={isPending}
+        className="min-h-20 resize-none"
+      />
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+
+      <Button type="submit" size="sm" disabled={isPending || reply.trim().length < 2}>
+        {isPending ? 'Posting...' : 'Post reply'}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,31 @@
+import { Star } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { MAX_RATING } from '@/lib/reviews/policy'
+
+type StarRatingProps = {
+  rating: number
+  className?: string
+}
+
+/**
+ * Read-only row of filled and empty stars
+ */
+export const StarRating = ({ rating, className }: StarRatingProps) => {
+  return (
+    <span className={cn('inline-flex items-center gap-0.5', className)}>
+      {Array.from({ length: MAX_RATING }, (_, index) => (
+        <Star
+          key={index}
+          className={cn(
+            'w-3.5 h-3.5',
+            index < Math.round(rating) ? 'fill-yellow-400 text-yellow-400' : 'text-muted-foreground/40'
+          )}
+          aria-hidden="true"
+        />
+      ))}
+      <span className="sr-only">
+        {rating} out of {MAX_RATING} stars
+      </span>
+    </span>
+  )
+}
@@ -0,0 +1,122 @@
+import type { ReviewStatus, TransactionStatus } from '@prisma/client'
+import { ReportReviewDialog } from '@/components/reviews/report-review-dialog'
+import { ReviewForm } from '@/components/reviews/review-form'
+import { ReviewReplyForm } from '@/components/reviews/review-reply-form'
+import { StarRating } from '@/components/reviews/star-rating'
+import { canEditReview, canWriteReview, getReviewDeadline, getReviewEditDeadline } from '@/lib/reviews/policy'
+
+type TransactionReview = {
+  id: string
+  reviewerId: string
+  rating: number
+  comment: string | null
+  status: ReviewStatus
+  reply: string | null
+  createdAt: Date
+}
+
+type TransactionReviewsProps = {
+  transaction: {
+    id: string
+    status: TransactionStatus
+    completedAt: Date | null
+    reviews: TransactionReview[]
+  }
+  viewerId: string
+  counterpartyName: string
+}
+
+const formatDeadline = (date: Date) =>
+  date.toLocaleString('en-ZA', { day: 'numeric', month: 'long', hour: '2-digit', minute: '2-digit' })
+
+const MODERATION_NOTICES: Record<Exclude<ReviewStatus, 'VISIBLE'>, string> = {
+  HIDDEN: 'Hidden by our moderators and not shown on profiles',
+  REMOVED: 'Removed by our moderators for breaking the review guidelines',
+}
+
+const ModerationNotice = ({ status }: { status: ReviewStatus }) =>
+  status === 'VISIBLE' ? null : (
+    <p className="text-xs text-destructive">{MODERATION_NOTICES[status]}</p>
+  )
+
+const ReviewReply = ({ label, reply }: { label: string; reply: string }) => (
+  <div className="ml-4 border-l-2 pl-3 space-y-0.5">
+    <p className="text-xs font-medium">{label}</p>
+    <p className="text-sm text-muted-foreground whitespace-pre-line">{reply}</p>
+  </div>
+)
+
+/**
+ * The viewer's review of the other party (form while open, read-only once
+ * locked or moderated) and the other party's review of the viewer, which the
+ * viewer can reply to once or report
+ */
+export const TransactionReviews = ({ transaction, viewerId, counterpartyName }: TransactionReviewsProps) => {
+  if (transaction.status !== 'COMPLETED' || !transaction.completedAt) {
+    return null
+  }
+
+  const now = new Date()
+  const ownReview = transaction.reviews.find((review) => review.reviewerId === viewerId)
+  const theirReview = transaction.reviews.find((review) => review.reviewerId !== viewerId)
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4">
+      {ownReview ? (
+        ownReview.status === 'VISIBLE' && canEditReview(ownReview, now) ? (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              You can edit your review until {formatDeadline(getReviewEditDeadline(ownReview.createdAt))}
+            </p>
+            <ReviewForm
+              revieweeName={counterpartyName}
+              review={{ id: ownReview.id, rating: ownReview.rating, comment: ownReview.comment }}
+            />
+          </div>
+        ) : (
+          <div className="space-y-1">
+            <p className="text-sm font-medium flex items-center gap-2">
+              Your review of {counterpartyName}
+              <StarRating rating={ownReview.rating} />
+            </p>
+            <ModerationNotice status={ownReview.status} />
+            {ownReview.comment && (
+              <p className="text-sm text-muted-foreground whitespace-pre-line">{ownReview.comment}</p>
+            )}
+            {ownReview.reply && <ReviewReply label={`Reply from ${counterpartyName}`} reply={ownReview.reply} />}
+          </div>
+        )
+      ) : canWriteReview(transaction, now) ? (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            Leave a review by {formatDeadline(getReviewDeadline(transaction.completedAt))}
+          </p>
+          <ReviewForm revieweeName={counterpartyName} transactionId={transaction.id} />
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">The review period for this order has ended</p>
+      )}
+
+      {theirReview && (
+        <div className="border-t pt-4 space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm font-medium flex items-center gap-2">
+              {counterpartyName} reviewed you
+              <StarRating rating={theirReview.rating} />
+            </p>
+            {theirReview.status === 'VISIBLE' && <ReportReviewDialog reviewId={theirReview.id} />}
+          </div>
+          <ModerationNotice status={theirReview.status} />
+          {theirReview.comment && (
+            <p className="text-sm text-muted-foreground whitespace-pre-line">{theirReview.comment}</p>
+          )}
+          {theirReview.reply ? (
+            <ReviewReply label="Your reply" reply={theirReview.reply} />
+          ) : (
+            theirReview.status === 'VISIBLE' && <ReviewReplyForm reviewId={theirReview.id} />
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { BellPlus } from 'lucide-react'
+import { describeListingFilters } from '@/lib/listings/search-params'
+import type { SavedSearchFilters } from '@/lib/validations/saved-search'
+import { Button } from '@/components/ui/button'
+import { SavedSearchFormDialog } from './saved-search-form-dialog'
+
+type SaveSearchButtonProps = {
+  /** Filters currently applied on the listings page */
+  filters: SavedSearchFilters
+  isSignedIn: boolean
+  /** Page to come back to after signing in */
+  callbackUrl: string
+}
+
+export const SaveSearchButton = ({ filters, isSignedIn, callbackUrl }: SaveSearchButtonProps) => {
+  const [open, setOpen] = useState(false)
+
+  if (!isSignedIn) {
+    return (
+      <Button asChild variant="outline" size="sm">
+        <Link href={`/auth/login?callbackUrl=${encodeURIComponent(callbackUrl)}`}>
+          <BellPlus className="w-4 h-4 mr-2" aria-hidden="true" />
+          Save search
+        </Link>
+      </Button>
+    )
+  }
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)}>
+        <BellPlus className="w-4 h-4 mr-2" aria-hidden="true" />
+        Save search
+      </Button>
+      <SavedSearchFormDialog
+        // Start from the page's current filters each time they change
+        key={callbackUrl}
+        mode="create"
+        defaultFilters={filters}
+        defaultName={describeListingFilters(filters).join(', ').slice(0, 60)}
+        open={open}
+        onOpenChange={setOpen}
+      />
+    </>
+  )
+}
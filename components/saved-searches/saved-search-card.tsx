@@ -0,0 +1,181 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Edit, ExternalLink, MoreHorizontal, Pause, Play, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { deleteSavedSearch, setSavedSearchPaused } from '@/app/account/searches/actions'
+import { describeListingFilters, toListingsUrl } from '@/lib/listings/search-params'
+import type { SavedSearchFilters } from '@/lib/validations/saved-search'
+import { SavedSearchFormDialog } from './saved-search-form-dialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+
+type SavedSearchCardProps = {
+  savedSearch: {
+    id: string
+    name: string
+    filters: SavedSearchFilters
+    paused: boolean
+  }
+}
+
+export const SavedSearchCard = ({ savedSearch }: SavedSearchCardProps) => {
+  const router = useRouter()
+  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+
+  const labels = describeListingFilters(savedSearch.filters)
+
+  const handleTogglePaused = async () => {
+    setIsLoading(true)
+    try {
+      const result = await setSavedSearchPaused(savedSearch.id, !savedSearch.paused)
+      if (result.success) {
+        toast.success(savedSearch.paused ? 'Alerts resumed' : 'Alerts paused')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to update saved search')
+      }
+    } catch {
+      toast.error('An error occurred')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    setIsLoading(true)
+    try {
+      const result = await deleteSavedSearch(savedSearch.id)
+      if (result.success) {
+        toast.success('Saved search deleted')
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to delete saved search')
+      }
+    } catch {
+      toast.error('An error occurred')
+    } finally {
+      setIsLoading(false)
+      setIsDeleteDialogOpen(false)
+    }
+  }
+
+  return (
+    <>
+      <div className="flex items-start gap-4 p-4 border rounded-lg hover:bg-muted/50 transition-colors">
+        {/* Info */}
+        <div className="flex-1 min-w-0 space-y-2">
+          <div className="flex items-center gap-2">
+            <h3 className="font-semibold truncate">{savedSearch.name}</h3>
+            {savedSearch.paused && (
+              <Badge variant="secondary" className="text-xs">
+                Paused
+              </Badge>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {labels.map((label) => (
+              <Badge key={label} variant="outline" className="text-xs font-normal">
+                {label}
+              </Badge>
+            ))}
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex items-center gap-1 shrink-0">
+          <Button asChild variant="outline" size="sm">
+            <Link href={toListingsUrl(savedSearch.filters)}>
+              <ExternalLink className="w-4 h-4 mr-2" aria-hidden="true" />
+              View listings
+            </Link>
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" disabled={isLoading} aria-label="Saved search actions">
+                <MoreHorizontal className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => setIsEditDialogOpen(true)}>
+                <Edit className="w-4 h-4 mr-2" />
+                Edit
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={handleTogglePaused}>
+                {savedSearch.paused ? (
+                  <Play className="w-4 h-4 mr-2" />
+                ) : (
+                  <Pause className="w-4 h-4 mr-2" />
+                )}
+                {savedSearch.paused ? 'Resume alerts' : 'Pause alerts'}
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                onClick={() => setIsDeleteDialogOpen(true)}
+                className="text-destructive focus:text-destructive"
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Delete
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </div>
+
+      {/* Edit Dialog */}
+      <SavedSearchFormDialog
+        mode="edit"
+        savedSearch={savedSearch}
+        open={isEditDialogOpen}
+        onOpenChange={setIsEditDialogOpen}
+      />
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Saved Search</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete <strong>{savedSearch.name}</strong>? You will no
+              longer be notified about new listings that match it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isLoading}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault()
+                handleDelete()
+              }}
+              disabled={isLoading}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isLoading ? 'Deleting...' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
@@ -0,0 +1,278 @@
+'use client'
+
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import Link from 'next/link'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { useRouter } from 'next/navigation'
+import { createSavedSearch, updateSavedSearch } from '@/app/account/searches/actions'
+import {
+  savedSearchSchema,
+  type SavedSearchFilters,
+  type SavedSearchFormData,
+} from '@/lib/validations/saved-search'
+import {
+  CATEGORIES,
+  CONDITIONS,
+  PRICING_TYPE_LABELS,
+  SA_PROVINCES,
+} from '@/lib/constants/categories'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+
+type SavedSearchFormDialogProps = {
+  mode: 'create' | 'edit'
+  /** The search being edited */
+  savedSearch?: { id: string; name: string; filters: SavedSearchFilters }
+  /** Filters a new search starts with, e.g. those on the listings page */
+  defaultFilters?: SavedSearchFilters
+  /** Suggested name for a new search */
+  defaultName?: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Selects use "all" for "not filtered"
+const ALL = 'all'
+
+// Number inputs: empty means "not filtered"
+const toOptionalNumber = (value: string) => (value === '' ? undefined : parseFloat(value))
+
+export const SavedSearchFormDialog = ({
+  mode,
+  savedSearch,
+  defaultFilters,
+  defaultName,
+  open,
+  onOpenChange,
+}: SavedSearchFormDialogProps) => {
+  const router = useRouter()
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const form = useForm<SavedSearchFormData>({
+    resolver: zodResolver(savedSearchSchema),
+    defaultValues: {
+      name: savedSearch?.name ?? defaultName ?? '',
+      filters: savedSearch?.filters ?? defaultFilters ?? {},
+    },
+  })
+
+  const onSubmit = async (data: SavedSearchFormData) => {
+    setIsSubmitting(true)
+    try {
+      const result =
+        mode === 'create'
+          ? await createSavedSearch(data)
+          : savedSearch
+            ? await updateSavedSearch({ ...data, savedSearchId: savedSearch.id })
+            : { success: false, error: 'Saved search not found' }
+
+      if (result.success) {
+        if (mode === 'create') {
+          toast.success('Search saved', {
+            description: "We'll let you know when new listings match",
+            action: { label: 'Manage', onClick: () => router.push('/account/searches') },
+          })
+        } else {
+          toast.success('Saved search updated')
+        }
+        onOpenChange(false)
+        router.refresh()
+      } else {
+        toast.error(result.error || 'Failed to save search')
+      }
+    } catch {
+      toast.error('An error occurred')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const renderSelectField = (
+    name: 'filters.category' | 'filters.condition' | 'filters.pricingType' | 'filters.province',
+    label: string,
+    anyLabel: string,
+    options: { value: string; label: string }[]
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select
+            value={field.value ?? ALL}
+            onValueChange={(value) => field.onChange(value === ALL ? undefined : value)}
+          >
+            <FormControl>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              <SelectItem value={ALL}>{anyLabel}</SelectItem>
+              {options.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  )
+
+  const renderPriceField = (name: 'filters.minPrice' | 'filters.maxPrice', label: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <div className="relative">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">R</span>
+              <Input
+                type="number"
+                min={0}
+                className="pl-7"
+                value={field.value ?? ''}
+                onChange={(e) => field.onChange(toOptionalNumber(e.target.value))}
+              />
+            </div>
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{mode === 'create' ? 'Save this search' : 'Edit saved search'}</DialogTitle>
+          <DialogDescription>
+            {mode === 'create' ? (
+              <>
+                We&apos;ll notify you when new listings match. Manage alerts in{' '}
+                <Link href="/account/searches" className="underline">
+                  saved searches
+                </Link>
+                .
+              </>
+            ) : (
+              'Alerts use the updated filters from the next check'
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Road bikes in Gauteng" maxLength={60} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="filters.query"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Search</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="Any listing"
+                      maxLength={100}
+                      value={field.value ?? ''}
+                      onChange={(e) => field.onChange(e.target.value || undefined)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {renderSelectField(
+                'filters.category',
+                'Category',
+                'All Categories',
+                CATEGORIES.map(({ value, label }) => ({ value, label }))
+              )}
+              {renderSelectField(
+                'filters.condition',
+                'Condition',
+                'Any Condition',
+                CONDITIONS.map(({ value, label }) => ({ value, label }))
+              )}
+              {renderSelectField(
+                'filters.pricingType',
+                'Pricing Type',
+                'Any Pricing',
+                Object.entries(PRICING_TYPE_LABELS).map(([value, label]) => ({ value, label }))
+              )}
+              {renderSelectField(
+                'filters.province',
+                'Province',
+                'All Provinces',
+                SA_PROVINCES.map((province) => ({ value: province, label: province }))
+              )}
+              {renderPriceField('filters.minPrice', 'Min price')}
+              {renderPriceField('filters.maxPrice', 'Max price')}
+            </div>
+
+            {form.formState.errors.filters?.message && (
+              <p className="text-sm text-destructive">{form.formState.errors.filters.message}</p>
+            )}
+
+            <div className="flex gap-3 justify-end">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {mode === 'create' ? 'Save search' : 'Save changes'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
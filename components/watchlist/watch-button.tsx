@@ -0,0 +1,99 @@
+'use client'
+
+import { useState } from 'react'
+import { usePathname, useRouter } from 'next/navigation'
+import { Heart } from 'lucide-react'
+import { toast } from 'sonner'
+import { setWatching } from '@/app/account/watchlist/actions'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+
+type WatchButtonProps = {
+  listingId: string
+  listingTitle: string
+  /** Whether the viewer is already watching the listing */
+  watched: boolean
+  /** icon: round heart over a listing image; button: full-width button with a label */
+  variant?: 'icon' | 'button'
+  className?: string
+}
+
+export const WatchButton = ({
+  listingId,
+  listingTitle,
+  watched: initialWatched,
+  variant = 'icon',
+  className,
+}: WatchButtonProps) => {
+  const router = useRouter()
+  const pathname = usePathname()
+  const [watched, setWatched] = useState(initialWatched)
+  const [isPending, setIsPending] = useState(false)
+
+  const handleClick = async () => {
+    const next = !watched
+    setWatched(next)
+    setIsPending(true)
+    try {
+      const result = await setWatching(listingId, next)
+      if (result.success) {
+        toast.success(next ? 'Added to your watchlist' : 'Removed from your watchlist', {
+          ...(next && {
+            action: { label: 'View', onClick: () => router.push('/account/watchlist') },
+          }),
+        })
+        router.refresh()
+      } else {
+        setWatched(!next)
+        if (result.error === 'Sign in to watch listings') {
+          toast.error(result.error, {
+            action: {
+              label: 'Sign in',
+              onClick: () => router.push(`/auth/login?callbackUrl=${encodeURIComponent(pathname)}`),
+            },
+          })
+        } else {
+          toast.error(result.error || 'Failed to update your watchlist')
+        }
+      }
+    } catch {
+      setWatched(!next)
+      toast.error('An error occurred')
+    } finally {
+      setIsPending(false)
+    }
+  }
+
+  const label = watched ? `Remove ${listingTitle} from watchlist` : `Add ${listingTitle} to watchlist`
+
+  if (variant === 'button') {
+    return (
+      <Button
+        variant="outline"
+        size="lg"
+        className={cn('w-full text-base h-12', className)}
+        onClick={handleClick}
+        disabled={isPending}
+        aria-pressed={watched}
+        aria-label={label}
+      >
+        <Heart className={cn('w-5 h-5 mr-2', watched && 'fill-red-500 text-red-500')} aria-hidden="true" />
+        {watched ? 'Watching' : 'Watch'}
+      </Button>
+    )
+  }
+
+  return (
+    <Button
+      variant="secondary"
+      size="icon"
+      className={cn('rounded-full shadow-md bg-background/90 hover:bg-background', className)}
+      onClick={handleClick}
+      disabled={isPending}
+      aria-pressed={watched}
+      aria-label={label}
+    >
+      <Heart className={cn('w-4 h-4', watched && 'fill-red-500 text-red-500')} aria-hidden="true" />
+    </Button>
+  )
+}
@@ -0,0 +1,99 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import {
+  REALTIME_EVENT_TYPES,
+  type RealtimeEvent,
+  type RealtimeEventType,
+} from '@/lib/realtime/events'
+
+type Listener = (event: RealtimeEvent) => void
+
+const INITIAL_RETRY_MS = 3000
+const MAX_RETRY_MS = 60000
+
+// One EventSource per tab, shared by every component that subscribes
+const listeners = new Set<Listener>()
+let source: EventSource | null = null
+let lastEventId: string | null = null
+let retryTimer: ReturnType<typeof setTimeout> | null = null
+let retryDelay = INITIAL_RETRY_MS
+
+const connect = () => {
+  retryTimer = null
+  const url = lastEventId ? `/api/events?lastEventId=${encodeURIComponent(lastEventId)}` : '/api/events'
+  const eventSource = new EventSource(url)
+  source = eventSource
+
+  for (const type of REALTIME_EVENT_TYPES) {
+    eventSource.addEventListener(type, (message) => {
+      const { data, lastEventId: id } = message as MessageEvent<string>
+      lastEventId = id
+      const event = { id, type, data: JSON.parse(data) } as RealtimeEvent
+      listeners.forEach((listener) => listener(event))
+    })
+  }
+
+  eventSource.onopen = () => {
+    retryDelay = INITIAL_RETRY_MS
+  }
+
+  // The browser reconnects dropped streams itself, sending Last-Event-ID, but
+  // gives up after an HTTP error such as a 401; retry those with backoff
+  eventSource.onerror = () => {
+    if (eventSource.readyState !== EventSource.CLOSED) return
+    eventSource.close()
+    source = null
+    if (listeners.size > 0) {
+      retryTimer = setTimeout(connect, retryDelay)
+      retryDelay = Math.min(retryDelay * 2, MAX_RETRY_MS)
+    }
+  }
+}
+
+const disconnect = () => {
+  if (retryTimer) {
+    clearTimeout(retryTimer)
+    retryTimer = null
+  }
+  source?.close()
+  source = null
+}
+
+/**
+ * Run a handler for the signed-in user's realtime events of the given types
+ * Opens the stream on first use and closes it when no component is listening
+ */
+export function useRealtimeEvents<T extends RealtimeEventType>(
+  types: T[],
+  handler: (event: RealtimeEvent<T>) => void
+) {
+  const handlerRef = useRef(handler)
+
+  useEffect(() => {
+    handlerRef.current = handler
+  }, [handler])
+
+  const typesKey = types.join(',')
+
+  useEffect(() => {
+    const wanted = typesKey.split(',')
+    const listener: Listener = (event) => {
+      if (wanted.includes(event.type)) {
+        handlerRef.current(event as RealtimeEvent<T>)
+      }
+    }
+
+    listeners.add(listener)
+    if (!source && !retryTimer) {
+      connect()
+    }
+
+    return () => {
+      listeners.delete(listener)
+      if (listeners.size === 0) {
+        disconnect()
+      }
+    }
+  }, [typesKey])
+}
@@ -0,0 +1,63 @@
+/**
+ * Checkout Eligibility
+ *
+ * Pure checks deciding whether a buyer can purchase a listing and at what
+ * price. Used by the checkout page for display and re-run by
+ * createTransaction inside the purchase transaction.
+ */
+
+import type { ListingStatus, PricingType } from '@prisma/client'
+import { CHECKOUT_ERROR_CODES, CheckoutError, createAlreadySoldError } from './errors'
+
+export interface CheckoutListingSnapshot {
+  sellerId: string
+  status: ListingStatus
+  pricingType: PricingType
+  price: number | null
+}
+
+/**
+ * Resolve the purchase price for a buyer
+ *
+ * FIXED listings sell at the asking price. OFFERS listings sell at the amount
+ * agreed in the buyer's accepted offer, if there is one.
+ *
+ * @param listing - Listing state read inside the purchase transaction
+ * @param buyerId - Buyer user ID
+ * @param agreedAmount - Agreed amount of the buyer's accepted offer, if any
+ * @returns The price to charge
+ * @throws CheckoutError when the buyer cannot purchase the listing
+ */
+export function resolveCheckoutPrice(
+  listing: CheckoutListingSnapshot,
+  buyerId: string,
+  agreedAmount: number | null
+): number {
+  if (listing.sellerId === buyerId) {
+    throw new CheckoutError(CHECKOUT_ERROR_CODES.OWN_LISTING, 'You cannot buy your own listing')
+  }
+
+  if (listing.status === 'SOLD') {
+    throw createAlreadySoldError()
+  }
+
+  if (listing.status !== 'APPROVED') {
+    throw new CheckoutError(
+      CHECKOUT_ERROR_CODES.LISTING_UNAVAILABLE,
+      'This listing is no longer available for purchase'
+    )
+  }
+
+  if (listing.pricingType === 'FIXED' && listing.price !== null) {
+    return listing.price
+  }
+
+  if (agreedAmount !== null) {
+    return agreedAmount
+  }
+
+  throw new CheckoutError(
+    CHECKOUT_ERROR_CODES.NO_AGREED_PRICE,
+    'This listing accepts offers. Make an offer and check out once the seller accepts it.'
+  )
+}
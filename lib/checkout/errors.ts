@@ -0,0 +1,44 @@
+/**
+ * Checkout Error Classes
+ *
+ * Thrown from inside the purchase transaction so it rolls back, then
+ * mapped to a friendly message by the checkout action
+ */
+
+export class CheckoutError extends Error {
+  code: CheckoutErrorCode
+
+  constructor(code: CheckoutErrorCode, message: string) {
+    super(message)
+    this.name = 'CheckoutError'
+    this.code = code
+
+    // Maintains proper stack trace for where our error was thrown (only available on V8)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, CheckoutError)
+    }
+  }
+}
+
+/**
+ * Error codes for checkout
+ */
+export const CHECKOUT_ERROR_CODES = {
+  LISTING_NOT_FOUND: 'LISTING_NOT_FOUND',
+  OWN_LISTING: 'OWN_LISTING',
+  ALREADY_SOLD: 'ALREADY_SOLD',
+  LISTING_UNAVAILABLE: 'LISTING_UNAVAILABLE',
+  NO_AGREED_PRICE: 'NO_AGREED_PRICE',
+} as const
+
+export type CheckoutErrorCode = typeof CHECKOUT_ERROR_CODES[keyof typeof CHECKOUT_ERROR_CODES]
+
+/**
+ * Factory for the error shown when another buyer got there first
+ */
+export function createAlreadySoldError(): CheckoutError {
+  return new CheckoutError(
+    CHECKOUT_ERROR_CODES.ALREADY_SOLD,
+    'Sorry, this item has already been sold to another buyer.'
+  )
+}
@@ -138,3 +138,44 @@ export function getThumbnailUrl(originalUrl: string): string {
     return originalUrl;
   }
 }
+
+/**
+ * Generate a small JPEG URL (300x300) for embedding in PDF documents
+ * PDF renderers only support JPEG and PNG, so the format is fixed rather than f_auto
+ *
+ * The server fetches this URL, so only https URLs on Cloudinary's own host
+ * are accepted; anything else could point the server at an arbitrary address.
+ *
+ * @param originalUrl - Any Cloudinary image URL
+ * @returns JPEG thumbnail URL (300x300), or null for anything that isn't a Cloudinary upload
+ */
+export function getDocumentImageUrl(originalUrl: string): string | null {
+  try {
+    const urlObj = new URL(originalUrl);
+    if (urlObj.protocol !== "https:" || urlObj.hostname !== "res.cloudinary.com") {
+      return null;
+    }
+
+    const pathname = urlObj.pathname;
+
+    const transformation = "w_300,h_300,c_fill,g_auto,q_auto:good,f_jpg";
+
+    const uploadIndex = pathname.indexOf("/upload/");
+    if (uploadIndex === -1) {
+      return null;
+    }
+
+    const beforeUpload = pathname.substring(0, uploadIndex + 8);
+    const afterUpload = pathname.substring(uploadIndex + 8);
+
+    const versionMatch = afterUpload.match(/(v\d+\/.+)$/);
+    const pathAfterTransformations = versionMatch ? versionMatch[1] : afterUpload;
+
+    const documentPathname = `${beforeUpload}${transformation}/${pathAfterTransformations}`;
+
+    return `${urlObj.protocol}//${urlObj.hostname}${documentPathname}`;
+  } catch {
+    // Not a valid URL
+    return null;
+  }
+}
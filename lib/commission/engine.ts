@@ -0,0 +1,163 @@
+/**
+ * Commission Engine
+ *
+ * Picks the commission rule that applies to a sale and computes the fee.
+ * Rules are stored in the CommissionRule table and managed by admins.
+ *
+ * Precedence, most specific first:
+ * 1. SELLER_PROMO - the seller's promotional rate, within its validity dates
+ * 2. CATEGORY     - the listing's category, then its parent category
+ * 3. PRICE_BAND   - the band containing the price (minPrice inclusive, maxPrice exclusive)
+ * 4. DEFAULT      - the marketplace rate
+ *
+ * When several rules of the same type match, the most recently created wins.
+ * The chosen rule's minFee / maxFee clamp the fee. Without any active rule the
+ * built-in DEFAULT_COMMISSION_RATE applies.
+ */
+
+import type { CommissionRuleType } from '@prisma/client'
+
+/**
+ * Fallback rate when no DEFAULT rule is active
+ */
+export const DEFAULT_COMMISSION_RATE = 0.2
+
+/**
+ * Commission rule with Decimal fields converted to numbers
+ */
+export interface CommissionRuleSnapshot {
+  id: string
+  name: string
+  type: CommissionRuleType
+  rate: number
+  minFee: number | null
+  maxFee: number | null
+  isActive: boolean
+  categoryId: string | null
+  minPrice: number | null
+  maxPrice: number | null
+  sellerId: string | null
+  validFrom: Date | null
+  validUntil: Date | null
+  createdAt: Date
+}
+
+/**
+ * The sale a commission is calculated for
+ */
+export interface CommissionContext {
+  price: number
+  sellerId: string
+  categoryId: string | null
+  parentCategoryId: string | null
+  at: Date
+}
+
+export interface CommissionQuote {
+  commission: number
+  netAmount: number
+  /** Rate the rule applied before clamping */
+  rate: number
+  /** Null when the built-in fallback rate was used */
+  rule: CommissionRuleSnapshot | null
+  /** Set when minFee or maxFee changed the fee */
+  clampedTo: 'MIN_FEE' | 'MAX_FEE' | null
+}
+
+const roundToCents = (value: number) => Math.round(value * 100) / 100
+
+const newestFirst = (a: CommissionRuleSnapshot, b: CommissionRuleSnapshot) =>
+  b.createdAt.getTime() - a.createdAt.getTime()
+
+/**
+ * Whether a rule's scope covers the sale, ignoring precedence
+ */
+export function ruleMatches(rule: CommissionRuleSnapshot, context: CommissionContext): boolean {
+  if (!rule.isActive) return false
+
+  switch (rule.type) {
+    case 'DEFAULT':
+      return true
+    case 'CATEGORY':
+      return (
+        rule.categoryId !== null &&
+        (rule.categoryId === context.categoryId || rule.categoryId === context.parentCategoryId)
+      )
+    case 'PRICE_BAND':
+      return (
+        (rule.minPrice === null || context.price >= rule.minPrice) &&
+        (rule.maxPrice === null || context.price < rule.maxPrice)
+      )
+    case 'SELLER_PROMO':
+      return (
+        rule.sellerId === context.sellerId &&
+        (rule.validFrom === null || context.at >= rule.validFrom) &&
+        (rule.validUntil === null || context.at < rule.validUntil)
+      )
+  }
+}
+
+/**
+ * Select the rule that applies to a sale
+ *
+ * @returns The winning rule, or null when none matches
+ */
+export function selectCommissionRule(
+  rules: CommissionRuleSnapshot[],
+  context: CommissionContext
+): CommissionRuleSnapshot | null {
+  const matching = rules.filter((rule) => ruleMatches(rule, context)).sort(newestFirst)
+  const ofType = (type: CommissionRuleType) => matching.filter((rule) => rule.type === type)
+
+  const promo = ofType('SELLER_PROMO')[0]
+  if (promo) return promo
+
+  // An exact category rule beats one on the parent category
+  const categoryRules = ofType('CATEGORY')
+  const category =
+    categoryRules.find((rule) => rule.categoryId === context.categoryId) ?? categoryRules[0]
+  if (category) return category
+
+  return ofType('PRICE_BAND')[0] ?? ofType('DEFAULT')[0] ?? null
+}
+
+/**
+ * Calculate the commission for a sale
+ *
+ * @param rules - Candidate rules (inactive or non-matching rules are ignored)
+ * @param context - The sale
+ * @returns Commission, seller net amount and the rule used
+ */
+export function calculateCommissionQuote(
+  rules: CommissionRuleSnapshot[],
+  context: CommissionContext
+): CommissionQuote {
+  const rule = selectCommissionRule(rules, context)
+  const rate = rule ? rule.rate : DEFAULT_COMMISSION_RATE
+
+  let commission = roundToCents(context.price * rate)
+  let clampedTo: CommissionQuote['clampedTo'] = null
+
+  const minFee = rule?.minFee ?? null
+  const maxFee = rule?.maxFee ?? null
+
+  if (minFee !== null && commission < minFee) {
+    commission = minFee
+    clampedTo = 'MIN_FEE'
+  }
+  if (maxFee !== null && commission > maxFee) {
+    commission = maxFee
+    clampedTo = 'MAX_FEE'
+  }
+
+  // The fee never exceeds the sale price
+  commission = Math.min(commission, context.price)
+
+  return {
+    commission,
+    netAmount: roundToCents(context.price - commission),
+    rate,
+    rule,
+    clampedTo,
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Commission Quotes
+ *
+ * Loads the candidate commission rules for a sale and runs the engine.
+ * Used by createTransaction and the admin fee preview.
+ */
+
+import type { CommissionRule, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import {
+  calculateCommissionQuote,
+  type CommissionQuote,
+  type CommissionRuleSnapshot,
+} from './engine'
+
+/**
+ * Convert a CommissionRule row to the engine's number-based snapshot
+ */
+export function toCommissionRuleSnapshot(rule: CommissionRule): CommissionRuleSnapshot {
+  return {
+    id: rule.id,
+    name: rule.name,
+    type: rule.type,
+    rate: rule.rate.toNumber(),
+    minFee: rule.minFee ? rule.minFee.toNumber() : null,
+    maxFee: rule.maxFee ? rule.maxFee.toNumber() : null,
+    isActive: rule.isActive,
+    categoryId: rule.categoryId,
+    minPrice: rule.minPrice ? rule.minPrice.toNumber() : null,
+    maxPrice: rule.maxPrice ? rule.maxPrice.toNumber() : null,
+    sellerId: rule.sellerId,
+    validFrom: rule.validFrom,
+    validUntil: rule.validUntil,
+    createdAt: rule.createdAt,
+  }
+}
+
+/**
+ * Quote the commission for a sale
+ *
+ * @param input.price - Sale price
+ * @param input.sellerId - Seller user ID
+ * @param input.categoryId - Listing category (Category table), if set
+ * @param input.at - Time of sale, for promo validity (defaults to now)
+ * @param db - Prisma client or interactive transaction client
+ */
+export async function getCommissionQuote(
+  input: { price: number; sellerId: string; categoryId: string | null; at?: Date },
+  db: Prisma.TransactionClient = prisma
+): Promise<CommissionQuote> {
+  const category = input.categoryId
+    ? await db.category.findUnique({
+        where: { id: input.categoryId },
+        select: { id: true, parentId: true },
+      })
+    : null
+
+  const categoryIds = category ? [category.id, category.parentId].filter((id) => id !== null) : []
+
+  const rules = await db.commissionRule.findMany({
+    where: {
+      isActive: true,
+      OR: [
+        { type: 'DEFAULT' },
+        { type: 'PRICE_BAND' },
+        { type: 'CATEGORY', categoryId: { in: categoryIds } },
+        { type: 'SELLER_PROMO', sellerId: input.sellerId },
+      ],
+    },
+  })
+
+  return calculateCommissionQuote(rules.map(toCommissionRuleSnapshot), {
+    price: input.price,
+    sellerId: input.sellerId,
+    categoryId: category?.id ?? null,
+    parentCategoryId: category?.parentId ?? null,
+    at: input.at ?? new Date(),
+  })
+}
+
+/**
+ * The audit record stored on Transaction.commissionSnapshot: the rule as it
+ * was at the time of sale, so later edits do not change history
+ */
+export function toCommissionSnapshot(quote: CommissionQuote): Prisma.InputJsonObject {
+  return {
+    rate: quote.rate,
+    clampedTo: quote.clampedTo,
+    rule: quote.rule
+      ? {
+          id: quote.rule.id,
+          name: quote.rule.name,
+          type: quote.rule.type,
+          rate: quote.rule.rate,
+          minFee: quote.rule.minFee,
+          maxFee: quote.rule.maxFee,
+          categoryId: quote.rule.categoryId,
+          minPrice: quote.rule.minPrice,
+          maxPrice: quote.rule.maxPrice,
+          sellerId: quote.rule.sellerId,
+          validFrom: quote.rule.validFrom?.toISOString() ?? null,
+          validUntil: quote.rule.validUntil?.toISOString() ?? null,
+        }
+      : null,
+  }
+}
@@ -1,4 +1,4 @@
-import { ListingCategory, ListingCondition } from '@prisma/client'
+import { ListingCategory, ListingCondition, PricingType } from '@prisma/client'
 import { LucideIcon } from 'lucide-react'
 
 export type CategoryConfig = {
@@ -118,6 +118,11 @@ export const CONDITIONS: ConditionConfig[] = [
   },
 ]
 
+export const PRICING_TYPE_LABELS: Record<PricingType, string> = {
+  FIXED: 'Fixed Price',
+  OFFERS: 'Accepts Offers',
+}
+
 export const SA_PROVINCES = [
   'Gauteng',
   'Western Cape',
@@ -0,0 +1,22 @@
+import type { MessageScanAction } from '@prisma/client'
+
+export const MESSAGE_MODERATION_ACTIONS = ['RELEASE', 'BLOCK', 'DISMISS'] as const
+
+export type MessageModerationAction = (typeof MESSAGE_MODERATION_ACTIONS)[number]
+
+export const MESSAGE_MODERATION_ACTION_LABELS: Record<MessageModerationAction, string> = {
+  RELEASE: 'Release',
+  BLOCK: 'Block',
+  DISMISS: 'Dismiss',
+}
+
+export const MESSAGE_SCAN_ACTION_LABELS: Record<MessageScanAction, string> = {
+  NONE: 'Clean',
+  WARN: 'Warned',
+  MASK: 'Masked',
+  HOLD: 'Held',
+}
+
+// Shown to the recipient above messages the scan warned about or masked
+export const MESSAGE_SAFETY_WARNING =
+  'Be careful: this message may try to move the deal off LOTOSALE. Never pay by EFT, share an OTP or pay a courier fee upfront. Pay through checkout to stay covered by buyer protection.'
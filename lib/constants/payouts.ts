@@ -0,0 +1,31 @@
+import { BankAccountType, LedgerEntryType } from '@prisma/client'
+
+export const SA_BANKS = [
+  'Absa',
+  'African Bank',
+  'Capitec',
+  'Discovery Bank',
+  'FNB',
+  'Investec',
+  'Nedbank',
+  'Standard Bank',
+  'TymeBank',
+] as const
+
+export const BANK_ACCOUNT_TYPE_LABELS: Record<BankAccountType, string> = {
+  CHEQUE: 'Cheque / Current',
+  SAVINGS: 'Savings',
+  TRANSMISSION: 'Transmission',
+}
+
+export const LEDGER_ENTRY_TYPE_LABELS: Record<LedgerEntryType, string> = {
+  SALE_CREDIT: 'Sale',
+  REFUND_DEBIT: 'Refund',
+  PAYOUT_DEBIT: 'Payout',
+}
+
+/**
+ * Show only the last four digits of an account number
+ */
+export const maskAccountNumber = (accountNumber: string): string =>
+  `•••• ${accountNumber.slice(-4)}`
@@ -0,0 +1,53 @@
+import type { ReviewReportReason, ReviewStatus } from '@prisma/client'
+
+export type ReviewReportReasonConfig = {
+  value: ReviewReportReason
+  label: string
+  description: string
+}
+
+export const REVIEW_REPORT_REASONS: ReviewReportReasonConfig[] = [
+  {
+    value: 'ABUSIVE',
+    label: 'Abusive',
+    description: 'Insults, threats or hateful language',
+  },
+  {
+    value: 'FAKE',
+    label: 'Fake',
+    description: 'The review does not reflect a real transaction',
+  },
+  {
+    value: 'SPAM',
+    label: 'Spam',
+    description: 'Advertising or unrelated content',
+  },
+  {
+    value: 'OTHER',
+    label: 'Other',
+    description: 'Something else is wrong with this review',
+  },
+]
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  VISIBLE: 'Visible',
+  HIDDEN: 'Hidden',
+  REMOVED: 'Removed',
+}
+
+export const REVIEW_MODERATION_ACTIONS = ['HIDE', 'REMOVE', 'RESTORE', 'DISMISS'] as const
+
+export type ReviewModerationAction = (typeof REVIEW_MODERATION_ACTIONS)[number]
+
+export const REVIEW_MODERATION_ACTION_LABELS: Record<ReviewModerationAction, string> = {
+  HIDE: 'Hide',
+  REMOVE: 'Remove',
+  RESTORE: 'Restore',
+  DISMISS: 'Dismiss reports',
+}
+
+export const getReviewReportReasonConfig = (
+  value: ReviewReportReason
+): ReviewReportReasonConfig | undefined => {
+  return REVIEW_REPORT_REASONS.find((reason) => reason.value === value)
+}
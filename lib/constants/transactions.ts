@@ -0,0 +1,72 @@
+import { DisputeReason, DisputeResolution, PaymentProvider, TransactionStatus } from '@prisma/client'
+
+export type DisputeReasonConfig = {
+  value: DisputeReason
+  label: string
+  description: string
+}
+
+export const TRANSACTION_STATUS_LABELS: Record<TransactionStatus, string> = {
+  PENDING: 'Awaiting payment',
+  AWAITING_CONFIRMATION: 'Awaiting confirmation',
+  DISPUTED: 'Problem reported',
+  COMPLETED: 'Completed',
+  CANCELLED: 'Cancelled',
+  REFUNDED: 'Refunded',
+}
+
+export const DISPUTE_RESOLUTION_LABELS: Record<DisputeResolution, string> = {
+  FULL_REFUND: 'Full refund',
+  PARTIAL_REFUND: 'Partial refund',
+  RELEASE_TO_SELLER: 'Released to seller',
+}
+
+export const PAYMENT_PROVIDER_LABELS: Record<PaymentProvider, string> = {
+  MOCK: 'Test payment',
+  PAYFAST: 'PayFast',
+}
+
+export const DISPUTE_REASONS: DisputeReasonConfig[] = [
+  {
+    value: 'NOT_RECEIVED',
+    label: 'Not received',
+    description: 'The item has not arrived',
+  },
+  {
+    value: 'NOT_AS_DESCRIBED',
+    label: 'Not as described',
+    description: 'The item differs from the listing',
+  },
+  {
+    value: 'DAMAGED',
+    label: 'Damaged',
+    description: 'The item arrived broken or damaged',
+  },
+  {
+    value: 'OTHER',
+    label: 'Other',
+    description: 'Something else went wrong',
+  },
+]
+
+export const getDisputeReasonConfig = (value: DisputeReason): DisputeReasonConfig | undefined => {
+  return DISPUTE_REASONS.find((reason) => reason.value === value)
+}
+
+export type PurchaseFilter = 'all' | 'active' | 'completed' | 'cancelled'
+
+// Status groups for the buyer's purchases list
+export const PURCHASE_FILTERS: { value: PurchaseFilter; label: string; statuses: TransactionStatus[] }[] = [
+  {
+    value: 'all',
+    label: 'All',
+    statuses: ['PENDING', 'AWAITING_CONFIRMATION', 'DISPUTED', 'COMPLETED', 'CANCELLED', 'REFUNDED'],
+  },
+  { value: 'active', label: 'In progress', statuses: ['PENDING', 'AWAITING_CONFIRMATION', 'DISPUTED'] },
+  { value: 'completed', label: 'Completed', statuses: ['COMPLETED'] },
+  { value: 'cancelled', label: 'Cancelled & refunded', statuses: ['CANCELLED', 'REFUNDED'] },
+]
+
+export const getPurchaseFilter = (value: string | undefined) => {
+  return PURCHASE_FILTERS.find((filter) => filter.value === value) ?? PURCHASE_FILTERS[0]
+}
@@ -0,0 +1,24 @@
+/**
+ * Cron Route Authorization
+ *
+ * Scheduled jobs (app/api/cron/*) are called by the scheduler with
+ * `Authorization: Bearer <CRON_SECRET>`; without CRON_SECRET they refuse
+ * every call.
+ */
+
+import { timingSafeEqual } from 'crypto'
+
+/**
+ * Check the authorization header sent by the scheduler
+ */
+export function isCronAuthorized(request: Request): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    return false
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const received = Buffer.from(request.headers.get('authorization') ?? '')
+
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
@@ -0,0 +1,34 @@
+/**
+ * Company Details
+ *
+ * The issuer printed on receipts and tax invoices, configured with COMPANY_*
+ * environment variables.
+ */
+
+export interface CompanyDetails {
+  name: string
+  registrationNumber?: string
+  vatNumber?: string
+  address: string[]
+  email: string
+}
+
+/**
+ * Issuer details for documents
+ *
+ * COMPANY_ADDRESS lines are separated by `|`.
+ */
+export function getCompanyDetails(
+  env: Record<string, string | undefined> = process.env
+): CompanyDetails {
+  return {
+    name: env.COMPANY_NAME || 'LOTOSALE',
+    registrationNumber: env.COMPANY_REGISTRATION_NUMBER || undefined,
+    vatNumber: env.COMPANY_VAT_NUMBER || undefined,
+    address: (env.COMPANY_ADDRESS || 'South Africa')
+      .split('|')
+      .map((line) => line.trim())
+      .filter(Boolean),
+    email: env.COMPANY_EMAIL || env.EMAIL_FROM || 'noreply@example.com',
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Document Content
+ *
+ * Builds what a receipt or commission tax invoice says from the transaction,
+ * independent of how it is rendered (pdf.ts).
+ */
+
+import type { PaymentProvider, TaxDocumentType } from '@prisma/client'
+import { PAYMENT_PROVIDER_LABELS } from '@/lib/constants/transactions'
+import type { CompanyDetails } from './company'
+import { formatDocumentNumber } from './numbering'
+import { splitInclusiveVat, VAT_RATE, type VatBreakdown } from './vat'
+
+export interface DocumentTransaction {
+  id: string
+  amount: number
+  commission: number
+  commissionRate: number
+  netAmount: number
+  refundedAmount: number
+  paidAt: Date | null
+  completedAt: Date | null
+  paymentProvider: PaymentProvider | null
+  listing: { title: string }
+  buyer: { name: string; email: string }
+  seller: { name: string; email: string }
+}
+
+export interface TaxDocumentContent {
+  title: string
+  number: string
+  issuedAt: Date
+  company: CompanyDetails
+  billTo: { name: string; email: string }
+  /** Label/value pairs shown under the document number */
+  details: [string, string][]
+  listingTitle: string
+  lines: { description: string; amount: number }[]
+  totals: VatBreakdown
+  vatRate: number
+  notes: string[]
+}
+
+/**
+ * Format an amount with two decimals, e.g. `R 1,250.00`
+ */
+export function formatDocumentAmount(amount: number): string {
+  const [integerPart, decimalPart] = amount.toFixed(2).split('.')
+  return `R ${integerPart.replace(/\B(?=(\d{3})+(?!\d))/g, ',')}.${decimalPart}`
+}
+
+/**
+ * Format a date for documents, e.g. `4 November 2025`
+ */
+export function formatDocumentDate(date: Date): string {
+  return date.toLocaleDateString('en-ZA', { year: 'numeric', month: 'long', day: 'numeric' })
+}
+
+/**
+ * Order reference shown to users, matching the order page
+ */
+export function getOrderReference(transactionId: string): string {
+  return `#${transactionId.slice(0, 8).toUpperCase()}`
+}
+
+/**
+ * Build the content of a receipt (buyer) or commission tax invoice (seller)
+ */
+export function buildTaxDocument(input: {
+  type: TaxDocumentType
+  number: number
+  issuedAt: Date
+  company: CompanyDetails
+  transaction: DocumentTransaction
+}): TaxDocumentContent {
+  const { type, number, issuedAt, company, transaction } = input
+  const base = {
+    number: formatDocumentNumber(type, number),
+    issuedAt,
+    company,
+    listingTitle: transaction.listing.title,
+    vatRate: VAT_RATE,
+  }
+
+  if (type === 'RECEIPT') {
+    const details: [string, string][] = [['Order', getOrderReference(transaction.id)]]
+    if (transaction.paidAt) {
+      details.push(['Paid on', formatDocumentDate(transaction.paidAt)])
+    }
+    if (transaction.paymentProvider) {
+      details.push(['Payment method', PAYMENT_PROVIDER_LABELS[transaction.paymentProvider]])
+    }
+    details.push(['Seller', transaction.seller.name])
+
+    return {
+      ...base,
+      title: 'Receipt',
+      billTo: transaction.buyer,
+      details,
+      lines: [{ description: transaction.listing.title, amount: transaction.amount }],
+      totals: splitInclusiveVat(transaction.amount),
+      notes:
+        transaction.refundedAmount > 0
+          ? [`${formatDocumentAmount(transaction.refundedAmount)} of this payment was refunded to you.`]
+          : [],
+    }
+  }
+
+  const ratePercent = Math.round(transaction.commissionRate * 10000) / 100
+  const details: [string, string][] = [['Order', getOrderReference(transaction.id)]]
+  if (transaction.completedAt) {
+    details.push(['Sale completed', formatDocumentDate(transaction.completedAt)])
+  }
+
+  const notes = [`Sale amount: ${formatDocumentAmount(transaction.amount)}`]
+  if (transaction.refundedAmount > 0) {
+    notes.push(`Refunded to buyer: ${formatDocumentAmount(transaction.refundedAmount)}`)
+  }
+  notes.push(
+    `Commission: ${formatDocumentAmount(transaction.commission)}`,
+    `Paid to you: ${formatDocumentAmount(transaction.netAmount)}`,
+    'The commission was deducted from your sale proceeds; no payment is due.'
+  )
+
+  return {
+    ...base,
+    title: 'Tax Invoice',
+    billTo: transaction.seller,
+    details,
+    lines: [
+      {
+        description: `Marketplace commission (${ratePercent}%) on the sale of "${transaction.listing.title}"`,
+        amount: transaction.commission,
+      },
+    ],
+    totals: splitInclusiveVat(transaction.commission),
+    notes,
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Document Numbering
+ *
+ * Receipts and commission tax invoices are numbered sequentially per type.
+ * A document is issued the first time it is downloaded; the number comes
+ * from a DocumentSequence row incremented in the same database transaction,
+ * so a rolled-back issue never leaves a gap.
+ */
+
+import { Prisma, type TaxDocument, type TaxDocumentType, type TransactionStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+export const DOCUMENT_NUMBER_PREFIXES: Record<TaxDocumentType, string> = {
+  RECEIPT: 'RCT',
+  COMMISSION_INVOICE: 'INV',
+}
+
+/**
+ * Printed document number, e.g. `INV-000042`
+ */
+export function formatDocumentNumber(type: TaxDocumentType, number: number): string {
+  return `${DOCUMENT_NUMBER_PREFIXES[type]}-${String(number).padStart(6, '0')}`
+}
+
+/**
+ * Whether a transaction has reached the point where the document applies
+ *
+ * A receipt is available once the buyer has paid. The commission invoice is
+ * available once the sale has completed and commission was charged.
+ */
+export function canIssueTaxDocument(
+  type: TaxDocumentType,
+  transaction: { status: TransactionStatus; paidAt: Date | null; commission: number }
+): boolean {
+  if (type === 'RECEIPT') {
+    return transaction.paidAt !== null
+  }
+  return transaction.status === 'COMPLETED' && transaction.commission > 0
+}
+
+/**
+ * Get the document issued for a transaction, issuing the next number if needed
+ */
+export async function issueTaxDocument(
+  transactionId: string,
+  type: TaxDocumentType
+): Promise<TaxDocument> {
+  const where = { transactionId_type: { transactionId, type } }
+
+  const existing = await prisma.taxDocument.findUnique({ where })
+  if (existing) {
+    return existing
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const sequence = await tx.documentSequence.update({
+        where: { type },
+        data: { lastNumber: { increment: 1 } },
+      })
+
+      return tx.taxDocument.create({
+        data: { type, number: sequence.lastNumber, transactionId },
+      })
+    })
+  } catch (error) {
+    // A concurrent request issued the document first; ours rolled back with its number
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return prisma.taxDocument.findUniqueOrThrow({ where })
+    }
+    throw error
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Document PDF Rendering
+ *
+ * Renders receipts and tax invoices server-side with pdfkit using its
+ * built-in Helvetica fonts. The listing photo is embedded when it is a
+ * Cloudinary upload that can be fetched as a JPEG or PNG; the document
+ * renders without it otherwise. No other URL is ever fetched.
+ */
+
+import PDFDocument from 'pdfkit'
+import { getDocumentImageUrl } from '@/lib/cloudinary-utils'
+import { formatDocumentAmount, formatDocumentDate, type TaxDocumentContent } from './content'
+
+const PAGE_MARGIN = 50
+const PHOTO_SIZE = 90
+const PHOTO_TIMEOUT_MS = 5000
+const MUTED = '#6b7280'
+const RULE = '#e5e7eb'
+
+/**
+ * Fetch the listing photo for embedding, or null if it is unavailable
+ * Only Cloudinary URLs are fetched (see getDocumentImageUrl)
+ */
+export async function fetchDocumentImage(url: string): Promise<Buffer | null> {
+  const imageUrl = getDocumentImageUrl(url)
+  if (!imageUrl) {
+    return null
+  }
+
+  try {
+    const response = await fetch(imageUrl, {
+      signal: AbortSignal.timeout(PHOTO_TIMEOUT_MS),
+      // A redirect could lead off Cloudinary
+      redirect: 'error',
+    })
+    const contentType = response.headers.get('content-type') ?? ''
+    if (!response.ok || !/^image\/(jpe?g|png)/.test(contentType)) {
+      return null
+    }
+    return Buffer.from(await response.arrayBuffer())
+  } catch (error) {
+    console.error('Document image fetch error:', error)
+    return null
+  }
+}
+
+/**
+ * Render a receipt or tax invoice as a PDF
+ *
+ * @param content - Document content from buildTaxDocument
+ * @param image - Listing photo (JPEG or PNG)
+ */
+export function renderTaxDocumentPdf(
+  content: TaxDocumentContent,
+  image: Buffer | null = null
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: PAGE_MARGIN,
+      info: {
+        Title: `${content.title} ${content.number}`,
+        Author: content.company.name,
+      },
+    })
+
+    const chunks: Buffer[] = []
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk))
+    doc.on('end', () => resolve(Buffer.concat(chunks)))
+    doc.on('error', reject)
+
+    const left = PAGE_MARGIN
+    const width = doc.page.width - PAGE_MARGIN * 2
+    const right = left + width
+
+    // Issuer
+    doc.font('Helvetica-Bold').fontSize(18).fillColor('black').text(content.company.name, left, PAGE_MARGIN)
+    doc.font('Helvetica').fontSize(9).fillColor(MUTED)
+    for (const line of content.company.address) {
+      doc.text(line)
+    }
+    if (content.company.registrationNumber) {
+      doc.text(`Registration number: ${content.company.registrationNumber}`)
+    }
+    if (content.company.vatNumber) {
+      doc.text(`VAT number: ${content.company.vatNumber}`)
+    }
+    doc.text(content.company.email)
+    const issuerBottom = doc.y
+
+    // Title and number
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(20)
+      .fillColor('black')
+      .text(content.title.toUpperCase(), left, PAGE_MARGIN, { width, align: 'right' })
+    doc.font('Helvetica').fontSize(10).text(content.number, { width, align: 'right' })
+    doc.fillColor(MUTED).text(`Issued ${formatDocumentDate(content.issuedAt)}`, { width, align: 'right' })
+
+    doc.y = Math.max(issuerBottom, doc.y) + 25
+
+    // Recipient and details
+    const sectionTop = doc.y
+    doc.font('Helvetica-Bold').fontSize(9).fillColor(MUTED).text('BILLED TO', left, sectionTop)
+    doc.font('Helvetica').fontSize(10).fillColor('black').text(content.billTo.name)
+    doc.text(content.billTo.email)
+    const billToBottom = doc.y
+
+    doc.y = sectionTop
+    for (const [label, value] of content.details) {
+      const rowY = doc.y
+      doc.fontSize(9).fillColor(MUTED).text(label, left + width / 2, rowY, { width: width / 4 })
+      doc.fontSize(10).fillColor('black').text(value, left + (width * 3) / 4, rowY, {
+        width: width / 4,
+        align: 'right',
+      })
+    }
+
+    doc.y = Math.max(billToBottom, doc.y) + 25
+
+    // Listing
+    const listingTop = doc.y
+    let textLeft = left
+    if (image) {
+      try {
+        doc.image(image, left, listingTop, { fit: [PHOTO_SIZE, PHOTO_SIZE] })
+        textLeft = left + PHOTO_SIZE + 15
+      } catch (error) {
+        console.error('Document image embed error:', error)
+      }
+    }
+    doc.font('Helvetica-Bold').fontSize(12).fillColor('black').text(content.listingTitle, textLeft, listingTop, {
+      width: right - textLeft,
+    })
+    const photoBottom = textLeft === left ? 0 : listingTop + PHOTO_SIZE
+    doc.y = Math.max(doc.y, photoBottom) + 20
+
+    // Line items
+    const amountWidth = 110
+    const descriptionWidth = width - amountWidth
+
+    doc.font('Helvetica-Bold').fontSize(9).fillColor(MUTED)
+    const headerY = doc.y
+    doc.text('DESCRIPTION', left, headerY, { width: descriptionWidth })
+    doc.text('AMOUNT (INCL. VAT)', left + descriptionWidth, headerY, { width: amountWidth, align: 'right' })
+    doc.moveTo(left, doc.y + 4).lineTo(right, doc.y + 4).strokeColor(RULE).stroke()
+    doc.y += 10
+
+    doc.font('Helvetica').fontSize(10).fillColor('black')
+    for (const line of content.lines) {
+      const rowY = doc.y
+      doc.text(line.description, left, rowY, { width: descriptionWidth - 10 })
+      const rowBottom = doc.y
+      doc.text(formatDocumentAmount(line.amount), left + descriptionWidth, rowY, {
+        width: amountWidth,
+        align: 'right',
+      })
+      doc.y = Math.max(rowBottom, doc.y) + 6
+    }
+    doc.moveTo(left, doc.y).lineTo(right, doc.y).strokeColor(RULE).stroke()
+    doc.y += 10
+
+    // VAT breakdown
+    const vatPercent = Math.round(content.vatRate * 10000) / 100
+    const totals: [string, number, boolean][] = [
+      ['Amount excl. VAT', content.totals.exclusive, false],
+      [`VAT (${vatPercent}%)`, content.totals.vat, false],
+      ['Total incl. VAT', content.totals.total, true],
+    ]
+    for (const [label, amount, bold] of totals) {
+      const rowY = doc.y
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(bold ? 11 : 10)
+      doc.text(label, left + descriptionWidth - 150, rowY, { width: 150 })
+      doc.text(formatDocumentAmount(amount), left + descriptionWidth, rowY, { width: amountWidth, align: 'right' })
+      doc.y += 4
+    }
+
+    // Notes
+    if (content.notes.length > 0) {
+      doc.y += 20
+      doc.font('Helvetica').fontSize(9).fillColor(MUTED)
+      for (const note of content.notes) {
+        doc.text(note, left, doc.y, { width })
+      }
+    }
+
+    doc.end()
+  })
+}
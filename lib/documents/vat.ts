@@ -0,0 +1,34 @@
+/**
+ * VAT
+ *
+ * Marketplace prices and commission are VAT-inclusive. Documents show the
+ * amount split into its exclusive value and the VAT it contains.
+ */
+
+/**
+ * South African standard VAT rate
+ */
+export const VAT_RATE = 0.15
+
+export interface VatBreakdown {
+  exclusive: number
+  vat: number
+  total: number
+}
+
+/**
+ * Split a VAT-inclusive amount into its exclusive value and VAT, in cents
+ *
+ * @param total - VAT-inclusive amount
+ * @param rate - VAT rate as a fraction
+ */
+export function splitInclusiveVat(total: number, rate: number = VAT_RATE): VatBreakdown {
+  const totalCents = Math.round(total * 100)
+  const vatCents = Math.round((totalCents * rate) / (1 + rate))
+
+  return {
+    exclusive: (totalCents - vatCents) / 100,
+    vat: vatCents / 100,
+    total: totalCents / 100,
+  }
+}
@@ -1,90 +0,0 @@
-import { Resend } from "resend";
-
-const resend = new Resend(process.env.RESEND_API_KEY);
-
-export interface EmailOptions {
-  to: string;
-  subject: string;
-  html: string;
-}
-
-export async function sendEmail({ to, subject, html }: EmailOptions) {
-  try {
-    const { data, error } = await resend.emails.send({
-      from: process.env.EMAIL_FROM || "noreply@example.com",
-      to,
-      subject,
-      html,
-    });
-
-    if (error) {
-      console.error("Email send error:", error);
-      throw new Error("Failed to send email");
-    }
-
-    return data;
-  } catch (error) {
-    console.error("Email send error:", error);
-    throw error;
-  }
-}
-
-// Email verification template
-export function getVerificationEmailHtml(
-  verificationUrl: string,
-  name: string
-): string {
-  return `
-    <!DOCTYPE html>
-    <html>
-      <head>
-        <meta charset="utf-8">
-        <title>Verify Your Email</title>
-      </head>
-      <body style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-        <h1 style="color: #333;">Verify Your Email</h1>
-        <p>Hi ${name},</p>
-        <p>Thank you for registering with LOTOSALE. Please verify your email address by clicking the button below:</p>
-        <a href="${verificationUrl}" style="display: inline-block; padding: 12px 24px; margin: 20px 0; background-color: #3b82f6; color: white; text-decoration: none; border-radius: 6px;">
-          Verify Email
-        </a>
-        <p>Or copy and paste this link into your browser:</p>
-        <p style="color: #666; word-break: break-all;">${verificationUrl}</p>
-        <p>This link will expire in 24 hours.</p>
-        <p>If you didn't create an account, you can safely ignore this email.</p>
-        <hr style="margin: 30px 0; border: none; border-top: 1px solid #ddd;">
-        <p style="color: #999; font-size: 12px;">LOTOSALE</p>
-      </body>
-    </html>
-  `;
-}
-
-// Password reset template
-export function getPasswordResetEmailHtml(
-  resetUrl: string,
-  name: string
-): string {
-  return `
-    <!DOCTYPE html>
-    <html>
-      <head>
-        <meta charset="utf-8">
-        <title>Reset Your Password</title>
-      </head>
-      <body style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
-        <h1 style="color: #333;">Reset Your Password</h1>
-        <p>Hi ${name},</p>
-        <p>We received a request to reset your password. Click the button below to create a new password:</p>
-        <a href="${resetUrl}" style="display: inline-block; padding: 12px 24px; margin: 20px 0; background-color: #3b82f6; color: white; text-decoration: none; border-radius: 6px;">
-          Reset Password
-        </a>
-        <p>Or copy and paste this link into your browser:</p>
-        <p style="color: #666; word-break: break-all;">${resetUrl}</p>
-        <p>This link will expire in 1 hour.</p>
-        <p>If you didn't request a password reset, you can safely ignore this email.</p>
-        <hr style="margin: 30px 0; border: none; border-top: 1px solid #ddd;">
-        <p style="color: #999; font-size: 12px;">LOTOSALE</p>
-      </body>
-    </html>
-  `;
-}
@@ -0,0 +1,66 @@
+/**
+ * Email
+ *
+ * Renders templates (./templates) and hands them to the configured
+ * transport (./transport). The transport is built on first send, not at
+ * import, so pages that never send email do not need it configured.
+ */
+
+import { getEmailFrom, getEmailTransport } from './transport'
+import { renderEmailTemplate, type TemplateEmail } from './templates'
+import type { EmailMessage, EmailTransport, SentEmail } from './types'
+
+let transport: EmailTransport | null = null
+
+/**
+ * Send a rendered email
+ *
+ * @throws Error when the transport is not configured or delivery fails
+ */
+export async function sendEmail(message: EmailMessage): Promise<SentEmail> {
+  try {
+    transport ??= getEmailTransport()
+    return await transport.send({ ...message, from: getEmailFrom() })
+  } catch (error) {
+    console.error('Email send error:', error)
+    throw error
+  }
+}
+
+/**
+ * Render a template and send it
+ *
+ * @param options.unsubscribe - For emails the user can switch off: the footer
+ *   link, and the endpoint mail clients POST to for one-click unsubscribe
+ *
+ * @example
+ * await sendTemplateEmail(user.email, { template: 'verify-email', data: { name, url } })
+ */
+export async function sendTemplateEmail(
+  to: string,
+  email: TemplateEmail,
+  options: { unsubscribe?: { url: string; oneClickUrl: string } } = {}
+): Promise<SentEmail> {
+  const { unsubscribe } = options
+
+  return await sendEmail({
+    to,
+    ...renderEmailTemplate(email, { unsubscribeUrl: unsubscribe?.url }),
+    headers: unsubscribe
+      ? {
+          'List-Unsubscribe': `<${unsubscribe.oneClickUrl}>`,
+          'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+        }
+      : undefined,
+  })
+}
+
+export {
+  EMAIL_TEMPLATES,
+  isEmailTemplateId,
+  renderEmailTemplate,
+  type EmailTemplateData,
+  type EmailTemplateId,
+  type TemplateEmail,
+} from './templates'
+export type { EmailMessage, EmailTransport, SentEmail } from './types'
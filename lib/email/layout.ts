@@ -0,0 +1,102 @@
+/**
+ * Email Layout
+ *
+ * Templates describe an email as EmailContent; this renders the same content
+ * as HTML (escaped, inline styles for mail clients) and as plain text, so
+ * the two versions never drift apart.
+ */
+
+export interface EmailContent {
+  heading: string
+  /** Recipient's name for the greeting */
+  name: string
+  paragraphs: string[]
+  /** Linked entries below the paragraphs, e.g. the notifications in a digest */
+  items?: { title: string; body: string; url: string }[]
+  /** Text quoted from someone else, e.g. a message or a rejection reason */
+  quote?: string
+  action?: { label: string; url: string }
+  /** Small print below the action */
+  notes?: string[]
+  /** Link in the footer that stops emails like this one */
+  unsubscribeUrl?: string
+}
+
+const BRAND = 'LOTOSALE'
+
+/**
+ * Escape text for HTML element content and attribute values
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+export function renderEmailHtml(content: EmailContent): string {
+  const paragraphs = content.paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`)
+
+  const items = content.items?.length
+    ? `<ul style="padding-left: 20px;">${content.items
+        .map(
+          (item) =>
+            `<li style="margin-bottom: 12px;"><a href="${escapeHtml(item.url)}" style="color: #3b82f6;">${escapeHtml(item.title)}</a><br><span style="color: #555;">${escapeHtml(item.body)}</span></li>`
+        )
+        .join('')}</ul>`
+    : ''
+
+  const quote = content.quote
+    ? `<blockquote style="margin: 20px 0; padding: 12px 16px; border-left: 4px solid #ddd; color: #555; white-space: pre-line;">${escapeHtml(content.quote)}</blockquote>`
+    : ''
+
+  const action = content.action
+    ? `
+        <a href="${escapeHtml(content.action.url)}" style="display: inline-block; padding: 12px 24px; margin: 20px 0; background-color: #3b82f6; color: white; text-decoration: none; border-radius: 6px;">
+          ${escapeHtml(content.action.label)}
+        </a>
+        <p>Or copy and paste this link into your browser:</p>
+        <p style="color: #666; word-break: break-all;">${escapeHtml(content.action.url)}</p>`
+    : ''
+
+  const notes = (content.notes ?? []).map(
+    (note) => `<p style="color: #666; font-size: 14px;">${escapeHtml(note)}</p>`
+  )
+
+  const unsubscribe = content.unsubscribeUrl
+    ? ` · <a href="${escapeHtml(content.unsubscribeUrl)}" style="color: #999;">Unsubscribe</a>`
+    : ''
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>${escapeHtml(content.heading)}</title>
+  </head>
+  <body style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+    <h1 style="color: #333;">${escapeHtml(content.heading)}</h1>
+    <p>Hi ${escapeHtml(content.name)},</p>
+    ${[...paragraphs, items, quote, action, ...notes].filter(Boolean).join('\n    ')}
+    <hr style="margin: 30px 0; border: none; border-top: 1px solid #ddd;">
+    <p style="color: #999; font-size: 12px;">${BRAND}${unsubscribe}</p>
+  </body>
+</html>
+`
+}
+
+export function renderEmailText(content: EmailContent): string {
+  const blocks = [
+    `Hi ${content.name},`,
+    ...content.paragraphs,
+    ...(content.items ?? []).map((item) => `${item.title}\n${item.body}\n${item.url}`),
+    content.quote ? content.quote.split('\n').map((line) => `> ${line}`).join('\n') : null,
+    content.action ? `${content.action.label}: ${content.action.url}` : null,
+    ...(content.notes ?? []),
+    `-- \n${BRAND}`,
+    content.unsubscribeUrl ? `Unsubscribe: ${content.unsubscribeUrl}` : null,
+  ]
+
+  return blocks.filter((block) => block !== null).join('\n\n') + '\n'
+}
@@ -0,0 +1,41 @@
+/**
+ * Account Emails
+ */
+
+import type { EmailTemplate } from './types'
+
+export const verifyEmailTemplate: EmailTemplate<{ name: string; url: string }> = {
+  description: 'Sent after registering to confirm the email address',
+  subject: () => 'Verify Your Email - LOTOSALE',
+  content: ({ name, url }) => ({
+    heading: 'Verify Your Email',
+    name,
+    paragraphs: [
+      'Thank you for registering with LOTOSALE. Please verify your email address by clicking the button below:',
+    ],
+    action: { label: 'Verify Email', url },
+    notes: [
+      'This link will expire in 24 hours.',
+      "If you didn't create an account, you can safely ignore this email.",
+    ],
+  }),
+  sample: { name: 'Thandi', url: 'http://localhost:3000/auth/verify-email?token=sample-token' },
+}
+
+export const passwordResetTemplate: EmailTemplate<{ name: string; url: string }> = {
+  description: 'Sent when a user asks to reset their password',
+  subject: () => 'Reset Your Password - LOTOSALE',
+  content: ({ name, url }) => ({
+    heading: 'Reset Your Password',
+    name,
+    paragraphs: [
+      'We received a request to reset your password. Click the button below to create a new password:',
+    ],
+    action: { label: 'Reset Password', url },
+    notes: [
+      'This link will expire in 1 hour.',
+      "If you didn't request a password reset, you can safely ignore this email.",
+    ],
+  }),
+  sample: { name: 'Thandi', url: 'http://localhost:3000/auth/reset-password?token=sample-token' },
+}
@@ -0,0 +1,86 @@
+/**
+ * Email Template Registry
+ *
+ * Every transactional email, keyed by the ID used to send and preview it.
+ * Adding a template means adding it to EmailTemplateData and EMAIL_TEMPLATES;
+ * the compiler flags a template missing from either.
+ */
+
+import { renderEmailHtml, renderEmailText } from '../layout'
+import type { EmailTemplate } from './types'
+import { passwordResetTemplate, verifyEmailTemplate } from './account'
+import { listingApprovedTemplate, listingRejectedTemplate } from './listings'
+import { offerAnsweredTemplate, offerReceivedTemplate } from './offers'
+import { saleCompletedTemplate } from './orders'
+import { newMessageTemplate } from './messages'
+import { notificationDigestTemplate } from './notifications'
+import { savedSearchMatchTemplate } from './searches'
+import { watchedListingUnavailableTemplate, watchedPriceDropTemplate } from './watchlist'
+
+type TemplateData<T> = T extends EmailTemplate<infer D> ? D : never
+
+export type EmailTemplateData = {
+  'verify-email': TemplateData<typeof verifyEmailTemplate>
+  'password-reset': TemplateData<typeof passwordResetTemplate>
+  'listing-approved': TemplateData<typeof listingApprovedTemplate>
+  'listing-rejected': TemplateData<typeof listingRejectedTemplate>
+  'offer-received': TemplateData<typeof offerReceivedTemplate>
+  'offer-answered': TemplateData<typeof offerAnsweredTemplate>
+  'sale-completed': TemplateData<typeof saleCompletedTemplate>
+  'new-message': TemplateData<typeof newMessageTemplate>
+  'notification-digest': TemplateData<typeof notificationDigestTemplate>
+  'saved-search-match': TemplateData<typeof savedSearchMatchTemplate>
+  'watched-price-drop': TemplateData<typeof watchedPriceDropTemplate>
+  'watched-listing-unavailable': TemplateData<typeof watchedListingUnavailableTemplate>
+}
+
+export type EmailTemplateId = keyof EmailTemplateData
+
+/**
+ * A template together with the data it is rendered with
+ */
+export type TemplateEmail = {
+  [K in EmailTemplateId]: { template: K; data: EmailTemplateData[K] }
+}[EmailTemplateId]
+
+export const EMAIL_TEMPLATES: { [K in EmailTemplateId]: EmailTemplate<EmailTemplateData[K]> } = {
+  'verify-email': verifyEmailTemplate,
+  'password-reset': passwordResetTemplate,
+  'listing-approved': listingApprovedTemplate,
+  'listing-rejected': listingRejectedTemplate,
+  'offer-received': offerReceivedTemplate,
+  'offer-answered': offerAnsweredTemplate,
+  'sale-completed': saleCompletedTemplate,
+  'new-message': newMessageTemplate,
+  'notification-digest': notificationDigestTemplate,
+  'saved-search-match': savedSearchMatchTemplate,
+  'watched-price-drop': watchedPriceDropTemplate,
+  'watched-listing-unavailable': watchedListingUnavailableTemplate,
+}
+
+export function isEmailTemplateId(value: string): value is EmailTemplateId {
+  return Object.hasOwn(EMAIL_TEMPLATES, value)
+}
+
+/**
+ * Render a template's subject and both bodies
+ *
+ * @param options.unsubscribeUrl - Footer link for emails the user can switch off
+ */
+export function renderEmailTemplate(
+  email: TemplateEmail,
+  options: { unsubscribeUrl?: string } = {}
+): { subject: string; html: string; text: string } {
+  const template = EMAIL_TEMPLATES[email.template] as EmailTemplate<unknown>
+  const content = { ...template.content(email.data), unsubscribeUrl: options.unsubscribeUrl }
+
+  return {
+    subject: template.subject(email.data),
+    html: renderEmailHtml(content),
+    text: renderEmailText(content),
+  }
+}
+
+export type { EmailTemplate } from './types'
+export type { OfferOutcome } from './offers'
+export type { WatchedListingOutcome } from './watchlist'
@@ -0,0 +1,41 @@
+/**
+ * Listing Moderation Emails
+ */
+
+import type { EmailTemplate } from './types'
+
+export const listingApprovedTemplate: EmailTemplate<{ name: string; title: string; url: string }> = {
+  description: 'Sent to the seller when an admin approves a listing',
+  subject: ({ title }) => `Your listing "${title}" is live`,
+  content: ({ name, title, url }) => ({
+    heading: 'Your listing is live',
+    name,
+    paragraphs: [`Good news: "${title}" has been approved and buyers can now find it on LOTOSALE.`],
+    action: { label: 'View listing', url },
+  }),
+  sample: { name: 'Sipho', title: 'Trek Marlin 5 mountain bike', url: 'http://localhost:3000/listings/sample' },
+}
+
+export const listingRejectedTemplate: EmailTemplate<{
+  name: string
+  title: string
+  reason: string
+  url: string
+}> = {
+  description: 'Sent to the seller when an admin rejects a listing',
+  subject: ({ title }) => `Your listing "${title}" needs changes`,
+  content: ({ name, title, reason, url }) => ({
+    heading: 'Your listing was not approved',
+    name,
+    paragraphs: [`We couldn't approve "${title}" yet. Our moderators left this note:`],
+    quote: reason,
+    action: { label: 'Edit listing', url },
+    notes: ['Update the listing and it will be reviewed again.'],
+  }),
+  sample: {
+    name: 'Sipho',
+    title: 'Trek Marlin 5 mountain bike',
+    reason: 'Please add at least one photo of the actual bike rather than a catalogue image.',
+    url: 'http://localhost:3000/listings/sample/edit',
+  },
+}
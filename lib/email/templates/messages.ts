@@ -0,0 +1,29 @@
+/**
+ * Message Emails
+ */
+
+import type { EmailTemplate } from './types'
+
+export const newMessageTemplate: EmailTemplate<{
+  name: string
+  senderName: string
+  preview: string
+  url: string
+}> = {
+  description: 'Sent when someone messages the user about a listing',
+  subject: ({ senderName }) => `New message from ${senderName}`,
+  content: ({ name, senderName, preview, url }) => ({
+    heading: 'You have a new message',
+    name,
+    paragraphs: [`${senderName} sent you a message:`],
+    quote: preview,
+    action: { label: 'Reply', url },
+    notes: ['Keep conversations on LOTOSALE so your purchases stay covered by buyer protection.'],
+  }),
+  sample: {
+    name: 'Sipho',
+    senderName: 'Thandi',
+    preview: 'Hi, is the bike still available? Could I come and see it on Saturday?',
+    url: 'http://localhost:3000/account/messages/sample',
+  },
+}
@@ -0,0 +1,41 @@
+/**
+ * Notification Digest Email
+ */
+
+import { formatZAR } from '@/lib/constants/categories'
+import type { EmailTemplate } from './types'
+
+export const notificationDigestTemplate: EmailTemplate<{
+  name: string
+  items: { title: string; body: string; url: string }[]
+  /** Notification settings page */
+  url: string
+}> = {
+  description: 'Daily summary of the low-priority notifications a user chose to batch',
+  subject: ({ items }) =>
+    items.length === 1 ? 'Your daily LOTOSALE update' : `Your daily LOTOSALE update: ${items.length} notifications`,
+  content: ({ name, items, url }) => ({
+    heading: 'Your daily update',
+    name,
+    paragraphs: ["Here's what happened since your last update:"],
+    items,
+    action: { label: 'Notification settings', url },
+    notes: ['You receive this digest because you chose to batch low-priority notification emails.'],
+  }),
+  sample: {
+    name: 'Sipho',
+    items: [
+      {
+        title: 'Listing approved',
+        body: '"Trek Marlin 5 mountain bike" is now live',
+        url: 'http://localhost:3000/listings/sample',
+      },
+      {
+        title: 'Sale completed',
+        body: `${formatZAR(1200)} from "Bosch cordless drill" was added to your balance`,
+        url: 'http://localhost:3000/dashboard/payouts',
+      },
+    ],
+    url: 'http://localhost:3000/account/settings',
+  },
+}
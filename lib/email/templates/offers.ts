@@ -0,0 +1,63 @@
+/**
+ * Offer Emails
+ */
+
+import { formatZAR } from '@/lib/constants/categories'
+import type { EmailTemplate } from './types'
+
+export const offerReceivedTemplate: EmailTemplate<{
+  name: string
+  title: string
+  amount: number
+  url: string
+}> = {
+  description: 'Sent to the seller when a buyer makes an offer',
+  subject: ({ title }) => `New offer for "${title}"`,
+  content: ({ name, title, amount, url }) => ({
+    heading: 'You have a new offer',
+    name,
+    paragraphs: [`A buyer offered ${formatZAR(amount)} for "${title}".`],
+    action: { label: 'Review offer', url },
+    notes: ['Offers expire if they are not answered in time.'],
+  }),
+  sample: { name: 'Sipho', title: 'Trek Marlin 5 mountain bike', amount: 6500, url: 'http://localhost:3000/dashboard/offers' },
+}
+
+export type OfferOutcome = 'ACCEPTED' | 'REJECTED' | 'COUNTERED'
+
+const OUTCOME_TEXT: Record<OfferOutcome, { subject: string; heading: string }> = {
+  ACCEPTED: { subject: 'was accepted', heading: 'Your offer was accepted' },
+  REJECTED: { subject: 'was declined', heading: 'Your offer was declined' },
+  COUNTERED: { subject: 'has a counter-offer', heading: 'You have a counter-offer' },
+}
+
+export const offerAnsweredTemplate: EmailTemplate<{
+  name: string
+  title: string
+  outcome: OfferOutcome
+  /** The proposed amount, for counter-offers */
+  amount?: number
+  url: string
+}> = {
+  description: 'Sent to the other party when an offer is accepted, declined or countered',
+  subject: ({ title, outcome }) => `Your offer for "${title}" ${OUTCOME_TEXT[outcome].subject}`,
+  content: ({ name, title, outcome, amount, url }) => ({
+    heading: OUTCOME_TEXT[outcome].heading,
+    name,
+    paragraphs: [
+      outcome === 'ACCEPTED'
+        ? `Your offer for "${title}" was accepted.`
+        : outcome === 'REJECTED'
+          ? `Your offer for "${title}" was declined. You can still make a new offer while the listing is available.`
+          : `${amount !== undefined ? formatZAR(amount) : 'A new amount'} was proposed for "${title}". Accept it, decline it or counter before it expires.`,
+    ],
+    action: { label: 'View offer', url },
+  }),
+  sample: {
+    name: 'Thandi',
+    title: 'Trek Marlin 5 mountain bike',
+    outcome: 'COUNTERED',
+    amount: 7000,
+    url: 'http://localhost:3000/account/purchases',
+  },
+}
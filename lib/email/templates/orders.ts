@@ -0,0 +1,26 @@
+/**
+ * Order Emails
+ */
+
+import { formatZAR } from '@/lib/constants/categories'
+import type { EmailTemplate } from './types'
+
+export const saleCompletedTemplate: EmailTemplate<{
+  name: string
+  title: string
+  /** What the seller earns after commission */
+  amount: number
+  url: string
+}> = {
+  description: 'Sent to the seller when the buyer confirms receipt and the funds are released',
+  subject: ({ title }) => `Sale completed: "${title}"`,
+  content: ({ name, title, amount, url }) => ({
+    heading: 'Sale completed',
+    name,
+    paragraphs: [
+      `The buyer confirmed receipt of "${title}". ${formatZAR(amount)} has been added to your balance and will be paid out in the next payout batch.`,
+    ],
+    action: { label: 'View payouts', url },
+  }),
+  sample: { name: 'Sipho', title: 'Trek Marlin 5 mountain bike', amount: 5600, url: 'http://localhost:3000/dashboard/payouts' },
+}
@@ -0,0 +1,37 @@
+/**
+ * Saved Search Emails
+ */
+
+import type { EmailTemplate } from './types'
+
+export const savedSearchMatchTemplate: EmailTemplate<{
+  name: string
+  searchName: string
+  /** New listings matching the search */
+  count: number
+  /** Title of the newest match */
+  title: string
+  url: string
+}> = {
+  description: "Sent when newly approved listings match one of the user's saved searches",
+  subject: ({ searchName, count }) =>
+    count === 1 ? `New listing for "${searchName}"` : `${count} new listings for "${searchName}"`,
+  content: ({ name, searchName, count, title, url }) => ({
+    heading: 'New listings match your search',
+    name,
+    paragraphs: [
+      count === 1
+        ? `"${title}" was just listed and matches your saved search "${searchName}".`
+        : `"${title}" and ${count - 1} other new listings match your saved search "${searchName}".`,
+    ],
+    action: { label: 'View listings', url },
+    notes: ['You can pause or delete saved searches from your account.'],
+  }),
+  sample: {
+    name: 'Sipho',
+    searchName: 'Road bikes in Gauteng',
+    count: 3,
+    title: 'Giant TCR Advanced road bike',
+    url: 'http://localhost:3000/listings?q=road+bike&province=Gauteng',
+  },
+}
@@ -0,0 +1,14 @@
+/**
+ * Email Template Types
+ */
+
+import type { EmailContent } from '../layout'
+
+export interface EmailTemplate<D> {
+  /** When the email is sent, shown in the preview index */
+  description: string
+  subject: (data: D) => string
+  content: (data: D) => EmailContent
+  /** Data the dev preview renders the template with */
+  sample: D
+}
@@ -0,0 +1,61 @@
+/**
+ * Watchlist Emails
+ */
+
+import { formatZAR } from '@/lib/constants/categories'
+import type { EmailTemplate } from './types'
+
+export const watchedPriceDropTemplate: EmailTemplate<{
+  name: string
+  title: string
+  oldPrice: number
+  newPrice: number
+  url: string
+}> = {
+  description: 'Sent to watchers when the seller lowers the price of a listing',
+  subject: ({ title, newPrice }) => `Price drop: "${title}" is now ${formatZAR(newPrice)}`,
+  content: ({ name, title, oldPrice, newPrice, url }) => ({
+    heading: 'A listing you are watching dropped in price',
+    name,
+    paragraphs: [`"${title}" was ${formatZAR(oldPrice)} and is now ${formatZAR(newPrice)}.`],
+    action: { label: 'View listing', url },
+    notes: ['You get this email because the listing is on your watchlist.'],
+  }),
+  sample: {
+    name: 'Sipho',
+    title: 'Trek Marlin 5 mountain bike',
+    oldPrice: 6500,
+    newPrice: 5800,
+    url: 'http://localhost:3000/listings/sample',
+  },
+}
+
+export type WatchedListingOutcome = 'SOLD' | 'PAUSED'
+
+export const watchedListingUnavailableTemplate: EmailTemplate<{
+  name: string
+  title: string
+  outcome: WatchedListingOutcome
+  url: string
+}> = {
+  description: 'Sent to watchers when a listing they watch is sold or paused by the seller',
+  subject: ({ title, outcome }) =>
+    outcome === 'SOLD' ? `"${title}" has been sold` : `"${title}" is no longer available`,
+  content: ({ name, title, outcome, url }) => ({
+    heading: outcome === 'SOLD' ? 'A listing you are watching was sold' : 'A listing you are watching was paused',
+    name,
+    paragraphs: [
+      outcome === 'SOLD'
+        ? `"${title}" has been sold to another buyer.`
+        : `The seller paused "${title}", so it can't be bought for now. It stays on your watchlist in case it comes back.`,
+    ],
+    action: { label: 'View listing', url },
+    notes: ['You get this email because the listing is on your watchlist.'],
+  }),
+  sample: {
+    name: 'Sipho',
+    title: 'Trek Marlin 5 mountain bike',
+    outcome: 'SOLD',
+    url: 'http://localhost:3000/listings/sample',
+  },
+}
@@ -0,0 +1,66 @@
+/**
+ * Email Transport Selection
+ *
+ * EMAIL_TRANSPORT picks how email is delivered:
+ *   resend   Resend API (RESEND_API_KEY)
+ *   smtp     any SMTP server (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD, SMTP_SECURE)
+ *   file     written to EMAIL_OUTBOX_DIR (default .emails) and logged
+ *   console  logged only
+ * Without it, Resend is used when RESEND_API_KEY is set and the file
+ * transport otherwise; production refuses to fall back to the file transport.
+ */
+
+import type { EmailTransport } from './types'
+import { createFileTransport } from './transports/file'
+import { createResendTransport } from './transports/resend'
+import { createSmtpTransport } from './transports/smtp'
+
+type EmailEnv = Record<string, string | undefined>
+
+const DEFAULT_OUTBOX_DIR = '.emails'
+
+/**
+ * Address emails are sent from
+ */
+export function getEmailFrom(env: EmailEnv = process.env): string {
+  return env.EMAIL_FROM || 'noreply@example.com'
+}
+
+/**
+ * Build the configured transport
+ *
+ * @throws Error when the chosen transport is unknown or missing settings
+ */
+export function getEmailTransport(env: EmailEnv = process.env): EmailTransport {
+  const name = env.EMAIL_TRANSPORT?.toLowerCase() || (env.RESEND_API_KEY ? 'resend' : null)
+
+  switch (name) {
+    case 'resend':
+      if (!env.RESEND_API_KEY) {
+        throw new Error('Resend is not configured: set RESEND_API_KEY')
+      }
+      return createResendTransport({ apiKey: env.RESEND_API_KEY })
+    case 'smtp':
+      if (!env.SMTP_HOST) {
+        throw new Error('SMTP is not configured: set SMTP_HOST')
+      }
+      return createSmtpTransport({
+        host: env.SMTP_HOST,
+        port: Number(env.SMTP_PORT) || 587,
+        secure: env.SMTP_SECURE === 'true',
+        user: env.SMTP_USER || null,
+        password: env.SMTP_PASSWORD || null,
+      })
+    case 'file':
+      return createFileTransport({ directory: env.EMAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR })
+    case 'console':
+      return createFileTransport({ directory: null })
+    case null:
+      if (env.NODE_ENV === 'production') {
+        throw new Error('Email is not configured: set EMAIL_TRANSPORT or RESEND_API_KEY')
+      }
+      return createFileTransport({ directory: env.EMAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR })
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${env.EMAIL_TRANSPORT}"`)
+  }
+}
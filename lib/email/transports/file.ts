@@ -0,0 +1,48 @@
+/**
+ * File and Console Transport
+ *
+ * For development and tests: logs every email and, when a directory is
+ * given, writes its HTML and text bodies there to open in a browser.
+ */
+
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import type { EmailTransport } from '../types'
+
+export function createFileTransport(
+  config: { directory: string | null; log?: (line: string) => void } = { directory: null }
+): EmailTransport {
+  const log = config.log ?? console.log
+  let sequence = 0
+
+  return {
+    name: config.directory ? 'file' : 'console',
+
+    async send({ from, to, subject, html, text, headers = {} }) {
+      if (!config.directory) {
+        log(`Email from ${from} to ${to}: ${subject}\n\n${text}`)
+        return { id: null }
+      }
+
+      // Timestamp first so the outbox lists in sending order
+      const slug = subject.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40)
+      const base = path.join(config.directory, `${Date.now()}-${++sequence}-${slug}`)
+
+      const headerLines = [
+        `From: ${from}`,
+        `To: ${to}`,
+        `Subject: ${subject}`,
+        ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+      ]
+
+      await mkdir(config.directory, { recursive: true })
+      await Promise.all([
+        writeFile(`${base}.html`, html),
+        writeFile(`${base}.txt`, `${headerLines.join('\n')}\n\n${text}`),
+      ])
+
+      log(`Email to ${to}: ${subject} (${base}.html)`)
+      return { id: `${base}.html` }
+    },
+  }
+}
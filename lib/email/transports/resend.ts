@@ -0,0 +1,24 @@
+/**
+ * Resend Transport
+ */
+
+import { Resend } from 'resend'
+import type { EmailTransport } from '../types'
+
+export function createResendTransport(config: { apiKey: string }): EmailTransport {
+  const resend = new Resend(config.apiKey)
+
+  return {
+    name: 'resend',
+
+    async send({ from, to, subject, html, text, headers }) {
+      const { data, error } = await resend.emails.send({ from, to, subject, html, text, headers })
+
+      if (error) {
+        throw new Error(`Resend rejected the email: ${error.message}`)
+      }
+
+      return { id: data?.id ?? null }
+    },
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * SMTP Transport
+ */
+
+import nodemailer from 'nodemailer'
+import type { EmailTransport } from '../types'
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  /** TLS from the start (port 465); otherwise STARTTLS is used when offered */
+  secure: boolean
+  user: string | null
+  password: string | null
+}
+
+export function createSmtpTransport(config: SmtpConfig): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.password ?? '' } : undefined,
+  })
+
+  return {
+    name: 'smtp',
+
+    async send({ from, to, subject, html, text, headers }) {
+      const info = await transporter.sendMail({ from, to, subject, html, text, headers })
+      return { id: info.messageId ?? null }
+    },
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Email Types
+ */
+
+/**
+ * A rendered email; every email has an HTML and a plain-text body
+ */
+export interface EmailMessage {
+  to: string
+  subject: string
+  html: string
+  text: string
+  /** Extra headers, e.g. List-Unsubscribe */
+  headers?: Record<string, string>
+}
+
+export interface SentEmail {
+  /** The provider's message ID, or the file written by the file transport */
+  id: string | null
+}
+
+/**
+ * Delivers rendered emails
+ */
+export interface EmailTransport {
+  name: string
+  /**
+   * @throws Error when the message could not be handed over
+   */
+  send(message: EmailMessage & { from: string }): Promise<SentEmail>
+}
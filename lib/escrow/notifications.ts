@@ -0,0 +1,35 @@
+/**
+ * Escrow Notifications
+ *
+ * Tells sellers when held funds are released to them, whichever way the sale
+ * completed: the buyer confirmed receipt, the release date passed or an
+ * admin settled a dispute in the seller's favour.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { notify } from '@/lib/notifications/service'
+
+/**
+ * Notify the seller of each completed transaction
+ * Runs after the release has been committed; failures are logged, never thrown
+ */
+export async function notifySalesCompleted(transactionIds: string[]): Promise<void> {
+  if (transactionIds.length === 0) return
+
+  try {
+    const sales = await prisma.transaction.findMany({
+      where: { id: { in: transactionIds }, status: 'COMPLETED' },
+      select: { id: true, sellerId: true, netAmount: true, listing: { select: { title: true } } },
+    })
+
+    for (const sale of sales) {
+      await notify(sale.sellerId, 'SALE_COMPLETED', {
+        transactionId: sale.id,
+        title: sale.listing.title,
+        amount: sale.netAmount.toNumber(),
+      })
+    }
+  } catch (error) {
+    console.error('Sale completed notification error:', error)
+  }
+}
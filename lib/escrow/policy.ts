@@ -0,0 +1,56 @@
+/**
+ * Escrow Policy
+ *
+ * After payment the funds are held while the buyer receives the item:
+ * - The buyer confirms receipt, releasing the funds to the seller, or
+ * - The buyer reports a problem, pausing the release, or
+ * - Neither happens and the funds auto-release at `releaseAt`
+ *
+ * ESCROW_RELEASE_DAYS sets the hold period (default 7 days).
+ */
+
+import type { TransactionStatus } from '@prisma/client'
+
+export const DEFAULT_ESCROW_RELEASE_DAYS = 7
+export const MAX_ESCROW_RELEASE_DAYS = 60
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Statuses in which the buyer's payment is held
+ */
+export const HELD_TRANSACTION_STATUSES: TransactionStatus[] = ['AWAITING_CONFIRMATION', 'DISPUTED']
+
+/**
+ * Days funds are held before auto-release
+ *
+ * @param value - Configured value; invalid or out-of-range values fall back to the default
+ */
+export function getEscrowReleaseDays(value: string | undefined = process.env.ESCROW_RELEASE_DAYS): number {
+  const days = Number(value)
+  if (!value || !Number.isInteger(days) || days < 1 || days > MAX_ESCROW_RELEASE_DAYS) {
+    return DEFAULT_ESCROW_RELEASE_DAYS
+  }
+  return days
+}
+
+/**
+ * When held funds auto-release for a payment made at `paidAt`
+ */
+export function getReleaseAt(paidAt: Date, days: number = getEscrowReleaseDays()): Date {
+  return new Date(paidAt.getTime() + days * DAY_MS)
+}
+
+/**
+ * Whether the buyer can still report a problem; not once the release is due
+ */
+export function canReportProblem(
+  transaction: { status: TransactionStatus; releaseAt: Date | null },
+  now: Date
+): boolean {
+  return (
+    transaction.status === 'AWAITING_CONFIRMATION' &&
+    transaction.releaseAt !== null &&
+    transaction.releaseAt > now
+  )
+}
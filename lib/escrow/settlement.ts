@@ -0,0 +1,73 @@
+/**
+ * Dispute Settlement
+ *
+ * Works out the transaction amounts after an admin resolves a dispute:
+ * - FULL_REFUND        → REFUNDED; the buyer gets the full amount, no commission
+ * - PARTIAL_REFUND     → COMPLETED; commission scales with the amount the seller keeps
+ * - RELEASE_TO_SELLER  → COMPLETED; amounts are unchanged
+ *
+ * `amount` stays the amount the buyer paid; `refundedAmount` records what goes back.
+ */
+
+import type { DisputeResolution } from '@prisma/client'
+
+export interface DisputeSettlement {
+  status: 'COMPLETED' | 'REFUNDED'
+  refundedAmount: number
+  commission: number
+  netAmount: number
+}
+
+const roundToCents = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Whether a partial refund leaves something for both parties
+ */
+export function isValidPartialRefund(amount: number, refundAmount: number): boolean {
+  return refundAmount > 0 && refundAmount < amount && roundToCents(refundAmount) === refundAmount
+}
+
+/**
+ * Calculate the settled amounts for a disputed transaction
+ *
+ * @param transaction - Amount paid and the commission charged on it
+ * @param resolution - The admin's decision
+ * @param refundAmount - Required for PARTIAL_REFUND
+ * @returns The new status and amounts, or null when a partial refund amount is invalid
+ */
+export function calculateDisputeSettlement(
+  transaction: { amount: number; commission: number },
+  resolution: DisputeResolution,
+  refundAmount?: number
+): DisputeSettlement | null {
+  const { amount, commission } = transaction
+
+  switch (resolution) {
+    case 'FULL_REFUND':
+      return { status: 'REFUNDED', refundedAmount: amount, commission: 0, netAmount: 0 }
+
+    case 'RELEASE_TO_SELLER':
+      return {
+        status: 'COMPLETED',
+        refundedAmount: 0,
+        commission,
+        netAmount: roundToCents(amount - commission),
+      }
+
+    case 'PARTIAL_REFUND': {
+      if (refundAmount === undefined || !isValidPartialRefund(amount, refundAmount)) {
+        return null
+      }
+
+      const retained = roundToCents(amount - refundAmount)
+      const reducedCommission = roundToCents((commission * retained) / amount)
+
+      return {
+        status: 'COMPLETED',
+        refundedAmount: refundAmount,
+        commission: reducedCommission,
+        netAmount: roundToCents(retained - reducedCommission),
+      }
+    }
+  }
+}
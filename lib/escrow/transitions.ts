@@ -0,0 +1,240 @@
+/**
+ * Escrow Transitions
+ *
+ * AWAITING_CONFIRMATION → COMPLETED  buyer confirms receipt, or releaseAt passes
+ * AWAITING_CONFIRMATION → DISPUTED   buyer reports a problem before releaseAt
+ * DISPUTED → COMPLETED               buyer confirms receipt after all
+ * DISPUTED → COMPLETED | REFUNDED    an admin resolves the dispute (see settlement.ts)
+ *
+ * Every transition is a conditional update on the current status, so
+ * concurrent requests and the sweeper cannot apply two of them. Completing a
+ * transaction credits the seller's payout ledger in the same transaction.
+ */
+
+import type { DisputeReason, DisputeResolution, Prisma } from '@prisma/client'
+import { HELD_TRANSACTION_STATUSES } from './policy'
+import { calculateDisputeSettlement, type DisputeSettlement } from './settlement'
+import { creditSale, debitRefund } from '@/lib/payouts/ledger'
+
+const roundToCents = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Release held funds because the buyer confirmed receipt
+ * Closes an open problem report, if any
+ *
+ * @returns Whether the buyer's transaction was held and is now COMPLETED
+ */
+export async function confirmReceipt(
+  tx: Prisma.TransactionClient,
+  transactionId: string,
+  buyerId: string,
+  now: Date
+): Promise<boolean> {
+  const { count } = await tx.transaction.updateMany({
+    where: { id: transactionId, buyerId, status: { in: HELD_TRANSACTION_STATUSES } },
+    data: { status: 'COMPLETED', completedAt: now },
+  })
+
+  if (count === 0) {
+    return false
+  }
+
+  const transaction = await tx.transaction.findUniqueOrThrow({
+    where: { id: transactionId },
+    select: { id: true, sellerId: true, netAmount: true },
+  })
+  await creditSale(tx, transaction)
+
+  await tx.dispute.updateMany({
+    where: { transactionId, status: 'OPEN' },
+    data: { status: 'RESOLVED', resolvedAt: now },
+  })
+
+  return true
+}
+
+/**
+ * Pause the release with a problem report
+ *
+ * @returns Whether the buyer's transaction was awaiting confirmation before
+ * its release date and is now DISPUTED
+ */
+export async function reportProblem(
+  tx: Prisma.TransactionClient,
+  report: {
+    transactionId: string
+    buyerId: string
+    reason: DisputeReason
+    description: string
+    evidenceUrls: string[]
+  },
+  now: Date
+): Promise<boolean> {
+  const { count } = await tx.transaction.updateMany({
+    where: {
+      id: report.transactionId,
+      buyerId: report.buyerId,
+      status: 'AWAITING_CONFIRMATION',
+      releaseAt: { gt: now },
+    },
+    data: { status: 'DISPUTED' },
+  })
+
+  if (count === 0) {
+    return false
+  }
+
+  await tx.dispute.create({
+    data: {
+      transactionId: report.transactionId,
+      reason: report.reason,
+      description: report.description,
+      evidenceUrls: report.evidenceUrls,
+    },
+  })
+
+  return true
+}
+
+/**
+ * Auto-release every held transaction whose release date has passed
+ * Disputed transactions are not released
+ *
+ * @returns IDs of the transactions released, so sellers can be notified after commit
+ */
+export async function releaseDueTransactions(tx: Prisma.TransactionClient, now: Date): Promise<string[]> {
+  const due = await tx.transaction.findMany({
+    where: { status: 'AWAITING_CONFIRMATION', releaseAt: { lte: now } },
+    select: { id: true, sellerId: true, netAmount: true },
+  })
+
+  const released: string[] = []
+  for (const transaction of due) {
+    const { count } = await tx.transaction.updateMany({
+      where: { id: transaction.id, status: 'AWAITING_CONFIRMATION' },
+      data: { status: 'COMPLETED', completedAt: now },
+    })
+
+    // The buyer confirmed receipt in the meantime
+    if (count === 0) continue
+
+    await creditSale(tx, transaction)
+    released.push(transaction.id)
+  }
+
+  return released
+}
+
+/**
+ * Record or update the seller's response to an open dispute
+ *
+ * @returns Whether the seller's transaction had an open dispute
+ */
+export async function respondToDispute(
+  tx: Prisma.TransactionClient,
+  response: { transactionId: string; sellerId: string; response: string },
+  now: Date
+): Promise<boolean> {
+  const { count } = await tx.dispute.updateMany({
+    where: {
+      transactionId: response.transactionId,
+      status: 'OPEN',
+      transaction: { is: { sellerId: response.sellerId } },
+    },
+    data: { sellerResponse: response.response, sellerRespondedAt: now },
+  })
+  return count > 0
+}
+
+/**
+ * Settle a disputed transaction with an admin decision
+ *
+ * Updates the transaction amounts and closes the dispute. Refunds are paid
+ * out through the payment provider; this records what was refunded.
+ *
+ * @returns The settled amounts, or an error when the dispute is not open or
+ * the refund amount is invalid
+ */
+export async function settleDispute(
+  tx: Prisma.TransactionClient,
+  decision: {
+    disputeId: string
+    resolution: DisputeResolution
+    refundAmount?: number
+    note: string
+    resolvedById: string
+  },
+  now: Date
+): Promise<{ transactionId: string; settlement: DisputeSettlement } | { error: string }> {
+  const dispute = await tx.dispute.findUnique({
+    where: { id: decision.disputeId },
+    select: {
+      status: true,
+      transaction: {
+        select: {
+          id: true,
+          sellerId: true,
+          status: true,
+          amount: true,
+          commission: true,
+          netAmount: true,
+        },
+      },
+    },
+  })
+
+  if (!dispute || dispute.status !== 'OPEN' || dispute.transaction.status !== 'DISPUTED') {
+    return { error: 'This dispute is no longer open' }
+  }
+
+  const { transaction } = dispute
+  const settlement = calculateDisputeSettlement(
+    { amount: transaction.amount.toNumber(), commission: transaction.commission.toNumber() },
+    decision.resolution,
+    decision.refundAmount
+  )
+
+  if (!settlement) {
+    return { error: 'A partial refund must be more than R0 and less than the amount paid' }
+  }
+
+  const { count } = await tx.transaction.updateMany({
+    where: { id: transaction.id, status: 'DISPUTED' },
+    data: {
+      status: settlement.status,
+      refundedAmount: settlement.refundedAmount,
+      refundedAt: settlement.refundedAmount > 0 ? now : null,
+      commission: settlement.commission,
+      netAmount: settlement.netAmount,
+      completedAt: settlement.status === 'COMPLETED' ? now : null,
+    },
+  })
+
+  if (count === 0) {
+    return { error: 'This dispute is no longer open' }
+  }
+
+  // Credit the sale as agreed, then debit the seller's share of any refund,
+  // so the ledger shows both and still sums to the settled netAmount
+  const originalNetAmount = transaction.netAmount.toNumber()
+  await creditSale(tx, transaction)
+
+  const refundDebit = roundToCents(originalNetAmount - settlement.netAmount)
+  if (refundDebit > 0) {
+    await debitRefund(tx, transaction, refundDebit)
+  }
+
+  await tx.dispute.update({
+    where: { id: decision.disputeId },
+    data: {
+      status: 'RESOLVED',
+      resolution: decision.resolution,
+      refundAmount: settlement.refundedAmount,
+      resolutionNote: decision.note,
+      resolvedById: decision.resolvedById,
+      resolvedAt: now,
+    },
+  })
+
+  return { transactionId: transaction.id, settlement }
+}
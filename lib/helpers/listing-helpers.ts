@@ -68,17 +68,22 @@ export const isNewListing = (createdAt: Date): boolean => {
   return diffInHours <= 24
 }
 
+// Sort options of getListings (see app/listings/actions.ts)
+type SortOption = 'relevance' | 'newest' | 'oldest' | 'price-low' | 'price-high' | 'most-viewed'
+
 /**
  * Parse sort option from URL parameter
- * Returns default "newest" if invalid
+ * Returns the fallback ("newest" unless given) if invalid
  */
-export const parseSortOption = (sortParam: string | undefined):
-  'newest' | 'oldest' | 'price-low' | 'price-high' | 'most-viewed' => {
-  const validSortOptions = ['newest', 'oldest', 'price-low', 'price-high', 'most-viewed']
+export const parseSortOption = (
+  sortParam: string | undefined,
+  fallback: SortOption = 'newest'
+): SortOption => {
+  const validSortOptions = ['relevance', 'newest', 'oldest', 'price-low', 'price-high', 'most-viewed']
   if (sortParam && validSortOptions.includes(sortParam)) {
-    return sortParam as 'newest' | 'oldest' | 'price-low' | 'price-high' | 'most-viewed'
+    return sortParam as SortOption
   }
-  return 'newest'
+  return fallback
 }
 
 /**
@@ -107,3 +112,25 @@ export const buildQueryString = (params: Record<string, string | number | undefi
   const queryString = searchParams.toString()
   return queryString ? `?${queryString}` : ''
 }
+
+/**
+ * Format the time left until a deadline (e.g., "1d 4h", "3h 12m", "45s")
+ * Returns "Expired" once the deadline has passed
+ */
+export const formatTimeRemaining = (deadline: Date, now: Date = new Date()): string => {
+  const diffInSeconds = Math.floor((deadline.getTime() - now.getTime()) / 1000)
+
+  if (diffInSeconds <= 0) {
+    return 'Expired'
+  }
+
+  const days = Math.floor(diffInSeconds / 86400)
+  const hours = Math.floor((diffInSeconds % 86400) / 3600)
+  const minutes = Math.floor((diffInSeconds % 3600) / 60)
+  const seconds = diffInSeconds % 60
+
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${minutes}m`
+  if (minutes > 0) return `${minutes}m ${seconds}s`
+  return `${seconds}s`
+}
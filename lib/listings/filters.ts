@@ -0,0 +1,70 @@
+/**
+ * Listing Filters
+ *
+ * The filters of the listings page as a Prisma where clause, shared by
+ * browsing (getListings) and saved search alerts so both match the same
+ * listings. The search query is matched with full-text search in raw SQL
+ * (see ./search), which applies the same filters through buildListingFilterSql.
+ * Keep the two builders in step.
+ */
+
+import { Prisma, type ListingCategory, type ListingCondition, type PricingType } from '@prisma/client'
+
+export interface ListingFilters {
+  category?: ListingCategory
+  condition?: ListingCondition
+  pricingType?: PricingType
+  minPrice?: number
+  maxPrice?: number
+  city?: string
+  province?: string
+  /** Full-text search over title and description (see ./search) */
+  query?: string
+}
+
+/**
+ * Build the where clause for listings matching the filters
+ * Does not restrict the status or match the query; callers add the status
+ * and search with ./search when there is a query
+ */
+export function buildListingWhere(filters: ListingFilters): Prisma.ListingWhereInput {
+  const { category, condition, pricingType, minPrice, maxPrice, city, province } = filters
+
+  const where: Prisma.ListingWhereInput = {
+    ...(category && { category }),
+    ...(condition && { condition }),
+    ...(pricingType && { pricingType }),
+    ...(city && { city: { equals: city, mode: 'insensitive' } }),
+    ...(province && { province: { equals: province, mode: 'insensitive' } }),
+  }
+
+  // Price range filter
+  if (minPrice !== undefined || maxPrice !== undefined) {
+    where.price = {
+      ...(minPrice !== undefined && { gte: new Prisma.Decimal(minPrice) }),
+      ...(maxPrice !== undefined && { lte: new Prisma.Decimal(maxPrice) }),
+    }
+  }
+
+  return where
+}
+
+/**
+ * The same filters as buildListingWhere, as SQL conditions on `"Listing" l`
+ * Used by full-text search so filters apply before matches are ranked and paged
+ */
+export function buildListingFilterSql(filters: ListingFilters): Prisma.Sql {
+  const { category, condition, pricingType, minPrice, maxPrice, city, province } = filters
+
+  const conditions: Prisma.Sql[] = [
+    ...(category ? [Prisma.sql`l.category = ${category}::"ListingCategory"`] : []),
+    ...(condition ? [Prisma.sql`l.condition = ${condition}::"ListingCondition"`] : []),
+    ...(pricingType ? [Prisma.sql`l."pricingType" = ${pricingType}::"PricingType"`] : []),
+    ...(city ? [Prisma.sql`LOWER(l.city) = LOWER(${city})`] : []),
+    ...(province ? [Prisma.sql`LOWER(l.province) = LOWER(${province})`] : []),
+    ...(minPrice !== undefined ? [Prisma.sql`l.price >= ${new Prisma.Decimal(minPrice)}`] : []),
+    ...(maxPrice !== undefined ? [Prisma.sql`l.price <= ${new Prisma.Decimal(maxPrice)}`] : []),
+  ]
+
+  return conditions.length > 0 ? Prisma.sql`AND ${Prisma.join(conditions, ' AND ')}` : Prisma.empty
+}
@@ -0,0 +1,65 @@
+/**
+ * Listings Page Search Params
+ *
+ * Links to the listings page for a set of filters, using the same query
+ * parameters the page and its filter panel read, and short descriptions of
+ * the filters for saved searches.
+ */
+
+import {
+  PRICING_TYPE_LABELS,
+  formatZAR,
+  getCategoryConfig,
+  getConditionConfig,
+} from '@/lib/constants/categories'
+import type { ListingFilters } from './filters'
+
+/**
+ * Query string for the listings page, without the leading "?"
+ */
+export function toListingsSearchParams(filters: ListingFilters): string {
+  const params = new URLSearchParams()
+  if (filters.query) params.set('q', filters.query)
+  if (filters.category) params.set('category', filters.category)
+  if (filters.condition) params.set('condition', filters.condition)
+  if (filters.pricingType) params.set('pricingType', filters.pricingType)
+  if (filters.minPrice !== undefined) params.set('minPrice', filters.minPrice.toString())
+  if (filters.maxPrice !== undefined) params.set('maxPrice', filters.maxPrice.toString())
+  if (filters.province) params.set('province', filters.province)
+
+  return params.toString()
+}
+
+/**
+ * Listings page URL showing the filters
+ */
+export function toListingsUrl(filters: ListingFilters): string {
+  const search = toListingsSearchParams(filters)
+  return search ? `/listings?${search}` : '/listings'
+}
+
+/**
+ * One short label per filter, e.g. ['"road bike"', 'Sports', 'R 1,000 – R 5,000']
+ */
+export function describeListingFilters(filters: ListingFilters): string[] {
+  const { minPrice, maxPrice } = filters
+  const labels: string[] = []
+
+  if (filters.query) labels.push(`"${filters.query}"`)
+  if (filters.category) labels.push(getCategoryConfig(filters.category)?.label ?? filters.category)
+  if (filters.condition) labels.push(getConditionConfig(filters.condition)?.label ?? filters.condition)
+  if (filters.pricingType) labels.push(PRICING_TYPE_LABELS[filters.pricingType])
+
+  if (minPrice !== undefined && maxPrice !== undefined) {
+    labels.push(`${formatZAR(minPrice)} – ${formatZAR(maxPrice)}`)
+  } else if (minPrice !== undefined) {
+    labels.push(`From ${formatZAR(minPrice)}`)
+  } else if (maxPrice !== undefined) {
+    labels.push(`Up to ${formatZAR(maxPrice)}`)
+  }
+
+  if (filters.province) labels.push(filters.province)
+  if (filters.city) labels.push(filters.city)
+
+  return labels
+}
@@ -0,0 +1,131 @@
+/**
+ * Listing Search
+ *
+ * Full-text search over the Listing "searchVector" column, which Postgres
+ * generates from the title (weight A) and description (weight B) and which
+ * has a GIN index. Every word typed is matched as a prefix, so "mount bik"
+ * finds "Mountain bike", and matches are ranked with ts_rank.
+ *
+ * Prisma cannot query a tsvector, so the search runs in raw SQL with the
+ * listing filters (see ./filters), the sort and the cursor applied in the
+ * same query. It returns one page of listing IDs; callers load the rows.
+ */
+
+import { ListingStatus, Prisma } from '@prisma/client'
+import { buildListingFilterSql, type ListingFilters } from './filters'
+
+// Words of a query used; the rest are ignored
+const MAX_SEARCH_TERMS = 8
+
+// Same orders as getListings without a query; the ID keeps pages stable
+const SEARCH_ORDER_BY = {
+  relevance: Prisma.sql`ts_rank(l."searchVector", q.query) DESC, l."createdAt" DESC, l.id`,
+  newest: Prisma.sql`l."createdAt" DESC, l.id`,
+  oldest: Prisma.sql`l."createdAt" ASC, l.id`,
+  'price-low': Prisma.sql`l.price ASC, l.id`,
+  'price-high': Prisma.sql`l.price DESC, l.id`,
+  'most-viewed': Prisma.sql`l.views DESC, l.id`,
+} as const
+
+export type SearchSort = keyof typeof SEARCH_ORDER_BY
+
+export interface SearchMatch {
+  id: string
+  rank: number
+}
+
+export interface SearchPage {
+  /** Matches on the page, in the requested order */
+  matches: SearchMatch[]
+  /** Matches across all pages */
+  totalCount: number
+}
+
+/**
+ * Order for a sort option; anything else (it may come straight from a client)
+ * falls back to relevance, as getListings falls back to newest without a query
+ */
+function getSearchOrderBy(sortBy: string): Prisma.Sql {
+  return Object.hasOwn(SEARCH_ORDER_BY, sortBy)
+    ? SEARCH_ORDER_BY[sortBy as SearchSort]
+    : SEARCH_ORDER_BY.relevance
+}
+
+/**
+ * Turn what the user typed into a prefix tsquery, e.g. "Mountain bik" → "mountain:* & bik:*"
+ *
+ * @returns null when the query has no letters or digits to search for
+ */
+export function toSearchTsQuery(query: string): string | null {
+  // Letters and digits only, so nothing typed can break the tsquery syntax
+  const terms = query.toLowerCase().match(/[\p{L}\p{N}]+/gu)?.slice(0, MAX_SEARCH_TERMS)
+  if (!terms || terms.length === 0) return null
+
+  return terms.map((term) => `${term}:*`).join(' & ')
+}
+
+/**
+ * Find a page of approved listings matching a search query and the filters
+ *
+ * Filters, sort and cursor are applied in the database before the page is
+ * cut, so no match is left out. An unknown cursor gives an empty page.
+ *
+ * @param options.sortBy - Order of the matches (default and fallback: best-ranked first)
+ * @param options.cursor - ID of the last listing on the previous page
+ * @param options.limit - Page size
+ * @param options.approvedAfter - Only listings approved after this time
+ * @param options.approvedUntil - Only listings approved at or before this time
+ * @param options.excludeSellerId - Leave out this seller's listings
+ * @returns null when the query has nothing to search for, so callers skip the text filter
+ */
+export async function findSearchMatches(
+  db: Prisma.TransactionClient,
+  query: string,
+  filters: ListingFilters,
+  options: {
+    sortBy?: SearchSort
+    cursor?: string
+    limit?: number
+    approvedAfter?: Date
+    approvedUntil?: Date
+    excludeSellerId?: string
+  } = {}
+): Promise<SearchPage | null> {
+  const tsQuery = toSearchTsQuery(query)
+  if (!tsQuery) return null
+
+  const { sortBy = 'relevance', cursor, limit = 20, approvedAfter, approvedUntil, excludeSellerId } = options
+
+  // Every match is numbered in the requested order; the page is the rows
+  // after the cursor's number (none when the cursor isn't a match)
+  const rows = await db.$queryRaw<{ id: string | null; rank: number | null; total: number }[]>`
+    WITH matches AS (
+      SELECT
+        l.id,
+        ts_rank(l."searchVector", q.query) AS rank,
+        ROW_NUMBER() OVER (ORDER BY ${getSearchOrderBy(sortBy)}) AS position
+      FROM "Listing" l, to_tsquery('english', ${tsQuery}) AS q(query)
+      WHERE l.status = ${ListingStatus.APPROVED}::"ListingStatus"
+        AND l."searchVector" @@ q.query
+        ${buildListingFilterSql(filters)}
+        ${approvedAfter ? Prisma.sql`AND l."approvedAt" > ${approvedAfter}` : Prisma.empty}
+        ${approvedUntil ? Prisma.sql`AND l."approvedAt" <= ${approvedUntil}` : Prisma.empty}
+        ${excludeSellerId ? Prisma.sql`AND l."sellerId" <> ${excludeSellerId}` : Prisma.empty}
+    ),
+    page AS (
+      SELECT id, rank, position FROM matches
+      ${cursor ? Prisma.sql`WHERE position > (SELECT position FROM matches WHERE id = ${cursor})` : Prisma.empty}
+      ORDER BY position
+      LIMIT ${Math.max(limit, 1)}
+    )
+    SELECT page.id, page.rank, totals.total
+    FROM (SELECT COUNT(*)::int AS total FROM matches) totals
+    LEFT JOIN page ON true
+    ORDER BY page.position
+  `
+
+  return {
+    matches: rows.flatMap(({ id, rank }) => (id === null ? [] : [{ id, rank: rank ?? 0 }])),
+    totalCount: rows[0]?.total ?? 0,
+  }
+}
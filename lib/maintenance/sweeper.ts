@@ -0,0 +1,202 @@
+/**
+ * Maintenance Sweeper
+ *
+ * Periodic housekeeping for rows whose lifetime has passed:
+ * - Open offers past `expiresAt` move to EXPIRED
+ * - Checkouts still awaiting payment after PAYMENT_TIMEOUT_MS are cancelled
+ *   and their listings released
+ * - Held payments past `releaseAt` without a problem report are released to
+ *   the seller, who is notified once the pass commits
+ * - Expired email verification and password reset tokens are deleted
+ * - Digest entries sent more than DIGEST_RETENTION_MS ago are deleted
+ *
+ * Run from the cron route (app/api/cron/maintenance) or the CLI
+ * (scripts/run-maintenance.ts). A pass runs every task in one transaction
+ * holding a Postgres advisory lock, so overlapping runs skip instead of
+ * doing the same work twice. Each task is also idempotent on its own.
+ */
+
+import type { Prisma, PrismaClient } from '@prisma/client'
+import { prisma as defaultClient } from '@/lib/prisma'
+import { OPEN_OFFER_STATUSES } from '@/lib/offers/eligibility'
+import { releaseDueTransactions } from '@/lib/escrow/transitions'
+import { notifySalesCompleted } from '@/lib/escrow/notifications'
+import { cancelTransaction, PAYMENT_TIMEOUT_MS } from '@/lib/payments/transitions'
+import { DIGEST_RETENTION_MS } from '@/lib/notifications/digest'
+
+// Arbitrary constant identifying the sweeper's advisory lock
+const SWEEPER_LOCK_KEY = 7_041_001
+
+// A pass should finish well within this; the default 5s is tight for large backlogs
+const SWEEPER_TIMEOUT_MS = 60_000
+
+/**
+ * A unit of maintenance work. `run` returns the number of rows it changed.
+ * Work that must wait for the pass to commit, such as notifying users, is
+ * handed to `afterCommit`.
+ */
+export interface MaintenanceTask {
+  name: string
+  run: (
+    tx: Prisma.TransactionClient,
+    now: Date,
+    afterCommit: (callback: () => Promise<void>) => void
+  ) => Promise<number>
+}
+
+export interface MaintenanceSummary {
+  /** False when another pass held the lock and this one did nothing */
+  ran: boolean
+  startedAt: Date
+  durationMs: number
+  /** Rows changed per task name */
+  results: Record<string, number>
+}
+
+/**
+ * Tasks run on every pass, in order
+ */
+export const MAINTENANCE_TASKS: MaintenanceTask[] = [
+  {
+    name: 'expiredOffers',
+    run: async (tx, now) => {
+      const { count } = await tx.offer.updateMany({
+        where: {
+          status: { in: OPEN_OFFER_STATUSES },
+          expiresAt: { lte: now },
+        },
+        data: { status: 'EXPIRED' },
+      })
+      return count
+    },
+  },
+  {
+    name: 'abandonedPayments',
+    run: async (tx, now) => {
+      const abandoned = await tx.transaction.findMany({
+        where: {
+          status: 'PENDING',
+          createdAt: { lte: new Date(now.getTime() - PAYMENT_TIMEOUT_MS) },
+        },
+        select: { id: true },
+      })
+
+      let count = 0
+      for (const { id } of abandoned) {
+        if (await cancelTransaction(tx, id, now)) count++
+      }
+      return count
+    },
+  },
+  {
+    name: 'escrowAutoRelease',
+    run: async (tx, now, afterCommit) => {
+      const released = await releaseDueTransactions(tx, now)
+      afterCommit(() => notifySalesCompleted(released))
+      return released.length
+    },
+  },
+  {
+    name: 'expiredVerificationTokens',
+    run: async (tx, now) => {
+      const { count } = await tx.verificationToken.deleteMany({
+        where: { expiresAt: { lte: now } },
+      })
+      return count
+    },
+  },
+  {
+    name: 'expiredPasswordResetTokens',
+    run: async (tx, now) => {
+      const { count } = await tx.passwordResetToken.deleteMany({
+        where: { expiresAt: { lte: now } },
+      })
+      return count
+    },
+  },
+  {
+    name: 'sentDigestEntries',
+    run: async (tx, now) => {
+      const { count } = await tx.digestEntry.deleteMany({
+        where: { sentAt: { lte: new Date(now.getTime() - DIGEST_RETENTION_MS) } },
+      })
+      return count
+    },
+  },
+]
+
+/**
+ * Run one maintenance pass and log a summary
+ *
+ * @param options.now - Reference time for expiry checks (defaults to now)
+ * @param options.client - Prisma client (scripts pass their own)
+ * @param options.tasks - Tasks to run (defaults to MAINTENANCE_TASKS)
+ * @returns What the pass changed
+ */
+export async function runMaintenance(
+  options: {
+    now?: Date
+    client?: PrismaClient
+    tasks?: MaintenanceTask[]
+  } = {}
+): Promise<MaintenanceSummary> {
+  const { now = new Date(), client = defaultClient, tasks = MAINTENANCE_TASKS } = options
+  const startedAt = new Date()
+  const committed: (() => Promise<void>)[] = []
+
+  const results = await client.$transaction(
+    async (tx) => {
+      // Transaction-scoped lock: released on commit/rollback, safe with pooled connections
+      const [{ locked }] = await tx.$queryRaw<{ locked: boolean }[]>`
+        SELECT pg_try_advisory_xact_lock(${SWEEPER_LOCK_KEY}) AS locked
+      `
+
+      if (!locked) {
+        return null
+      }
+
+      const counts: Record<string, number> = {}
+      for (const task of tasks) {
+        counts[task.name] = await task.run(tx, now, (callback) => committed.push(callback))
+      }
+      return counts
+    },
+    { timeout: SWEEPER_TIMEOUT_MS }
+  )
+
+  // Only a committed pass has anything to follow up on
+  for (const callback of committed) {
+    try {
+      await callback()
+    } catch (error) {
+      console.error('Maintenance follow-up error:', error)
+    }
+  }
+
+  const summary: MaintenanceSummary = {
+    ran: results !== null,
+    startedAt,
+    durationMs: Date.now() - startedAt.getTime(),
+    results: results ?? {},
+  }
+
+  console.log(formatMaintenanceSummary(summary))
+
+  return summary
+}
+
+/**
+ * One-line log entry for a pass, e.g.
+ * `[maintenance] expiredOffers=3 expiredVerificationTokens=0 expiredPasswordResetTokens=1 (42ms)`
+ */
+export function formatMaintenanceSummary(summary: MaintenanceSummary): string {
+  if (!summary.ran) {
+    return '[maintenance] skipped: another pass is already running'
+  }
+
+  const counts = Object.entries(summary.results)
+    .map(([name, count]) => `${name}=${count}`)
+    .join(' ')
+
+  return `[maintenance] ${counts} (${summary.durationMs}ms)`
+}
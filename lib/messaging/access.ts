@@ -0,0 +1,43 @@
+/**
+ * Conversation Access
+ *
+ * A conversation is private to its buyer and seller. Admins may read a
+ * thread when investigating a report, but never post in it, and their visits
+ * do not mark messages as read. Held and blocked messages are only shown to
+ * their sender and to admins.
+ */
+
+import type { MessageStatus } from '@prisma/client'
+
+export type ConversationRole = 'BUYER' | 'SELLER' | 'ADMIN'
+
+/**
+ * How a user relates to a conversation, or null if they may not read it
+ */
+export function getConversationRole(
+  conversation: { buyerId: string; sellerId: string },
+  user: { id: string; role: string }
+): ConversationRole | null {
+  if (user.id === conversation.buyerId) return 'BUYER'
+  if (user.id === conversation.sellerId) return 'SELLER'
+  if (user.role === 'ADMIN') return 'ADMIN'
+  return null
+}
+
+/**
+ * Whether the role takes part in the conversation (can post and receive)
+ */
+export function isParticipant(role: ConversationRole | null): role is 'BUYER' | 'SELLER' {
+  return role === 'BUYER' || role === 'SELLER'
+}
+
+/**
+ * Whether a message is shown to a reader with the given role
+ */
+export function isMessageVisibleTo(
+  message: { senderId: string; status: MessageStatus },
+  readerId: string,
+  role: ConversationRole
+): boolean {
+  return role === 'ADMIN' || message.status === 'SENT' || message.senderId === readerId
+}
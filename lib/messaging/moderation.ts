@@ -0,0 +1,75 @@
+/**
+ * Message Moderation
+ *
+ * Messages the scam scan flagged wait in the admin queue until an admin acts:
+ *   RELEASE  HELD → SENT      deliver a held message
+ *   BLOCK    HELD → BLOCKED   never deliver it
+ *   DISMISS  SENT             a warned or masked message needs no action
+ *
+ * Every decision marks the message as reviewed, which takes it out of the queue.
+ */
+
+import type { AdminAction, MessageStatus, Prisma } from '@prisma/client'
+import type { MessageModerationAction } from '@/lib/constants/messages'
+
+// Audit log action recorded for each decision
+export const MESSAGE_MODERATION_AUDIT_ACTIONS: Record<MessageModerationAction, AdminAction> = {
+  RELEASE: 'RELEASE_MESSAGE',
+  BLOCK: 'BLOCK_MESSAGE',
+  DISMISS: 'DISMISS_MESSAGE_FLAGS',
+}
+
+// Status a message must have for each action, and the status it moves to
+const TRANSITIONS: Record<MessageModerationAction, { from: MessageStatus; to: MessageStatus }> = {
+  RELEASE: { from: 'HELD', to: 'SENT' },
+  BLOCK: { from: 'HELD', to: 'BLOCKED' },
+  DISMISS: { from: 'SENT', to: 'SENT' },
+}
+
+/**
+ * Apply a moderation decision to a flagged message
+ */
+export async function moderateMessage(
+  tx: Prisma.TransactionClient,
+  input: { messageId: string; action: MessageModerationAction; moderatorId: string },
+  now: Date
+): Promise<
+  { conversationId: string; status: MessageStatus; recipientId: string } | { error: string }
+> {
+  const { from, to } = TRANSITIONS[input.action]
+
+  // Conditional on the message still waiting, so two admins cannot both decide
+  const { count } = await tx.message.updateMany({
+    where: { id: input.messageId, status: from, scanAction: { not: 'NONE' }, reviewedAt: null },
+    data: { status: to, reviewedAt: now, reviewedById: input.moderatorId },
+  })
+
+  if (count === 0) {
+    return { error: 'This message has already been reviewed or the action does not apply to it' }
+  }
+
+  const message = await tx.message.findUniqueOrThrow({
+    where: { id: input.messageId },
+    select: {
+      conversationId: true,
+      senderId: true,
+      conversation: { select: { buyerId: true, sellerId: true } },
+    },
+  })
+
+  const { buyerId, sellerId } = message.conversation
+
+  // A released message surfaces the thread as if it had just been sent
+  if (input.action === 'RELEASE') {
+    await tx.conversation.update({
+      where: { id: message.conversationId },
+      data: { lastMessageAt: now },
+    })
+  }
+
+  return {
+    conversationId: message.conversationId,
+    status: to,
+    recipientId: message.senderId === buyerId ? sellerId : buyerId,
+  }
+}
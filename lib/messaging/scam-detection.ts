@@ -0,0 +1,222 @@
+/**
+ * Scam Detection
+ *
+ * Most second-hand scams start by moving the chat off the platform or asking
+ * for an EFT deposit. Every message is scanned for contact details, bank
+ * account numbers, payment links and known scam phrases before it is stored.
+ * The policy decides what each rule does:
+ *   NONE   ignore matches
+ *   WARN   deliver, with a warning shown to the recipient
+ *   MASK   deliver with the matched text replaced
+ *   HOLD   keep from the recipient until an admin releases it
+ *
+ * MESSAGE_SCAN_POLICY overrides the defaults, e.g. "PHONE=WARN,SCAM_PHRASE=HOLD".
+ */
+
+import type { MessageScanAction } from '@prisma/client'
+
+export const SCAN_RULE_IDS = ['PHONE', 'EMAIL', 'BANK_ACCOUNT', 'PAYMENT_LINK', 'SCAM_PHRASE'] as const
+
+export type ScanRuleId = (typeof SCAN_RULE_IDS)[number]
+
+export type MessageScanPolicy = Record<ScanRuleId, MessageScanAction>
+
+export interface ScanRule {
+  id: ScanRuleId
+  label: string
+  /** Replacement text when the rule's matches are masked */
+  mask: string
+  pattern: RegExp
+}
+
+export interface ScanMatch {
+  rule: ScanRuleId
+  start: number
+  end: number
+  text: string
+}
+
+export interface MessageScanResult {
+  /** The strictest action of the rules that matched */
+  action: MessageScanAction
+  /** Rules that matched and are not ignored by the policy */
+  rules: ScanRuleId[]
+  /** Body to store, with MASK matches replaced */
+  body: string
+}
+
+const PAYMENT_LINK_DOMAINS = [
+  'paypal\\.me',
+  'paypal\\.com',
+  'payf\\.st',
+  'yoco\\.com',
+  'snapscan\\.io',
+  'zapper\\.com',
+  'ozow\\.com',
+  'paystack\\.com',
+  'stripe\\.com',
+  'revolut\\.me',
+  'wise\\.com',
+  'cash\\.app',
+]
+
+const SCAM_PHRASES = [
+  'eft (?:deposit|payment|first)',
+  'pay (?:a|the) deposit',
+  'deposit (?:first|upfront|up front)',
+  'bank transfer',
+  'banking details',
+  'proof of payment',
+  'courier (?:fee|company)',
+  'delivery fee upfront',
+  'cash ?send',
+  'e-?wallet',
+  'instant money',
+  'western union',
+  'moneygram',
+  '(?:gift|google play|itunes) cards?',
+  'send (?:me )?(?:the|your) otp',
+  'whats ?app me',
+  '(?:chat|talk|contact me) on whats ?app',
+  'i am (?:overseas|abroad)',
+  "i'm (?:overseas|abroad)",
+  '(?:outside|off) (?:the|this) (?:app|platform|site)',
+]
+
+// Checked in this order; a match cannot overlap an earlier rule's match
+export const SCAN_RULES: ScanRule[] = [
+  {
+    id: 'EMAIL',
+    label: 'Email address',
+    mask: '[email hidden]',
+    pattern:
+      /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}|\b[\w.]+\s*(?:\(at\)|\[at\]|\sat\s)\s*(?:gmail|yahoo|outlook|hotmail|icloud|webmail)\s*(?:\.|\sdot\s)\s*(?:com|co\.za)\b/gi,
+  },
+  {
+    id: 'PAYMENT_LINK',
+    label: 'Payment link',
+    mask: '[link hidden]',
+    pattern: new RegExp(
+      `(?:https?:\\/\\/)?(?:[\\w-]+\\.)*(?:${PAYMENT_LINK_DOMAINS.join('|')})(?:\\/\\S*)?`,
+      'gi'
+    ),
+  },
+  {
+    id: 'PHONE',
+    label: 'Phone number',
+    mask: '[phone number hidden]',
+    // South African numbers (082 123 4567, +27 82 123 4567) and other international numbers
+    pattern: /(?<![\d+])(?:(?:\+|00)27[\s.-]?|0)[1-8]\d(?:[\s.-]?\d){7}(?!\d)|\+\d{1,3}(?:[\s.-]?\d){8,12}(?!\d)/g,
+  },
+  {
+    id: 'BANK_ACCOUNT',
+    label: 'Bank account number',
+    mask: '[account number hidden]',
+    pattern: /(?<!\d)\d(?:[\s-]?\d){8,12}(?!\d)/g,
+  },
+  {
+    id: 'SCAM_PHRASE',
+    label: 'Scam phrase',
+    mask: '[hidden]',
+    pattern: new RegExp(`\\b(?:${SCAM_PHRASES.join('|')})\\b`, 'gi'),
+  },
+]
+
+export const DEFAULT_MESSAGE_SCAN_POLICY: MessageScanPolicy = {
+  PHONE: 'MASK',
+  EMAIL: 'MASK',
+  BANK_ACCOUNT: 'HOLD',
+  PAYMENT_LINK: 'HOLD',
+  SCAM_PHRASE: 'WARN',
+}
+
+const ACTION_SEVERITY: Record<MessageScanAction, number> = {
+  NONE: 0,
+  WARN: 1,
+  MASK: 2,
+  HOLD: 3,
+}
+
+/**
+ * Look up a rule's label
+ */
+export function getScanRuleLabel(id: string): string {
+  return SCAN_RULES.find((rule) => rule.id === id)?.label ?? id
+}
+
+/**
+ * Policy for scanning messages
+ *
+ * @param value - Comma-separated RULE=ACTION overrides; unknown rules and
+ *   actions are ignored
+ */
+export function getMessageScanPolicy(
+  value: string | undefined = process.env.MESSAGE_SCAN_POLICY
+): MessageScanPolicy {
+  const policy = { ...DEFAULT_MESSAGE_SCAN_POLICY }
+
+  for (const entry of (value ?? '').split(',')) {
+    const [rule, action] = entry.split('=').map((part) => part.trim().toUpperCase())
+    if (
+      (SCAN_RULE_IDS as readonly string[]).includes(rule) &&
+      action !== undefined &&
+      action in ACTION_SEVERITY
+    ) {
+      policy[rule as ScanRuleId] = action as MessageScanAction
+    }
+  }
+
+  return policy
+}
+
+/**
+ * Find every rule match in a message, in order of position
+ */
+export function findScanMatches(body: string): ScanMatch[] {
+  const matches: ScanMatch[] = []
+
+  for (const rule of SCAN_RULES) {
+    for (const match of body.matchAll(rule.pattern)) {
+      const start = match.index
+      const end = start + match[0].length
+      const overlaps = matches.some((existing) => start < existing.end && end > existing.start)
+      if (!overlaps) {
+        matches.push({ rule: rule.id, start, end, text: match[0] })
+      }
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start)
+}
+
+/**
+ * Scan a message and apply the policy
+ */
+export function scanMessage(
+  body: string,
+  policy: MessageScanPolicy = DEFAULT_MESSAGE_SCAN_POLICY
+): MessageScanResult {
+  const matches = findScanMatches(body).filter((match) => policy[match.rule] !== 'NONE')
+
+  let action: MessageScanAction = 'NONE'
+  for (const match of matches) {
+    if (ACTION_SEVERITY[policy[match.rule]] > ACTION_SEVERITY[action]) {
+      action = policy[match.rule]
+    }
+  }
+
+  // Replace from the end so earlier offsets stay valid
+  let masked = body
+  for (const match of [...matches].reverse()) {
+    if (policy[match.rule] === 'MASK') {
+      const rule = SCAN_RULES.find((candidate) => candidate.id === match.rule)!
+      masked = masked.slice(0, match.start) + rule.mask + masked.slice(match.end)
+    }
+  }
+
+  return {
+    action,
+    rules: [...new Set(matches.map((match) => match.rule))],
+    body: masked,
+  }
+}
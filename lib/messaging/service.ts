@@ -0,0 +1,140 @@
+/**
+ * Messaging Service
+ *
+ * Threads are keyed by listing and buyer, so a buyer asking about the same
+ * listing twice lands in the same conversation. Every message is scanned
+ * for scam patterns before it is stored (see ./scam-detection). Each
+ * function runs inside the caller's interactive transaction.
+ */
+
+import type { Message, Prisma } from '@prisma/client'
+import { getMessageScanPolicy, scanMessage, type MessageScanPolicy } from './scam-detection'
+
+// Listings buyers can still ask about
+const CONTACTABLE_LISTING_STATUSES = ['APPROVED', 'PAUSED', 'SOLD'] as const
+
+/**
+ * Scan and store a message; held messages do not bump the conversation
+ */
+async function createScannedMessage(
+  tx: Prisma.TransactionClient,
+  input: { conversationId: string; senderId: string; body: string },
+  now: Date,
+  policy: MessageScanPolicy
+): Promise<Message> {
+  const scan = scanMessage(input.body, policy)
+
+  const message = await tx.message.create({
+    data: {
+      conversationId: input.conversationId,
+      senderId: input.senderId,
+      body: scan.body,
+      createdAt: now,
+      status: scan.action === 'HOLD' ? 'HELD' : 'SENT',
+      scanAction: scan.action,
+      scanRules: scan.rules,
+      originalBody: scan.body === input.body ? null : input.body,
+    },
+  })
+
+  if (message.status === 'SENT') {
+    await tx.conversation.update({
+      where: { id: input.conversationId },
+      data: { lastMessageAt: now },
+    })
+  }
+
+  return message
+}
+
+/**
+ * Start a conversation about a listing, or continue the buyer's existing one
+ */
+export async function startConversation(
+  tx: Prisma.TransactionClient,
+  input: { listingId: string; buyerId: string; body: string },
+  now: Date,
+  policy: MessageScanPolicy = getMessageScanPolicy()
+): Promise<{ conversationId: string; message: Message; recipientId: string } | { error: string }> {
+  const listing = await tx.listing.findUnique({
+    where: { id: input.listingId },
+    select: { sellerId: true, status: true },
+  })
+
+  if (!listing || !(CONTACTABLE_LISTING_STATUSES as readonly string[]).includes(listing.status)) {
+    return { error: 'Listing not found' }
+  }
+
+  if (listing.sellerId === input.buyerId) {
+    return { error: 'You cannot message yourself about your own listing' }
+  }
+
+  const conversation = await tx.conversation.upsert({
+    where: { listingId_buyerId: { listingId: input.listingId, buyerId: input.buyerId } },
+    create: {
+      listingId: input.listingId,
+      buyerId: input.buyerId,
+      sellerId: listing.sellerId,
+      lastMessageAt: now,
+    },
+    update: {},
+    select: { id: true },
+  })
+
+  const message = await createScannedMessage(
+    tx,
+    { conversationId: conversation.id, senderId: input.buyerId, body: input.body },
+    now,
+    policy
+  )
+
+  return { conversationId: conversation.id, message, recipientId: listing.sellerId }
+}
+
+/**
+ * Post a message in a conversation the sender takes part in
+ */
+export async function sendMessage(
+  tx: Prisma.TransactionClient,
+  input: { conversationId: string; senderId: string; body: string },
+  now: Date,
+  policy: MessageScanPolicy = getMessageScanPolicy()
+): Promise<{ message: Message; recipientId: string } | { error: string }> {
+  const conversation = await tx.conversation.findFirst({
+    where: {
+      id: input.conversationId,
+      OR: [{ buyerId: input.senderId }, { sellerId: input.senderId }],
+    },
+    select: { id: true, buyerId: true, sellerId: true },
+  })
+
+  if (!conversation) {
+    return { error: 'Conversation not found' }
+  }
+
+  const message = await createScannedMessage(tx, input, now, policy)
+
+  return {
+    message,
+    recipientId: conversation.buyerId === input.senderId ? conversation.sellerId : conversation.buyerId,
+  }
+}
+
+/**
+ * Mark the other participant's delivered messages as read by the reader
+ *
+ * @returns Number of messages marked as read
+ */
+export async function markConversationRead(
+  tx: Prisma.TransactionClient,
+  conversationId: string,
+  readerId: string,
+  now: Date
+): Promise<number> {
+  const { count } = await tx.message.updateMany({
+    where: { conversationId, senderId: { not: readerId }, status: 'SENT', readAt: null },
+    data: { readAt: now },
+  })
+
+  return count
+}
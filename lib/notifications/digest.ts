@@ -0,0 +1,143 @@
+/**
+ * Notification Digest
+ *
+ * Users who turn the daily digest on get low-priority notifications queued
+ * as DigestEntry rows (see notify in ./service) instead of one email each.
+ * The digest job sends every user with unsent entries a single email
+ * listing them.
+ *
+ * Run from the cron route (app/api/cron/digest) or the CLI
+ * (scripts/send-digests.ts). Entries are claimed by setting sentAt before
+ * the email goes out and released if sending fails, so overlapping runs
+ * never email an entry twice and a failed email is retried on the next run.
+ */
+
+import type { NotificationType, Prisma, PrismaClient } from '@prisma/client'
+import { prisma as defaultClient } from '@/lib/prisma'
+import { sendTemplateEmail, type TemplateEmail } from '@/lib/email'
+import { renderNotification, type NotificationPayloads } from './kinds'
+import { getNotificationSettings } from './preferences'
+import { getAppUrl } from './email'
+import { getUnsubscribeLinks } from './unsubscribe'
+
+// Sent entries are kept this long, then purged by the maintenance sweeper
+export const DIGEST_RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+
+export interface DigestSummary {
+  /** Users emailed a digest */
+  sent: number
+  /** Entries included in those digests */
+  entries: number
+  /** Users whose digest failed and will be retried */
+  failed: number
+  durationMs: number
+}
+
+/**
+ * Queue a notification for the user's next digest
+ */
+export async function queueDigestEntry<T extends NotificationType>(
+  db: Prisma.TransactionClient,
+  userId: string,
+  type: T,
+  payload: NotificationPayloads[T]
+) {
+  return await db.digestEntry.create({
+    data: { userId, type, payload: payload as Prisma.InputJsonObject },
+  })
+}
+
+/**
+ * Build the digest email for a user's entries, oldest first
+ *
+ * @param name - Recipient's name for the greeting
+ */
+export function buildDigestEmail(
+  entries: { type: NotificationType; payload: unknown }[],
+  name: string,
+  appUrl = getAppUrl()
+): TemplateEmail {
+  return {
+    template: 'notification-digest',
+    data: {
+      name,
+      items: entries.map((entry) => {
+        const { title, body, href } = renderNotification(entry)
+        return { title, body, url: `${appUrl}${href}` }
+      }),
+      url: `${appUrl}/account/settings`,
+    },
+  }
+}
+
+/**
+ * Email every user their unsent digest entries
+ *
+ * @param options.now - Entries created up to this time are included (defaults to now)
+ * @param options.client - Prisma client (scripts pass their own)
+ */
+export async function sendDigests(
+  options: { now?: Date; client?: PrismaClient } = {}
+): Promise<DigestSummary> {
+  const { now = new Date(), client = defaultClient } = options
+  const startedAt = Date.now()
+  const appUrl = getAppUrl()
+  const summary: DigestSummary = { sent: 0, entries: 0, failed: 0, durationMs: 0 }
+
+  const pending = await client.digestEntry.findMany({
+    where: { sentAt: null, createdAt: { lte: now } },
+    distinct: ['userId'],
+    select: { userId: true },
+  })
+
+  for (const { userId } of pending) {
+    // Claim first so an overlapping run cannot pick the same entries
+    const claimed = await client.digestEntry.updateMany({
+      where: { userId, sentAt: null, createdAt: { lte: now } },
+      data: { sentAt: now },
+    })
+    if (claimed.count === 0) continue
+
+    const entries = await client.digestEntry.findMany({
+      where: { userId, sentAt: now },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    try {
+      const [user, settings] = await Promise.all([
+        client.user.findUnique({ where: { id: userId }, select: { email: true, name: true } }),
+        getNotificationSettings(client, userId),
+      ])
+
+      // Kinds switched off since they were queued are dropped
+      const wanted = entries.filter((entry) => settings.channels[entry.type].EMAIL)
+      if (!user || wanted.length === 0) continue
+
+      await sendTemplateEmail(user.email, buildDigestEmail(wanted, user.name, appUrl), {
+        unsubscribe: getUnsubscribeLinks(userId, 'DIGEST', appUrl),
+      })
+
+      summary.sent++
+      summary.entries += wanted.length
+    } catch (error) {
+      console.error('Digest email error:', error)
+      await client.digestEntry.updateMany({
+        where: { id: { in: entries.map((entry) => entry.id) } },
+        data: { sentAt: null },
+      })
+      summary.failed++
+    }
+  }
+
+  summary.durationMs = Date.now() - startedAt
+  console.log(formatDigestSummary(summary))
+
+  return summary
+}
+
+/**
+ * One-line log entry for a run, e.g. `[digest] sent=12 entries=31 failed=0 (840ms)`
+ */
+export function formatDigestSummary(summary: DigestSummary): string {
+  return `[digest] sent=${summary.sent} entries=${summary.entries} failed=${summary.failed} (${summary.durationMs}ms)`
+}
@@ -0,0 +1,137 @@
+/**
+ * Notification Emails
+ *
+ * The email sent alongside each kind of notification. Links point at the
+ * same page the in-app notification opens, and each email carries a signed
+ * link that unsubscribes from its kind.
+ */
+
+import type { NotificationType } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { sendTemplateEmail, type TemplateEmail } from '@/lib/email'
+import { renderNotification, type NotificationPayloads } from './kinds'
+import { getUnsubscribeLinks } from './unsubscribe'
+
+/**
+ * A notification kind together with its payload
+ */
+export type NotificationInput = {
+  [K in NotificationType]: { type: K; payload: NotificationPayloads[K] }
+}[NotificationType]
+
+export const getAppUrl = () => process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+
+/**
+ * Build the email for a notification
+ *
+ * @param name - Recipient's name for the greeting
+ */
+export function getNotificationEmail(notification: NotificationInput, name: string, appUrl = getAppUrl()): TemplateEmail {
+  const url = `${appUrl}${renderNotification(notification).href}`
+
+  switch (notification.type) {
+    case 'LISTING_APPROVED':
+      return { template: 'listing-approved', data: { name, title: notification.payload.title, url } }
+    case 'LISTING_REJECTED':
+      return {
+        template: 'listing-rejected',
+        data: { name, title: notification.payload.title, reason: notification.payload.reason, url },
+      }
+    case 'OFFER_RECEIVED':
+      return {
+        template: 'offer-received',
+        data: { name, title: notification.payload.title, amount: notification.payload.amount, url },
+      }
+    case 'OFFER_COUNTERED':
+      return {
+        template: 'offer-answered',
+        data: {
+          name,
+          title: notification.payload.title,
+          outcome: 'COUNTERED',
+          amount: notification.payload.amount,
+          url,
+        },
+      }
+    case 'OFFER_ACCEPTED':
+    case 'OFFER_REJECTED':
+      return {
+        template: 'offer-answered',
+        data: {
+          name,
+          title: notification.payload.title,
+          outcome: notification.type === 'OFFER_ACCEPTED' ? 'ACCEPTED' : 'REJECTED',
+          url,
+        },
+      }
+    case 'MESSAGE_RECEIVED':
+      return {
+        template: 'new-message',
+        data: {
+          name,
+          senderName: notification.payload.senderName,
+          preview: notification.payload.preview,
+          url,
+        },
+      }
+    case 'SALE_COMPLETED':
+      return {
+        template: 'sale-completed',
+        data: { name, title: notification.payload.title, amount: notification.payload.amount, url },
+      }
+    case 'SAVED_SEARCH_MATCH':
+      return {
+        template: 'saved-search-match',
+        data: {
+          name,
+          searchName: notification.payload.name,
+          count: notification.payload.count,
+          title: notification.payload.title,
+          url,
+        },
+      }
+    case 'WATCHED_PRICE_DROP':
+      return {
+        template: 'watched-price-drop',
+        data: {
+          name,
+          title: notification.payload.title,
+          oldPrice: notification.payload.oldPrice,
+          newPrice: notification.payload.newPrice,
+          url,
+        },
+      }
+    case 'WATCHED_LISTING_SOLD':
+    case 'WATCHED_LISTING_PAUSED':
+      return {
+        template: 'watched-listing-unavailable',
+        data: {
+          name,
+          title: notification.payload.title,
+          outcome: notification.type === 'WATCHED_LISTING_SOLD' ? 'SOLD' : 'PAUSED',
+          url,
+        },
+      }
+  }
+}
+
+/**
+ * Email a notification to the user
+ * Failures are logged, never thrown
+ */
+export async function sendNotificationEmail(userId: string, notification: NotificationInput): Promise<void> {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, name: true },
+    })
+    if (!user) return
+
+    const appUrl = getAppUrl()
+    await sendTemplateEmail(user.email, getNotificationEmail(notification, user.name, appUrl), {
+      unsubscribe: getUnsubscribeLinks(userId, notification.type, appUrl),
+    })
+  } catch (error) {
+    console.error('Notification email error:', error)
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Notification Kinds
+ *
+ * Registry of every in-app notification: the payload stored with it and how
+ * it is shown. Adding a kind means adding it to the NotificationType enum,
+ * NotificationPayloads and NOTIFICATION_KINDS; the compiler flags any of the
+ * three that is missing. Kept free of server imports for client components.
+ */
+
+import type { NotificationType, OfferParty } from '@prisma/client'
+import { formatZAR } from '@/lib/constants/categories'
+
+export type NotificationPayloads = {
+  LISTING_APPROVED: { listingId: string; title: string }
+  LISTING_REJECTED: { listingId: string; title: string; reason: string }
+  OFFER_RECEIVED: { offerId: string; listingId: string; title: string; amount: number }
+  /** party is the side being notified, which decides where the offer is shown */
+  OFFER_COUNTERED: { offerId: string; listingId: string; title: string; amount: number; party: OfferParty }
+  OFFER_ACCEPTED: { offerId: string; listingId: string; title: string; party: OfferParty }
+  OFFER_REJECTED: { offerId: string; listingId: string; title: string; party: OfferParty }
+  MESSAGE_RECEIVED: { conversationId: string; senderName: string; preview: string }
+  /** amount is the seller's earnings after commission */
+  SALE_COMPLETED: { transactionId: string; title: string; amount: number }
+  /** count new matches, title of the newest; search is the listings page query string */
+  SAVED_SEARCH_MATCH: { savedSearchId: string; name: string; count: number; title: string; search: string }
+  WATCHED_PRICE_DROP: { listingId: string; title: string; oldPrice: number; newPrice: number }
+  WATCHED_LISTING_SOLD: { listingId: string; title: string }
+  WATCHED_LISTING_PAUSED: { listingId: string; title: string }
+}
+
+export interface NotificationContent {
+  title: string
+  body: string
+  /** Page the notification opens */
+  href: string
+}
+
+export interface NotificationKind<P> {
+  /** Name of the kind, e.g. on settings pages */
+  label: string
+  /** Emailed in the daily digest instead of straight away when the user opts in */
+  lowPriority: boolean
+  render: (payload: P) => NotificationContent
+}
+
+// Longest message excerpt stored in a notification
+export const MESSAGE_PREVIEW_LENGTH = 120
+
+// Sellers answer offers from the dashboard; buyers follow theirs from purchases
+const offerHref = (party: OfferParty) =>
+  party === 'SELLER' ? '/dashboard/offers' : '/account/purchases'
+
+export const NOTIFICATION_KINDS: { [K in NotificationType]: NotificationKind<NotificationPayloads[K]> } = {
+  LISTING_APPROVED: {
+    label: 'Listing approved',
+    lowPriority: true,
+    render: ({ listingId, title }) => ({
+      title: 'Listing approved',
+      body: `"${title}" is now live`,
+      href: `/listings/${listingId}`,
+    }),
+  },
+  LISTING_REJECTED: {
+    label: 'Listing rejected',
+    lowPriority: true,
+    render: ({ listingId, title, reason }) => ({
+      title: 'Listing not approved',
+      body: `"${title}": ${reason}`,
+      href: `/listings/${listingId}/edit`,
+    }),
+  },
+  OFFER_RECEIVED: {
+    label: 'New offer',
+    lowPriority: false,
+    render: ({ title, amount }) => ({
+      title: 'New offer',
+      body: `${formatZAR(amount)} offered for "${title}"`,
+      href: offerHref('SELLER'),
+    }),
+  },
+  OFFER_COUNTERED: {
+    label: 'Counter-offer',
+    lowPriority: false,
+    render: ({ title, amount, party }) => ({
+      title: 'Counter-offer',
+      body: `${formatZAR(amount)} proposed for "${title}"`,
+      href: offerHref(party),
+    }),
+  },
+  OFFER_ACCEPTED: {
+    label: 'Offer accepted',
+    lowPriority: false,
+    render: ({ title, party }) => ({
+      title: 'Offer accepted',
+      body: `Your offer for "${title}" was accepted`,
+      href: offerHref(party),
+    }),
+  },
+  OFFER_REJECTED: {
+    label: 'Offer declined',
+    lowPriority: true,
+    render: ({ title, party }) => ({
+      title: 'Offer declined',
+      body: `Your offer for "${title}" was declined`,
+      href: offerHref(party),
+    }),
+  },
+  MESSAGE_RECEIVED: {
+    label: 'New message',
+    lowPriority: false,
+    render: ({ conversationId, senderName, preview }) => ({
+      title: `New message from ${senderName}`,
+      body: preview,
+      href: `/account/messages/${conversationId}`,
+    }),
+  },
+  SALE_COMPLETED: {
+    label: 'Sale completed',
+    lowPriority: true,
+    render: ({ title, amount }) => ({
+      title: 'Sale completed',
+      body: `${formatZAR(amount)} from "${title}" was added to your balance`,
+      href: '/dashboard/payouts',
+    }),
+  },
+  SAVED_SEARCH_MATCH: {
+    label: 'Saved search alert',
+    lowPriority: true,
+    render: ({ name, count, title, search }) => ({
+      title: `New matches for "${name}"`,
+      body: count === 1 ? `"${title}" was just listed` : `"${title}" and ${count - 1} more were just listed`,
+      href: search ? `/listings?${search}` : '/listings',
+    }),
+  },
+  WATCHED_PRICE_DROP: {
+    label: 'Watched item price drop',
+    lowPriority: false,
+    render: ({ listingId, title, oldPrice, newPrice }) => ({
+      title: 'Price drop',
+      body: `"${title}" dropped from ${formatZAR(oldPrice)} to ${formatZAR(newPrice)}`,
+      href: `/listings/${listingId}`,
+    }),
+  },
+  WATCHED_LISTING_SOLD: {
+    label: 'Watched item sold',
+    lowPriority: true,
+    render: ({ listingId, title }) => ({
+      title: 'Watched item sold',
+      body: `"${title}" has been sold`,
+      href: `/listings/${listingId}`,
+    }),
+  },
+  WATCHED_LISTING_PAUSED: {
+    label: 'Watched item paused',
+    lowPriority: true,
+    render: ({ listingId, title }) => ({
+      title: 'Watched item paused',
+      body: `"${title}" is no longer available for now`,
+      href: `/listings/${listingId}`,
+    }),
+  },
+}
+
+/**
+ * Render a stored notification
+ */
+export function renderNotification(notification: {
+  type: NotificationType
+  payload: unknown
+}): NotificationContent {
+  const kind = NOTIFICATION_KINDS[notification.type] as NotificationKind<unknown>
+  return kind.render(notification.payload)
+}
+
+/**
+ * Shorten a message for a notification preview
+ */
+export function toMessagePreview(body: string): string {
+  const text = body.replace(/\s+/g, ' ').trim()
+  return text.length > MESSAGE_PREVIEW_LENGTH
+    ? `${text.slice(0, MESSAGE_PREVIEW_LENGTH - 1).trimEnd()}…`
+    : text
+}
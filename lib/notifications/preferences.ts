@@ -0,0 +1,143 @@
+/**
+ * Notification Preferences
+ *
+ * Every kind can be switched off per channel (in-app, email). Rows are only
+ * stored once a user saves their settings, so a missing row means the
+ * channel is on. With the daily digest on, low-priority kinds are emailed
+ * together once a day (see ./digest) instead of one email each.
+ */
+
+import type { NotificationChannel, NotificationType, Prisma } from '@prisma/client'
+import { NOTIFICATION_KINDS } from './kinds'
+
+export const NOTIFICATION_TYPES = Object.keys(NOTIFICATION_KINDS) as NotificationType[]
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['IN_APP', 'EMAIL']
+
+/**
+ * Every channel of every kind, as shown on the settings page
+ */
+export type NotificationSettings = {
+  channels: Record<NotificationType, Record<NotificationChannel, boolean>>
+  emailDigest: boolean
+}
+
+/**
+ * How one notification reaches the user
+ */
+export type NotificationDelivery = {
+  inApp: boolean
+  /** null when the user does not want this kind by email */
+  email: 'IMMEDIATE' | 'DIGEST' | null
+}
+
+/**
+ * Which kinds an unsubscribe link switches off: one kind, or every kind in
+ * the daily digest
+ */
+export type UnsubscribeScope = NotificationType | 'DIGEST'
+
+/**
+ * Fill in stored preferences with the defaults
+ */
+export function resolveNotificationSettings(
+  preferences: { type: NotificationType; channel: NotificationChannel; enabled: boolean }[],
+  emailDigest: boolean
+): NotificationSettings {
+  const channels = Object.fromEntries(
+    NOTIFICATION_TYPES.map((type) => [type, { IN_APP: true, EMAIL: true }])
+  ) as NotificationSettings['channels']
+
+  for (const preference of preferences) {
+    channels[preference.type][preference.channel] = preference.enabled
+  }
+
+  return { channels, emailDigest }
+}
+
+/**
+ * Decide how a notification of this kind is delivered
+ */
+export function getNotificationDelivery(
+  settings: NotificationSettings,
+  type: NotificationType
+): NotificationDelivery {
+  const channels = settings.channels[type]
+
+  let email: NotificationDelivery['email'] = null
+  if (channels.EMAIL) {
+    email = settings.emailDigest && NOTIFICATION_KINDS[type].lowPriority ? 'DIGEST' : 'IMMEDIATE'
+  }
+
+  return { inApp: channels.IN_APP, email }
+}
+
+/**
+ * Load a user's settings; defaults when the user does not exist
+ */
+export async function getNotificationSettings(
+  db: Prisma.TransactionClient,
+  userId: string
+): Promise<NotificationSettings> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: {
+      emailDigest: true,
+      notificationPreferences: { select: { type: true, channel: true, enabled: true } },
+    },
+  })
+
+  return resolveNotificationSettings(user?.notificationPreferences ?? [], user?.emailDigest ?? false)
+}
+
+/**
+ * Store every channel of every kind and the digest choice
+ */
+export async function saveNotificationSettings(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  settings: NotificationSettings
+): Promise<void> {
+  for (const type of NOTIFICATION_TYPES) {
+    for (const channel of NOTIFICATION_CHANNELS) {
+      await setChannel(tx, userId, type, channel, settings.channels[type][channel])
+    }
+  }
+
+  await tx.user.update({
+    where: { id: userId },
+    data: { emailDigest: settings.emailDigest },
+  })
+}
+
+/**
+ * Switch off email for one kind or for every low-priority kind
+ */
+export async function unsubscribeFromEmails(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  scope: UnsubscribeScope
+): Promise<void> {
+  const types =
+    scope === 'DIGEST'
+      ? NOTIFICATION_TYPES.filter((type) => NOTIFICATION_KINDS[type].lowPriority)
+      : [scope]
+
+  for (const type of types) {
+    await setChannel(tx, userId, type, 'EMAIL', false)
+  }
+}
+
+async function setChannel(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  type: NotificationType,
+  channel: NotificationChannel,
+  enabled: boolean
+) {
+  await tx.notificationPreference.upsert({
+    where: { userId_type_channel: { userId, type, channel } },
+    create: { userId, type, channel, enabled },
+    update: { enabled },
+  })
+}
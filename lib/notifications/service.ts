@@ -0,0 +1,107 @@
+/**
+ * Notification Service
+ *
+ * Notifications are created after the change they describe has been
+ * committed, so a failure here is logged and never undoes the change.
+ * Each channel follows the user's preferences (see ./preferences): in-app
+ * notifications are pushed to open tabs over /api/events, and emails go out
+ * straight away (see ./email) or wait for the daily digest (see ./digest).
+ */
+
+import type { Notification, NotificationType, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { publishRealtimeEvent } from '@/lib/realtime/publisher'
+import { formatRelativeDate } from '@/lib/helpers/listing-helpers'
+import { renderNotification, type NotificationContent, type NotificationPayloads } from './kinds'
+import { sendNotificationEmail, type NotificationInput } from './email'
+import { queueDigestEntry } from './digest'
+import { getNotificationDelivery, getNotificationSettings } from './preferences'
+
+/**
+ * A notification rendered for the bell and the notifications page
+ */
+export type NotificationItem = NotificationContent & {
+  id: string
+  read: boolean
+  /** e.g. "2 hours ago" */
+  timeAgo: string
+}
+
+/**
+ * Store a notification
+ */
+export async function createNotification<T extends NotificationType>(
+  db: Prisma.TransactionClient,
+  userId: string,
+  type: T,
+  payload: NotificationPayloads[T]
+) {
+  return await db.notification.create({
+    data: { userId, type, payload: payload as Prisma.InputJsonObject },
+  })
+}
+
+/**
+ * Notify a user in the app and by email, as far as their preferences allow
+ */
+export async function notify<T extends NotificationType>(
+  userId: string,
+  type: T,
+  payload: NotificationPayloads[T]
+): Promise<void> {
+  try {
+    const delivery = getNotificationDelivery(await getNotificationSettings(prisma, userId), type)
+
+    if (delivery.inApp) {
+      const notification = await createNotification(prisma, userId, type, payload)
+      await publishRealtimeEvent([userId], 'notification.created', {
+        notificationId: notification.id,
+        type,
+      })
+    }
+
+    if (delivery.email === 'DIGEST') {
+      await queueDigestEntry(prisma, userId, type, payload)
+    } else if (delivery.email === 'IMMEDIATE') {
+      await sendNotificationEmail(userId, { type, payload } as NotificationInput)
+    }
+  } catch (error) {
+    console.error('Notification error:', error)
+  }
+}
+
+/**
+ * Mark a user's notifications as read
+ *
+ * @param notificationIds - Notifications to mark; all unread ones when omitted
+ * @returns Number of notifications marked as read
+ */
+export async function markNotificationsRead(
+  db: Prisma.TransactionClient,
+  userId: string,
+  now: Date,
+  notificationIds?: string[]
+): Promise<number> {
+  const { count } = await db.notification.updateMany({
+    where: {
+      userId,
+      readAt: null,
+      ...(notificationIds ? { id: { in: notificationIds } } : {}),
+    },
+    data: { readAt: now },
+  })
+
+  return count
+}
+
+/**
+ * Render a stored notification for display
+ */
+export function toNotificationItem(notification: Notification): NotificationItem {
+  return {
+    ...renderNotification(notification),
+    id: notification.id,
+    read: notification.readAt !== null,
+    timeAgo: formatRelativeDate(notification.createdAt),
+  }
+}
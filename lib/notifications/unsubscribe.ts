@@ -0,0 +1,108 @@
+/**
+ * Unsubscribe Tokens
+ *
+ * Notification emails carry a link that switches their kind off without
+ * signing in. The token names the user and the scope and is signed with
+ * AUTH_SECRET; it does not expire, since old emails should keep working.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import type { Prisma } from '@prisma/client'
+import { NOTIFICATION_TYPES, unsubscribeFromEmails, type UnsubscribeScope } from './preferences'
+
+// Keeps these signatures distinct from anything else signed with AUTH_SECRET
+const TOKEN_PURPOSE = 'unsubscribe'
+
+const getSecret = () => {
+  const secret = process.env.AUTH_SECRET
+  if (!secret) {
+    throw new Error('AUTH_SECRET is required to sign unsubscribe links')
+  }
+  return secret
+}
+
+const sign = (payload: string, secret: string) =>
+  createHmac('sha256', secret).update(`${TOKEN_PURPOSE}:${payload}`).digest('base64url')
+
+const isScope = (value: string): value is UnsubscribeScope =>
+  value === 'DIGEST' || (NOTIFICATION_TYPES as string[]).includes(value)
+
+/**
+ * Create a token for one user and scope
+ */
+export function createUnsubscribeToken(
+  userId: string,
+  scope: UnsubscribeScope,
+  secret = getSecret()
+): string {
+  const payload = Buffer.from(`${userId}:${scope}`).toString('base64url')
+  return `${payload}.${sign(payload, secret)}`
+}
+
+/**
+ * Check a token's signature and read it
+ *
+ * @returns null when the token is malformed or was not signed with the secret
+ */
+export function verifyUnsubscribeToken(
+  token: string,
+  secret = getSecret()
+): { userId: string; scope: UnsubscribeScope } | null {
+  const [payload, signature, ...rest] = token.split('.')
+  if (!payload || !signature || rest.length > 0) {
+    return null
+  }
+
+  const received = Buffer.from(signature)
+  const expected = Buffer.from(sign(payload, secret))
+  if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    return null
+  }
+
+  const [userId, scope] = Buffer.from(payload, 'base64url').toString().split(':')
+  if (!userId || !scope || !isScope(scope)) {
+    return null
+  }
+
+  return { userId, scope }
+}
+
+/**
+ * Links for an email: the page behind the footer link, and the endpoint mail
+ * clients POST to for one-click unsubscribe (RFC 8058)
+ */
+export function getUnsubscribeLinks(
+  userId: string,
+  scope: UnsubscribeScope,
+  appUrl: string
+): { url: string; oneClickUrl: string } {
+  const token = encodeURIComponent(createUnsubscribeToken(userId, scope))
+
+  return {
+    url: `${appUrl}/unsubscribe?token=${token}`,
+    oneClickUrl: `${appUrl}/api/unsubscribe?token=${token}`,
+  }
+}
+
+/**
+ * Switch off the emails a token names
+ *
+ * @returns The scope that was switched off, or null when the token is invalid
+ */
+export async function applyUnsubscribeToken(
+  tx: Prisma.TransactionClient,
+  token: string
+): Promise<UnsubscribeScope | null> {
+  const verified = verifyUnsubscribeToken(token)
+  if (!verified) {
+    return null
+  }
+
+  const user = await tx.user.findUnique({ where: { id: verified.userId }, select: { id: true } })
+  if (!user) {
+    return null
+  }
+
+  await unsubscribeFromEmails(tx, verified.userId, verified.scope)
+  return verified.scope
+}
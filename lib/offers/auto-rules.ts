@@ -0,0 +1,108 @@
+/**
+ * Automatic Offer Rules
+ *
+ * Optional per-listing thresholds that answer a new offer on the seller's
+ * behalf the moment it is made:
+ * - autoAcceptAt: accept offers at or above this amount
+ * - autoDeclineBelow: reject offers below this amount
+ * - autoCounterAt: counter anything else below this amount with it
+ *
+ * The resulting move is applied through respondToOffer like a manual
+ * response and flagged as automated in the negotiation history.
+ */
+
+import { formatZAR } from '@/lib/constants/categories'
+import type { OfferEligibility, OfferListingSnapshot } from './eligibility'
+import type { NegotiationResponse } from './negotiation'
+
+export interface OfferRules {
+  autoDeclineBelow: number | null
+  autoCounterAt: number | null
+  autoAcceptAt: number | null
+}
+
+/**
+ * Whether any rule is set
+ */
+export function hasOfferRules(rules: OfferRules): boolean {
+  return (
+    rules.autoDeclineBelow !== null || rules.autoCounterAt !== null || rules.autoAcceptAt !== null
+  )
+}
+
+/**
+ * Decide the automatic response to an offer, if any
+ *
+ * Accept takes precedence, then decline, then counter.
+ *
+ * @param rules - The listing's offer rules
+ * @param amount - Offer amount
+ * @returns The seller response to apply, or null to leave the offer for the seller
+ */
+export function evaluateOfferRules(rules: OfferRules, amount: number): NegotiationResponse | null {
+  if (rules.autoAcceptAt !== null && amount >= rules.autoAcceptAt) {
+    return { type: 'ACCEPT' }
+  }
+
+  if (rules.autoDeclineBelow !== null && amount < rules.autoDeclineBelow) {
+    return { type: 'REJECT' }
+  }
+
+  if (rules.autoCounterAt !== null && amount < rules.autoCounterAt) {
+    return { type: 'COUNTER', amount: rules.autoCounterAt }
+  }
+
+  return null
+}
+
+/**
+ * Check rules are consistent with each other and the listing's pricing:
+ * decline < counter < accept, the counter and accept amounts within the
+ * asking price, and thresholds above the minimum offer.
+ */
+export function checkOfferRules(
+  rules: OfferRules,
+  listing: Pick<OfferListingSnapshot, 'pricingType' | 'price' | 'minOffer'>
+): OfferEligibility {
+  if (listing.pricingType !== 'OFFERS' && hasOfferRules(rules)) {
+    return { eligible: false, error: 'Offer rules can only be set on listings accepting offers' }
+  }
+
+  const { autoDeclineBelow, autoCounterAt, autoAcceptAt } = rules
+
+  if (listing.price !== null) {
+    if (autoAcceptAt !== null && autoAcceptAt > listing.price) {
+      return {
+        eligible: false,
+        error: `Auto-accept amount cannot exceed the asking price of ${formatZAR(listing.price)}`,
+      }
+    }
+    if (autoCounterAt !== null && autoCounterAt > listing.price) {
+      return {
+        eligible: false,
+        error: `Auto-counter amount cannot exceed the asking price of ${formatZAR(listing.price)}`,
+      }
+    }
+  }
+
+  if (listing.minOffer !== null && autoDeclineBelow !== null && autoDeclineBelow <= listing.minOffer) {
+    return {
+      eligible: false,
+      error: `Auto-decline threshold must be above the minimum offer of ${formatZAR(listing.minOffer)}`,
+    }
+  }
+
+  if (autoDeclineBelow !== null && autoCounterAt !== null && autoCounterAt <= autoDeclineBelow) {
+    return { eligible: false, error: 'Auto-counter amount must be above the auto-decline threshold' }
+  }
+
+  if (autoDeclineBelow !== null && autoAcceptAt !== null && autoAcceptAt <= autoDeclineBelow) {
+    return { eligible: false, error: 'Auto-accept amount must be above the auto-decline threshold' }
+  }
+
+  if (autoCounterAt !== null && autoAcceptAt !== null && autoCounterAt >= autoAcceptAt) {
+    return { eligible: false, error: 'Auto-counter amount must be below the auto-accept amount' }
+  }
+
+  return { eligible: true }
+}
@@ -0,0 +1,178 @@
+/**
+ * Offer Eligibility Rules
+ *
+ * Pure checks deciding whether a buyer may place an offer on a listing.
+ * Used by the make-offer server action and mirrored by the offer dialog
+ * so buyers see the same messages before and after submitting.
+ */
+
+import type { ListingStatus, OfferStatus, PricingType } from '@prisma/client'
+import { formatZAR } from '@/lib/constants/categories'
+
+/**
+ * Offer statuses that still await a response from one of the parties
+ */
+export const OPEN_OFFER_STATUSES: OfferStatus[] = ['PENDING', 'COUNTERED']
+
+/**
+ * How long an offer stays open before it expires
+ */
+export const OFFER_EXPIRY_HOURS = 48
+
+/**
+ * Listing fields needed to judge an offer
+ */
+export interface OfferListingSnapshot {
+  sellerId: string
+  status: ListingStatus
+  pricingType: PricingType
+  price: number | null
+  minOffer: number | null
+  /** Whether the seller has already accepted an offer on this listing */
+  hasAcceptedOffer?: boolean
+}
+
+export type OfferEligibility =
+  | { eligible: true }
+  | { eligible: false; error: string }
+
+/**
+ * Checks whether a listing accepts offers from the given buyer at all,
+ * independent of the amount
+ *
+ * @param listing - Listing being offered on
+ * @param buyerId - ID of the user making the offer
+ * @param hasOpenOffer - Whether the buyer already has an open offer on this listing
+ */
+export function checkCanMakeOffer(
+  listing: OfferListingSnapshot,
+  buyerId: string,
+  hasOpenOffer: boolean
+): OfferEligibility {
+  if (listing.sellerId === buyerId) {
+    return { eligible: false, error: 'You cannot make an offer on your own listing' }
+  }
+
+  if (listing.status !== 'APPROVED') {
+    return { eligible: false, error: 'This listing is no longer accepting offers' }
+  }
+
+  if (listing.pricingType !== 'OFFERS') {
+    return {
+      eligible: false,
+      error: 'This listing has a fixed price and does not accept offers',
+    }
+  }
+
+  if (listing.hasAcceptedOffer) {
+    return {
+      eligible: false,
+      error: 'The seller has already accepted another offer on this listing',
+    }
+  }
+
+  if (hasOpenOffer) {
+    return {
+      eligible: false,
+      error: 'You already have an open offer on this listing',
+    }
+  }
+
+  return { eligible: true }
+}
+
+/**
+ * Validates an offer amount against the listing's minimum offer and asking price
+ *
+ * @param listing - Listing being offered on
+ * @param amount - Offer amount in ZAR
+ */
+export function checkOfferAmount(
+  listing: Pick<OfferListingSnapshot, 'price' | 'minOffer'>,
+  amount: number
+): OfferEligibility {
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return { eligible: false, error: 'Offer must be greater than 0' }
+  }
+
+  if (listing.minOffer !== null && amount < listing.minOffer) {
+    return {
+      eligible: false,
+      error: `Offer must be at least ${formatZAR(listing.minOffer)}`,
+    }
+  }
+
+  if (listing.price !== null && amount > listing.price) {
+    return {
+      eligible: false,
+      error: `Offer cannot exceed the asking price of ${formatZAR(listing.price)}`,
+    }
+  }
+
+  return { eligible: true }
+}
+
+/**
+ * Runs all offer checks in order, returning the first failure
+ */
+export function checkOfferEligibility(
+  listing: OfferListingSnapshot,
+  buyerId: string,
+  amount: number,
+  hasOpenOffer: boolean
+): OfferEligibility {
+  const canOffer = checkCanMakeOffer(listing, buyerId, hasOpenOffer)
+  if (!canOffer.eligible) {
+    return canOffer
+  }
+
+  return checkOfferAmount(listing, amount)
+}
+
+/**
+ * Validates a seller's counter-offer against the buyer's offer and the asking price
+ *
+ * @param offerAmount - Amount the buyer offered
+ * @param listing - Listing the offer was made on
+ * @param counterAmount - Amount the seller proposes instead
+ */
+export function checkCounterAmount(
+  offerAmount: number,
+  listing: Pick<OfferListingSnapshot, 'price'>,
+  counterAmount: number
+): OfferEligibility {
+  if (!Number.isFinite(counterAmount) || counterAmount <= 0) {
+    return { eligible: false, error: 'Counter-offer must be greater than 0' }
+  }
+
+  if (counterAmount <= offerAmount) {
+    return {
+      eligible: false,
+      error: `Counter-offer must be higher than the buyer's offer of ${formatZAR(offerAmount)}. Accept the offer instead.`,
+    }
+  }
+
+  if (listing.price !== null && counterAmount > listing.price) {
+    return {
+      eligible: false,
+      error: `Counter-offer cannot exceed your asking price of ${formatZAR(listing.price)}`,
+    }
+  }
+
+  return { eligible: true }
+}
+
+/**
+ * Whether an offer is past its expiry time, even while its status is still
+ * PENDING or COUNTERED
+ */
+export function isOfferExpired(offer: { expiresAt: Date }, now: Date = new Date()): boolean {
+  return offer.expiresAt.getTime() <= now.getTime()
+}
+
+/**
+ * Calculates when a new offer expires
+ */
+export function getOfferExpiry(from: Date = new Date()): Date {
+  return new Date(from.getTime() + OFFER_EXPIRY_HOURS * 60 * 60 * 1000)
+}
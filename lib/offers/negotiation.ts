@@ -0,0 +1,219 @@
+/**
+ * Offer Negotiation State Machine
+ *
+ * An offer is a thread of moves between the buyer and the seller. The buyer
+ * opens with an OFFER; after that the party whose turn it is may COUNTER,
+ * ACCEPT or REJECT the latest amount from the other side.
+ *
+ * Whose turn it is follows from the offer status:
+ * - PENDING   → the buyer moved last, the seller responds
+ * - COUNTERED → the seller moved last, the buyer responds
+ *
+ * The Offer row keeps a summary of the thread (latest buyer amount in
+ * `amount`, latest seller amount in `counterAmount`, `lastMoveBy`,
+ * `moveCount`, `agreedAmount`) so list queries never need the moves.
+ */
+
+import type { OfferMoveType, OfferParty, OfferStatus } from '@prisma/client'
+import { formatZAR } from '@/lib/constants/categories'
+import {
+  checkCounterAmount,
+  getOfferExpiry,
+  isOfferExpired,
+  type OfferEligibility,
+  type OfferListingSnapshot,
+} from './eligibility'
+
+/**
+ * Upper bound on moves in a single thread, including the opening offer
+ */
+export const MAX_NEGOTIATION_MOVES = 12
+
+/**
+ * A response to the latest move in a thread
+ */
+export type NegotiationResponse =
+  | { type: 'COUNTER'; amount: number; message?: string }
+  | { type: 'ACCEPT'; message?: string }
+  | { type: 'REJECT'; message?: string }
+
+/**
+ * Offer fields the state machine reads
+ */
+export interface NegotiationState {
+  status: OfferStatus
+  amount: number
+  counterAmount: number | null
+  moveCount: number
+  expiresAt: Date
+}
+
+/**
+ * Offer summary fields written after a move
+ */
+export interface NegotiationUpdate {
+  status: OfferStatus
+  amount?: number
+  counterAmount?: number
+  agreedAmount?: number
+  lastMoveBy: OfferParty
+  lastMoveAt: Date
+  moveCount: number
+  expiresAt?: Date
+  respondedAt?: Date
+}
+
+/**
+ * A move to append to the thread
+ */
+export interface NegotiationMove {
+  party: OfferParty
+  type: OfferMoveType
+  amount: number | null
+  message: string | null
+}
+
+/**
+ * Returns the party expected to respond next, or null once the thread is closed
+ */
+export function getPartyToRespond(status: OfferStatus): OfferParty | null {
+  if (status === 'PENDING') return 'SELLER'
+  if (status === 'COUNTERED') return 'BUYER'
+  return null
+}
+
+/**
+ * The amount currently on the table from the other party, i.e. what `party`
+ * would agree to by accepting
+ */
+export function getAmountOnTable(state: Pick<NegotiationState, 'amount' | 'counterAmount'>, party: OfferParty): number {
+  return party === 'SELLER' ? state.amount : state.counterAmount ?? state.amount
+}
+
+/**
+ * Validates a response against the thread state and listing pricing
+ *
+ * @param state - Current offer summary
+ * @param party - Party responding
+ * @param response - The response being made
+ * @param listing - Listing pricing used to bound counter amounts
+ * @param now - Current time (injectable for tests)
+ */
+export function validateResponse(
+  state: NegotiationState,
+  party: OfferParty,
+  response: NegotiationResponse,
+  listing: Pick<OfferListingSnapshot, 'price' | 'minOffer'>,
+  now: Date = new Date()
+): OfferEligibility {
+  const partyToRespond = getPartyToRespond(state.status)
+
+  if (partyToRespond === null) {
+    return { eligible: false, error: `This offer has already been ${state.status.toLowerCase()}` }
+  }
+
+  if (isOfferExpired(state, now)) {
+    return { eligible: false, error: 'This offer has expired' }
+  }
+
+  if (partyToRespond !== party) {
+    return {
+      eligible: false,
+      error:
+        party === 'BUYER'
+          ? 'Waiting for the seller to respond to your offer'
+          : 'Waiting for the buyer to respond to your counter-offer',
+    }
+  }
+
+  if (response.type !== 'COUNTER') {
+    return { eligible: true }
+  }
+
+  if (state.moveCount >= MAX_NEGOTIATION_MOVES) {
+    return {
+      eligible: false,
+      error: 'This negotiation has reached its limit. Accept or reject the latest amount.',
+    }
+  }
+
+  if (party === 'SELLER') {
+    return checkCounterAmount(state.amount, listing, response.amount)
+  }
+
+  // Buyer counters the seller's counter-offer
+  const sellerAmount = state.counterAmount ?? state.amount
+
+  if (!Number.isFinite(response.amount) || response.amount <= 0) {
+    return { eligible: false, error: 'Counter-offer must be greater than 0' }
+  }
+
+  if (listing.minOffer !== null && response.amount < listing.minOffer) {
+    return {
+      eligible: false,
+      error: `Counter-offer must be at least ${formatZAR(listing.minOffer)}`,
+    }
+  }
+
+  if (response.amount >= sellerAmount) {
+    return {
+      eligible: false,
+      error: `Counter-offer must be lower than the seller's ${formatZAR(sellerAmount)}. Accept the counter-offer instead.`,
+    }
+  }
+
+  return { eligible: true }
+}
+
+/**
+ * Computes the offer summary update and the move to record for a validated response
+ *
+ * @param state - Current offer summary
+ * @param party - Party responding
+ * @param response - The validated response
+ * @param now - Time of the move
+ */
+export function applyResponse(
+  state: NegotiationState,
+  party: OfferParty,
+  response: NegotiationResponse,
+  now: Date = new Date()
+): { update: NegotiationUpdate; move: NegotiationMove } {
+  const base = {
+    lastMoveBy: party,
+    lastMoveAt: now,
+    moveCount: state.moveCount + 1,
+    // respondedAt tracks the seller's latest response
+    ...(party === 'SELLER' && { respondedAt: now }),
+  }
+  const message = response.message?.trim() || null
+
+  switch (response.type) {
+    case 'ACCEPT': {
+      const agreedAmount = getAmountOnTable(state, party)
+      return {
+        update: { ...base, status: 'ACCEPTED', agreedAmount },
+        move: { party, type: 'ACCEPT', amount: agreedAmount, message },
+      }
+    }
+
+    case 'REJECT':
+      return {
+        update: { ...base, status: 'REJECTED' },
+        move: { party, type: 'REJECT', amount: null, message },
+      }
+
+    case 'COUNTER':
+      return {
+        update: {
+          ...base,
+          // The buyer's latest amount lives in `amount`, the seller's in `counterAmount`
+          ...(party === 'SELLER'
+            ? { status: 'COUNTERED' as const, counterAmount: response.amount }
+            : { status: 'PENDING' as const, amount: response.amount }),
+          expiresAt: getOfferExpiry(now),
+        },
+        move: { party, type: 'COUNTER', amount: response.amount, message },
+      }
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Offer Responses
+ *
+ * Applies a buyer or seller move to an offer thread inside a database
+ * transaction. The party is derived from the user: the listing's seller
+ * responds as SELLER, the offer's buyer as BUYER.
+ */
+
+import type { OfferParty, OfferStatus, Prisma } from '@prisma/client'
+import { OPEN_OFFER_STATUSES } from './eligibility'
+import { applyResponse, validateResponse, type NegotiationResponse } from './negotiation'
+
+export type OfferResponseResult =
+  | {
+      offerId: string
+      listingId: string
+      listingTitle: string
+      buyerId: string
+      sellerId: string
+      party: OfferParty
+      status: OfferStatus
+      expiresAt: Date
+      expiredCount: number
+    }
+  | { error: string }
+
+/**
+ * Record a response to the latest move in an offer thread
+ *
+ * The offer summary is updated with a conditional updateMany on the status and
+ * move count read at the start, so a concurrent response to the same offer
+ * fails instead of overwriting it. Accepting first claims the listing row
+ * with a lock, like createTransaction does, and refuses if another offer was
+ * accepted meanwhile; it then expires every other open offer on the listing.
+ *
+ * @param tx - Transaction client
+ * @param offerId - Offer being answered
+ * @param userId - User making the move
+ * @param response - The move being made
+ * @param options.automated - The move is made by the listing's offer rules
+ */
+export async function respondToOffer(
+  tx: Prisma.TransactionClient,
+  offerId: string,
+  userId: string,
+  response: NegotiationResponse,
+  options: { automated?: boolean } = {}
+): Promise<OfferResponseResult> {
+  const offer = await tx.offer.findUnique({
+    where: { id: offerId },
+    select: {
+      id: true,
+      listingId: true,
+      buyerId: true,
+      amount: true,
+      counterAmount: true,
+      status: true,
+      moveCount: true,
+      expiresAt: true,
+      listing: {
+        select: { sellerId: true, title: true, status: true, price: true, minOffer: true },
+      },
+    },
+  })
+
+  if (!offer) {
+    return { error: 'Offer not found' }
+  }
+
+  const party: OfferParty | null =
+    offer.listing.sellerId === userId ? 'SELLER' : offer.buyerId === userId ? 'BUYER' : null
+
+  if (!party) {
+    return { error: 'You do not have permission to respond to this offer' }
+  }
+
+  if (offer.listing.status !== 'APPROVED') {
+    return { error: 'Offers can only be answered while the listing is active' }
+  }
+
+  const state = {
+    status: offer.status,
+    amount: offer.amount.toNumber(),
+    counterAmount: offer.counterAmount ? offer.counterAmount.toNumber() : null,
+    moveCount: offer.moveCount,
+    expiresAt: offer.expiresAt,
+  }
+
+  const check = validateResponse(state, party, response, {
+    price: offer.listing.price ? offer.listing.price.toNumber() : null,
+    minOffer: offer.listing.minOffer ? offer.listing.minOffer.toNumber() : null,
+  })
+
+  if (!check.eligible) {
+    return { error: check.error }
+  }
+
+  const { update, move } = applyResponse(state, party, response)
+
+  if (update.status === 'ACCEPTED') {
+    const claim = await claimListingForAccept(tx, offer.listingId, offer.id)
+    if (claim) {
+      return claim
+    }
+  }
+
+  // Conditional update guards against a concurrent response to the same offer
+  const updated = await tx.offer.updateMany({
+    where: { id: offer.id, status: offer.status, moveCount: offer.moveCount },
+    data: update,
+  })
+
+  if (updated.count === 0) {
+    return { error: 'This offer was answered by another request' }
+  }
+
+  await tx.offerMove.create({
+    data: { offerId: offer.id, ...move, automated: options.automated ?? false },
+  })
+
+  let expiredCount = 0
+
+  if (update.status === 'ACCEPTED') {
+    // Expire all competing offers for this listing
+    const expired = await tx.offer.updateMany({
+      where: {
+        listingId: offer.listingId,
+        id: { not: offer.id },
+        status: { in: OPEN_OFFER_STATUSES },
+      },
+      data: { status: 'EXPIRED' },
+    })
+    expiredCount = expired.count
+  }
+
+  return {
+    offerId: offer.id,
+    listingId: offer.listingId,
+    listingTitle: offer.listing.title,
+    buyerId: offer.buyerId,
+    sellerId: offer.listing.sellerId,
+    party,
+    status: update.status,
+    expiresAt: update.expiresAt ?? offer.expiresAt,
+    expiredCount,
+  }
+}
+
+/**
+ * Lock the listing row so concurrent accepts on the listing run one at a time
+ * The lock is held until the transaction ends, so the checks below see what
+ * an accept that got the lock first committed
+ *
+ * @returns An error when the listing can no longer accept this offer
+ */
+async function claimListingForAccept(
+  tx: Prisma.TransactionClient,
+  listingId: string,
+  offerId: string
+): Promise<{ error: string } | null> {
+  const [listing] = await tx.$queryRaw<{ status: string }[]>`
+    SELECT "status" FROM "Listing" WHERE "id" = ${listingId} FOR UPDATE
+  `
+
+  if (!listing || listing.status !== 'APPROVED') {
+    return { error: 'Offers can only be answered while the listing is active' }
+  }
+
+  const accepted = await tx.offer.count({
+    where: { listingId, id: { not: offerId }, status: 'ACCEPTED' },
+  })
+
+  if (accepted > 0) {
+    return { error: 'Another offer on this listing has already been accepted' }
+  }
+
+  return null
+}
@@ -0,0 +1,71 @@
+/**
+ * Order Timeline
+ *
+ * The history of a transaction as a list of dated events, built from the
+ * timestamps recorded as it moves through payment, escrow and disputes.
+ */
+
+import type { TransactionStatus } from '@prisma/client'
+
+export type OrderTimelineEventKind =
+  | 'PLACED'
+  | 'PAID'
+  | 'CANCELLED'
+  | 'DISPUTE_OPENED'
+  | 'SELLER_RESPONDED'
+  | 'DISPUTE_RESOLVED'
+  | 'REFUNDED'
+  | 'COMPLETED'
+  | 'AUTO_RELEASE'
+  | 'REVIEWED'
+
+export interface OrderTimelineEvent {
+  kind: OrderTimelineEventKind
+  at: Date
+  /** Scheduled rather than already happened */
+  upcoming: boolean
+}
+
+export interface OrderTimelineInput {
+  status: TransactionStatus
+  createdAt: Date
+  paidAt: Date | null
+  cancelledAt: Date | null
+  completedAt: Date | null
+  refundedAt: Date | null
+  releaseAt: Date | null
+  dispute: {
+    createdAt: Date
+    sellerRespondedAt: Date | null
+    resolvedAt: Date | null
+  } | null
+  review: { createdAt: Date } | null
+}
+
+/**
+ * Build the timeline for a transaction, oldest first with scheduled events last
+ */
+export function buildOrderTimeline(transaction: OrderTimelineInput): OrderTimelineEvent[] {
+  const events: OrderTimelineEvent[] = []
+  const add = (kind: OrderTimelineEventKind, at: Date | null | undefined) => {
+    if (at) events.push({ kind, at, upcoming: false })
+  }
+
+  add('PLACED', transaction.createdAt)
+  add('PAID', transaction.paidAt)
+  add('CANCELLED', transaction.cancelledAt)
+  add('DISPUTE_OPENED', transaction.dispute?.createdAt)
+  add('SELLER_RESPONDED', transaction.dispute?.sellerRespondedAt)
+  add('DISPUTE_RESOLVED', transaction.dispute?.resolvedAt)
+  add('REFUNDED', transaction.refundedAt)
+  add('COMPLETED', transaction.completedAt)
+  add('REVIEWED', transaction.review?.createdAt)
+
+  events.sort((a, b) => a.at.getTime() - b.at.getTime())
+
+  if (transaction.status === 'AWAITING_CONFIRMATION' && transaction.releaseAt) {
+    events.push({ kind: 'AUTO_RELEASE', at: transaction.releaseAt, upcoming: true })
+  }
+
+  return events
+}
@@ -0,0 +1,55 @@
+/**
+ * Payment Error Classes
+ *
+ * Thrown by gateways and notification handling; the notify route maps them
+ * to HTTP status codes and the checkout actions to friendly messages
+ */
+
+export class PaymentError extends Error {
+  code: PaymentErrorCode
+
+  constructor(code: PaymentErrorCode, message: string) {
+    super(message)
+    this.name = 'PaymentError'
+    this.code = code
+
+    // Maintains proper stack trace for where our error was thrown (only available on V8)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, PaymentError)
+    }
+  }
+}
+
+/**
+ * Error codes for payments
+ */
+export const PAYMENT_ERROR_CODES = {
+  // Configuration
+  NOT_CONFIGURED: 'NOT_CONFIGURED',
+  UNKNOWN_PROVIDER: 'UNKNOWN_PROVIDER',
+
+  // Notifications
+  INVALID_SIGNATURE: 'INVALID_SIGNATURE',
+  INVALID_NOTIFICATION: 'INVALID_NOTIFICATION',
+  AMOUNT_MISMATCH: 'AMOUNT_MISMATCH',
+
+  // Transactions
+  TRANSACTION_NOT_FOUND: 'TRANSACTION_NOT_FOUND',
+  NOT_PAYABLE: 'NOT_PAYABLE',
+} as const
+
+export type PaymentErrorCode = typeof PAYMENT_ERROR_CODES[keyof typeof PAYMENT_ERROR_CODES]
+
+/**
+ * Factory for notifications whose signature does not verify
+ */
+export function createInvalidSignatureError(): PaymentError {
+  return new PaymentError(PAYMENT_ERROR_CODES.INVALID_SIGNATURE, 'Payment notification signature is invalid')
+}
+
+/**
+ * Factory for malformed notifications
+ */
+export function createInvalidNotificationError(message: string): PaymentError {
+  return new PaymentError(PAYMENT_ERROR_CODES.INVALID_NOTIFICATION, message)
+}
@@ -0,0 +1,102 @@
+/**
+ * Payment Gateway Selection
+ *
+ * PAYMENT_PROVIDER picks the gateway for new payments: `payfast`, or `mock`
+ * (the default outside production). Notifications are verified by the
+ * gateway named in the notify URL, so payments started before a switch
+ * still complete.
+ */
+
+import type { PaymentProvider } from '@prisma/client'
+import { PaymentError, PAYMENT_ERROR_CODES } from './errors'
+import { createMockGateway } from './mock'
+import { createPayFastGateway } from './payfast'
+import type { PaymentGateway } from './types'
+
+const PROVIDER_SLUGS: Record<string, PaymentProvider> = {
+  mock: 'MOCK',
+  payfast: 'PAYFAST',
+}
+
+/**
+ * Map a URL slug (`payfast`) to a provider, or null if unknown
+ */
+export function parseProviderSlug(slug: string): PaymentProvider | null {
+  return PROVIDER_SLUGS[slug.toLowerCase()] ?? null
+}
+
+/**
+ * The provider new payments go through
+ */
+export function getActivePaymentProvider(): PaymentProvider {
+  const configured = process.env.PAYMENT_PROVIDER
+  if (configured) {
+    const provider = parseProviderSlug(configured)
+    if (!provider) {
+      throw new PaymentError(
+        PAYMENT_ERROR_CODES.UNKNOWN_PROVIDER,
+        `Unknown PAYMENT_PROVIDER "${configured}"`
+      )
+    }
+    return provider
+  }
+  return process.env.NODE_ENV === 'production' ? 'PAYFAST' : 'MOCK'
+}
+
+/**
+ * Whether the mock gateway may be used; never in production
+ */
+export function isMockPaymentsEnabled(): boolean {
+  return process.env.NODE_ENV !== 'production'
+}
+
+/**
+ * Secret the mock gateway signs notifications with
+ */
+export function getMockPaymentSecret(): string {
+  const secret = process.env.MOCK_PAYMENT_SECRET || process.env.AUTH_SECRET
+  if (!isMockPaymentsEnabled() || !secret) {
+    throw new PaymentError(PAYMENT_ERROR_CODES.NOT_CONFIGURED, 'Mock payments are not available')
+  }
+  return secret
+}
+
+/**
+ * Get the gateway for a provider
+ *
+ * @param provider - Defaults to the active provider
+ * @throws PaymentError when the provider is not configured
+ */
+export function getPaymentGateway(provider: PaymentProvider = getActivePaymentProvider()): PaymentGateway {
+  switch (provider) {
+    case 'MOCK':
+      return createMockGateway(getMockPaymentSecret())
+    case 'PAYFAST': {
+      const merchantId = process.env.PAYFAST_MERCHANT_ID
+      const merchantKey = process.env.PAYFAST_MERCHANT_KEY
+      if (!merchantId || !merchantKey) {
+        throw new PaymentError(PAYMENT_ERROR_CODES.NOT_CONFIGURED, 'PayFast is not configured')
+      }
+      return createPayFastGateway({
+        merchantId,
+        merchantKey,
+        passphrase: process.env.PAYFAST_PASSPHRASE || null,
+        sandbox: process.env.PAYFAST_SANDBOX === 'true',
+      })
+    }
+  }
+}
+
+/**
+ * Absolute URLs a provider sends the buyer and its notifications to
+ */
+export function getPaymentUrls(transactionId: string, provider: PaymentProvider) {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+  const orderUrl = `${appUrl}/orders/${transactionId}`
+
+  return {
+    returnUrl: `${orderUrl}?payment=return`,
+    cancelUrl: `${orderUrl}?payment=cancelled`,
+    notifyUrl: `${appUrl}/api/payments/${provider.toLowerCase()}/notify`,
+  }
+}
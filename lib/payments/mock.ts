@@ -0,0 +1,117 @@
+/**
+ * Mock Gateway
+ *
+ * A fully local provider for development and tests. The buyer is sent to
+ * /payments/mock/[transactionId], where they choose to pay or cancel; the
+ * page then delivers a notification signed exactly as a real provider would,
+ * through the same handler as /api/payments/mock/notify.
+ *
+ * Notifications are JSON bodies signed with HMAC-SHA256 in the
+ * `x-mock-signature` header. createMockNotification builds them, so tests
+ * can exercise the whole verification path.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto'
+import { createInvalidNotificationError, createInvalidSignatureError } from './errors'
+import type { PaymentGateway, PaymentOutcome } from './types'
+
+export const MOCK_SIGNATURE_HEADER = 'x-mock-signature'
+
+const OUTCOMES: PaymentOutcome[] = ['PENDING', 'COMPLETED', 'CANCELLED']
+
+/**
+ * Sign a raw notification body
+ *
+ * @returns Lowercase hex HMAC-SHA256
+ */
+export function signMockNotification(rawBody: string, secret: string): string {
+  return createHmac('sha256', secret).update(rawBody).digest('hex')
+}
+
+/**
+ * Build a signed mock notification
+ *
+ * @param secret - Signing secret shared with the gateway
+ * @param event - Outcome to report; pass the same eventId to simulate a redelivery
+ * @returns Raw body and headers to deliver to the notify handler
+ */
+export function createMockNotification(
+  secret: string,
+  event: {
+    transactionId: string
+    outcome: PaymentOutcome
+    amount: number
+    eventId?: string
+  }
+) {
+  const body = JSON.stringify({
+    eventId: event.eventId ?? randomUUID(),
+    transactionId: event.transactionId,
+    outcome: event.outcome,
+    amount: event.amount.toFixed(2),
+    reference: `mock_${event.transactionId.slice(0, 8)}`,
+    paymentMethod: 'card',
+  })
+
+  return {
+    body,
+    headers: { [MOCK_SIGNATURE_HEADER]: signMockNotification(body, secret) },
+  }
+}
+
+/**
+ * Create the mock gateway
+ *
+ * @param secret - Signing secret for notifications
+ */
+export function createMockGateway(secret: string): PaymentGateway {
+  return {
+    provider: 'MOCK',
+
+    createPaymentIntent: (request) => {
+      // The mock checkout page is served by this app, next to the notify route
+      const url = new URL(`/payments/mock/${request.transactionId}`, request.notifyUrl)
+      return { redirectUrl: url.toString() }
+    },
+
+    parseNotification: (rawBody, headers) => {
+      const received = Buffer.from(headers.get(MOCK_SIGNATURE_HEADER) ?? '')
+      const expected = Buffer.from(signMockNotification(rawBody, secret))
+
+      if (received.length !== expected.length || !timingSafeEqual(received, expected)) {
+        throw createInvalidSignatureError()
+      }
+
+      let parsed: unknown
+      try {
+        parsed = JSON.parse(rawBody)
+      } catch {
+        throw createInvalidNotificationError('Notification body is not valid JSON')
+      }
+
+      // null, arrays and other JSON values have no fields to read
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw createInvalidNotificationError('Notification body must be a JSON object')
+      }
+      const fields = parsed as Record<string, string>
+
+      const outcome = OUTCOMES.find((value) => value === fields.outcome)
+      const amount = parseFloat(fields.amount)
+
+      if (!outcome || !fields.eventId || !fields.transactionId || !Number.isFinite(amount)) {
+        throw createInvalidNotificationError('Notification is missing required fields')
+      }
+
+      return {
+        provider: 'MOCK',
+        eventId: fields.eventId,
+        transactionId: fields.transactionId,
+        outcome,
+        amount,
+        providerReference: fields.reference ?? fields.eventId,
+        paymentMethod: fields.paymentMethod ?? null,
+        payload: fields,
+      }
+    },
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * PayFast Gateway
+ *
+ * Redirect-based checkout: the buyer is sent to PayFast's process page with
+ * the payment fields in the query string, signed with an MD5 over the
+ * URL-encoded fields plus the account passphrase. PayFast then posts an
+ * ITN (Instant Transaction Notification) form to notify_url, signed the
+ * same way, which is verified here before it is trusted.
+ *
+ * Only the signature and merchant ID are checked; the notification handler
+ * also checks the amount against the transaction.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto'
+import { createInvalidNotificationError, createInvalidSignatureError } from './errors'
+import type { PaymentGateway, PaymentNotification, PaymentOutcome } from './types'
+
+const PROCESS_URLS = {
+  live: 'https://www.payfast.co.za/eng/process',
+  sandbox: 'https://sandbox.payfast.co.za/eng/process',
+}
+
+const STATUS_OUTCOMES: Record<string, PaymentOutcome> = {
+  COMPLETE: 'COMPLETED',
+  PENDING: 'PENDING',
+  CANCELLED: 'CANCELLED',
+  FAILED: 'CANCELLED',
+}
+
+export interface PayFastConfig {
+  merchantId: string
+  merchantKey: string
+  /** Salt passphrase set on the PayFast account, if any */
+  passphrase: string | null
+  sandbox: boolean
+}
+
+// PayFast encodes like PHP's urlencode: spaces become '+'
+const encode = (value: string) => encodeURIComponent(value.trim()).replace(/%20/g, '+')
+
+/**
+ * Sign fields in the order given
+ *
+ * @param fields - Name/value pairs, without `signature`
+ * @param passphrase - Account passphrase, appended when set
+ * @returns Lowercase hex MD5 signature
+ */
+export function signPayFastFields(fields: [string, string][], passphrase: string | null): string {
+  const pairs = fields.map(([name, value]) => `${name}=${encode(value)}`)
+  if (passphrase) {
+    pairs.push(`passphrase=${encode(passphrase)}`)
+  }
+  return createHash('md5').update(pairs.join('&')).digest('hex')
+}
+
+const signaturesMatch = (expected: string, received: string) => {
+  const a = Buffer.from(expected)
+  const b = Buffer.from(received.toLowerCase())
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+/**
+ * Create a PayFast gateway for one merchant account
+ */
+export function createPayFastGateway(config: PayFastConfig): PaymentGateway {
+  return {
+    provider: 'PAYFAST',
+
+    createPaymentIntent: (request) => {
+      const [firstName, ...rest] = request.buyer.name.trim().split(/\s+/)
+
+      // Field order matters for the signature; empty fields are left out
+      const fields = ([
+        ['merchant_id', config.merchantId],
+        ['merchant_key', config.merchantKey],
+        ['return_url', request.returnUrl],
+        ['cancel_url', request.cancelUrl],
+        ['notify_url', request.notifyUrl],
+        ['name_first', firstName ?? ''],
+        ['name_last', rest.join(' ')],
+        ['email_address', request.buyer.email],
+        ['m_payment_id', request.transactionId],
+        ['amount', request.amount.toFixed(2)],
+        ['item_name', request.itemName.slice(0, 100)],
+      ] as [string, string][]).filter(([, value]) => value.trim() !== '')
+
+      const query = new URLSearchParams(fields)
+      query.append('signature', signPayFastFields(fields, config.passphrase))
+
+      const baseUrl = config.sandbox ? PROCESS_URLS.sandbox : PROCESS_URLS.live
+      return { redirectUrl: `${baseUrl}?${query.toString()}` }
+    },
+
+    parseNotification: (rawBody) => {
+      const entries = Array.from(new URLSearchParams(rawBody).entries())
+      const fields = Object.fromEntries(entries)
+
+      const signature = fields.signature
+      if (!signature) {
+        throw createInvalidSignatureError()
+      }
+
+      // The ITN is signed over every posted field in order, empty ones included
+      const signed = entries.filter(([name]) => name !== 'signature')
+      if (!signaturesMatch(signPayFastFields(signed, config.passphrase), signature)) {
+        throw createInvalidSignatureError()
+      }
+
+      if (fields.merchant_id !== config.merchantId) {
+        throw createInvalidNotificationError('Notification is for a different merchant')
+      }
+
+      const outcome = STATUS_OUTCOMES[fields.payment_status ?? '']
+      const amount = parseFloat(fields.amount_gross ?? '')
+
+      if (!outcome || !fields.m_payment_id || !fields.pf_payment_id || !Number.isFinite(amount)) {
+        throw createInvalidNotificationError('Notification is missing required fields')
+      }
+
+      const notification: PaymentNotification = {
+        provider: 'PAYFAST',
+        eventId: `${fields.pf_payment_id}:${fields.payment_status}`,
+        transactionId: fields.m_payment_id,
+        outcome,
+        amount,
+        providerReference: fields.pf_payment_id,
+        paymentMethod: null,
+        payload: fields,
+      }
+      return notification
+    },
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Payment Service
+ *
+ * Starts payments for pending transactions and applies verified provider
+ * notifications to them.
+ *
+ * Notifications are idempotent: each is recorded as a PaymentEvent, unique
+ * per (provider, eventId), and a redelivered event is acknowledged without
+ * changing anything. Transitions are conditional on the transaction still
+ * being PENDING, so out-of-order or late events cannot reopen a settled one.
+ */
+
+import type { PaymentProvider, PrismaClient, TransactionStatus } from '@prisma/client'
+import { prisma as defaultClient } from '@/lib/prisma'
+import { PaymentError, PAYMENT_ERROR_CODES } from './errors'
+import { getPaymentGateway, getPaymentUrls } from './gateway'
+import { cancelTransaction, markTransactionPaid } from './transitions'
+import type { NotificationHeaders, PaymentIntent, PaymentNotification } from './types'
+
+export interface PaymentNotificationResult {
+  /**
+   * APPLIED: the transaction changed state
+   * RECORDED: logged, no state change (e.g. a PENDING update)
+   * DUPLICATE: this event was already processed
+   * IGNORED: the transaction was no longer PENDING
+   */
+  status: 'APPLIED' | 'RECORDED' | 'DUPLICATE' | 'IGNORED'
+  transactionStatus: TransactionStatus
+  /**
+   * Set when this notification completed the payment, so the caller can tell
+   * the listing's watchers once it has responded (see notifyWatchersOfSale)
+   */
+  soldTransactionId?: string
+}
+
+const toCents = (amount: number) => Math.round(amount * 100)
+
+/**
+ * Create a payment intent for the buyer's pending transaction
+ *
+ * @param transactionId - Transaction to pay for
+ * @param buyerId - Must be the transaction's buyer
+ * @returns Where to redirect the buyer
+ * @throws PaymentError when the transaction is not payable or the gateway is not configured
+ */
+export async function startPayment(
+  transactionId: string,
+  buyerId: string,
+  client: PrismaClient = defaultClient
+): Promise<PaymentIntent> {
+  const transaction = await client.transaction.findFirst({
+    where: { id: transactionId, buyerId },
+    include: {
+      listing: { select: { title: true } },
+      buyer: { select: { name: true, email: true } },
+    },
+  })
+
+  if (!transaction) {
+    throw new PaymentError(PAYMENT_ERROR_CODES.TRANSACTION_NOT_FOUND, 'Order not found')
+  }
+
+  if (transaction.status !== 'PENDING') {
+    throw new PaymentError(PAYMENT_ERROR_CODES.NOT_PAYABLE, 'This order is no longer awaiting payment')
+  }
+
+  const gateway = getPaymentGateway()
+  const intent = gateway.createPaymentIntent({
+    transactionId: transaction.id,
+    amount: transaction.amount.toNumber(),
+    itemName: transaction.listing.title,
+    buyer: { name: transaction.buyer.name, email: transaction.buyer.email },
+    ...getPaymentUrls(transaction.id, gateway.provider),
+  })
+
+  await client.transaction.updateMany({
+    where: { id: transaction.id, status: 'PENDING' },
+    data: { paymentProvider: gateway.provider },
+  })
+
+  return intent
+}
+
+/**
+ * Apply a verified notification to its transaction
+ *
+ * @throws PaymentError when the transaction is unknown or the amount differs
+ */
+export async function applyPaymentNotification(
+  notification: PaymentNotification,
+  client: PrismaClient = defaultClient,
+  now: Date = new Date()
+): Promise<PaymentNotificationResult> {
+  return await client.$transaction(async (tx): Promise<PaymentNotificationResult> => {
+    const transaction = await tx.transaction.findUnique({
+      where: { id: notification.transactionId },
+      select: { id: true, status: true, amount: true },
+    })
+
+    if (!transaction) {
+      throw new PaymentError(PAYMENT_ERROR_CODES.TRANSACTION_NOT_FOUND, 'Transaction not found')
+    }
+
+    if (toCents(notification.amount) !== toCents(transaction.amount.toNumber())) {
+      throw new PaymentError(
+        PAYMENT_ERROR_CODES.AMOUNT_MISMATCH,
+        `Notified amount ${notification.amount} does not match transaction amount ${transaction.amount}`
+      )
+    }
+
+    // ON CONFLICT DO NOTHING: a concurrent redelivery waits here and then inserts nothing
+    const { count } = await tx.paymentEvent.createMany({
+      data: [
+        {
+          transactionId: transaction.id,
+          provider: notification.provider,
+          eventId: notification.eventId,
+          status: notification.outcome,
+          amount: notification.amount,
+          payload: notification.payload,
+        },
+      ],
+      skipDuplicates: true,
+    })
+
+    if (count === 0) {
+      return { status: 'DUPLICATE', transactionStatus: transaction.status }
+    }
+
+    if (notification.outcome === 'PENDING') {
+      return { status: 'RECORDED', transactionStatus: transaction.status }
+    }
+
+    const applied =
+      notification.outcome === 'COMPLETED'
+        ? await markTransactionPaid(tx, transaction.id, {
+            reference: notification.providerReference,
+            method: notification.paymentMethod,
+            at: now,
+          })
+        : await cancelTransaction(tx, transaction.id, now)
+
+    if (!applied) {
+      if (notification.outcome === 'COMPLETED') {
+        console.warn(
+          `Payment ${notification.providerReference} completed for ${transaction.status} transaction ${transaction.id}; refund it manually`
+        )
+      }
+      return { status: 'IGNORED', transactionStatus: transaction.status }
+    }
+
+    // Watchers hear once the payment is in, since an unpaid checkout can still fall through
+    return notification.outcome === 'COMPLETED'
+      ? { status: 'APPLIED', transactionStatus: 'AWAITING_CONFIRMATION', soldTransactionId: transaction.id }
+      : { status: 'APPLIED', transactionStatus: 'CANCELLED' }
+  })
+}
+
+/**
+ * Verify a raw provider notification and apply it
+ *
+ * @param provider - Provider named in the notify URL
+ * @param rawBody - Body exactly as received; signatures cover the raw bytes
+ * @param headers - Request headers
+ * @throws PaymentError when verification fails
+ */
+export async function handlePaymentNotification(
+  provider: PaymentProvider,
+  rawBody: string,
+  headers: NotificationHeaders,
+  client: PrismaClient = defaultClient
+): Promise<PaymentNotificationResult> {
+  const notification = getPaymentGateway(provider).parseNotification(rawBody, headers)
+  return await applyPaymentNotification(notification, client)
+}
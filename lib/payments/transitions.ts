@@ -0,0 +1,74 @@
+/**
+ * Transaction Payment Transitions
+ *
+ * PENDING → AWAITING_CONFIRMATION when the provider confirms payment; the
+ * funds are then held in escrow (see lib/escrow)
+ * PENDING → CANCELLED when the payment is cancelled or abandoned; the
+ * listing is released back to APPROVED so it can be bought again
+ *
+ * Both are conditional on the transaction still being PENDING, so a late or
+ * concurrent transition changes nothing and reports false.
+ */
+
+import type { Prisma } from '@prisma/client'
+import { getReleaseAt } from '@/lib/escrow/policy'
+
+/**
+ * How long a checkout may wait for payment before the sweeper cancels it
+ */
+export const PAYMENT_TIMEOUT_MS = 2 * 60 * 60 * 1000
+
+/**
+ * Mark a pending transaction as paid and start the escrow hold
+ *
+ * @returns Whether the transaction was PENDING and is now AWAITING_CONFIRMATION
+ */
+export async function markTransactionPaid(
+  tx: Prisma.TransactionClient,
+  transactionId: string,
+  payment: { reference: string; method: string | null; at: Date }
+): Promise<boolean> {
+  const { count } = await tx.transaction.updateMany({
+    where: { id: transactionId, status: 'PENDING' },
+    data: {
+      status: 'AWAITING_CONFIRMATION',
+      paidAt: payment.at,
+      releaseAt: getReleaseAt(payment.at),
+      paymentReference: payment.reference,
+      ...(payment.method && { paymentMethod: payment.method }),
+    },
+  })
+  return count > 0
+}
+
+/**
+ * Cancel a pending transaction and release its listing
+ *
+ * @returns Whether the transaction was PENDING and is now CANCELLED
+ */
+export async function cancelTransaction(
+  tx: Prisma.TransactionClient,
+  transactionId: string,
+  at: Date
+): Promise<boolean> {
+  const { count } = await tx.transaction.updateMany({
+    where: { id: transactionId, status: 'PENDING' },
+    data: { status: 'CANCELLED', cancelledAt: at },
+  })
+
+  if (count === 0) {
+    return false
+  }
+
+  const transaction = await tx.transaction.findUniqueOrThrow({
+    where: { id: transactionId },
+    select: { listingId: true },
+  })
+
+  await tx.listing.updateMany({
+    where: { id: transaction.listingId, status: 'SOLD' },
+    data: { status: 'APPROVED', soldAt: null },
+  })
+
+  return true
+}
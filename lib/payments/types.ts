@@ -0,0 +1,70 @@
+/**
+ * Payment Gateway Types
+ */
+
+import type { PaymentProvider } from '@prisma/client'
+
+/**
+ * What the buyer is paying for and where the provider sends them afterwards
+ */
+export interface PaymentIntentRequest {
+  transactionId: string
+  amount: number
+  itemName: string
+  buyer: {
+    name: string
+    email: string
+  }
+  /** Buyer lands here after paying */
+  returnUrl: string
+  /** Buyer lands here after cancelling */
+  cancelUrl: string
+  /** Provider posts the signed notification here */
+  notifyUrl: string
+}
+
+export interface PaymentIntent {
+  /** Provider page the buyer is redirected to */
+  redirectUrl: string
+}
+
+/**
+ * Outcome a notification reports; maps onto TransactionStatus
+ */
+export type PaymentOutcome = 'PENDING' | 'COMPLETED' | 'CANCELLED'
+
+/**
+ * A verified payment notification in provider-neutral form
+ */
+export interface PaymentNotification {
+  provider: PaymentProvider
+  /** Identifies this notification; redeliveries carry the same value */
+  eventId: string
+  transactionId: string
+  outcome: PaymentOutcome
+  amount: number
+  /** The provider's own payment ID */
+  providerReference: string
+  paymentMethod: string | null
+  /** Fields as received, kept for auditing */
+  payload: Record<string, string>
+}
+
+/**
+ * Header lookup used to read notification signatures
+ */
+export type NotificationHeaders = Pick<Headers, 'get'>
+
+/**
+ * A payment provider adapter
+ */
+export interface PaymentGateway {
+  provider: PaymentProvider
+  /** Build the redirect for a payment; no network calls */
+  createPaymentIntent: (request: PaymentIntentRequest) => PaymentIntent
+  /**
+   * Verify and parse a raw notification body
+   * @throws PaymentError when the signature or fields are invalid
+   */
+  parseNotification: (rawBody: string, headers: NotificationHeaders) => PaymentNotification
+}
@@ -0,0 +1,139 @@
+/**
+ * Payout Batches
+ *
+ * An admin creates a batch to pay out every seller whose ledger balance has
+ * reached MIN_PAYOUT_AMOUNT and who has a bank account on file. Each payout
+ * debits the seller's ledger in the same transaction, so a balance is never
+ * paid twice. The batch is exported as a CSV bank-upload file (csv.ts) and
+ * marked PAID once the bank confirms.
+ */
+
+import type { BankAccount, Prisma } from '@prisma/client'
+
+/**
+ * Smallest balance paid out; smaller balances roll over to the next batch
+ */
+export const MIN_PAYOUT_AMOUNT = 100
+
+// Arbitrary constant identifying the payout batch advisory lock
+const PAYOUT_BATCH_LOCK_KEY = 7_041_002
+
+export interface SellerBalance {
+  sellerId: string
+  balance: number
+}
+
+export interface PayoutSelection {
+  payable: { sellerId: string; amount: number; bankAccount: BankAccount }[]
+  /** Balances large enough to pay out, held back for a missing bank account */
+  missingBankAccount: SellerBalance[]
+}
+
+/**
+ * Choose which balances a batch pays out
+ */
+export function selectPayouts(
+  balances: SellerBalance[],
+  bankAccounts: BankAccount[],
+  minimum: number = MIN_PAYOUT_AMOUNT
+): PayoutSelection {
+  const accountsBySeller = new Map(bankAccounts.map((account) => [account.userId, account]))
+  const selection: PayoutSelection = { payable: [], missingBankAccount: [] }
+
+  for (const entry of balances) {
+    if (entry.balance < minimum) continue
+
+    const bankAccount = accountsBySeller.get(entry.sellerId)
+    if (bankAccount) {
+      selection.payable.push({ sellerId: entry.sellerId, amount: entry.balance, bankAccount })
+    } else {
+      selection.missingBankAccount.push(entry)
+    }
+  }
+
+  return selection
+}
+
+/**
+ * Bank statement reference for the nth payout ever made, e.g. `SHM PAYOUT 00000042`
+ */
+export function getPayoutReference(payoutNumber: number): string {
+  return `SHM PAYOUT ${String(payoutNumber).padStart(8, '0')}`
+}
+
+/**
+ * Load seller balances and bank accounts and select the payouts
+ */
+export async function getPayoutSelection(tx: Prisma.TransactionClient): Promise<PayoutSelection> {
+  const groups = await tx.ledgerEntry.groupBy({
+    by: ['sellerId'],
+    _sum: { amount: true },
+    having: { amount: { _sum: { gte: MIN_PAYOUT_AMOUNT } } },
+  })
+
+  const balances = groups.map((group) => ({
+    sellerId: group.sellerId,
+    balance: group._sum.amount?.toNumber() ?? 0,
+  }))
+
+  const bankAccounts = await tx.bankAccount.findMany({
+    where: { userId: { in: balances.map((entry) => entry.sellerId) } },
+  })
+
+  return selectPayouts(balances, bankAccounts)
+}
+
+/**
+ * Create a batch paying out every payable balance
+ *
+ * Holds an advisory lock so concurrent requests cannot pay the same balance.
+ * Payouts are only created here, under that lock, and never deleted, so
+ * numbering them after the existing ones gives every reference once.
+ *
+ * @returns The batch ID and payout count, or null when nothing is payable
+ */
+export async function createPayoutBatch(
+  tx: Prisma.TransactionClient,
+  createdById: string,
+  now: Date
+): Promise<{ batchId: string; payoutCount: number; totalAmount: number } | null> {
+  // Transaction-scoped lock: waits for a concurrent batch to commit first
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(${PAYOUT_BATCH_LOCK_KEY})`
+
+  const { payable } = await getPayoutSelection(tx)
+  if (payable.length === 0) {
+    return null
+  }
+
+  const totalAmount = payable.reduce((sum, payout) => sum + payout.amount, 0)
+  const batch = await tx.payoutBatch.create({
+    data: { totalAmount, createdById, createdAt: now },
+  })
+
+  let payoutNumber = await tx.payout.count()
+
+  for (const { sellerId, amount, bankAccount } of payable) {
+    payoutNumber += 1
+
+    const payout = await tx.payout.create({
+      data: {
+        batchId: batch.id,
+        sellerId,
+        amount,
+        reference: getPayoutReference(payoutNumber),
+        accountHolder: bankAccount.accountHolder,
+        bankName: bankAccount.bankName,
+        branchCode: bankAccount.branchCode,
+        accountNumber: bankAccount.accountNumber,
+        accountType: bankAccount.accountType,
+        createdAt: now,
+      },
+    })
+
+    await tx.ledgerEntry.create({
+      data: { sellerId, type: 'PAYOUT_DEBIT', amount: -amount, payoutId: payout.id, createdAt: now },
+    })
+  }
+
+  return { batchId: batch.id, payoutCount: payable.length, totalAmount }
+}
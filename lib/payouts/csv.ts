@@ -0,0 +1,55 @@
+/**
+ * Payout CSV Export
+ *
+ * Builds the bank-upload file for a payout batch: one row per payout with the
+ * bank details captured when the batch was created.
+ */
+
+import type { BankAccountType } from '@prisma/client'
+
+export interface PayoutCsvRow {
+  accountHolder: string
+  bankName: string
+  branchCode: string
+  accountNumber: string
+  accountType: BankAccountType
+  amount: number
+  reference: string
+}
+
+const HEADER = [
+  'Account Holder',
+  'Bank',
+  'Branch Code',
+  'Account Number',
+  'Account Type',
+  'Amount',
+  'Reference',
+]
+
+/**
+ * Quote a field when it contains a comma, quote or line break (RFC 4180)
+ */
+export function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Render payouts as CSV with a header row and CRLF line endings
+ */
+export function toPayoutCsv(rows: PayoutCsvRow[]): string {
+  const lines = [
+    HEADER,
+    ...rows.map((row) => [
+      row.accountHolder,
+      row.bankName,
+      row.branchCode,
+      row.accountNumber,
+      row.accountType,
+      row.amount.toFixed(2),
+      row.reference,
+    ]),
+  ]
+
+  return lines.map((fields) => fields.map(escapeCsvField).join(',')).join('\r\n') + '\r\n'
+}
@@ -0,0 +1,140 @@
+/**
+ * Seller Payout Ledger
+ *
+ * Every change to what a seller is owed is a LedgerEntry:
+ * - SALE_CREDIT   +netAmount when a transaction completes
+ * - REFUND_DEBIT  -the seller's share of a refund decided in a dispute
+ * - PAYOUT_DEBIT  -the balance paid out in a payout batch
+ *
+ * Entries are append-only (enforced by a database trigger). At most one
+ * SALE_CREDIT and one REFUND_DEBIT exist per transaction, so writing them is
+ * idempotent, and for every COMPLETED or REFUNDED transaction its entries sum
+ * to Transaction.netAmount (see reconcile.ts).
+ */
+
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { HELD_TRANSACTION_STATUSES } from '@/lib/escrow/policy'
+
+type LedgerTransaction = {
+  id: string
+  sellerId: string
+  netAmount: Prisma.Decimal | number
+}
+
+/**
+ * Credit the seller with a completed transaction's net amount
+ * A second call for the same transaction is a no-op
+ */
+export async function creditSale(
+  tx: Prisma.TransactionClient,
+  transaction: LedgerTransaction
+): Promise<void> {
+  await tx.ledgerEntry.createMany({
+    data: [
+      {
+        sellerId: transaction.sellerId,
+        type: 'SALE_CREDIT',
+        amount: transaction.netAmount,
+        transactionId: transaction.id,
+      },
+    ],
+    skipDuplicates: true,
+  })
+}
+
+/**
+ * Debit the seller's share of a refund
+ * A second call for the same transaction is a no-op
+ *
+ * @param amount - Positive amount the seller's earnings are reduced by
+ */
+export async function debitRefund(
+  tx: Prisma.TransactionClient,
+  transaction: Omit<LedgerTransaction, 'netAmount'>,
+  amount: number
+): Promise<void> {
+  await tx.ledgerEntry.createMany({
+    data: [
+      {
+        sellerId: transaction.sellerId,
+        type: 'REFUND_DEBIT',
+        amount: -amount,
+        transactionId: transaction.id,
+      },
+    ],
+    skipDuplicates: true,
+  })
+}
+
+export interface SellerPayoutSummary {
+  /** Ledger balance: earned and not yet paid out */
+  balance: number
+  /** Net amounts of the seller's sales still held in escrow */
+  pending: number
+  /** Paid out in batches not yet confirmed by the bank */
+  processing: number
+  /** Paid out in confirmed batches */
+  paidOut: number
+}
+
+/**
+ * Balance, pending funds and payout totals for a seller
+ */
+export async function getSellerPayoutSummary(
+  sellerId: string,
+  db: Prisma.TransactionClient = prisma
+): Promise<SellerPayoutSummary> {
+  const [ledger, held, processing, paidOut] = await Promise.all([
+    db.ledgerEntry.aggregate({ where: { sellerId }, _sum: { amount: true } }),
+    db.transaction.aggregate({
+      where: { sellerId, status: { in: HELD_TRANSACTION_STATUSES } },
+      _sum: { netAmount: true },
+    }),
+    db.payout.aggregate({
+      where: { sellerId, batch: { status: 'PENDING' } },
+      _sum: { amount: true },
+    }),
+    db.payout.aggregate({
+      where: { sellerId, batch: { status: 'PAID' } },
+      _sum: { amount: true },
+    }),
+  ])
+
+  return {
+    balance: ledger._sum.amount?.toNumber() ?? 0,
+    pending: held._sum.netAmount?.toNumber() ?? 0,
+    processing: processing._sum.amount?.toNumber() ?? 0,
+    paidOut: paidOut._sum.amount?.toNumber() ?? 0,
+  }
+}
+
+/**
+ * A seller's most recent ledger entries with the sale or payout they relate to
+ */
+export async function getSellerLedgerEntries(
+  sellerId: string,
+  limit: number = 50,
+  db: Prisma.TransactionClient = prisma
+) {
+  return await db.ledgerEntry.findMany({
+    where: { sellerId },
+    include: {
+      transaction: { select: { id: true, listing: { select: { title: true } } } },
+      payout: { select: { reference: true } },
+    },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  })
+}
+
+/**
+ * A seller's payouts, newest first
+ */
+export async function getSellerPayouts(sellerId: string, db: Prisma.TransactionClient = prisma) {
+  return await db.payout.findMany({
+    where: { sellerId },
+    include: { batch: { select: { status: true, paidAt: true } } },
+    orderBy: { createdAt: 'desc' },
+  })
+}
@@ -0,0 +1,85 @@
+/**
+ * Ledger Reconciliation
+ *
+ * Checks the ledger against Transaction rows: the entries for a transaction
+ * must sum to its netAmount once it is COMPLETED or REFUNDED, and to zero
+ * before that.
+ */
+
+import type { Prisma, TransactionStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+
+const SETTLED_STATUSES: TransactionStatus[] = ['COMPLETED', 'REFUNDED']
+
+export interface LedgerDiscrepancy {
+  transactionId: string
+  status: TransactionStatus
+  expected: number
+  recorded: number
+}
+
+/**
+ * Compare transactions with the ledger totals recorded against them
+ *
+ * @param transactions - Transactions to check
+ * @param recorded - Sum of ledger entries per transaction ID
+ */
+export function findLedgerDiscrepancies(
+  transactions: { id: string; status: TransactionStatus; netAmount: number }[],
+  recorded: Map<string, number>
+): LedgerDiscrepancy[] {
+  const discrepancies: LedgerDiscrepancy[] = []
+
+  for (const transaction of transactions) {
+    const expected = SETTLED_STATUSES.includes(transaction.status) ? transaction.netAmount : 0
+    const total = recorded.get(transaction.id) ?? 0
+
+    // Compare in cents to avoid floating point noise
+    if (Math.round(expected * 100) !== Math.round(total * 100)) {
+      discrepancies.push({
+        transactionId: transaction.id,
+        status: transaction.status,
+        expected,
+        recorded: total,
+      })
+    }
+  }
+
+  return discrepancies
+}
+
+/**
+ * Reconcile every settled transaction and every transaction with ledger entries
+ */
+export async function getLedgerDiscrepancies(
+  db: Prisma.TransactionClient = prisma
+): Promise<{ checked: number; discrepancies: LedgerDiscrepancy[] }> {
+  const totals = await db.ledgerEntry.groupBy({
+    by: ['transactionId'],
+    where: { transactionId: { not: null } },
+    _sum: { amount: true },
+  })
+
+  const recorded = new Map(
+    totals.map((total) => [total.transactionId!, total._sum.amount?.toNumber() ?? 0])
+  )
+
+  const transactions = await db.transaction.findMany({
+    where: {
+      OR: [{ status: { in: SETTLED_STATUSES } }, { id: { in: [...recorded.keys()] } }],
+    },
+    select: { id: true, status: true, netAmount: true },
+  })
+
+  return {
+    checked: transactions.length,
+    discrepancies: findLedgerDiscrepancies(
+      transactions.map((transaction) => ({
+        id: transaction.id,
+        status: transaction.status,
+        netAmount: transaction.netAmount.toNumber(),
+      })),
+      recorded
+    ),
+  }
+}
@@ -11,8 +11,26 @@
  * - Leverage indexed fields for filtering
  */
 
-import { Prisma } from '@prisma/client';
+import { Prisma, type TransactionStatus } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
+import { getOfferExpiry, OPEN_OFFER_STATUSES } from '@/lib/offers/eligibility';
+import { resolveCheckoutPrice } from '@/lib/checkout/eligibility';
+import { getCommissionQuote, toCommissionSnapshot } from '@/lib/commission/quote';
+import { CHECKOUT_ERROR_CODES, CheckoutError, createAlreadySoldError } from '@/lib/checkout/errors';
+
+/**
+ * User fields that anyone may see. Email and phone are left out: they are
+ * only shared with the other party once an order has been paid.
+ */
+export const publicUserSelect = {
+  id: true,
+  name: true,
+  city: true,
+  province: true,
+  rating: true,
+  reviewCount: true,
+  createdAt: true,
+} satisfies Prisma.UserSelect;
 
 // ============================================================================
 // LISTING QUERIES
@@ -101,17 +119,7 @@ export async function getListingById(id: string) {
     where: { id },
     include: {
       seller: {
-        select: {
-          id: true,
-          name: true,
-          email: true,
-          phone: true,
-          city: true,
-          province: true,
-          rating: true,
-          reviewCount: true,
-          createdAt: true,
-        },
+        select: publicUserSelect,
       },
       offers: {
         where: {
@@ -135,7 +143,8 @@ export async function getListingById(id: string) {
           },
         },
       },
-      transaction: {
+      transactions: {
+        where: { status: { not: 'CANCELLED' } },
         select: {
           id: true,
           status: true,
@@ -379,47 +388,85 @@ export async function getAdminAnalytics() {
 /**
  * Create a transaction from an accepted offer or direct purchase
  *
+ * The listing is re-read inside the database transaction and claimed with a
+ * conditional APPROVED → SOLD update, so only one of several concurrent
+ * buyers can succeed. The price comes from the database: the asking price
+ * for FIXED listings, or the buyer's accepted offer for OFFERS listings.
+ * Commission comes from the commission rules and the rule used is recorded.
+ *
  * @param data - Transaction creation data
  * @returns Created transaction
+ * @throws CheckoutError when the listing cannot be bought; the unique index
+ * on non-cancelled transactions per listing (P2002) backs up the claim
  */
 export async function createTransaction(data: {
   listingId: string;
   buyerId: string;
-  sellerId: string;
-  amount: number;
   paymentMethod?: string;
 }) {
-  const commission = data.amount * 0.2; // 20% commission
-  const netAmount = data.amount - commission;
-
   return await prisma.$transaction(async (tx) => {
+    const listing = await tx.listing.findUnique({
+      where: { id: data.listingId },
+      select: { sellerId: true, status: true, pricingType: true, price: true, categoryId: true },
+    });
+
+    if (!listing) {
+      throw new CheckoutError(CHECKOUT_ERROR_CODES.LISTING_NOT_FOUND, 'Listing not found');
+    }
+
+    const acceptedOffer = await getAcceptedOfferForBuyer(data.listingId, data.buyerId, tx);
+
+    const amount = resolveCheckoutPrice(
+      {
+        sellerId: listing.sellerId,
+        status: listing.status,
+        pricingType: listing.pricingType,
+        price: listing.price ? listing.price.toNumber() : null,
+      },
+      data.buyerId,
+      acceptedOffer ? (acceptedOffer.agreedAmount ?? acceptedOffer.amount).toNumber() : null
+    );
+
+    // Claim the listing: a concurrent checkout blocks on the row lock and
+    // then matches no rows once this one commits
+    const claimed = await tx.listing.updateMany({
+      where: { id: data.listingId, status: 'APPROVED' },
+      data: {
+        status: 'SOLD',
+        soldAt: new Date(),
+      },
+    });
+
+    if (claimed.count === 0) {
+      throw createAlreadySoldError();
+    }
+
+    const quote = await getCommissionQuote(
+      { price: amount, sellerId: listing.sellerId, categoryId: listing.categoryId },
+      tx
+    );
+
     // Create transaction
     const transaction = await tx.transaction.create({
       data: {
         listingId: data.listingId,
         buyerId: data.buyerId,
-        sellerId: data.sellerId,
-        amount: data.amount,
-        commission,
-        netAmount,
+        sellerId: listing.sellerId,
+        amount,
+        commission: quote.commission,
+        netAmount: quote.netAmount,
+        commissionRuleId: quote.rule?.id ?? null,
+        commissionRate: quote.rate,
+        commissionSnapshot: toCommissionSnapshot(quote),
         paymentMethod: data.paymentMethod,
       },
     });
 
-    // Mark listing as SOLD
-    await tx.listing.update({
-      where: { id: data.listingId },
-      data: {
-        status: 'SOLD',
-        soldAt: new Date(),
-      },
-    });
-
-    // Mark all offers for this listing as EXPIRED
+    // Mark all open offers for this listing as EXPIRED
     await tx.offer.updateMany({
       where: {
         listingId: data.listingId,
-        status: { in: ['PENDING', 'COUNTERED'] },
+        status: { in: OPEN_OFFER_STATUSES },
       },
       data: { status: 'EXPIRED' },
     });
@@ -428,6 +475,182 @@ export async function createTransaction(data: {
   });
 }
 
+/**
+ * Get a transaction for one of its parties
+ *
+ * @param transactionId - Transaction ID
+ * @param userId - Buyer or seller user ID
+ * @returns Transaction with listing, both parties and any problem report, or
+ * null if not found or the user is not a party to it
+ */
+export async function getTransactionForUser(transactionId: string, userId: string) {
+  return await prisma.transaction.findFirst({
+    where: {
+      id: transactionId,
+      OR: [{ buyerId: userId }, { sellerId: userId }],
+    },
+    include: {
+      listing: {
+        select: {
+          id: true,
+          title: true,
+          primaryImage: true,
+          city: true,
+          province: true,
+        },
+      },
+      buyer: {
+        select: { id: true, name: true },
+      },
+      seller: {
+        select: { id: true, name: true },
+      },
+      dispute: {
+        select: {
+          reason: true,
+          description: true,
+          status: true,
+          evidenceUrls: true,
+          sellerResponse: true,
+          resolution: true,
+          refundAmount: true,
+          resolutionNote: true,
+          createdAt: true,
+        },
+      },
+      reviews: {
+        select: {
+          id: true,
+          reviewerId: true,
+          rating: true,
+          comment: true,
+          status: true,
+          reply: true,
+          repliedAt: true,
+          createdAt: true,
+        },
+      },
+    },
+  });
+}
+
+// ============================================================================
+// PURCHASE QUERIES
+// ============================================================================
+
+/**
+ * Get a buyer's purchases, newest first
+ *
+ * @param buyerId - Buyer user ID
+ * @param statuses - Only include transactions in these statuses
+ * @returns Purchases with listing, seller and the buyer's review, if any
+ */
+export async function getPurchasesForBuyer(buyerId: string, statuses?: TransactionStatus[]) {
+  return await prisma.transaction.findMany({
+    where: {
+      buyerId,
+      ...(statuses && { status: { in: statuses } }),
+    },
+    orderBy: { createdAt: 'desc' },
+    include: {
+      listing: {
+        select: {
+          id: true,
+          title: true,
+          primaryImage: true,
+        },
+      },
+      seller: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+      reviews: {
+        where: { reviewerId: buyerId },
+        select: {
+          id: true,
+          rating: true,
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Count a buyer's purchases per transaction status
+ *
+ * @param buyerId - Buyer user ID
+ * @returns Map of status to purchase count
+ */
+export async function getPurchaseCountsForBuyer(buyerId: string) {
+  const groups = await prisma.transaction.groupBy({
+    by: ['status'],
+    where: { buyerId },
+    _count: { _all: true },
+  });
+
+  return new Map(groups.map((group) => [group.status, group._count._all]));
+}
+
+/**
+ * Get one of a buyer's purchases with seller contact details and its history
+ *
+ * @param transactionId - Transaction ID
+ * @param buyerId - Buyer user ID
+ * @returns Purchase, or null if it does not exist or belongs to another buyer
+ */
+export async function getPurchaseForBuyer(transactionId: string, buyerId: string) {
+  return await prisma.transaction.findFirst({
+    where: { id: transactionId, buyerId },
+    include: {
+      listing: {
+        select: {
+          id: true,
+          title: true,
+          primaryImage: true,
+          city: true,
+          province: true,
+        },
+      },
+      seller: {
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          phone: true,
+          city: true,
+          province: true,
+          rating: true,
+          reviewCount: true,
+        },
+      },
+      dispute: {
+        select: {
+          reason: true,
+          status: true,
+          resolution: true,
+          createdAt: true,
+          sellerRespondedAt: true,
+          resolvedAt: true,
+        },
+      },
+      reviews: {
+        select: {
+          id: true,
+          reviewerId: true,
+          rating: true,
+          comment: true,
+          status: true,
+          reply: true,
+          repliedAt: true,
+          createdAt: true,
+        },
+      },
+    },
+  });
+}
+
 // ============================================================================
 // OFFER QUERIES
 // ============================================================================
@@ -436,21 +659,33 @@ export async function createTransaction(data: {
  * Create a new offer on a listing
  *
  * @param data - Offer creation data
+ * @param db - Prisma client or interactive transaction client
  * @returns Created offer
  */
-export async function createOffer(data: {
-  listingId: string;
-  buyerId: string;
-  amount: number;
-  message?: string;
-}) {
-  const expiresAt = new Date();
-  expiresAt.setHours(expiresAt.getHours() + 48); // 48 hours from now
+export async function createOffer(
+  data: {
+    listingId: string;
+    buyerId: string;
+    amount: number;
+    message?: string;
+  },
+  db: Prisma.TransactionClient = prisma
+) {
+  const expiresAt = getOfferExpiry(); // 48 hours from now
 
-  return await prisma.offer.create({
+  return await db.offer.create({
     data: {
       ...data,
       expiresAt,
+      // The opening move of the negotiation thread
+      moves: {
+        create: {
+          party: 'BUYER',
+          type: 'OFFER',
+          amount: data.amount,
+          message: data.message,
+        },
+      },
     },
     include: {
       listing: {
@@ -468,6 +703,54 @@ export async function createOffer(data: {
   });
 }
 
+/**
+ * Get the buyer's open (PENDING or COUNTERED, not yet expired) offer on a listing
+ *
+ * @param listingId - Listing ID
+ * @param buyerId - Buyer user ID
+ * @param db - Prisma client or interactive transaction client
+ * @returns Most recent open offer with its negotiation moves, or null
+ */
+export async function getOpenOfferForBuyer(
+  listingId: string,
+  buyerId: string,
+  db: Prisma.TransactionClient = prisma
+) {
+  return await db.offer.findFirst({
+    where: {
+      listingId,
+      buyerId,
+      status: { in: OPEN_OFFER_STATUSES },
+      expiresAt: { gt: new Date() },
+    },
+    orderBy: { createdAt: 'desc' },
+    include: {
+      moves: {
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+}
+
+/**
+ * Get the buyer's accepted offer on a listing, which sets the checkout price
+ *
+ * @param listingId - Listing ID
+ * @param buyerId - Buyer user ID
+ * @param db - Prisma client or interactive transaction client
+ * @returns Accepted offer, or null
+ */
+export async function getAcceptedOfferForBuyer(
+  listingId: string,
+  buyerId: string,
+  db: Prisma.TransactionClient = prisma
+) {
+  return await db.offer.findFirst({
+    where: { listingId, buyerId, status: 'ACCEPTED' },
+    select: { id: true, amount: true, agreedAmount: true },
+  });
+}
+
 /**
  * Get offers for a specific listing
  *
@@ -491,20 +774,305 @@ export async function getOffersForListing(listingId: string) {
   });
 }
 
+/**
+ * Get a seller's listings that have received offers, with offers grouped per listing
+ *
+ * @param sellerId - Seller user ID
+ * @returns Listings (most recently updated first) with their offers, newest first,
+ * each with its negotiation moves
+ */
+export async function getOffersForSeller(sellerId: string) {
+  return await prisma.listing.findMany({
+    where: {
+      sellerId,
+      offers: { some: {} },
+    },
+    orderBy: { updatedAt: 'desc' },
+    select: {
+      id: true,
+      title: true,
+      primaryImage: true,
+      status: true,
+      pricingType: true,
+      price: true,
+      minOffer: true,
+      autoDeclineBelow: true,
+      autoCounterAt: true,
+      autoAcceptAt: true,
+      offers: {
+        orderBy: { createdAt: 'desc' },
+        select: {
+          id: true,
+          amount: true,
+          message: true,
+          status: true,
+          counterAmount: true,
+          agreedAmount: true,
+          moveCount: true,
+          expiresAt: true,
+          createdAt: true,
+          respondedAt: true,
+          moves: {
+            orderBy: { createdAt: 'asc' },
+          },
+          buyer: {
+            select: {
+              id: true,
+              name: true,
+              rating: true,
+              reviewCount: true,
+            },
+          },
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Get the offers a buyer has made, newest first
+ *
+ * @param buyerId - Buyer user ID
+ * @returns Offers with their listing, seller and negotiation moves
+ */
+export async function getOffersForBuyer(buyerId: string) {
+  return await prisma.offer.findMany({
+    where: { buyerId },
+    orderBy: { lastMoveAt: 'desc' },
+    include: {
+      listing: {
+        select: {
+          id: true,
+          title: true,
+          primaryImage: true,
+          status: true,
+          seller: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+      },
+      moves: {
+        orderBy: { createdAt: 'asc' },
+      },
+    },
+  });
+}
+
+// ============================================================================
+// PUBLIC PROFILE QUERIES
+// ============================================================================
+
+/**
+ * Get a user's public profile with their completed-sale count
+ *
+ * @param userId - User ID
+ * @returns Public profile, or null if the user does not exist
+ */
+export async function getPublicProfile(userId: string) {
+  const [user, completedSales] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: userId },
+      select: publicUserSelect,
+    }),
+    prisma.transaction.count({
+      where: { sellerId: userId, status: 'COMPLETED' },
+    }),
+  ]);
+
+  return user ? { ...user, completedSales } : null;
+}
+
+/**
+ * Count a user's visible reviews per star rating
+ *
+ * @param userId - User ID (as reviewee)
+ * @returns One entry per rating that has reviews
+ */
+export async function getRatingCounts(userId: string) {
+  const groups = await prisma.review.groupBy({
+    by: ['rating'],
+    where: { revieweeId: userId, status: 'VISIBLE' },
+    _count: { _all: true },
+  });
+
+  return groups.map((group) => ({ rating: group.rating, count: group._count._all }));
+}
+
+/**
+ * Get a seller's approved listings a page at a time, newest first
+ *
+ * @param sellerId - Seller's user ID
+ * @param page - 1-based page number
+ * @param pageSize - Listings per page
+ * @returns The page of listings and the total number of approved listings
+ */
+export async function getActiveListingsForSeller(sellerId: string, page = 1, pageSize = 12) {
+  const where: Prisma.ListingWhereInput = { sellerId, status: 'APPROVED' };
+
+  const [listings, totalCount] = await Promise.all([
+    prisma.listing.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (Math.max(page, 1) - 1) * pageSize,
+      take: pageSize,
+      select: {
+        id: true,
+        title: true,
+        pricingType: true,
+        price: true,
+        condition: true,
+        primaryImage: true,
+        city: true,
+        createdAt: true,
+      },
+    }),
+    prisma.listing.count({ where }),
+  ]);
+
+  return { listings, totalCount };
+}
+
+// ============================================================================
+// MESSAGE QUERIES
+// ============================================================================
+
+/**
+ * Where clause for messages a user has received but not read
+ */
+const unreadMessagesWhere = (userId: string): Prisma.MessageWhereInput => ({
+  readAt: null,
+  status: 'SENT',
+  senderId: { not: userId },
+  conversation: { OR: [{ buyerId: userId }, { sellerId: userId }] },
+});
+
+/**
+ * Where clause for messages a participant can see: delivered messages and
+ * their own held or blocked ones
+ */
+const visibleMessagesWhere = (userId: string): Prisma.MessageWhereInput => ({
+  OR: [{ status: 'SENT' }, { senderId: userId }],
+});
+
+/**
+ * Get a user's conversations, most recently active first, with the last
+ * message and the number of unread messages in each. Threads whose only
+ * messages are held from the user are left out.
+ *
+ * @param userId - Buyer or seller
+ * @returns Conversations with unreadCount
+ */
+export async function getConversationsForUser(userId: string) {
+  const [conversations, unread] = await Promise.all([
+    prisma.conversation.findMany({
+      where: {
+        OR: [{ buyerId: userId }, { sellerId: userId }],
+        messages: { some: visibleMessagesWhere(userId) },
+      },
+      orderBy: { lastMessageAt: 'desc' },
+      take: 100,
+      include: {
+        listing: { select: { id: true, title: true, primaryImage: true } },
+        buyer: { select: { id: true, name: true } },
+        seller: { select: { id: true, name: true } },
+        messages: {
+          where: visibleMessagesWhere(userId),
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          select: { body: true, senderId: true, createdAt: true, readAt: true, status: true },
+        },
+      },
+    }),
+    prisma.message.groupBy({
+      by: ['conversationId'],
+      where: unreadMessagesWhere(userId),
+      _count: { _all: true },
+    }),
+  ]);
+
+  const unreadCounts = new Map(unread.map((group) => [group.conversationId, group._count._all]));
+
+  return conversations.map((conversation) => ({
+    ...conversation,
+    unreadCount: unreadCounts.get(conversation.id) ?? 0,
+  }));
+}
+
+/**
+ * Count the messages a user has received but not read
+ *
+ * @param userId - Buyer or seller
+ */
+export async function getUnreadMessageCount(userId: string) {
+  return await prisma.message.count({ where: unreadMessagesWhere(userId) });
+}
+
+/**
+ * Get a conversation with its listing and every message, oldest first
+ * Callers must check the viewer may read it (see lib/messaging/access) and
+ * hide held and blocked messages from the recipient (isMessageVisibleTo)
+ *
+ * @param id - Conversation ID
+ */
+export async function getConversation(id: string) {
+  return await prisma.conversation.findUnique({
+    where: { id },
+    include: {
+      listing: {
+        select: {
+          id: true,
+          title: true,
+          primaryImage: true,
+          pricingType: true,
+          price: true,
+          status: true,
+        },
+      },
+      buyer: { select: { id: true, name: true } },
+      seller: { select: { id: true, name: true } },
+      messages: {
+        orderBy: { createdAt: 'asc' },
+        select: {
+          id: true,
+          senderId: true,
+          body: true,
+          createdAt: true,
+          readAt: true,
+          status: true,
+          scanAction: true,
+          scanRules: true,
+        },
+      },
+    },
+  });
+}
+
 // ============================================================================
 // REVIEW QUERIES
 // ============================================================================
 
 /**
- * Get reviews for a user (as reviewee)
+ * Get reviews for a user (as reviewee), including the user's replies
+ *
+ * Public callers only see VISIBLE reviews; pass includeHidden when showing a
+ * user their own reviews so they can see what moderation took down.
  *
  * @param userId - User ID
+ * @param options - includeHidden to return HIDDEN and REMOVED reviews too,
+ *   limit to return only the most recent reviews
  * @returns User's reviews
  */
-export async function getUserReviews(userId: string) {
+export async function getUserReviews(
+  userId: string,
+  { includeHidden = false, limit }: { includeHidden?: boolean; limit?: number } = {}
+) {
   return await prisma.review.findMany({
-    where: { revieweeId: userId },
+    where: { revieweeId: userId, ...(includeHidden ? {} : { status: 'VISIBLE' as const }) },
     orderBy: { createdAt: 'desc' },
+    ...(limit && { take: limit }),
     include: {
       reviewer: {
         select: {
@@ -525,3 +1093,143 @@ export async function getUserReviews(userId: string) {
     },
   });
 }
+
+/**
+ * Get reviews a user has written, whatever their moderation status
+ *
+ * @param userId - Reviewer's user ID
+ * @returns Reviews written by the user
+ */
+export async function getReviewsByUser(userId: string) {
+  return await prisma.review.findMany({
+    where: { reviewerId: userId },
+    orderBy: { createdAt: 'desc' },
+    include: {
+      reviewee: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+      transaction: {
+        select: {
+          id: true,
+          listing: {
+            select: {
+              title: true,
+            },
+          },
+        },
+      },
+    },
+  });
+}
+
+// ============================================================================
+// NOTIFICATION QUERIES
+// ============================================================================
+
+/**
+ * Get a user's most recent notifications, newest first
+ * Render them with renderNotification from lib/notifications/kinds
+ *
+ * @param userId - User the notifications belong to
+ * @param limit - Maximum number to return
+ */
+export async function getNotifications(userId: string, limit = 50) {
+  return await prisma.notification.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+}
+
+/**
+ * Count a user's unread notifications
+ *
+ * @param userId - User the notifications belong to
+ */
+export async function getUnreadNotificationCount(userId: string) {
+  return await prisma.notification.count({ where: { userId, readAt: null } });
+}
+
+// ============================================================================
+// SAVED SEARCH QUERIES
+// ============================================================================
+
+/**
+ * Get a user's saved searches, newest first
+ * Read their filters with parseSavedSearchFilters from lib/saved-searches/alerts
+ *
+ * @param userId - User the searches belong to
+ */
+export async function getSavedSearches(userId: string) {
+  return await prisma.savedSearch.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+// ============================================================================
+// WATCHLIST QUERIES
+// ============================================================================
+
+/**
+ * Get the listings a user is watching, most recently watched first
+ * Includes sold and paused listings so the user can see what happened to them
+ *
+ * @param userId - User the watchlist belongs to
+ */
+export async function getWatchlist(userId: string) {
+  return await prisma.watchlistItem.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'desc' },
+    select: {
+      createdAt: true,
+      listing: {
+        select: {
+          id: true,
+          title: true,
+          price: true,
+          pricingType: true,
+          condition: true,
+          primaryImage: true,
+          city: true,
+          status: true,
+          createdAt: true,
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Which of the given listings a user is watching
+ *
+ * @param userId - Viewer; pass null for guests
+ * @param listingIds - Listings shown on the page
+ */
+export async function getWatchedListingIds(
+  userId: string | null,
+  listingIds: string[]
+): Promise<Set<string>> {
+  if (!userId || listingIds.length === 0) {
+    return new Set();
+  }
+
+  const items = await prisma.watchlistItem.findMany({
+    where: { userId, listingId: { in: listingIds } },
+    select: { listingId: true },
+  });
+
+  return new Set(items.map((item) => item.listingId));
+}
+
+/**
+ * Count the users watching a listing
+ *
+ * @param listingId - Listing to count watchers for
+ */
+export async function getWatcherCount(listingId: string) {
+  return await prisma.watchlistItem.count({ where: { listingId } });
+}
@@ -0,0 +1,69 @@
+/**
+ * Realtime Events
+ *
+ * Every event streamed to a user over /api/events, keyed by type with the
+ * payload it carries. Payloads are small pointers; clients refetch the page
+ * data they affect. Kept free of server imports so client components can use it.
+ */
+
+import type { ListingStatus, NotificationType, OfferStatus } from '@prisma/client'
+
+export type RealtimeEventMap = {
+  /** A message was delivered to the user, or a held message was released */
+  'message.created': { conversationId: string; messageId: string }
+  /** An offer the user is part of was made or answered */
+  'offer.updated': { offerId: string; listingId: string; status: OfferStatus }
+  /** An admin approved or rejected one of the user's listings */
+  'listing.moderated': { listingId: string; title: string; status: ListingStatus }
+  /** A notification was added to the user's notification center */
+  'notification.created': { notificationId: string; type: NotificationType }
+}
+
+export type RealtimeEventType = keyof RealtimeEventMap
+
+export const REALTIME_EVENT_TYPES: RealtimeEventType[] = [
+  'message.created',
+  'offer.updated',
+  'listing.moderated',
+  'notification.created',
+]
+
+/**
+ * An event as published, before the publisher assigns its ID
+ */
+export type RealtimeEventInput<T extends RealtimeEventType = RealtimeEventType> = {
+  [K in T]: { type: K; data: RealtimeEventMap[K] }
+}[T]
+
+/**
+ * An event as streamed; IDs increase so a reconnecting client can ask for
+ * everything after the last one it saw
+ */
+export type RealtimeEvent<T extends RealtimeEventType = RealtimeEventType> = RealtimeEventInput<T> & {
+  id: string
+}
+
+const OFFER_STATUS_TEXT: Partial<Record<OfferStatus, string>> = {
+  PENDING: 'You have a new offer',
+  COUNTERED: 'You have a counter-offer',
+  ACCEPTED: 'An offer was accepted',
+  REJECTED: 'An offer was declined',
+}
+
+/**
+ * One-line summary of an event for toasts
+ */
+export function describeRealtimeEvent(event: RealtimeEvent): string {
+  switch (event.type) {
+    case 'message.created':
+      return 'You have a new message'
+    case 'offer.updated':
+      return OFFER_STATUS_TEXT[event.data.status] ?? 'An offer was updated'
+    case 'listing.moderated':
+      return event.data.status === 'APPROVED'
+        ? `"${event.data.title}" was approved and is now live`
+        : `"${event.data.title}" was not approved`
+    case 'notification.created':
+      return 'You have a new notification'
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * In-Process Realtime Publisher
+ *
+ * Delivers events to subscribers in this Node process and keeps the most
+ * recent ones so a client reconnecting with Last-Event-ID catches up.
+ * IDs count up from the boot time in milliseconds, so an ID from before a
+ * restart is lower than every new one and the whole buffer is replayed.
+ */
+
+import type { RealtimeEvent } from './events'
+import type { RealtimeListener, RealtimePublisher } from './types'
+
+const DEFAULT_BUFFER_SIZE = 500
+
+export function createMemoryPublisher(
+  options: { bufferSize?: number; startId?: number } = {}
+): RealtimePublisher {
+  const bufferSize = options.bufferSize ?? DEFAULT_BUFFER_SIZE
+  let sequence = options.startId ?? Date.now()
+
+  const listeners = new Map<string, Set<RealtimeListener>>()
+  // Shared across users so memory stays bounded however many users there are
+  const history: { event: RealtimeEvent; userIds: Set<string> }[] = []
+
+  const deliver = (listener: RealtimeListener, event: RealtimeEvent) => {
+    try {
+      listener(event)
+    } catch (error) {
+      console.error('Realtime listener error:', error)
+    }
+  }
+
+  return {
+    async publish(userIds, input) {
+      const event = { ...input, id: String(++sequence) } as RealtimeEvent
+      const recipients = new Set(userIds)
+
+      history.push({ event, userIds: recipients })
+      if (history.length > bufferSize) {
+        history.splice(0, history.length - bufferSize)
+      }
+
+      for (const userId of recipients) {
+        for (const listener of listeners.get(userId) ?? []) {
+          deliver(listener, event)
+        }
+      }
+    },
+
+    subscribe(userId, listener, { lastEventId } = {}) {
+      const after = lastEventId ? Number(lastEventId) : NaN
+      if (Number.isFinite(after)) {
+        for (const entry of history) {
+          if (Number(entry.event.id) > after && entry.userIds.has(userId)) {
+            deliver(listener, entry.event)
+          }
+        }
+      }
+
+      const userListeners = listeners.get(userId) ?? new Set()
+      userListeners.add(listener)
+      listeners.set(userId, userListeners)
+
+      return () => {
+        userListeners.delete(listener)
+        if (userListeners.size === 0 && listeners.get(userId) === userListeners) {
+          listeners.delete(userId)
+        }
+      }
+    },
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Realtime Publisher Selection
+ *
+ * Server actions and the /api/events route can be bundled separately, so the
+ * publisher lives on globalThis to make sure both see the same instance.
+ * Swap createMemoryPublisher for a LISTEN/NOTIFY-backed publisher here to
+ * run more than one server instance.
+ */
+
+import type { RealtimeEventInput, RealtimeEventMap, RealtimeEventType } from './events'
+import { createMemoryPublisher } from './memory'
+import type { RealtimePublisher } from './types'
+
+const globalForRealtime = globalThis as unknown as {
+  realtimePublisher: RealtimePublisher | undefined
+}
+
+export function getRealtimePublisher(): RealtimePublisher {
+  globalForRealtime.realtimePublisher ??= createMemoryPublisher()
+  return globalForRealtime.realtimePublisher
+}
+
+/**
+ * Publish an event to users after a change has been committed
+ * Failures are logged, never thrown: the change itself has already succeeded
+ */
+export async function publishRealtimeEvent<T extends RealtimeEventType>(
+  userIds: string[],
+  type: T,
+  data: RealtimeEventMap[T]
+): Promise<void> {
+  try {
+    await getRealtimePublisher().publish(userIds, { type, data } as RealtimeEventInput)
+  } catch (error) {
+    console.error('Realtime publish error:', error)
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Server-Sent Events Framing
+ *
+ * Wire format for /api/events (see the HTML spec's text/event-stream).
+ */
+
+import type { RealtimeEvent } from './events'
+
+// How long the browser waits before reconnecting a dropped stream
+export const SSE_RETRY_MS = 3000
+
+// Comment line sent periodically so proxies do not close an idle stream
+export const SSE_HEARTBEAT = ': heartbeat\n\n'
+
+/**
+ * Frame an event; the JSON payload never contains a raw line break
+ */
+export function formatSseEvent(event: RealtimeEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`
+}
+
+/**
+ * First frame of a stream, setting the reconnection delay
+ */
+export function formatSseRetry(retryMs: number = SSE_RETRY_MS): string {
+  return `retry: ${retryMs}\n\n`
+}
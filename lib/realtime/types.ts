@@ -0,0 +1,30 @@
+/**
+ * Realtime Publisher Types
+ */
+
+import type { RealtimeEvent, RealtimeEventInput } from './events'
+
+export type RealtimeListener = (event: RealtimeEvent) => void
+
+/**
+ * Fans events out to the streams open for each user
+ *
+ * The in-process implementation only reaches streams held by the same server
+ * instance. A Postgres LISTEN/NOTIFY implementation would NOTIFY in publish,
+ * LISTEN once per instance to deliver to local subscribers, and replay from
+ * an events table keyed by a sequence.
+ */
+export interface RealtimePublisher {
+  /**
+   * Deliver an event to every open stream of the given users
+   */
+  publish(userIds: string[], event: RealtimeEventInput): Promise<void>
+
+  /**
+   * Listen for a user's events
+   *
+   * @param options.lastEventId - Replay buffered events published after this ID
+   * @returns Function that stops listening
+   */
+  subscribe(userId: string, listener: RealtimeListener, options?: { lastEventId?: string | null }): () => void
+}
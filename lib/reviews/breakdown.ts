@@ -0,0 +1,32 @@
+/**
+ * Rating Breakdown
+ *
+ * Turns per-star review counts into the rows of a profile's rating
+ * histogram, highest rating first, with every star present.
+ */
+
+import { MAX_RATING, MIN_RATING } from './policy'
+
+export interface RatingBreakdownRow {
+  rating: number
+  count: number
+  /** Share of all reviews, rounded to a whole percent */
+  percent: number
+}
+
+/**
+ * Build the histogram rows from the counts of ratings that have reviews
+ */
+export function buildRatingBreakdown(counts: { rating: number; count: number }[]): RatingBreakdownRow[] {
+  const total = counts.reduce((sum, entry) => sum + entry.count, 0)
+  const rows: RatingBreakdownRow[] = []
+
+  for (let rating = MAX_RATING; rating >= MIN_RATING; rating--) {
+    const count = counts
+      .filter((entry) => entry.rating === rating)
+      .reduce((sum, entry) => sum + entry.count, 0)
+    rows.push({ rating, count, percent: total > 0 ? Math.round((count / total) * 100) : 0 })
+  }
+
+  return rows
+}
@@ -0,0 +1,95 @@
+/**
+ * Review Moderation
+ *
+ * Reported reviews wait in the admin queue until an admin acts on them:
+ *   HIDE     VISIBLE → HIDDEN           hidden from everyone but the parties and admins
+ *   REMOVE   VISIBLE | HIDDEN → REMOVED final
+ *   RESTORE  HIDDEN → VISIBLE
+ *   DISMISS  status unchanged           the reports were unfounded
+ *
+ * Every decision resolves the review's open reports. Status changes
+ * recompute the reviewee's aggregate, which counts VISIBLE reviews only.
+ */
+
+import type { AdminAction, Prisma, ReviewStatus } from '@prisma/client'
+import type { ReviewModerationAction } from '@/lib/constants/reviews'
+import { recomputeUserRating } from './service'
+
+// Audit log action recorded for each decision
+export const REVIEW_MODERATION_AUDIT_ACTIONS: Record<ReviewModerationAction, AdminAction> = {
+  HIDE: 'HIDE_REVIEW',
+  REMOVE: 'REMOVE_REVIEW',
+  RESTORE: 'RESTORE_REVIEW',
+  DISMISS: 'DISMISS_REVIEW_REPORTS',
+}
+
+/**
+ * Status a review moves to, or null if the action does not apply to its status
+ */
+export function getModeratedStatus(
+  status: ReviewStatus,
+  action: ReviewModerationAction
+): ReviewStatus | null {
+  switch (action) {
+    case 'HIDE':
+      return status === 'VISIBLE' ? 'HIDDEN' : null
+    case 'REMOVE':
+      return status === 'REMOVED' ? null : 'REMOVED'
+    case 'RESTORE':
+      return status === 'HIDDEN' ? 'VISIBLE' : null
+    case 'DISMISS':
+      return status === 'REMOVED' ? null : status
+  }
+}
+
+/**
+ * Apply a moderation decision to a review
+ */
+export async function moderateReview(
+  tx: Prisma.TransactionClient,
+  input: { reviewId: string; action: ReviewModerationAction; moderatorId: string; note?: string | null },
+  now: Date
+): Promise<
+  | { previousStatus: ReviewStatus; status: ReviewStatus; resolvedReports: number }
+  | { error: string }
+> {
+  const review = await tx.review.findUnique({
+    where: { id: input.reviewId },
+    select: { status: true, revieweeId: true },
+  })
+
+  if (!review) {
+    return { error: 'Review not found' }
+  }
+
+  const status = getModeratedStatus(review.status, input.action)
+  if (!status) {
+    return { error: 'This action does not apply to the review in its current state' }
+  }
+
+  if (status !== review.status) {
+    // Conditional on the status we read, so two admins cannot both apply a change
+    const { count } = await tx.review.updateMany({
+      where: { id: input.reviewId, status: review.status },
+      data: {
+        status,
+        moderatedAt: now,
+        moderatedById: input.moderatorId,
+        moderationNote: input.note || null,
+      },
+    })
+
+    if (count === 0) {
+      return { error: 'The review was changed by someone else. Refresh and try again.' }
+    }
+
+    await recomputeUserRating(tx, review.revieweeId)
+  }
+
+  const { count: resolvedReports } = await tx.reviewReport.updateMany({
+    where: { reviewId: input.reviewId, resolvedAt: null },
+    data: { resolvedAt: now },
+  })
+
+  return { previousStatus: review.status, status, resolvedReports }
+}
@@ -0,0 +1,68 @@
+/**
+ * Review Policy
+ *
+ * Once a transaction is COMPLETED, the buyer and the seller may each review
+ * the other:
+ * - Within REVIEW_WINDOW_DAYS of completion
+ * - With a whole-star rating from 1 to 5 and an optional comment
+ * - Editable for REVIEW_EDIT_GRACE_HOURS after it is written, then locked
+ */
+
+import type { TransactionStatus } from '@prisma/client'
+
+export const REVIEW_WINDOW_DAYS = 30
+export const REVIEW_EDIT_GRACE_HOURS = 48
+export const MIN_RATING = 1
+export const MAX_RATING = 5
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+/**
+ * Last moment a review can be written for a transaction completed at `completedAt`
+ */
+export function getReviewDeadline(completedAt: Date): Date {
+  return new Date(completedAt.getTime() + REVIEW_WINDOW_DAYS * DAY_MS)
+}
+
+/**
+ * Last moment a review written at `createdAt` can be edited
+ */
+export function getReviewEditDeadline(createdAt: Date): Date {
+  return new Date(createdAt.getTime() + REVIEW_EDIT_GRACE_HOURS * HOUR_MS)
+}
+
+/**
+ * Whether a transaction is open for reviews
+ */
+export function canWriteReview(
+  transaction: { status: TransactionStatus; completedAt: Date | null },
+  now: Date
+): boolean {
+  return (
+    transaction.status === 'COMPLETED' &&
+    transaction.completedAt !== null &&
+    now <= getReviewDeadline(transaction.completedAt)
+  )
+}
+
+/**
+ * Whether a review is still in its edit grace period
+ */
+export function canEditReview(review: { createdAt: Date }, now: Date): boolean {
+  return now <= getReviewEditDeadline(review.createdAt)
+}
+
+/**
+ * The party a reviewer reviews: the seller for the buyer and vice versa
+ *
+ * @returns Reviewee user ID, or null if the reviewer is not a party to the transaction
+ */
+export function getRevieweeId(
+  transaction: { buyerId: string; sellerId: string },
+  reviewerId: string
+): string | null {
+  if (reviewerId === transaction.buyerId) return transaction.sellerId
+  if (reviewerId === transaction.sellerId) return transaction.buyerId
+  return null
+}
@@ -0,0 +1,177 @@
+/**
+ * Review Service
+ *
+ * Writes reviews, replies and reports, and keeps the reviewee's User.rating
+ * and reviewCount in step with their VISIBLE reviews. Each function runs
+ * inside the caller's interactive transaction; the reviewee's row is locked
+ * before the aggregate is recomputed so concurrent reviews of the same user
+ * cannot overwrite each other's totals.
+ */
+
+import type { Prisma, Review, ReviewReport, ReviewReportReason } from '@prisma/client'
+import { canEditReview, canWriteReview, getRevieweeId, REVIEW_WINDOW_DAYS } from './policy'
+
+export interface ReviewInput {
+  rating: number
+  comment?: string | null
+}
+
+type ReviewResult = { review: Review } | { error: string }
+
+/**
+ * Recompute a user's average rating and review count from their visible reviews
+ */
+export async function recomputeUserRating(tx: Prisma.TransactionClient, userId: string): Promise<void> {
+  await tx.$queryRaw`SELECT 1 FROM "User" WHERE "id" = ${userId} FOR UPDATE`
+
+  const aggregate = await tx.review.aggregate({
+    where: { revieweeId: userId, status: 'VISIBLE' },
+    _avg: { rating: true },
+    _count: { _all: true },
+  })
+
+  await tx.user.update({
+    where: { id: userId },
+    data: {
+      rating: Math.round((aggregate._avg.rating ?? 0) * 100) / 100,
+      reviewCount: aggregate._count._all,
+    },
+  })
+}
+
+/**
+ * Review the other party to a completed transaction
+ */
+export async function createReview(
+  tx: Prisma.TransactionClient,
+  input: ReviewInput & { transactionId: string; reviewerId: string },
+  now: Date
+): Promise<ReviewResult> {
+  const transaction = await tx.transaction.findUnique({
+    where: { id: input.transactionId },
+    select: { buyerId: true, sellerId: true, status: true, completedAt: true },
+  })
+
+  const revieweeId = transaction ? getRevieweeId(transaction, input.reviewerId) : null
+  if (!transaction || !revieweeId) {
+    return { error: 'Order not found' }
+  }
+
+  if (!canWriteReview(transaction, now)) {
+    return { error: `Reviews can only be left within ${REVIEW_WINDOW_DAYS} days of an order completing` }
+  }
+
+  const existing = await tx.review.findUnique({
+    where: {
+      transactionId_reviewerId: { transactionId: input.transactionId, reviewerId: input.reviewerId },
+    },
+    select: { id: true },
+  })
+  if (existing) {
+    return { error: 'You have already reviewed this order' }
+  }
+
+  const review = await tx.review.create({
+    data: {
+      transactionId: input.transactionId,
+      reviewerId: input.reviewerId,
+      revieweeId,
+      rating: input.rating,
+      comment: input.comment || null,
+    },
+  })
+
+  await recomputeUserRating(tx, revieweeId)
+
+  return { review }
+}
+
+/**
+ * Edit a review during its grace period
+ */
+export async function editReview(
+  tx: Prisma.TransactionClient,
+  input: ReviewInput & { reviewId: string; reviewerId: string },
+  now: Date
+): Promise<ReviewResult> {
+  const existing = await tx.review.findFirst({
+    where: { id: input.reviewId, reviewerId: input.reviewerId },
+    select: { id: true, revieweeId: true, status: true, createdAt: true },
+  })
+
+  if (!existing) {
+    return { error: 'Review not found' }
+  }
+
+  // Moderated reviews are locked along with expired ones
+  if (existing.status !== 'VISIBLE' || !canEditReview(existing, now)) {
+    return { error: 'This review can no longer be edited' }
+  }
+
+  const review = await tx.review.update({
+    where: { id: existing.id },
+    data: { rating: input.rating, comment: input.comment || null },
+  })
+
+  await recomputeUserRating(tx, existing.revieweeId)
+
+  return { review }
+}
+
+/**
+ * Publish the reviewee's reply to a visible review; each review takes one reply
+ *
+ * @returns Whether the reply was saved
+ */
+export async function replyToReview(
+  tx: Prisma.TransactionClient,
+  input: { reviewId: string; revieweeId: string; reply: string },
+  now: Date
+): Promise<boolean> {
+  const { count } = await tx.review.updateMany({
+    where: { id: input.reviewId, revieweeId: input.revieweeId, status: 'VISIBLE', reply: null },
+    data: { reply: input.reply, repliedAt: now },
+  })
+
+  return count === 1
+}
+
+/**
+ * Report a review for moderation
+ */
+export async function reportReview(
+  tx: Prisma.TransactionClient,
+  input: { reviewId: string; reporterId: string; reason: ReviewReportReason; details?: string | null }
+): Promise<{ report: ReviewReport } | { error: string }> {
+  const review = await tx.review.findUnique({
+    where: { id: input.reviewId },
+    select: { reviewerId: true, status: true },
+  })
+
+  if (!review || review.status !== 'VISIBLE') {
+    return { error: 'Review not found' }
+  }
+
+  if (review.reviewerId === input.reporterId) {
+    return { error: 'You cannot report your own review' }
+  }
+
+  const existing = await tx.reviewReport.findUnique({
+    where: { reviewId_reporterId: { reviewId: input.reviewId, reporterId: input.reporterId } },
+    select: { id: true },
+  })
+  if (existing) {
+    return { error: 'You have already reported this review' }
+  }
+
+  const report = await tx.reviewReport.create({
+    data: {
+      reviewId: input.reviewId,
+      reporterId: input.reporterId,
+      reason: input.reason,
+      details: input.details || null,
+    },
+  })
+
+  return { report }
+}
@@ -0,0 +1,190 @@
+/**
+ * Saved Search Alerts
+ *
+ * Each run looks for listings approved since a saved search was last checked
+ * that match its filters, and notifies the owner once per search with the
+ * number of matches. Paused searches are skipped, and their window restarts
+ * when they are resumed so old listings are not reported.
+ *
+ * Run from the cron route (app/api/cron/saved-searches) or the CLI
+ * (scripts/run-saved-search-alerts.ts). A search's window is claimed by
+ * moving lastCheckedAt before anything is sent, so overlapping runs never
+ * alert twice for the same listings. A search that fails is logged and hands
+ * its window back for the next run; the other searches carry on.
+ */
+
+import { ListingStatus, type Prisma, type PrismaClient } from '@prisma/client'
+import { prisma as defaultClient } from '@/lib/prisma'
+import { buildListingWhere } from '@/lib/listings/filters'
+import { findSearchMatches } from '@/lib/listings/search'
+import { toListingsSearchParams } from '@/lib/listings/search-params'
+import { notify } from '@/lib/notifications/service'
+import { savedSearchFiltersSchema, type SavedSearchFilters } from '@/lib/validations/saved-search'
+
+export interface SavedSearchAlertSummary {
+  /** Active searches checked */
+  checked: number
+  /** Searches with new matches, one notification each */
+  alerted: number
+  /** New matching listings across all searches */
+  listings: number
+  durationMs: number
+}
+
+/**
+ * Read stored filters
+ *
+ * @returns null when the stored JSON no longer matches the schema
+ */
+export function parseSavedSearchFilters(filters: Prisma.JsonValue): SavedSearchFilters | null {
+  const result = savedSearchFiltersSchema.safeParse(filters)
+  return result.success ? result.data : null
+}
+
+/**
+ * Where clause for listings that are new matches for a search
+ *
+ * @param since - Approved after this time (the last check)
+ * @param until - Approved at or before this time (this check)
+ */
+export function buildNewMatchesWhere(
+  search: { userId: string; filters: SavedSearchFilters },
+  since: Date,
+  until: Date
+): Prisma.ListingWhereInput {
+  return {
+    ...buildListingWhere(search.filters),
+    status: ListingStatus.APPROVED,
+    approvedAt: { gt: since, lte: until },
+    // Sellers are not alerted about their own listings
+    sellerId: { not: search.userId },
+  }
+}
+
+/**
+ * Check every active saved search and notify owners of new matches
+ *
+ * @param options.now - End of the window checked (defaults to now)
+ * @param options.client - Prisma client (scripts pass their own)
+ */
+export async function runSavedSearchAlerts(
+  options: { now?: Date; client?: PrismaClient } = {}
+): Promise<SavedSearchAlertSummary> {
+  const { now = new Date(), client = defaultClient } = options
+  const startedAt = Date.now()
+  const summary: SavedSearchAlertSummary = { checked: 0, alerted: 0, listings: 0, durationMs: 0 }
+
+  const searches = await client.savedSearch.findMany({
+    where: { pausedAt: null, lastCheckedAt: { lt: now } },
+    select: { id: true, userId: true, name: true, filters: true, lastCheckedAt: true },
+  })
+
+  for (const search of searches) {
+    const filters = parseSavedSearchFilters(search.filters)
+    if (!filters) {
+      console.error(`Saved search ${search.id} has invalid filters`)
+      continue
+    }
+
+    try {
+      // Claim the window first so an overlapping run cannot alert for it too
+      const claimed = await client.savedSearch.updateMany({
+        where: { id: search.id, lastCheckedAt: search.lastCheckedAt },
+        data: { lastCheckedAt: now },
+      })
+      if (claimed.count === 0) continue
+
+      summary.checked++
+
+      const { count, newest } = await findNewMatches(
+        client,
+        { userId: search.userId, filters },
+        search.lastCheckedAt,
+        now
+      )
+      if (count === 0 || !newest) continue
+
+      await notify(search.userId, 'SAVED_SEARCH_MATCH', {
+        savedSearchId: search.id,
+        name: search.name,
+        count,
+        title: newest.title,
+        search: toListingsSearchParams(filters),
+      })
+
+      summary.alerted++
+      summary.listings += count
+    } catch (error) {
+      console.error(`Saved search ${search.id} alert error:`, error)
+      await releaseWindow(client, search.id, search.lastCheckedAt, now)
+    }
+  }
+
+  summary.durationMs = Date.now() - startedAt
+  console.log(formatSavedSearchAlertSummary(summary))
+
+  return summary
+}
+
+/**
+ * Hand a claimed window back so the next run checks it again
+ * Only if this run's claim is still in place; failures are logged
+ */
+async function releaseWindow(
+  client: PrismaClient,
+  savedSearchId: string,
+  lastCheckedAt: Date,
+  claimedAt: Date
+): Promise<void> {
+  try {
+    await client.savedSearch.updateMany({
+      where: { id: savedSearchId, lastCheckedAt: claimedAt },
+      data: { lastCheckedAt },
+    })
+  } catch (error) {
+    console.error(`Saved search ${savedSearchId} window release error:`, error)
+  }
+}
+
+/**
+ * Count a search's new matches in the window and find the newest one
+ * A search query goes through full-text search, with the filters applied in the same query
+ */
+async function findNewMatches(
+  client: PrismaClient,
+  search: { userId: string; filters: SavedSearchFilters },
+  since: Date,
+  until: Date
+): Promise<{ count: number; newest: { title: string } | null }> {
+  const page = search.filters.query
+    ? await findSearchMatches(client, search.filters.query, search.filters, {
+        sortBy: 'newest',
+        limit: 1,
+        approvedAfter: since,
+        approvedUntil: until,
+        excludeSellerId: search.userId,
+      })
+    : null
+
+  if (page) {
+    const [match] = page.matches
+    const newest = match
+      ? await client.listing.findUnique({ where: { id: match.id }, select: { title: true } })
+      : null
+    return { count: page.totalCount, newest }
+  }
+
+  const where = buildNewMatchesWhere(search, since, until)
+  const [count, newest] = await Promise.all([
+    client.listing.count({ where }),
+    client.listing.findFirst({ where, orderBy: { approvedAt: 'desc' }, select: { title: true } }),
+  ])
+  return { count, newest }
+}
+
+/**
+ * One-line log entry for a run, e.g. `[saved-searches] checked=40 alerted=6 listings=9 (310ms)`
+ */
+export function formatSavedSearchAlertSummary(summary: SavedSearchAlertSummary): string {
+  return `[saved-searches] checked=${summary.checked} alerted=${summary.alerted} listings=${summary.listings} (${summary.durationMs}ms)`
+}
@@ -0,0 +1,22 @@
+import { z } from 'zod'
+
+// Buyer purchases a listing
+export const checkoutSchema = z.object({
+  listingId: z.string().uuid('Invalid listing ID'),
+})
+
+export type CheckoutFormData = z.infer<typeof checkoutSchema>
+
+// Buyer pays for or cancels a pending order
+export const orderPaymentSchema = z.object({
+  transactionId: z.string().uuid('Invalid order ID'),
+})
+
+export type OrderPaymentFormData = z.infer<typeof orderPaymentSchema>
+
+// Outcome chosen on the local mock payment page
+export const mockPaymentSchema = orderPaymentSchema.extend({
+  outcome: z.enum(['COMPLETED', 'CANCELLED']),
+})
+
+export type MockPaymentFormData = z.infer<typeof mockPaymentSchema>
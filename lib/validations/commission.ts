@@ -0,0 +1,86 @@
+import { z } from 'zod'
+import { CommissionRuleType } from '@prisma/client'
+import { MAX_OFFER_AMOUNT } from './offer'
+
+const money = (label: string) =>
+  z
+    .number({
+      error: `${label} must be a valid number`,
+    })
+    .min(0, `${label} cannot be negative`)
+    .max(MAX_OFFER_AMOUNT, `${label} is too large`)
+    .multipleOf(0.01, `${label} can have at most 2 decimal places`)
+    .nullable()
+
+// YYYY-MM-DD from a date input
+const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date')
+  .nullable()
+
+// Admin creates or updates a commission rule
+export const commissionRuleSchema = z
+  .object({
+    name: z.string().trim().min(2, 'Name must be at least 2 characters').max(100, 'Name is too long'),
+    type: z.nativeEnum(CommissionRuleType, {
+      error: 'Please select a rule type',
+    }),
+    ratePercent: z
+      .number({
+        error: 'Rate must be a valid number',
+      })
+      .min(0, 'Rate cannot be negative')
+      .max(100, 'Rate cannot exceed 100%')
+      .multipleOf(0.01, 'Rate can have at most 2 decimal places'),
+    minFee: money('Minimum fee'),
+    maxFee: money('Maximum fee'),
+    isActive: z.boolean(),
+    categoryId: z.string().uuid('Invalid category').nullable(),
+    minPrice: money('Band start'),
+    maxPrice: money('Band end'),
+    sellerEmail: z.string().trim().toLowerCase().email('Invalid seller email').nullable(),
+    validFrom: dateString,
+    validUntil: dateString,
+  })
+  .superRefine((data, ctx) => {
+    if (data.minFee !== null && data.maxFee !== null && data.minFee > data.maxFee) {
+      ctx.addIssue({ code: 'custom', message: 'Minimum fee must not exceed maximum fee', path: ['maxFee'] })
+    }
+
+    if (data.type === 'CATEGORY' && !data.categoryId) {
+      ctx.addIssue({ code: 'custom', message: 'Select a category', path: ['categoryId'] })
+    }
+
+    if (data.type === 'PRICE_BAND') {
+      if (data.minPrice === null && data.maxPrice === null) {
+        ctx.addIssue({ code: 'custom', message: 'Set a band start, end or both', path: ['minPrice'] })
+      } else if (data.minPrice !== null && data.maxPrice !== null && data.minPrice >= data.maxPrice) {
+        ctx.addIssue({ code: 'custom', message: 'Band end must be above band start', path: ['maxPrice'] })
+      }
+    }
+
+    if (data.type === 'SELLER_PROMO') {
+      if (!data.sellerEmail) {
+        ctx.addIssue({ code: 'custom', message: 'Enter the seller email', path: ['sellerEmail'] })
+      }
+      if (data.validFrom && data.validUntil && data.validFrom >= data.validUntil) {
+        ctx.addIssue({ code: 'custom', message: 'End date must be after start date', path: ['validUntil'] })
+      }
+    }
+  })
+
+export type CommissionRuleFormData = z.infer<typeof commissionRuleSchema>
+
+// Admin previews the fee for a price
+export const commissionPreviewSchema = z.object({
+  price: z
+    .number({
+      error: 'Price must be a valid number',
+    })
+    .positive('Price must be greater than 0')
+    .max(MAX_OFFER_AMOUNT, 'Price is too large'),
+  categoryId: z.string().uuid('Invalid category').nullable(),
+  sellerEmail: z.string().trim().toLowerCase().email('Invalid seller email').nullable(),
+})
+
+export type CommissionPreviewData = z.infer<typeof commissionPreviewSchema>
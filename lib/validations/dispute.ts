@@ -0,0 +1,55 @@
+import { z } from 'zod'
+import { DisputeReason, DisputeResolution } from '@prisma/client'
+
+export const MAX_EVIDENCE_PHOTOS = 5
+
+// Buyer reports a problem with a paid order, pausing the escrow release
+export const problemReportSchema = z.object({
+  transactionId: z.string().uuid('Invalid order ID'),
+  reason: z.nativeEnum(DisputeReason, {
+    error: 'Please choose a reason',
+  }),
+  description: z
+    .string()
+    .min(20, 'Please describe the problem in at least 20 characters')
+    .max(2000, 'Description must not exceed 2000 characters')
+    .trim(),
+  evidenceUrls: z
+    .array(z.string().url('Invalid photo URL'))
+    .max(MAX_EVIDENCE_PHOTOS, `Maximum ${MAX_EVIDENCE_PHOTOS} photos allowed`),
+})
+
+export type ProblemReportFormData = z.infer<typeof problemReportSchema>
+
+// Seller's response to an open dispute
+export const disputeResponseSchema = z.object({
+  transactionId: z.string().uuid('Invalid order ID'),
+  response: z
+    .string()
+    .min(20, 'Please respond in at least 20 characters')
+    .max(2000, 'Response must not exceed 2000 characters')
+    .trim(),
+})
+
+export type DisputeResponseFormData = z.infer<typeof disputeResponseSchema>
+
+// Admin decision on a dispute
+export const disputeResolutionSchema = z
+  .object({
+    disputeId: z.string().uuid('Invalid dispute ID'),
+    resolution: z.nativeEnum(DisputeResolution, {
+      error: 'Please choose a resolution',
+    }),
+    refundAmount: z.number().positive('Refund amount must be greater than 0').optional(),
+    note: z
+      .string()
+      .min(10, 'Please explain the decision in at least 10 characters')
+      .max(1000, 'Note must not exceed 1000 characters')
+      .trim(),
+  })
+  .refine((data) => data.resolution !== 'PARTIAL_REFUND' || data.refundAmount !== undefined, {
+    message: 'Enter the amount to refund',
+    path: ['refundAmount'],
+  })
+
+export type DisputeResolutionFormData = z.infer<typeof disputeResolutionSchema>
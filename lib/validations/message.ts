@@ -0,0 +1,36 @@
+import { z } from 'zod'
+import { MESSAGE_MODERATION_ACTIONS } from '@/lib/constants/messages'
+
+export const MAX_MESSAGE_LENGTH = 2000
+
+const messageBodySchema = z
+  .string()
+  .trim()
+  .min(1, 'Please write a message')
+  .max(MAX_MESSAGE_LENGTH, `Message must not exceed ${MAX_MESSAGE_LENGTH} characters`)
+
+// First message to a seller about a listing
+export const contactSellerSchema = z.object({
+  listingId: z.string().uuid('Invalid listing ID'),
+  body: messageBodySchema,
+})
+
+export type ContactSellerFormData = z.infer<typeof contactSellerSchema>
+
+// Reply in an existing conversation
+export const messageSchema = z.object({
+  conversationId: z.string().uuid('Invalid conversation ID'),
+  body: messageBodySchema,
+})
+
+export type MessageFormData = z.infer<typeof messageSchema>
+
+// Admin decision on a flagged message
+export const messageModerationSchema = z.object({
+  messageId: z.string().uuid('Invalid message ID'),
+  action: z.enum(MESSAGE_MODERATION_ACTIONS, {
+    error: 'Please choose an action',
+  }),
+})
+
+export type MessageModerationFormData = z.infer<typeof messageModerationSchema>
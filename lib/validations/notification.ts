@@ -0,0 +1,22 @@
+import { z } from 'zod'
+import { NotificationType } from '@prisma/client'
+
+// A notification the signed-in user opened
+export const notificationIdSchema = z.object({
+  notificationId: z.string().uuid('Invalid notification ID'),
+})
+
+export type NotificationIdData = z.infer<typeof notificationIdSchema>
+
+const channelSettingsSchema = z.object({
+  IN_APP: z.boolean(),
+  EMAIL: z.boolean(),
+})
+
+// Every channel of every kind, as saved from account settings
+export const notificationSettingsSchema = z.object({
+  channels: z.record(z.nativeEnum(NotificationType), channelSettingsSchema),
+  emailDigest: z.boolean(),
+})
+
+export type NotificationSettingsFormData = z.infer<typeof notificationSettingsSchema>
@@ -0,0 +1,69 @@
+import { z } from 'zod'
+
+// Largest amount that fits the Decimal(10, 2) offer columns
+export const MAX_OFFER_AMOUNT = 99_999_999.99
+
+// Buyer makes an offer on a listing
+export const makeOfferSchema = z.object({
+  listingId: z.string().uuid('Invalid listing ID'),
+  amount: z
+    .number({
+      error: 'Offer must be a valid number',
+    })
+    .positive('Offer must be greater than 0')
+    .max(MAX_OFFER_AMOUNT, 'Offer amount is too large')
+    .multipleOf(0.01, 'Offer can have at most 2 decimal places'),
+  message: z
+    .string()
+    .max(500, 'Message must not exceed 500 characters')
+    .trim()
+    .optional(),
+})
+
+export type MakeOfferFormData = z.infer<typeof makeOfferSchema>
+
+// Buyer or seller responds to the latest move on an offer
+export const offerIdSchema = z.object({
+  offerId: z.string().uuid('Invalid offer ID'),
+})
+
+export type OfferIdData = z.infer<typeof offerIdSchema>
+
+// Buyer or seller proposes a different amount
+export const counterOfferSchema = offerIdSchema.extend({
+  counterAmount: z
+    .number({
+      error: 'Counter-offer must be a valid number',
+    })
+    .positive('Counter-offer must be greater than 0')
+    .max(MAX_OFFER_AMOUNT, 'Counter-offer amount is too large')
+    .multipleOf(0.01, 'Counter-offer can have at most 2 decimal places'),
+  message: z
+    .string()
+    .max(500, 'Message must not exceed 500 characters')
+    .trim()
+    .optional(),
+})
+
+export type CounterOfferFormData = z.infer<typeof counterOfferSchema>
+
+// Optional rule amount; null clears the rule
+const ruleAmount = (label: string) =>
+  z
+    .number({
+      error: `${label} must be a valid number`,
+    })
+    .positive(`${label} must be greater than 0`)
+    .max(MAX_OFFER_AMOUNT, `${label} is too large`)
+    .multipleOf(0.01, `${label} can have at most 2 decimal places`)
+    .nullable()
+
+// Seller sets the automatic offer rules on a listing
+export const offerRulesSchema = z.object({
+  listingId: z.string().uuid('Invalid listing ID'),
+  autoDeclineBelow: ruleAmount('Auto-decline threshold'),
+  autoCounterAt: ruleAmount('Auto-counter amount'),
+  autoAcceptAt: ruleAmount('Auto-accept amount'),
+})
+
+export type OfferRulesFormData = z.infer<typeof offerRulesSchema>
@@ -0,0 +1,29 @@
+import { z } from 'zod'
+import { BankAccountType } from '@prisma/client'
+import { SA_BANKS } from '@/lib/constants/payouts'
+
+// Seller's bank account for payouts
+export const bankAccountSchema = z.object({
+  accountHolder: z
+    .string()
+    .min(2, 'Account holder name must be at least 2 characters')
+    .max(100, 'Account holder name must not exceed 100 characters')
+    .trim(),
+  bankName: z.enum(SA_BANKS, {
+    error: 'Please choose your bank',
+  }),
+  branchCode: z.string().regex(/^\d{6}$/, 'Branch code must be 6 digits'),
+  accountNumber: z.string().regex(/^\d{6,16}$/, 'Account number must be 6 to 16 digits'),
+  accountType: z.nativeEnum(BankAccountType, {
+    error: 'Please choose an account type',
+  }),
+})
+
+export type BankAccountFormData = z.infer<typeof bankAccountSchema>
+
+// Admin marks a payout batch as paid
+export const payoutBatchSchema = z.object({
+  batchId: z.string().uuid('Invalid batch ID'),
+})
+
+export type PayoutBatchFormData = z.infer<typeof payoutBatchSchema>
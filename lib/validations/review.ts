@@ -0,0 +1,70 @@
+import { z } from 'zod'
+import { ReviewReportReason } from '@prisma/client'
+import { MAX_RATING, MIN_RATING } from '@/lib/reviews/policy'
+import { REVIEW_MODERATION_ACTIONS } from '@/lib/constants/reviews'
+
+export const MAX_REVIEW_COMMENT_LENGTH = 1000
+
+// Rating and comment, shared by new reviews and edits
+export const reviewFieldsSchema = z.object({
+  rating: z
+    .number({ error: 'Please choose a rating' })
+    .int('Please choose a rating')
+    .min(MIN_RATING, 'Please choose a rating')
+    .max(MAX_RATING, `Rating must be at most ${MAX_RATING} stars`),
+  comment: z
+    .string()
+    .max(MAX_REVIEW_COMMENT_LENGTH, `Comment must not exceed ${MAX_REVIEW_COMMENT_LENGTH} characters`)
+    .trim()
+    .optional(),
+})
+
+export type ReviewFieldsFormData = z.infer<typeof reviewFieldsSchema>
+
+// Review the other party to a completed order
+export const reviewSchema = reviewFieldsSchema.extend({
+  transactionId: z.string().uuid('Invalid order ID'),
+})
+
+export type ReviewFormData = z.infer<typeof reviewSchema>
+
+// Edit a review during its grace period
+export const reviewEditSchema = reviewFieldsSchema.extend({
+  reviewId: z.string().uuid('Invalid review ID'),
+})
+
+export type ReviewEditFormData = z.infer<typeof reviewEditSchema>
+
+// The reviewee's public reply
+export const reviewReplySchema = z.object({
+  reviewId: z.string().uuid('Invalid review ID'),
+  reply: z
+    .string()
+    .trim()
+    .min(2, 'Please write a reply')
+    .max(MAX_REVIEW_COMMENT_LENGTH, `Reply must not exceed ${MAX_REVIEW_COMMENT_LENGTH} characters`),
+})
+
+export type ReviewReplyFormData = z.infer<typeof reviewReplySchema>
+
+// Report an abusive or fake review
+export const reviewReportSchema = z.object({
+  reviewId: z.string().uuid('Invalid review ID'),
+  reason: z.nativeEnum(ReviewReportReason, {
+    error: 'Please choose a reason',
+  }),
+  details: z.string().max(1000, 'Details must not exceed 1000 characters').trim().optional(),
+})
+
+export type ReviewReportFormData = z.infer<typeof reviewReportSchema>
+
+// Admin decision on a reported review
+export const reviewModerationSchema = z.object({
+  reviewId: z.string().uuid('Invalid review ID'),
+  action: z.enum(REVIEW_MODERATION_ACTIONS, {
+    error: 'Please choose an action',
+  }),
+  note: z.string().max(1000, 'Note must not exceed 1000 characters').trim().optional(),
+})
+
+export type ReviewModerationFormData = z.infer<typeof reviewModerationSchema>
@@ -0,0 +1,58 @@
+import { z } from 'zod'
+import { ListingCategory, ListingCondition, PricingType } from '@prisma/client'
+import { SA_PROVINCES } from '@/lib/constants/categories'
+import { toSearchTsQuery } from '@/lib/listings/search'
+
+// Listings page filters stored with a saved search
+export const savedSearchFiltersSchema = z
+  .object({
+    query: z
+      .string()
+      .trim()
+      .max(100, 'Search must not exceed 100 characters')
+      // Without a word to search for, every new listing would match
+      .refine((query) => query === '' || toSearchTsQuery(query) !== null, {
+        message: 'Search must include a letter or number',
+      })
+      .optional(),
+    category: z.nativeEnum(ListingCategory).optional(),
+    condition: z.nativeEnum(ListingCondition).optional(),
+    pricingType: z.nativeEnum(PricingType).optional(),
+    minPrice: z.number().min(0, 'Price must be positive').optional(),
+    maxPrice: z.number().min(0, 'Price must be positive').optional(),
+    province: z.enum(SA_PROVINCES).optional(),
+  })
+  .refine((filters) => Object.values(filters).some((value) => value !== undefined && value !== ''), {
+    message: 'Add a search term or at least one filter',
+  })
+  .refine(
+    ({ minPrice, maxPrice }) =>
+      minPrice === undefined || maxPrice === undefined || minPrice <= maxPrice,
+    { message: 'Minimum price must not exceed maximum price', path: ['maxPrice'] }
+  )
+
+export type SavedSearchFilters = z.infer<typeof savedSearchFiltersSchema>
+
+// Save the current listings filters under a name
+export const savedSearchSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Please name this search')
+    .max(60, 'Name must not exceed 60 characters'),
+  filters: savedSearchFiltersSchema,
+})
+
+export type SavedSearchFormData = z.infer<typeof savedSearchSchema>
+
+// Rename a saved search or change its filters
+export const updateSavedSearchSchema = savedSearchSchema.extend({
+  savedSearchId: z.string().uuid('Invalid saved search ID'),
+})
+
+export type UpdateSavedSearchFormData = z.infer<typeof updateSavedSearchSchema>
+
+// A saved search the signed-in user owns
+export const savedSearchIdSchema = z.object({
+  savedSearchId: z.string().uuid('Invalid saved search ID'),
+})
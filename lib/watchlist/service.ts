@@ -0,0 +1,139 @@
+/**
+ * Watchlist Service
+ *
+ * Buyers watch listings to hear when the price drops and when a listing is
+ * sold or paused. Watchers are notified through notify, so each of them
+ * gets the update in the app and by email as their preferences allow.
+ */
+
+import type { ListingStatus, PricingType, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import type { NotificationPayloads } from '@/lib/notifications/kinds'
+import { notify } from '@/lib/notifications/service'
+
+// Listings buyers can start watching; paused ones may come back
+const WATCHABLE_LISTING_STATUSES: ListingStatus[] = ['APPROVED', 'PAUSED']
+
+// Watchers notified at once; each notification may send an email
+const NOTIFY_BATCH_SIZE = 10
+
+export type WatchlistNotificationType =
+  | 'WATCHED_PRICE_DROP'
+  | 'WATCHED_LISTING_SOLD'
+  | 'WATCHED_LISTING_PAUSED'
+
+/**
+ * Add a listing to the user's watchlist; watching it again changes nothing
+ */
+export async function addToWatchlist(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  listingId: string
+): Promise<{ added: boolean } | { error: string }> {
+  const listing = await tx.listing.findUnique({
+    where: { id: listingId },
+    select: { sellerId: true, status: true },
+  })
+
+  if (!listing || !WATCHABLE_LISTING_STATUSES.includes(listing.status)) {
+    return { error: 'This listing is not available' }
+  }
+
+  if (listing.sellerId === userId) {
+    return { error: 'You cannot watch your own listing' }
+  }
+
+  // ON CONFLICT DO NOTHING: a double click adds the listing once
+  const { count } = await tx.watchlistItem.createMany({
+    data: [{ userId, listingId }],
+    skipDuplicates: true,
+  })
+
+  return { added: count > 0 }
+}
+
+/**
+ * Remove a listing from the user's watchlist
+ *
+ * @returns Whether the listing was being watched
+ */
+export async function removeFromWatchlist(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  listingId: string
+): Promise<boolean> {
+  const { count } = await tx.watchlistItem.deleteMany({ where: { userId, listingId } })
+  return count > 0
+}
+
+/**
+ * Compare a listing's price before and after an edit
+ *
+ * @returns Both prices when a fixed price was lowered, otherwise null
+ */
+export function getPriceDrop(
+  before: { pricingType: PricingType; price: number | null },
+  after: { pricingType: PricingType; price: number | null }
+): { oldPrice: number; newPrice: number } | null {
+  // Switching to offers has no price to compare
+  if (before.pricingType !== 'FIXED' || after.pricingType !== 'FIXED') return null
+  if (before.price === null || after.price === null) return null
+
+  return after.price < before.price ? { oldPrice: before.price, newPrice: after.price } : null
+}
+
+/**
+ * Notify everyone watching a listing, a batch of watchers at a time
+ * Runs after the change has been committed; failures are logged, never thrown.
+ * Request handlers schedule it with after() so the response doesn't wait on emails
+ *
+ * @param options.exceptUserId - Watcher to leave out, e.g. the buyer of a sold listing
+ */
+export async function notifyWatchers<T extends WatchlistNotificationType>(
+  listingId: string,
+  type: T,
+  payload: NotificationPayloads[T],
+  options: { exceptUserId?: string } = {}
+): Promise<void> {
+  try {
+    const watchers = await prisma.watchlistItem.findMany({
+      where: {
+        listingId,
+        ...(options.exceptUserId && { userId: { not: options.exceptUserId } }),
+      },
+      select: { userId: true },
+    })
+
+    for (let i = 0; i < watchers.length; i += NOTIFY_BATCH_SIZE) {
+      const batch = watchers.slice(i, i + NOTIFY_BATCH_SIZE)
+      await Promise.all(batch.map(({ userId }) => notify(userId, type, payload)))
+    }
+  } catch (error) {
+    console.error('Watchlist notification error:', error)
+  }
+}
+
+/**
+ * Tell watchers a listing was sold once its payment is confirmed
+ * The buyer is left out even if they were watching it. Payment handlers pass
+ * it the soldTransactionId of an applied notification, scheduled with after()
+ */
+export async function notifyWatchersOfSale(transactionId: string): Promise<void> {
+  try {
+    const transaction = await prisma.transaction.findUnique({
+      where: { id: transactionId },
+      select: { buyerId: true, listing: { select: { id: true, title: true } } },
+    })
+    if (!transaction) return
+
+    const { listing } = transaction
+    await notifyWatchers(
+      listing.id,
+      'WATCHED_LISTING_SOLD',
+      { listingId: listing.id, title: listing.title },
+      { exceptUserId: transaction.buyerId }
+    )
+  } catch (error) {
+    console.error('Watchlist notification error:', error)
+  }
+}
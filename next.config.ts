@@ -1,6 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // pdfkit loads its font files from its package directory at runtime
+  serverExternalPackages: ['pdfkit'],
   images: {
     remotePatterns: [
       {
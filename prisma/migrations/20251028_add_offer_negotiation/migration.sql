@@ -0,0 +1,69 @@
+-- CreateEnum
+CREATE TYPE "OfferParty" AS ENUM ('BUYER', 'SELLER');
+
+-- CreateEnum
+CREATE TYPE "OfferMoveType" AS ENUM ('OFFER', 'COUNTER', 'ACCEPT', 'REJECT');
+
+-- AlterTable: negotiation summary on Offer
+ALTER TABLE "Offer" ADD COLUMN "lastMoveBy" "OfferParty" NOT NULL DEFAULT 'BUYER';
+ALTER TABLE "Offer" ADD COLUMN "lastMoveAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+ALTER TABLE "Offer" ADD COLUMN "moveCount" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "Offer" ADD COLUMN "agreedAmount" DECIMAL(10,2);
+
+-- CreateTable OfferMove
+CREATE TABLE "OfferMove" (
+    "id" TEXT NOT NULL,
+    "offerId" TEXT NOT NULL,
+    "party" "OfferParty" NOT NULL,
+    "type" "OfferMoveType" NOT NULL,
+    "amount" DECIMAL(10,2),
+    "message" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OfferMove_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OfferMove_offerId_createdAt_idx" ON "OfferMove"("offerId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "OfferMove" ADD CONSTRAINT "OfferMove_offerId_fkey"
+    FOREIGN KEY ("offerId") REFERENCES "Offer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: every existing offer starts with the buyer's opening move
+INSERT INTO "OfferMove" ("id", "offerId", "party", "type", "amount", "message", "createdAt")
+SELECT gen_random_uuid()::text, o."id", 'BUYER'::"OfferParty", 'OFFER'::"OfferMoveType", o."amount", o."message", o."createdAt"
+FROM "Offer" o;
+
+-- Backfill: single-round seller responses recorded before negotiation threads existed
+INSERT INTO "OfferMove" ("id", "offerId", "party", "type", "amount", "createdAt")
+SELECT
+    gen_random_uuid()::text,
+    o."id",
+    'SELLER'::"OfferParty",
+    CASE o."status"
+        WHEN 'COUNTERED' THEN 'COUNTER'::"OfferMoveType"
+        WHEN 'ACCEPTED' THEN 'ACCEPT'::"OfferMoveType"
+        ELSE 'REJECT'::"OfferMoveType"
+    END,
+    CASE o."status"
+        WHEN 'COUNTERED' THEN o."counterAmount"
+        WHEN 'ACCEPTED' THEN o."amount"
+        ELSE NULL
+    END,
+    o."respondedAt"
+FROM "Offer" o
+WHERE o."respondedAt" IS NOT NULL
+  AND o."status" IN ('COUNTERED', 'ACCEPTED', 'REJECTED');
+
+UPDATE "Offer"
+SET "lastMoveBy" = 'SELLER',
+    "lastMoveAt" = "respondedAt",
+    "moveCount" = 2,
+    "agreedAmount" = CASE WHEN "status" = 'ACCEPTED' THEN "amount" ELSE NULL END
+WHERE "respondedAt" IS NOT NULL
+  AND "status" IN ('COUNTERED', 'ACCEPTED', 'REJECTED');
+
+UPDATE "Offer"
+SET "lastMoveAt" = "createdAt"
+WHERE "respondedAt" IS NULL;
@@ -0,0 +1,7 @@
+-- AlterTable: per-listing automatic offer rules
+ALTER TABLE "Listing" ADD COLUMN "autoDeclineBelow" DECIMAL(10,2);
+ALTER TABLE "Listing" ADD COLUMN "autoCounterAt" DECIMAL(10,2);
+ALTER TABLE "Listing" ADD COLUMN "autoAcceptAt" DECIMAL(10,2);
+
+-- AlterTable: flag moves made by offer rules
+ALTER TABLE "OfferMove" ADD COLUMN "automated" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,61 @@
+-- CreateEnum
+CREATE TYPE "CommissionRuleType" AS ENUM ('DEFAULT', 'CATEGORY', 'PRICE_BAND', 'SELLER_PROMO');
+
+-- AlterEnum
+ALTER TYPE "AdminAction" ADD VALUE 'CREATE_COMMISSION_RULE';
+ALTER TYPE "AdminAction" ADD VALUE 'UPDATE_COMMISSION_RULE';
+ALTER TYPE "AdminAction" ADD VALUE 'DELETE_COMMISSION_RULE';
+
+-- AlterEnum
+ALTER TYPE "AuditTargetType" ADD VALUE 'COMMISSION_RULE';
+
+-- CreateTable
+CREATE TABLE "CommissionRule" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "CommissionRuleType" NOT NULL,
+    "rate" DECIMAL(5,4) NOT NULL,
+    "minFee" DECIMAL(10,2),
+    "maxFee" DECIMAL(10,2),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "categoryId" TEXT,
+    "minPrice" DECIMAL(10,2),
+    "maxPrice" DECIMAL(10,2),
+    "sellerId" TEXT,
+    "validFrom" TIMESTAMP(3),
+    "validUntil" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CommissionRule_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable: commission audit on Transaction
+ALTER TABLE "Transaction" ADD COLUMN "commissionRuleId" TEXT;
+ALTER TABLE "Transaction" ADD COLUMN "commissionRate" DECIMAL(5,4) NOT NULL DEFAULT 0.2;
+ALTER TABLE "Transaction" ADD COLUMN "commissionSnapshot" JSONB;
+
+-- CreateIndex
+CREATE INDEX "CommissionRule_type_isActive_idx" ON "CommissionRule"("type", "isActive");
+
+-- CreateIndex
+CREATE INDEX "CommissionRule_categoryId_idx" ON "CommissionRule"("categoryId");
+
+-- CreateIndex
+CREATE INDEX "CommissionRule_sellerId_idx" ON "CommissionRule"("sellerId");
+
+-- CreateIndex
+CREATE INDEX "Transaction_commissionRuleId_idx" ON "Transaction"("commissionRuleId");
+
+-- AddForeignKey
+ALTER TABLE "CommissionRule" ADD CONSTRAINT "CommissionRule_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CommissionRule" ADD CONSTRAINT "CommissionRule_sellerId_fkey" FOREIGN KEY ("sellerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_commissionRuleId_fkey" FOREIGN KEY ("commissionRuleId") REFERENCES "CommissionRule"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seed the default rule with the previous hard-coded 20%
+INSERT INTO "CommissionRule" ("id", "name", "type", "rate", "updatedAt")
+VALUES (gen_random_uuid()::text, 'Standard commission', 'DEFAULT', 0.2, CURRENT_TIMESTAMP);
@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "PaymentProvider" AS ENUM ('MOCK', 'PAYFAST');
+
+-- AlterTable: payment tracking on Transaction
+ALTER TABLE "Transaction" ADD COLUMN "paymentProvider" "PaymentProvider";
+ALTER TABLE "Transaction" ADD COLUMN "paymentReference" TEXT;
+ALTER TABLE "Transaction" ADD COLUMN "cancelledAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "PaymentEvent" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "provider" "PaymentProvider" NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "status" "TransactionStatus" NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "payload" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PaymentEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- A cancelled payment releases the listing, so a listing can have several
+-- transactions over time but only one that is not CANCELLED
+DROP INDEX "Transaction_listingId_key";
+
+-- CreateIndex
+CREATE INDEX "Transaction_listingId_idx" ON "Transaction"("listingId");
+
+-- CreateIndex (partial; not expressible in schema.prisma)
+CREATE UNIQUE INDEX "Transaction_listingId_active_key" ON "Transaction"("listingId") WHERE "status" <> 'CANCELLED';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentEvent_provider_eventId_key" ON "PaymentEvent"("provider", "eventId");
+
+-- CreateIndex
+CREATE INDEX "PaymentEvent_transactionId_idx" ON "PaymentEvent"("transactionId");
+
+-- AddForeignKey
+ALTER TABLE "PaymentEvent" ADD CONSTRAINT "PaymentEvent_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- AlterEnum
+ALTER TYPE "TransactionStatus" ADD VALUE 'AWAITING_CONFIRMATION';
+ALTER TYPE "TransactionStatus" ADD VALUE 'DISPUTED';
+
+-- CreateEnum
+CREATE TYPE "DisputeReason" AS ENUM ('NOT_RECEIVED', 'NOT_AS_DESCRIBED', 'DAMAGED', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "DisputeStatus" AS ENUM ('OPEN', 'RESOLVED');
+
+-- AlterTable: escrow hold on Transaction
+ALTER TABLE "Transaction" ADD COLUMN "paidAt" TIMESTAMP(3);
+ALTER TABLE "Transaction" ADD COLUMN "releaseAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "Dispute" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "reason" "DisputeReason" NOT NULL,
+    "description" TEXT NOT NULL,
+    "status" "DisputeStatus" NOT NULL DEFAULT 'OPEN',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "resolvedAt" TIMESTAMP(3),
+
+    CONSTRAINT "Dispute_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Transaction_status_releaseAt_idx" ON "Transaction"("status", "releaseAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Dispute_transactionId_key" ON "Dispute"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "Dispute_status_idx" ON "Dispute"("status");
+
+-- AddForeignKey
+ALTER TABLE "Dispute" ADD CONSTRAINT "Dispute_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- AlterEnum
+ALTER TYPE "AdminAction" ADD VALUE 'RESOLVE_DISPUTE';
+
+-- CreateEnum
+CREATE TYPE "DisputeResolution" AS ENUM ('FULL_REFUND', 'PARTIAL_REFUND', 'RELEASE_TO_SELLER');
+
+-- AlterTable: refunds on Transaction
+ALTER TABLE "Transaction" ADD COLUMN "refundedAmount" DECIMAL(10,2) NOT NULL DEFAULT 0;
+ALTER TABLE "Transaction" ADD COLUMN "refundedAt" TIMESTAMP(3);
+
+-- AlterTable: evidence, seller response and admin resolution on Dispute
+ALTER TABLE "Dispute" ADD COLUMN "evidenceUrls" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+ALTER TABLE "Dispute" ADD COLUMN "sellerResponse" TEXT;
+ALTER TABLE "Dispute" ADD COLUMN "sellerRespondedAt" TIMESTAMP(3);
+ALTER TABLE "Dispute" ADD COLUMN "resolution" "DisputeResolution";
+ALTER TABLE "Dispute" ADD COLUMN "refundAmount" DECIMAL(10,2);
+ALTER TABLE "Dispute" ADD COLUMN "resolutionNote" TEXT;
+ALTER TABLE "Dispute" ADD COLUMN "resolvedById" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Dispute_resolvedById_idx" ON "Dispute"("resolvedById");
+
+-- AddForeignKey
+ALTER TABLE "Dispute" ADD CONSTRAINT "Dispute_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,138 @@
+-- AlterEnum
+ALTER TYPE "AdminAction" ADD VALUE 'CREATE_PAYOUT_BATCH';
+ALTER TYPE "AdminAction" ADD VALUE 'MARK_PAYOUT_BATCH_PAID';
+
+-- AlterEnum
+ALTER TYPE "AuditTargetType" ADD VALUE 'PAYOUT_BATCH';
+
+-- CreateEnum
+CREATE TYPE "LedgerEntryType" AS ENUM ('SALE_CREDIT', 'REFUND_DEBIT', 'PAYOUT_DEBIT');
+
+-- CreateEnum
+CREATE TYPE "PayoutBatchStatus" AS ENUM ('PENDING', 'PAID');
+
+-- CreateEnum
+CREATE TYPE "BankAccountType" AS ENUM ('CHEQUE', 'SAVINGS', 'TRANSMISSION');
+
+-- CreateTable
+CREATE TABLE "LedgerEntry" (
+    "id" TEXT NOT NULL,
+    "sellerId" TEXT NOT NULL,
+    "type" "LedgerEntryType" NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "transactionId" TEXT,
+    "payoutId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BankAccount" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "accountHolder" TEXT NOT NULL,
+    "bankName" TEXT NOT NULL,
+    "branchCode" TEXT NOT NULL,
+    "accountNumber" TEXT NOT NULL,
+    "accountType" "BankAccountType" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BankAccount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PayoutBatch" (
+    "id" TEXT NOT NULL,
+    "status" "PayoutBatchStatus" NOT NULL DEFAULT 'PENDING',
+    "totalAmount" DECIMAL(12,2) NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "exportedAt" TIMESTAMP(3),
+    "paidAt" TIMESTAMP(3),
+
+    CONSTRAINT "PayoutBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Payout" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "sellerId" TEXT NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "reference" TEXT NOT NULL,
+    "accountHolder" TEXT NOT NULL,
+    "bankName" TEXT NOT NULL,
+    "branchCode" TEXT NOT NULL,
+    "accountNumber" TEXT NOT NULL,
+    "accountType" "BankAccountType" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Payout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerEntry_payoutId_key" ON "LedgerEntry"("payoutId");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_sellerId_createdAt_idx" ON "LedgerEntry"("sellerId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerEntry_transactionId_type_key" ON "LedgerEntry"("transactionId", "type");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BankAccount_userId_key" ON "BankAccount"("userId");
+
+-- CreateIndex
+CREATE INDEX "PayoutBatch_status_idx" ON "PayoutBatch"("status");
+
+-- CreateIndex
+CREATE INDEX "PayoutBatch_createdAt_idx" ON "PayoutBatch"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payout_reference_key" ON "Payout"("reference");
+
+-- CreateIndex
+CREATE INDEX "Payout_batchId_idx" ON "Payout"("batchId");
+
+-- CreateIndex
+CREATE INDEX "Payout_sellerId_idx" ON "Payout"("sellerId");
+
+-- AddForeignKey
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_sellerId_fkey" FOREIGN KEY ("sellerId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_payoutId_fkey" FOREIGN KEY ("payoutId") REFERENCES "Payout"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BankAccount" ADD CONSTRAINT "BankAccount_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PayoutBatch" ADD CONSTRAINT "PayoutBatch_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payout" ADD CONSTRAINT "Payout_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "PayoutBatch"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Payout" ADD CONSTRAINT "Payout_sellerId_fkey" FOREIGN KEY ("sellerId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Ledger entries are append-only; corrections are made with new entries
+CREATE FUNCTION "LedgerEntry_reject_change"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'LedgerEntry is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "LedgerEntry_append_only"
+    BEFORE UPDATE OR DELETE ON "LedgerEntry"
+    FOR EACH ROW EXECUTE FUNCTION "LedgerEntry_reject_change"();
+
+-- Backfill: credit every transaction already completed
+INSERT INTO "LedgerEntry" ("id", "sellerId", "type", "amount", "transactionId", "createdAt")
+SELECT gen_random_uuid()::text, "sellerId", 'SALE_CREDIT', "netAmount", "id", COALESCE("completedAt", "createdAt")
+FROM "Transaction"
+WHERE "status" = 'COMPLETED';
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "TaxDocumentType" AS ENUM ('RECEIPT', 'COMMISSION_INVOICE');
+
+-- CreateTable
+CREATE TABLE "TaxDocument" (
+    "id" TEXT NOT NULL,
+    "type" "TaxDocumentType" NOT NULL,
+    "number" INTEGER NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TaxDocument_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DocumentSequence" (
+    "type" "TaxDocumentType" NOT NULL,
+    "lastNumber" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "DocumentSequence_pkey" PRIMARY KEY ("type")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaxDocument_type_number_key" ON "TaxDocument"("type", "number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaxDocument_transactionId_type_key" ON "TaxDocument"("transactionId", "type");
+
+-- AddForeignKey
+ALTER TABLE "TaxDocument" ADD CONSTRAINT "TaxDocument_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- One counter row per document type, incremented under a row lock when a
+-- document is issued so numbers stay gapless
+INSERT INTO "DocumentSequence" ("type", "lastNumber") VALUES ('RECEIPT', 0), ('COMMISSION_INVOICE', 0);
@@ -0,0 +1,24 @@
+-- DropIndex: both parties may now review the same transaction
+DROP INDEX "Review_transactionId_key";
+
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN "updatedAt" TIMESTAMP(3);
+UPDATE "Review" SET "updatedAt" = "createdAt";
+ALTER TABLE "Review" ALTER COLUMN "updatedAt" SET NOT NULL;
+
+-- Ratings are whole stars from 1 to 5
+ALTER TABLE "Review" ADD CONSTRAINT "Review_rating_check" CHECK ("rating" BETWEEN 1 AND 5);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Review_transactionId_reviewerId_key" ON "Review"("transactionId", "reviewerId");
+
+-- CreateIndex
+CREATE INDEX "Review_revieweeId_createdAt_idx" ON "Review"("revieweeId", "createdAt");
+
+-- Backfill aggregates from the reviews that exist
+UPDATE "User" SET
+  "rating" = COALESCE(
+    (SELECT ROUND(AVG("rating")::numeric, 2) FROM "Review" WHERE "Review"."revieweeId" = "User"."id"),
+    0
+  ),
+  "reviewCount" = (SELECT COUNT(*) FROM "Review" WHERE "Review"."revieweeId" = "User"."id");
@@ -0,0 +1,53 @@
+-- AlterEnum
+ALTER TYPE "AdminAction" ADD VALUE 'HIDE_REVIEW';
+ALTER TYPE "AdminAction" ADD VALUE 'REMOVE_REVIEW';
+ALTER TYPE "AdminAction" ADD VALUE 'RESTORE_REVIEW';
+ALTER TYPE "AdminAction" ADD VALUE 'DISMISS_REVIEW_REPORTS';
+
+-- AlterEnum
+ALTER TYPE "AuditTargetType" ADD VALUE 'REVIEW';
+
+-- CreateEnum
+CREATE TYPE "ReviewStatus" AS ENUM ('VISIBLE', 'HIDDEN', 'REMOVED');
+
+-- CreateEnum
+CREATE TYPE "ReviewReportReason" AS ENUM ('ABUSIVE', 'FAKE', 'SPAM', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "Review" ADD COLUMN     "moderatedAt" TIMESTAMP(3),
+ADD COLUMN     "moderatedById" TEXT,
+ADD COLUMN     "moderationNote" TEXT,
+ADD COLUMN     "repliedAt" TIMESTAMP(3),
+ADD COLUMN     "reply" TEXT,
+ADD COLUMN     "status" "ReviewStatus" NOT NULL DEFAULT 'VISIBLE';
+
+-- CreateTable
+CREATE TABLE "ReviewReport" (
+    "id" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "reporterId" TEXT NOT NULL,
+    "reason" "ReviewReportReason" NOT NULL,
+    "details" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ReviewReport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Review_status_idx" ON "Review"("status");
+
+-- CreateIndex
+CREATE INDEX "ReviewReport_resolvedAt_idx" ON "ReviewReport"("resolvedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReviewReport_reviewId_reporterId_key" ON "ReviewReport"("reviewId", "reporterId");
+
+-- AddForeignKey
+ALTER TABLE "Review" ADD CONSTRAINT "Review_moderatedById_fkey" FOREIGN KEY ("moderatedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewReport" ADD CONSTRAINT "ReviewReport_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ReviewReport" ADD CONSTRAINT "ReviewReport_reporterId_fkey" FOREIGN KEY ("reporterId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- AlterEnum
+ALTER TYPE "AdminAction" ADD VALUE 'RELEASE_MESSAGE';
+ALTER TYPE "AdminAction" ADD VALUE 'BLOCK_MESSAGE';
+ALTER TYPE "AdminAction" ADD VALUE 'DISMISS_MESSAGE_FLAGS';
+
+-- AlterEnum
+ALTER TYPE "AuditTargetType" ADD VALUE 'MESSAGE';
+
+-- CreateEnum
+CREATE TYPE "MessageStatus" AS ENUM ('SENT', 'HELD', 'BLOCKED');
+
+-- CreateEnum
+CREATE TYPE "MessageScanAction" AS ENUM ('NONE', 'WARN', 'MASK', 'HOLD');
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "originalBody" TEXT,
+ADD COLUMN     "reviewedAt" TIMESTAMP(3),
+ADD COLUMN     "reviewedById" TEXT,
+ADD COLUMN     "scanAction" "MessageScanAction" NOT NULL DEFAULT 'NONE',
+ADD COLUMN     "scanRules" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "status" "MessageStatus" NOT NULL DEFAULT 'SENT';
+
+-- CreateIndex
+CREATE INDEX "Message_scanAction_reviewedAt_idx" ON "Message"("scanAction", "reviewedAt");
+
+-- AddForeignKey
+ALTER TABLE "Message" ADD CONSTRAINT "Message_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterTable
+-- Generated by Postgres, so every insert and update of title or description keeps it current
+ALTER TABLE "Listing" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+        setweight(to_tsvector('english', coalesce("description", '')), 'B')
+    ) STORED;
+
+-- CreateIndex
+CREATE INDEX "Listing_searchVector_idx" ON "Listing" USING GIN ("searchVector");
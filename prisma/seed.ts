@@ -21,6 +21,10 @@ async function main() {
   // Clear existing data (in order due to foreign key constraints)
   await prisma.review.deleteMany();
   await prisma.offer.deleteMany();
+  // The payout ledger is append-only (row deletes are rejected), so truncate it
+  await prisma.$executeRaw`TRUNCATE TABLE "LedgerEntry", "Payout", "PayoutBatch"`;
+  await prisma.taxDocument.deleteMany();
+  await prisma.documentSequence.updateMany({ data: { lastNumber: 0 } });
   await prisma.transaction.deleteMany();
   await prisma.listing.deleteMany();
   await prisma.user.deleteMany();
@@ -58,8 +62,6 @@ async function main() {
       role: 'SELLER',
       password: hashedPassword,
       emailVerified: new Date(),
-      rating: 4.5,
-      reviewCount: 12,
     },
   });
 
@@ -74,8 +76,6 @@ async function main() {
       role: 'BUYER',
       password: hashedPassword,
       emailVerified: new Date(),
-      rating: 4.8,
-      reviewCount: 8,
     },
   });
 
@@ -306,6 +306,17 @@ async function main() {
     },
   });
 
+  // Completed sales are credited to the seller's payout ledger
+  await prisma.ledgerEntry.create({
+    data: {
+      sellerId: seller.id,
+      type: 'SALE_CREDIT',
+      amount: transaction1.netAmount,
+      transactionId: transaction1.id,
+      createdAt: transaction1.completedAt!,
+    },
+  });
+
   console.log('Created 1 transaction.');
 
   // Create Offers
@@ -380,7 +391,7 @@ async function main() {
   console.log(`Created ${offers.length} offers.`);
 
   // Create a Review for the completed transaction
-  const review = await prisma.review.create({
+  await prisma.review.create({
     data: {
       transactionId: transaction1.id,
       reviewerId: buyer.id,
@@ -390,6 +401,12 @@ async function main() {
     },
   });
 
+  // Keep the seller's aggregate in step with their reviews
+  await prisma.user.update({
+    where: { id: seller.id },
+    data: { rating: 5, reviewCount: 1 },
+  });
+
   console.log('Created 1 review.');
 
   console.log('\nSeed completed successfully!');
@@ -0,0 +1,32 @@
+#!/usr/bin/env tsx
+/**
+ * Maintenance Sweeper CLI
+ *
+ * Runs one maintenance pass: expires stale offers, cancels abandoned
+ * payments, auto-releases held escrow payments, and purges expired tokens
+ * and sent digest entries (the full task list is in lib/maintenance/sweeper.ts).
+ * Same work as the /api/cron/maintenance route, for running from a shell or
+ * system cron.
+ *
+ * Run with: npx tsx scripts/run-maintenance.ts
+ *
+ * SAFE TO RE-RUN: Overlapping passes skip while another holds the lock
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { runMaintenance } from '../lib/maintenance/sweeper'
+
+const prisma = new PrismaClient()
+
+async function main() {
+  try {
+    await runMaintenance({ client: prisma })
+  } catch (error) {
+    console.error('❌ Maintenance failed:', error)
+    process.exit(1)
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+main()
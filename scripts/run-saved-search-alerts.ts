@@ -0,0 +1,30 @@
+#!/usr/bin/env tsx
+/**
+ * Saved Search Alerts CLI
+ *
+ * Notifies users about listings approved since their saved searches were
+ * last checked. Same work as the /api/cron/saved-searches route, for running
+ * from a shell or system cron.
+ *
+ * Run with: npx tsx scripts/run-saved-search-alerts.ts
+ *
+ * SAFE TO RE-RUN: Each search only covers listings approved since its last check
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { runSavedSearchAlerts } from '../lib/saved-searches/alerts'
+
+const prisma = new PrismaClient()
+
+async function main() {
+  try {
+    await runSavedSearchAlerts({ client: prisma })
+  } catch (error) {
+    console.error('❌ Saved search alerts failed:', error)
+    process.exit(1)
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+main()
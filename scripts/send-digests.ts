@@ -0,0 +1,30 @@
+#!/usr/bin/env tsx
+/**
+ * Notification Digest CLI
+ *
+ * Emails every user who opted into the daily digest their unsent
+ * low-priority notifications. Same work as the /api/cron/digest route, for
+ * running from a shell or system cron.
+ *
+ * Run with: npx tsx scripts/send-digests.ts
+ *
+ * SAFE TO RE-RUN: Entries are marked as sent, so each is emailed once
+ */
+
+import { PrismaClient } from '@prisma/client'
+import { sendDigests } from '../lib/notifications/digest'
+
+const prisma = new PrismaClient()
+
+async function main() {
+  try {
+    await sendDigests({ client: prisma })
+  } catch (error) {
+    console.error('❌ Digest run failed:', error)
+    process.exit(1)
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+main()
@@ -1,21 +1,20 @@
-import { sendEmail, getVerificationEmailHtml } from '@/lib/email';
+import { sendTemplateEmail } from '@/lib/email';
+import { getEmailFrom, getEmailTransport } from '@/lib/email/transport';
 
 async function testEmail() {
   try {
     console.log('🔧 Testing email configuration...');
     console.log('📧 To:', 'haim.derazon@gmail.com');
-    console.log('📤 From:', process.env.EMAIL_FROM);
-    console.log('🔑 API Key:', process.env.RESEND_API_KEY ? 'Set ✓' : 'Missing ✗');
+    console.log('📤 From:', getEmailFrom());
+    console.log('🚚 Transport:', getEmailTransport().name);
     console.log('');
 
     const testUrl = 'http://localhost:3000/auth/verify-email?token=test-token-123';
-    const html = getVerificationEmailHtml(testUrl, 'Haim');
 
     console.log('📬 Sending test email...');
-    const result = await sendEmail({
-      to: 'haim.derazon@gmail.com',
-      subject: 'Test Email - Second-Hand Marketplace',
-      html,
+    const result = await sendTemplateEmail('haim.derazon@gmail.com', {
+      template: 'verify-email',
+      data: { name: 'Haim', url: testUrl },
     });
 
     console.log('✅ Email sent successfully!');